@@ -69,6 +69,11 @@ git worktree remove ../$WORKTREE_NAME
       hotReload: process.env.NODE_ENV === 'development' || process.env.PLUGINS_HOT_RELOAD === 'true',
       // Auth is enabled by default, reads from auth.yml
       // To disable auth: auth: { disabled: true }
+      auth: {
+        excludePaths: ['/health', '/health/ready', '/api/docs*'],
+        // Refuse to start without users, API keys or JWT keys
+        onMissingCredentials: 'fail-startup',
+      },
 
       // User-defined agents with full SDK options
       agents: {
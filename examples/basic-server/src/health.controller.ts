@@ -1,10 +1,11 @@
-import { Controller, Get, Optional } from '@nestjs/common';
-import { PluginDiscoveryService } from '@tigz/claude-code-plugin-rest-api';
+import { Controller, Get, Inject, Optional, ServiceUnavailableException } from '@nestjs/common';
+import { AuthStatusService, PluginDiscoveryService } from '@tigz/claude-code-plugin-rest-api';
 
 @Controller('health')
 export class HealthController {
   constructor(
     @Optional() private readonly pluginDiscovery?: PluginDiscoveryService,
+    @Optional() @Inject(AuthStatusService) private readonly authStatus?: AuthStatusService,
   ) {}
 
   @Get()
@@ -21,4 +22,18 @@ export class HealthController {
       },
     };
   }
+
+  /**
+   * Readiness probe: 503 while auth is misconfigured
+   */
+  @Get('ready')
+  ready() {
+    const auth = this.authStatus?.getStatus();
+
+    if (auth && !auth.ready) {
+      throw new ServiceUnavailableException({ status: 'not ready', auth });
+    }
+
+    return { status: 'ready', auth };
+  }
 }
@@ -22,6 +22,8 @@ async function bootstrap() {
     .addTag('streaming', 'SSE streaming endpoints')
     .addTag('files', 'File upload and management')
     .addBasicAuth()
+    .addBearerAuth()
+    .addApiKey({ type: 'apiKey', name: 'X-API-Key', in: 'header' })
     .build();
 
   const document = SwaggerModule.createDocument(app, config);
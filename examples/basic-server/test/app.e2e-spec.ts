@@ -358,5 +358,33 @@ describe('Basic Server (e2e)', () => {
 
       expect(response.body.message).toBe('Request body validation failed');
     });
+
+    it('request-schema-agent single-request streaming should reject invalid request body', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/v1/agents/request-schema-agent')
+        .set('Accept', 'text/event-stream')
+        .send({ invalidField: 'test' })
+        .expect(400);
+
+      expect(response.body.message).toBe('Request body validation failed');
+    });
+
+    it('standard-agent should stream the execution when Accept is text/event-stream', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/v1/agents/standard-agent')
+        .set('Accept', 'text/event-stream')
+        .send({ prompt: 'Hello' })
+        .buffer(true)
+        .parse((res, callback) => {
+          let text = '';
+          res.on('data', (chunk: Buffer) => (text += chunk.toString()));
+          res.on('end', () => callback(null, text));
+        })
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('text/event-stream');
+      // Ends with a complete event (with credentials) or an error event (without)
+      expect(response.body).toMatch(/data: \{"type":"(complete|error)"/);
+    });
   });
 });
@@ -5,7 +5,8 @@ import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
-import { ClaudePluginModule } from '@tigz/claude-code-plugin-rest-api';
+import { createHmac } from 'crypto';
+import { AuthProvider, AuthStatusService, ClaudePluginModule, StreamTokenService } from '@tigz/claude-code-plugin-rest-api';
 import { HealthController } from '../src/health.controller.js';
 
 /**
@@ -16,6 +17,12 @@ import { HealthController } from '../src/health.controller.js';
  * - Valid credentials grant access
  * - Invalid credentials are rejected
  * - Excluded paths bypass authentication
+ * - Signed stream tokens authenticate only their stream session
+ * - JWTs are verified when configured
+ * - Roles and permissions restrict agents, plugins and admin routes
+ * - Composite providers and per-route schemes
+ * - Repeated failed logins are throttled and can be cleared by admins
+ * - auth.onMissingCredentials decides what happens without credentials
  * - Disabled auth allows all requests
  */
 
@@ -40,6 +47,13 @@ describe('Basic Auth (e2e)', () => {
     return 'Basic ' + Buffer.from(`${username}:${password}`).toString('base64');
   }
 
+  function hs256(payload: object, secret: string): string {
+    const data = [{ alg: 'HS256', typ: 'JWT' }, payload]
+      .map((part) => Buffer.from(JSON.stringify(part)).toString('base64url'))
+      .join('.');
+    return `${data}.${createHmac('sha256', secret).update(data).digest('base64url')}`;
+  }
+
   describe('Auth Enabled', () => {
     let app: INestApplication;
 
@@ -48,6 +62,7 @@ describe('Basic Auth (e2e)', () => {
 users:
   - username: admin
     password: secret123
+    roles: [admin]
   - username: readonly
     password: readpass
 `);
@@ -110,12 +125,68 @@ users:
     it('should reject malformed Authorization header', async () => {
       const response = await request(app.getHttpServer())
         .get('/v1/plugins')
-        .set('Authorization', 'Bearer token123')
+        .set('Authorization', 'Token token123')
         .expect(401);
 
       expect(response.body.message).toBe('Missing or invalid Authorization header');
     });
 
+    it('should reject unknown API keys', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/v1/plugins')
+        .set('Authorization', 'Bearer token123')
+        .expect(401);
+
+      expect(response.body.message).toBe('Invalid API key');
+    });
+
+    it('should let admins mint API keys usable as Bearer or X-API-Key', async () => {
+      const created = await request(app.getHttpServer())
+        .post('/v1/admin/api-keys')
+        .set('Authorization', basicAuth('admin', 'secret123'))
+        .send({ name: 'ci', description: 'CI pipeline' })
+        .expect(201);
+
+      expect(created.body.key).toMatch(/^cpk_/);
+      expect(created.body).toMatchObject({ name: 'ci', description: 'CI pipeline' });
+
+      await request(app.getHttpServer())
+        .get('/v1/plugins')
+        .set('Authorization', `Bearer ${created.body.key}`)
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .get('/v1/plugins')
+        .set('X-API-Key', created.body.key)
+        .expect(200);
+
+      // The listing never shows the key again
+      const listed = await request(app.getHttpServer())
+        .get('/v1/admin/api-keys')
+        .set('Authorization', basicAuth('admin', 'secret123'))
+        .expect(200);
+
+      expect(listed.body.apiKeys).toEqual([expect.not.objectContaining({ key: expect.anything() })]);
+
+      await request(app.getHttpServer())
+        .delete(`/v1/admin/api-keys/${created.body.id}`)
+        .set('Authorization', basicAuth('admin', 'secret123'))
+        .expect(204);
+
+      await request(app.getHttpServer())
+        .get('/v1/plugins')
+        .set('Authorization', `Bearer ${created.body.key}`)
+        .expect(401);
+    });
+
+    it('should require the admin role to manage API keys', async () => {
+      await request(app.getHttpServer())
+        .post('/v1/admin/api-keys')
+        .set('Authorization', basicAuth('readonly', 'readpass'))
+        .send({ name: 'sneaky' })
+        .expect(403);
+    });
+
     it('should allow requests with valid credentials', async () => {
       const response = await request(app.getHttpServer())
         .get('/v1/plugins')
@@ -158,6 +229,32 @@ users:
         .get('/health')
         .expect(200);
     });
+
+    it('should accept a signed stream token for its session stream', async () => {
+      const { token } = app.get(StreamTokenService).sign('session-1', { username: 'admin' });
+
+      const response = await request(app.getHttpServer())
+        .get(`/v1/stream/session-1?token=${token}`)
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('text/event-stream');
+    });
+
+    it('should reject stream tokens for other sessions and routes', async () => {
+      const { token } = app.get(StreamTokenService).sign('session-1', { username: 'admin' });
+
+      await request(app.getHttpServer())
+        .get(`/v1/stream/session-2?token=${token}`)
+        .expect(401);
+
+      await request(app.getHttpServer())
+        .delete(`/v1/stream/session-1?token=${token}`)
+        .expect(401);
+
+      await request(app.getHttpServer())
+        .get(`/v1/plugins?token=${token}`)
+        .expect(401);
+    });
   });
 
   describe('Auth Disabled', () => {
@@ -207,6 +304,410 @@ users:
     });
   });
 
+  describe('JWT', () => {
+    let app: INestApplication;
+
+    beforeEach(async () => {
+      await createAuthFile(`
+users:
+  - username: admin
+    password: secret
+`);
+
+      @Module({
+        imports: [
+          ClaudePluginModule.forRoot({
+            enablePluginEndpoints: true,
+            pluginDirectory: '.claude/plugins',
+            hotReload: false,
+            auth: {
+              disabled: false,
+              authFilePath: authFilePath,
+              jwt: { secret: 'jwt-secret', issuer: 'https://id.example.com', audience: 'plugin-api' },
+            },
+          }),
+        ],
+        controllers: [HealthController],
+      })
+      class JwtModule {}
+
+      const moduleFixture: TestingModule = await Test.createTestingModule({
+        imports: [JwtModule],
+      }).compile();
+
+      app = moduleFixture.createNestApplication();
+      await app.init();
+    });
+
+    afterEach(async () => {
+      await app.close();
+    });
+
+    it('should accept valid JWTs', async () => {
+      const token = hs256({
+        sub: 'alice',
+        iss: 'https://id.example.com',
+        aud: 'plugin-api',
+        exp: Math.floor(Date.now() / 1000) + 60,
+      }, 'jwt-secret');
+
+      await request(app.getHttpServer())
+        .get('/v1/plugins')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+    });
+
+    it('should reject JWTs with a bad signature or audience', async () => {
+      const claims = { sub: 'alice', iss: 'https://id.example.com', aud: 'plugin-api' };
+
+      const response = await request(app.getHttpServer())
+        .get('/v1/plugins')
+        .set('Authorization', `Bearer ${hs256(claims, 'wrong-secret')}`)
+        .expect(401);
+
+      expect(response.body.message).toBe('Invalid token');
+
+      await request(app.getHttpServer())
+        .get('/v1/plugins')
+        .set('Authorization', `Bearer ${hs256({ ...claims, aud: 'other' }, 'jwt-secret')}`)
+        .expect(401);
+
+      // Basic auth still works alongside JWTs
+      await request(app.getHttpServer())
+        .get('/v1/plugins')
+        .set('Authorization', basicAuth('admin', 'secret'))
+        .expect(200);
+    });
+  });
+
+  describe('Role-Based Access Control', () => {
+    let app: INestApplication;
+
+    beforeEach(async () => {
+      await createAuthFile(`
+roles:
+  developer:
+    - agents:helper:execute
+users:
+  - username: admin
+    password: secret
+    roles: [admin]
+  - username: dev
+    password: devpass
+    roles: [developer]
+  - username: plain
+    password: plainpass
+`);
+
+      @Module({
+        imports: [
+          ClaudePluginModule.forRoot({
+            agents: {
+              helper: { systemPrompt: 'You help.' },
+              'self-improver': { systemPrompt: 'You improve yourself.', permissionMode: 'bypassPermissions' },
+            },
+            enablePluginEndpoints: true,
+            pluginDirectory: '.claude/plugins',
+            hotReload: false,
+            auth: {
+              disabled: false,
+              authFilePath: authFilePath,
+            },
+          }),
+        ],
+        controllers: [HealthController],
+      })
+      class RbacModule {}
+
+      const moduleFixture: TestingModule = await Test.createTestingModule({
+        imports: [RbacModule],
+      }).compile();
+
+      app = moduleFixture.createNestApplication();
+      await app.init();
+    });
+
+    afterEach(async () => {
+      await app.close();
+    });
+
+    it('should list only the agents the caller may execute', async () => {
+      const dev = await request(app.getHttpServer())
+        .get('/v1/agents')
+        .set('Authorization', basicAuth('dev', 'devpass'))
+        .expect(200);
+
+      expect(dev.body.agents).toEqual(['helper']);
+
+      // Users without roles keep access to all agents
+      const plain = await request(app.getHttpServer())
+        .get('/v1/agents')
+        .set('Authorization', basicAuth('plain', 'plainpass'))
+        .expect(200);
+
+      expect(plain.body.agents).toEqual(expect.arrayContaining(['helper', 'self-improver']));
+    });
+
+    it('should reject agent routes without the permission', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/v1/agents/self-improver')
+        .set('Authorization', basicAuth('dev', 'devpass'))
+        .send({ prompt: 'Improve' })
+        .expect(403);
+
+      expect(response.body.message).toBe("Missing permission 'agents:self-improver:execute'");
+
+      await request(app.getHttpServer())
+        .get('/v1/agents/helper')
+        .set('Authorization', basicAuth('dev', 'devpass'))
+        .expect(200);
+    });
+
+    it('should require admin:reload for the reload webhook', async () => {
+      await request(app.getHttpServer())
+        .post('/webhook/reload')
+        .set('Authorization', basicAuth('plain', 'plainpass'))
+        .expect(403);
+
+      const response = await request(app.getHttpServer())
+        .post('/webhook/reload')
+        .set('Authorization', basicAuth('admin', 'secret'))
+        .expect(200);
+
+      expect(response.body).toMatchObject({ reloaded: true, authReloaded: true });
+    });
+
+    it('should apply auth.yml changes on reload', async () => {
+      await createAuthFile(`
+users:
+  - username: admin
+    password: rotated
+    roles: [admin]
+`);
+
+      await request(app.getHttpServer())
+        .post('/webhook/reload')
+        .set('Authorization', basicAuth('admin', 'secret'))
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .get('/v1/agents')
+        .set('Authorization', basicAuth('admin', 'secret'))
+        .expect(401);
+
+      await request(app.getHttpServer())
+        .get('/v1/agents')
+        .set('Authorization', basicAuth('admin', 'rotated'))
+        .expect(200);
+    });
+  });
+
+  describe('Composite Providers and Routes', () => {
+    let app: INestApplication;
+
+    const appUsers: AuthProvider = {
+      validate: async (username, password) => (username === 'alice' && password === 'alicepass' ? { username } : null),
+      validateApiKey: async (key) => (key === 'app-token' ? { username: 'alice' } : null),
+    };
+
+    beforeEach(async () => {
+      await createAuthFile(`
+users:
+  - username: ops
+    password: opspass
+    roles: [admin]
+`);
+
+      @Module({
+        imports: [
+          ClaudePluginModule.forRoot({
+            enablePluginEndpoints: true,
+            pluginDirectory: '.claude/plugins',
+            hotReload: false,
+            auth: {
+              authFilePath: authFilePath,
+              hotReload: false,
+              jwt: { secret: 'jwt-secret' },
+              providers: [
+                { name: 'ops', provider: 'yaml' },
+                { name: 'app', provider: appUsers },
+              ],
+              routes: [
+                { prefix: '/webhook', schemes: ['basic'], providers: ['ops'] },
+                { prefix: '/v1', schemes: ['api-key', 'jwt'] },
+                { prefix: '/v1/admin', providers: ['ops'] },
+              ],
+            },
+          }),
+        ],
+      })
+      class CompositeModule {}
+
+      const moduleFixture: TestingModule = await Test.createTestingModule({
+        imports: [CompositeModule],
+      }).compile();
+
+      app = moduleFixture.createNestApplication();
+      await app.init();
+    });
+
+    afterEach(async () => {
+      await app.close();
+    });
+
+    it('should accept Bearer credentials from the custom provider on /v1', async () => {
+      await request(app.getHttpServer())
+        .get('/v1/plugins')
+        .set('Authorization', 'Bearer app-token')
+        .expect(200);
+    });
+
+    it('should reject Basic credentials on /v1', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/v1/plugins')
+        .set('Authorization', basicAuth('alice', 'alicepass'))
+        .expect(401);
+
+      expect(response.body.message).toBe("Authentication scheme 'basic' is not accepted for /v1");
+    });
+
+    it('should accept only auth.yml users with Basic on /webhook', async () => {
+      await request(app.getHttpServer())
+        .post('/webhook/reload')
+        .set('Authorization', basicAuth('ops', 'opspass'))
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .post('/webhook/reload')
+        .set('Authorization', basicAuth('alice', 'alicepass'))
+        .expect(401);
+    });
+
+    it('should apply the longest matching prefix', async () => {
+      await request(app.getHttpServer())
+        .get('/v1/admin/lockouts')
+        .set('Authorization', basicAuth('ops', 'opspass'))
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .get('/v1/admin/lockouts')
+        .set('Authorization', 'Bearer app-token')
+        .expect(401);
+    });
+
+    it('should reject JWTs under a prefix that names providers', async () => {
+      const token = hs256({ sub: 'ops', roles: ['admin'], exp: Math.floor(Date.now() / 1000) + 60 }, 'jwt-secret');
+
+      await request(app.getHttpServer())
+        .get('/v1/plugins')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      const response = await request(app.getHttpServer())
+        .get('/v1/admin/lockouts')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(401);
+
+      expect(response.body.message).toBe("Authentication scheme 'jwt' is not accepted for /v1/admin");
+    });
+  });
+
+  describe('Brute-Force Protection', () => {
+    let app: INestApplication;
+
+    beforeEach(async () => {
+      await createAuthFile(`
+users:
+  - username: admin
+    password: secret123
+    roles: [admin]
+  - username: alice
+    password: alicepass
+`);
+
+      @Module({
+        imports: [
+          ClaudePluginModule.forRoot({
+            enablePluginEndpoints: true,
+            pluginDirectory: '.claude/plugins',
+            hotReload: false,
+            auth: {
+              authFilePath: authFilePath,
+              hotReload: false,
+              bruteForce: {
+                perUsername: { freeAttempts: 1, maxAttempts: 3 },
+                trustedProxies: ['127.0.0.1', '::1'],
+              },
+            },
+          }),
+        ],
+      })
+      class BruteForceModule {}
+
+      const moduleFixture: TestingModule = await Test.createTestingModule({
+        imports: [BruteForceModule],
+      }).compile();
+
+      app = moduleFixture.createNestApplication();
+      await app.init();
+    });
+
+    afterEach(async () => {
+      await app.close();
+    });
+
+    function failLogin(username: string, ip: string) {
+      return request(app.getHttpServer())
+        .get('/v1/plugins')
+        .set('Authorization', basicAuth(username, 'wrong'))
+        .set('X-Forwarded-For', ip);
+    }
+
+    it('should back off and lock out a username with Retry-After', async () => {
+      await failLogin('alice', '203.0.113.1').expect(401);
+
+      const backoff = await failLogin('alice', '203.0.113.2').expect(401);
+      expect(backoff.headers['retry-after']).toBeUndefined();
+
+      const blocked = await request(app.getHttpServer())
+        .get('/v1/plugins')
+        .set('Authorization', basicAuth('alice', 'alicepass'))
+        .set('X-Forwarded-For', '203.0.113.3')
+        .expect(429);
+
+      expect(blocked.headers['retry-after']).toBe('1');
+    });
+
+    it('should let admins list and clear lockouts', async () => {
+      await failLogin('alice', '203.0.113.1').expect(401);
+      await failLogin('alice', '203.0.113.1').expect(401);
+
+      const listed = await request(app.getHttpServer())
+        .get('/v1/admin/lockouts')
+        .set('Authorization', basicAuth('admin', 'secret123'))
+        .expect(200);
+
+      expect(listed.body.lockouts).toEqual([
+        expect.objectContaining({ scope: 'username', key: 'alice', failures: 2, lockedOut: false }),
+      ]);
+
+      await request(app.getHttpServer())
+        .delete('/v1/admin/lockouts/username/alice')
+        .set('Authorization', basicAuth('admin', 'secret123'))
+        .expect(204);
+
+      await request(app.getHttpServer())
+        .get('/v1/plugins')
+        .set('Authorization', basicAuth('alice', 'alicepass'))
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .get('/v1/admin/lockouts')
+        .set('Authorization', basicAuth('alice', 'alicepass'))
+        .expect(403);
+    });
+  });
+
   describe('Wildcard Exclude Paths', () => {
     let app: INestApplication;
 
@@ -280,7 +781,7 @@ users:
             auth: {
               disabled: false,
               authFilePath: '/nonexistent/path/auth.yml',
-              excludePaths: ['/health'],
+              excludePaths: ['/health', '/health/ready'],
             },
           }),
         ],
@@ -315,5 +816,64 @@ users:
         .get('/health')
         .expect(200);
     });
+
+    it('should report not ready', async () => {
+      expect(app.get(AuthStatusService).ready).toBe(false);
+
+      const response = await request(app.getHttpServer())
+        .get('/health/ready')
+        .expect(503);
+
+      expect(response.body.auth).toMatchObject({ missingCredentials: true, onMissingCredentials: 'deny-all' });
+    });
+  });
+
+  describe('Missing Credentials Policy', () => {
+    async function createApp(onMissingCredentials: 'fail-startup' | 'allow-all'): Promise<INestApplication> {
+      await createAuthFile('users: []\n');
+
+      @Module({
+        imports: [
+          ClaudePluginModule.forRoot({
+            enablePluginEndpoints: true,
+            pluginDirectory: '.claude/plugins',
+            hotReload: false,
+            auth: {
+              authFilePath: authFilePath,
+              hotReload: false,
+              onMissingCredentials,
+            },
+          }),
+        ],
+        controllers: [HealthController],
+      })
+      class MissingCredentialsModule {}
+
+      const moduleFixture: TestingModule = await Test.createTestingModule({
+        imports: [MissingCredentialsModule],
+      }).compile();
+
+      return moduleFixture.createNestApplication();
+    }
+
+    it('should refuse to start with fail-startup', async () => {
+      const app = await createApp('fail-startup');
+
+      await expect(app.init()).rejects.toThrow(/No credentials configured/);
+      await app.close();
+    });
+
+    it('should leave the API open with allow-all', async () => {
+      const app = await createApp('allow-all');
+      await app.init();
+
+      try {
+        await request(app.getHttpServer())
+          .get('/v1/plugins')
+          .expect(200);
+      } finally {
+        await app.close();
+      }
+    });
   });
 });
@@ -0,0 +1,126 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, Module } from '@nestjs/common';
+import request from 'supertest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { ClaudePluginModule, ExecutionHistoryService } from '@tigz/claude-code-plugin-rest-api';
+
+/**
+ * E2E tests for execution history.
+ *
+ * Executions are recorded through ExecutionHistoryService directly, so no execution reaches the SDK:
+ * - Callers list and read only their own executions
+ * - admin:executions grants access to everyone's, with filters
+ * - Transcripts return every recorded SDK message
+ */
+describe('Execution History (e2e)', () => {
+  let app: INestApplication;
+  let tempDir: string;
+  let aliceExecution: string;
+  let bobExecution: string;
+
+  function basicAuth(username: string, password: string): string {
+    return 'Basic ' + Buffer.from(`${username}:${password}`).toString('base64');
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'executions-e2e-'));
+    const authFilePath = path.join(tempDir, 'auth.yml');
+    await fs.writeFile(authFilePath, `
+users:
+  - username: alice
+    password: alicepass
+  - username: bob
+    password: bobpass
+  - username: auditor
+    password: auditorpass
+    permissions: ['admin:executions']
+`);
+
+    @Module({
+      imports: [
+        ClaudePluginModule.forRoot({
+          agents: {
+            helper: { systemPrompt: 'You help.' },
+          },
+          auth: { authFilePath },
+          executionHistory: { enabled: true, directory: path.join(tempDir, 'executions') },
+        }),
+      ],
+    })
+    class HistoryModule {}
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [HistoryModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+
+    const history = app.get(ExecutionHistoryService);
+    const alice = history.start({ kind: 'agent', name: 'helper' }, { username: 'alice' }, { prompt: 'Hello' })!;
+    alice.message({ type: 'system', subtype: 'init' } as never);
+    alice.message({ type: 'result', subtype: 'success', result: 'Hi' } as never);
+    alice.finish('succeeded', { success: true, cost: 0.01, turns: 1 });
+    await alice.flush();
+    aliceExecution = alice.id;
+
+    const bob = history.start({ kind: 'agent', name: 'helper' }, { username: 'bob' }, { prompt: 'Fail' })!;
+    bob.finish('failed', { error: 'boom' });
+    await bob.flush();
+    bobExecution = bob.id;
+  });
+
+  afterEach(async () => {
+    await app.close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should list only the caller\'s executions', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/v1/executions?username=bob')
+      .set('Authorization', basicAuth('alice', 'alicepass'))
+      .expect(200);
+
+    expect(response.body.count).toBe(1);
+    expect(response.body.executions[0]).toMatchObject({
+      id: aliceExecution,
+      username: 'alice',
+      status: 'succeeded',
+      cost: 0.01,
+      messageCount: 2,
+    });
+
+    await request(app.getHttpServer())
+      .get(`/v1/executions/${bobExecution}`)
+      .set('Authorization', basicAuth('alice', 'alicepass'))
+      .expect(404);
+  });
+
+  it('should let admin:executions filter across users', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/v1/executions?status=failed&name=helper')
+      .set('Authorization', basicAuth('auditor', 'auditorpass'))
+      .expect(200);
+
+    expect(response.body.executions.map((e: { id: string }) => e.id)).toEqual([bobExecution]);
+    expect(response.body.executions[0]).toMatchObject({ username: 'bob', error: 'boom' });
+
+    await request(app.getHttpServer())
+      .get('/v1/executions?status=done')
+      .set('Authorization', basicAuth('auditor', 'auditorpass'))
+      .expect(400);
+  });
+
+  it('should return the transcript of an execution', async () => {
+    const response = await request(app.getHttpServer())
+      .get(`/v1/executions/${aliceExecution}/transcript`)
+      .set('Authorization', basicAuth('alice', 'alicepass'))
+      .expect(200);
+
+    expect(response.body).toMatchObject({ id: aliceExecution, count: 2 });
+    expect(response.body.messages.map((m: { type: string }) => m.type)).toEqual(['system', 'result']);
+  });
+});
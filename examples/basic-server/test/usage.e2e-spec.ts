@@ -0,0 +1,110 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, Module } from '@nestjs/common';
+import request from 'supertest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { ClaudePluginModule, UsageService } from '@tigz/claude-code-plugin-rest-api';
+
+/**
+ * E2E tests for spend quotas.
+ *
+ * Spend is recorded through UsageService directly, so no execution reaches the SDK:
+ * - Exhausted quotas reject executions with 402 and Retry-After
+ * - Per-user limits replace the perUser default
+ * - GET /v1/usage reports the caller's remaining allowance
+ */
+describe('Spend Quotas (e2e)', () => {
+  let app: INestApplication;
+  let tempDir: string;
+
+  function basicAuth(username: string, password: string): string {
+    return 'Basic ' + Buffer.from(`${username}:${password}`).toString('base64');
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'usage-e2e-'));
+    const authFilePath = path.join(tempDir, 'auth.yml');
+    await fs.writeFile(authFilePath, `
+users:
+  - username: alice
+    password: alicepass
+  - username: ops
+    password: opspass
+`);
+
+    @Module({
+      imports: [
+        ClaudePluginModule.forRoot({
+          agents: {
+            helper: { systemPrompt: 'You help.' },
+          },
+          auth: { authFilePath },
+          quotas: {
+            perUser: { dailyUsd: 1 },
+            users: { ops: { dailyUsd: 10 } },
+            agents: { helper: { monthlyUsd: 50 } },
+          },
+        }),
+      ],
+    })
+    class QuotaModule {}
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [QuotaModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+
+    const usage = app.get(UsageService);
+    await usage.record({ kind: 'agent', name: 'helper' }, { username: 'alice' }, 1.25);
+    await usage.record({ kind: 'agent', name: 'helper' }, { username: 'ops' }, 1.25);
+  });
+
+  afterEach(async () => {
+    await app.close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should reject executions once the daily quota is spent', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/v1/agents/helper')
+      .set('Authorization', basicAuth('alice', 'alicepass'))
+      .send({ prompt: 'Hello' })
+      .expect(402);
+
+    expect(Number(response.headers['retry-after'])).toBeGreaterThan(0);
+    expect(response.body.message).toBe("Daily spend quota for user 'alice' exhausted ($1.25 of $1.00)");
+    expect(response.body.quota).toMatchObject({ scope: 'user', key: 'alice', window: 'daily', remainingUsd: 0 });
+
+    await request(app.getHttpServer())
+      .post('/v1/agents/helper/stream')
+      .set('Authorization', basicAuth('alice', 'alicepass'))
+      .send({ prompt: 'Hello' })
+      .expect(402);
+  });
+
+  it('should apply per-user limits instead of the default', async () => {
+    await request(app.getHttpServer())
+      .post('/v1/agents/helper/stream')
+      .set('Authorization', basicAuth('ops', 'opspass'))
+      .send({ prompt: 'Hello' })
+      .expect(201);
+  });
+
+  it('should report the remaining allowance to the caller', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/v1/usage?agent=helper')
+      .set('Authorization', basicAuth('ops', 'opspass'))
+      .expect(200);
+
+    expect(response.body).toMatchObject({ username: 'ops', count: 3 });
+    expect(response.body.quotas).toEqual([
+      expect.objectContaining({ scope: 'user', window: 'daily', limitUsd: 10, spentUsd: 1.25, remainingUsd: 8.75 }),
+      expect.objectContaining({ scope: 'user', window: 'monthly', spentUsd: 1.25 }),
+      expect.objectContaining({ scope: 'agent', key: 'helper', window: 'monthly', limitUsd: 50, remainingUsd: 47.5 }),
+    ]);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { AccessControlService, matchesPermission } from './access-control.service.js';
+import { AuthProvider } from './auth.types.js';
+
+describe('matchesPermission', () => {
+  it('should match exact permissions', () => {
+    expect(matchesPermission('admin:reload', 'admin:reload')).toBe(true);
+    expect(matchesPermission('admin:reload', 'admin:api-keys')).toBe(false);
+    expect(matchesPermission('agents:a:execute', 'agents:a')).toBe(false);
+  });
+
+  it('should match single-segment wildcards', () => {
+    expect(matchesPermission('agents:*:execute', 'agents:self-improver:execute')).toBe(true);
+    expect(matchesPermission('agents:*:execute', 'plugins:code-review:execute')).toBe(false);
+  });
+
+  it('should match everything after a trailing wildcard', () => {
+    expect(matchesPermission('plugins:code-review:*', 'plugins:code-review:execute')).toBe(true);
+    expect(matchesPermission('plugins:*', 'plugins:code-review:execute')).toBe(true);
+    expect(matchesPermission('*', 'admin:reload')).toBe(true);
+    expect(matchesPermission('plugins:code-review:*', 'plugins:code-review')).toBe(false);
+  });
+});
+
+describe('AccessControlService', () => {
+  it('should not restrict requests without a user when auth is not configured', () => {
+    const accessControl = new AccessControlService();
+
+    expect(accessControl.can(undefined, 'admin:reload')).toBe(true);
+  });
+
+  it('should give requests without a user the default permissions while authentication is enforced', () => {
+    const accessControl = new AccessControlService({ disabled: false });
+
+    expect(accessControl.can(undefined, 'agents:any:execute')).toBe(true);
+    expect(accessControl.can(undefined, 'admin:reload')).toBe(false);
+    expect(new AccessControlService({ defaultPermissions: [] }).can(undefined, 'agents:any:execute')).toBe(false);
+    expect(new AccessControlService({ disabled: true }).can(undefined, 'admin:reload')).toBe(true);
+  });
+
+  it('should give users without roles or permissions the default permissions', () => {
+    const accessControl = new AccessControlService();
+    const user = { username: 'dev' };
+
+    expect(accessControl.can(user, 'agents:any:execute')).toBe(true);
+    expect(accessControl.can(user, 'plugins:any:execute')).toBe(true);
+    expect(accessControl.can(user, 'admin:reload')).toBe(false);
+
+    const locked = new AccessControlService({ defaultPermissions: [] });
+    expect(locked.can(user, 'agents:any:execute')).toBe(false);
+  });
+
+  it('should resolve roles from options and the provider, with the built-in admin role', () => {
+    const provider: AuthProvider = {
+      validate: async () => null,
+      getRolePermissions: () => ({ reviewer: ['plugins:code-review:*'] }),
+    };
+    const accessControl = new AccessControlService({ roles: { ops: ['admin:reload'] } }, provider);
+
+    expect(accessControl.can({ username: 'a', roles: ['admin'] }, 'admin:api-keys')).toBe(true);
+    expect(accessControl.can({ username: 'o', roles: ['ops'] }, 'admin:reload')).toBe(true);
+    expect(accessControl.can({ username: 'o', roles: ['ops'] }, 'agents:x:execute')).toBe(false);
+    expect(accessControl.can({ username: 'r', roles: ['reviewer'] }, 'plugins:code-review:execute')).toBe(true);
+    expect(accessControl.can({ username: 'r', roles: ['reviewer', 'unknown'] }, 'plugins:other:execute')).toBe(false);
+  });
+
+  it('should combine direct permissions with role permissions', () => {
+    const accessControl = new AccessControlService({ roles: { ops: ['admin:reload'] } });
+    const user = { username: 'u', roles: ['ops'], permissions: ['agents:self-improver:execute'] };
+
+    expect(accessControl.permissionsOf(user)).toEqual(['agents:self-improver:execute', 'admin:reload']);
+  });
+});
@@ -0,0 +1,89 @@
+import { Injectable, Inject, Optional } from '@nestjs/common';
+import { AuthModuleOptions, AuthProvider, AuthUser, AUTH_OPTIONS, AUTH_PROVIDER } from './auth.types.js';
+import { AuthStatusService } from './auth-status.service.js';
+
+/** Permissions of users with neither roles nor permissions */
+const DEFAULT_PERMISSIONS = ['agents:*', 'plugins:*'];
+
+/** Roles available without configuration; configured roles of the same name replace them */
+const BUILTIN_ROLES: Record<string, string[]> = {
+  admin: ['*'],
+};
+
+/**
+ * Whether a permission pattern grants a permission. Both are `:`-separated;
+ * `*` matches any one segment, and a trailing `*` matches all remaining ones
+ * (`plugins:code-review:*`, `agents:*`, `*`).
+ */
+export function matchesPermission(pattern: string, permission: string): boolean {
+  const patternSegments = pattern.split(':');
+  const segments = permission.split(':');
+
+  for (let i = 0; i < patternSegments.length; i++) {
+    const expected = patternSegments[i];
+    if (expected === '*' && i === patternSegments.length - 1) {
+      return segments.length > i;
+    }
+    if (i >= segments.length || (expected !== '*' && expected !== segments[i])) {
+      return false;
+    }
+  }
+
+  return patternSegments.length === segments.length;
+}
+
+/**
+ * Resolves what an authenticated user may do: permissions on the AuthUser plus
+ * those of its roles, from `auth.roles` and the provider (auth.yml `roles`).
+ *
+ * Requests without a user are only unrestricted while authentication is off
+ * (auth disabled, or no credentials under `allow-all`). On excluded paths they
+ * get the default permissions, like users without roles.
+ */
+@Injectable()
+export class AccessControlService {
+  constructor(
+    @Optional() @Inject(AUTH_OPTIONS) private readonly options?: AuthModuleOptions,
+    @Optional() @Inject(AUTH_PROVIDER) private readonly provider?: AuthProvider,
+    @Optional() private readonly authStatus?: AuthStatusService,
+  ) {}
+
+  /**
+   * Whether the user holds a permission, e.g. `agents:self-improver:execute`
+   */
+  can(user: AuthUser | undefined, permission: string): boolean {
+    if (!user && (!this.options || this.options.disabled || this.authStatus?.allowAll)) {
+      return true;
+    }
+    const permissions = user ? this.permissionsOf(user) : this.defaultPermissions();
+    return permissions.some((pattern) => matchesPermission(pattern, permission));
+  }
+
+  /**
+   * Effective permission patterns of a user
+   */
+  permissionsOf(user: AuthUser): string[] {
+    const roles = stringList(user.roles);
+    const permissions = stringList(user.permissions);
+
+    if (roles.length === 0 && permissions.length === 0) {
+      return this.defaultPermissions();
+    }
+
+    const definitions: Record<string, string[]> = {
+      ...BUILTIN_ROLES,
+      ...this.options?.roles,
+      ...this.provider?.getRolePermissions?.(),
+    };
+
+    return [...permissions, ...roles.flatMap((role) => definitions[role] ?? [])];
+  }
+
+  private defaultPermissions(): string[] {
+    return this.options?.defaultPermissions ?? DEFAULT_PERMISSIONS;
+  }
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { AuthStatusService } from './auth-status.service.js';
+import { AuthModuleOptions, AuthProvider } from './auth.types.js';
+import { JwtAuthStrategy } from './jwt.strategy.js';
+
+function yamlLikeProvider(counts: { users: number; apiKeys: number }): AuthProvider {
+  return {
+    validate: async () => null,
+    validateApiKey: async () => null,
+    getPrincipalCounts: () => counts,
+  };
+}
+
+function jwtWithKeys(keyCount: number): JwtAuthStrategy {
+  return { keyCount } as JwtAuthStrategy;
+}
+
+describe('AuthStatusService', () => {
+  it('should report the active schemes when credentials exist', () => {
+    const service = new AuthStatusService({}, yamlLikeProvider({ users: 2, apiKeys: 0 }), jwtWithKeys(1));
+    service.onApplicationBootstrap();
+
+    expect(service.ready).toBe(true);
+    expect(service.getStatus()).toMatchObject({
+      schemes: ['basic', 'jwt'],
+      users: 2,
+      apiKeys: 0,
+      jwtKeys: 1,
+      missingCredentials: false,
+    });
+  });
+
+  it('should deny all and report not ready by default when credentials are missing', () => {
+    const service = new AuthStatusService({}, yamlLikeProvider({ users: 0, apiKeys: 0 }), jwtWithKeys(0));
+
+    expect(() => service.onApplicationBootstrap()).not.toThrow();
+    expect(service.ready).toBe(false);
+    expect(service.allowAll).toBe(false);
+    expect(service.getStatus()).toMatchObject({ schemes: [], missingCredentials: true, onMissingCredentials: 'deny-all' });
+  });
+
+  it('should fail startup when configured to', () => {
+    const options: AuthModuleOptions = { onMissingCredentials: 'fail-startup' };
+    const service = new AuthStatusService(options, yamlLikeProvider({ users: 0, apiKeys: 0 }));
+
+    expect(() => service.onApplicationBootstrap()).toThrow(/No credentials configured/);
+  });
+
+  it('should allow all requests when configured to', () => {
+    const options: AuthModuleOptions = { onMissingCredentials: 'allow-all' };
+    const service = new AuthStatusService(options, yamlLikeProvider({ users: 0, apiKeys: 0 }));
+    service.onApplicationBootstrap();
+
+    expect(service.ready).toBe(true);
+    expect(service.allowAll).toBe(true);
+  });
+
+  it('should assume custom providers without counts have credentials', () => {
+    const provider: AuthProvider = { validate: async () => null };
+    const service = new AuthStatusService({}, provider);
+    service.onApplicationBootstrap();
+
+    expect(service.ready).toBe(true);
+    expect(service.getStatus()).toMatchObject({ schemes: ['basic'], users: undefined });
+  });
+
+  it('should be ready when auth is disabled', () => {
+    const service = new AuthStatusService();
+    service.onApplicationBootstrap();
+
+    expect(service.ready).toBe(true);
+    expect(service.getStatus().disabled).toBe(true);
+  });
+
+  it('should re-evaluate after auth.reloaded', () => {
+    const counts = { users: 0, apiKeys: 0 };
+    const eventEmitter = new EventEmitter2();
+    const service = new AuthStatusService({}, yamlLikeProvider(counts), jwtWithKeys(0), eventEmitter);
+    service.onApplicationBootstrap();
+    expect(service.ready).toBe(false);
+
+    counts.apiKeys = 1;
+    eventEmitter.emit('auth.reloaded');
+
+    expect(service.ready).toBe(true);
+    expect(service.getStatus().schemes).toEqual(['api-key']);
+  });
+});
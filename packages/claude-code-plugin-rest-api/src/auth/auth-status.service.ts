@@ -0,0 +1,145 @@
+import { Injectable, Inject, Logger, OnApplicationBootstrap, Optional } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  AuthModuleOptions,
+  AuthProvider,
+  AuthScheme,
+  AuthStatus,
+  AUTH_OPTIONS,
+  AUTH_PROVIDER,
+} from './auth.types.js';
+import { JwtAuthStrategy } from './jwt.strategy.js';
+
+/**
+ * Checks at bootstrap, and after every `auth.reloaded`, whether any credentials
+ * are configured, enforces `auth.onMissingCredentials` and reports the active
+ * schemes. `ready` backs readiness probes.
+ */
+@Injectable()
+export class AuthStatusService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(AuthStatusService.name);
+  private status: AuthStatus;
+
+  constructor(
+    @Optional() @Inject(AUTH_OPTIONS) private readonly options?: AuthModuleOptions,
+    @Optional() @Inject(AUTH_PROVIDER) private readonly provider?: AuthProvider,
+    @Optional() private readonly jwt?: JwtAuthStrategy,
+    @Optional() eventEmitter?: EventEmitter2,
+  ) {
+    this.status = this.evaluate();
+    eventEmitter?.on('auth.reloaded', () => this.refresh());
+  }
+
+  onApplicationBootstrap() {
+    this.status = this.evaluate();
+    const status = this.status;
+
+    if (status.disabled) {
+      this.logger.warn('Authentication is disabled');
+      return;
+    }
+
+    this.logger.log(`Authentication: ${this.describe(status)}`);
+
+    if (!status.missingCredentials) {
+      return;
+    }
+
+    const source = this.options?.authFilePath ?? 'auth.yml';
+    switch (status.onMissingCredentials) {
+      case 'fail-startup':
+        throw new Error(
+          `No credentials configured (no users or API keys in ${source}, no JWT keys). `
+          + `Add credentials, or set auth.onMissingCredentials to 'deny-all' or 'allow-all'`,
+        );
+      case 'allow-all':
+        this.logger.warn('No credentials configured: API is UNPROTECTED (auth.onMissingCredentials: allow-all)');
+        break;
+      default:
+        this.logger.error(
+          `No credentials configured: all authenticated requests will be rejected until ${source} `
+          + 'has users or API keys (auth.onMissingCredentials: deny-all)',
+        );
+    }
+  }
+
+  /**
+   * False while auth is misconfigured (no credentials under `deny-all`)
+   */
+  get ready(): boolean {
+    return this.status.ready;
+  }
+
+  /**
+   * Whether requests skip authentication because no credentials exist and the policy is `allow-all`
+   */
+  get allowAll(): boolean {
+    return this.status.missingCredentials && this.status.onMissingCredentials === 'allow-all';
+  }
+
+  getStatus(): AuthStatus {
+    return { ...this.status, schemes: [...this.status.schemes] };
+  }
+
+  private refresh(): void {
+    const previous = this.status;
+    this.status = this.evaluate();
+
+    if (previous.missingCredentials !== this.status.missingCredentials) {
+      const message = `Authentication after reload: ${this.describe(this.status)}`;
+      if (this.status.missingCredentials) {
+        this.logger.error(message);
+      } else {
+        this.logger.log(message);
+      }
+    }
+  }
+
+  private evaluate(): AuthStatus {
+    const onMissingCredentials = this.options?.onMissingCredentials ?? 'deny-all';
+    const jwtKeys = this.jwt?.keyCount ?? 0;
+
+    if (!this.options || this.options.disabled || !this.provider) {
+      return {
+        ready: true,
+        disabled: true,
+        schemes: [],
+        jwtKeys: 0,
+        missingCredentials: false,
+        onMissingCredentials,
+      };
+    }
+
+    const counts = this.provider.getPrincipalCounts?.();
+    const schemes: AuthScheme[] = [];
+    if (!counts || counts.users > 0) {
+      schemes.push('basic');
+    }
+    if (counts ? counts.apiKeys > 0 : typeof this.provider.validateApiKey === 'function') {
+      schemes.push('api-key');
+    }
+    if (jwtKeys > 0) {
+      schemes.push('jwt');
+    }
+
+    const missingCredentials = schemes.length === 0;
+    return {
+      ready: !missingCredentials || onMissingCredentials === 'allow-all',
+      disabled: false,
+      schemes,
+      users: counts?.users,
+      apiKeys: counts?.apiKeys,
+      jwtKeys,
+      missingCredentials,
+      onMissingCredentials,
+    };
+  }
+
+  private describe(status: AuthStatus): string {
+    const principals = status.users === undefined
+      ? 'custom provider'
+      : `${status.users} users, ${status.apiKeys} API keys`;
+    const schemes = status.schemes.length > 0 ? status.schemes.join(', ') : 'none';
+    return `${principals}, ${status.jwtKeys} JWT keys; schemes: ${schemes}`;
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ExecutionContext } from '@nestjs/common';
+import { BasicAuthGuard } from './auth.guard.js';
+import { AuthModuleOptions, AuthProvider } from './auth.types.js';
+import { AuthStatusService } from './auth-status.service.js';
+import { JwtAuthStrategy } from './jwt.strategy.js';
+import { LoginThrottleService } from './login-throttle.service.js';
+import { StreamTokenService } from './stream-token.service.js';
+
+function context(authorization: string): ExecutionContext {
+  const request = {
+    path: '/v1/plugins',
+    method: 'GET',
+    query: {},
+    headers: { authorization },
+    socket: { remoteAddress: '10.0.0.1' },
+  };
+  const response = { setHeader: vi.fn() };
+  return {
+    switchToHttp: () => ({ getRequest: () => request, getResponse: () => response }),
+  } as unknown as ExecutionContext;
+}
+
+function basicAuth(username: string, password: string): string {
+  return 'Basic ' + Buffer.from(`${username}:${password}`).toString('base64');
+}
+
+describe('BasicAuthGuard', () => {
+  function createGuard(options: AuthModuleOptions, provider: AuthProvider) {
+    return new BasicAuthGuard(
+      options,
+      provider,
+      new StreamTokenService(options),
+      new JwtAuthStrategy(options),
+      new AuthStatusService(options, provider),
+      new LoginThrottleService(options),
+    );
+  }
+
+  it('should let parallel guesses reach the provider no faster than sequential ones', async () => {
+    const validate = vi.fn(async () => {
+      // A slow password hash
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return null;
+    });
+    const guard = createGuard(
+      { bruteForce: { perUsername: { freeAttempts: 3, maxAttempts: 10 } } },
+      { validate },
+    );
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 20 }, () => guard.canActivate(context(basicAuth('alice', 'guess')))),
+    );
+
+    // The free attempts, plus the one whose failure starts the backoff
+    expect(validate).toHaveBeenCalledTimes(4);
+    expect(results.every((result) => result.status === 'rejected')).toBe(true);
+  });
+
+  it('should let parallel valid logins through once earlier ones finish', async () => {
+    const validate = vi.fn(async (username: string) => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return { username };
+    });
+    const guard = createGuard({ bruteForce: { perUsername: { freeAttempts: 1 } } }, { validate });
+
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => guard.canActivate(context(basicAuth('alice', 'secret')))),
+    );
+
+    expect(results).toEqual([true, true, true, true, true]);
+    expect(validate).toHaveBeenCalledTimes(5);
+  });
+});
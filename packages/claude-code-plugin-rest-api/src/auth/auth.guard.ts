@@ -3,20 +3,57 @@ import {
   CanActivate,
   ExecutionContext,
   UnauthorizedException,
+  HttpException,
+  HttpStatus,
   Inject,
   Logger,
 } from '@nestjs/common';
-import { Request } from 'express';
-import { AuthProvider, AuthModuleOptions, AUTH_OPTIONS, AUTH_PROVIDER } from './auth.types.js';
+import { Request, Response } from 'express';
+import {
+  AuthProvider,
+  AuthModuleOptions,
+  AuthRouteOptions,
+  AuthScheme,
+  AuthUser,
+  AUTH_OPTIONS,
+  AUTH_PROVIDER,
+} from './auth.types.js';
+import { CompositeAuthProvider } from './composite-auth.provider.js';
+import { StreamTokenService, STREAM_PATH_PREFIX } from './stream-token.service.js';
+import { JwtAuthStrategy } from './jwt.strategy.js';
+import { AuthStatusService } from './auth-status.service.js';
+import { LoginThrottleService } from './login-throttle.service.js';
+
+/** An `auth.routes` rule with the provider it authenticates against */
+type ResolvedRoute = AuthRouteOptions & { provider: AuthProvider };
 
+/**
+ * Global guard: authenticates requests with Basic credentials, API keys
+ * (`Authorization: Bearer` or `X-API-Key`), JWTs (`Authorization: Bearer`, when
+ * configured) or, for SSE streams, a signed stream token.
+ *
+ * Failed attempts are throttled per username and client IP; blocked clients
+ * get 429 with `Retry-After` (see `auth.bruteForce`). `auth.routes` restricts
+ * the schemes and providers per path prefix.
+ */
 @Injectable()
 export class BasicAuthGuard implements CanActivate {
   private readonly logger = new Logger(BasicAuthGuard.name);
+  /** Route rules, longest prefix first, with the providers they allow */
+  private readonly routes: ResolvedRoute[];
 
   constructor(
     @Inject(AUTH_OPTIONS) private readonly options: AuthModuleOptions,
     @Inject(AUTH_PROVIDER) private readonly provider: AuthProvider,
-  ) {}
+    private readonly streamTokens: StreamTokenService,
+    private readonly jwt: JwtAuthStrategy,
+    private readonly authStatus: AuthStatusService,
+    private readonly throttle: LoginThrottleService,
+  ) {
+    this.routes = (options.routes ?? [])
+      .map((route) => ({ ...route, provider: this.providerFor(route) }))
+      .sort((a, b) => b.prefix.length - a.prefix.length);
+  }
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
     // Auth disabled - allow all requests
@@ -24,6 +61,11 @@ export class BasicAuthGuard implements CanActivate {
       return true;
     }
 
+    // No credentials configured and auth.onMissingCredentials is 'allow-all'
+    if (this.authStatus.allowAll) {
+      return true;
+    }
+
     const request = context.switchToHttp().getRequest<Request>();
     const requestPath = request.path;
 
@@ -32,12 +74,56 @@ export class BasicAuthGuard implements CanActivate {
       return true;
     }
 
+    // Signed stream URLs (GET /v1/stream/:sessionId?token=...)
+    const streamUser = this.validateStreamToken(request);
+    if (streamUser) {
+      (request as Request & { user: unknown }).user = streamUser;
+      return true;
+    }
+
+    const route = this.routes.find(({ prefix }) => matchesPrefix(requestPath, prefix));
+    const user = await this.authenticate(request, context.switchToHttp().getResponse<Response>(), route);
+
+    // Attach user to request for downstream use
+    (request as Request & { user: unknown }).user = user;
+    return true;
+  }
+
+  /**
+   * Authenticate with the scheme the request uses: `X-API-Key` or
+   * `Authorization: Bearer` for API keys, `Authorization: Bearer` with a
+   * three-part token for JWTs, `Authorization: Basic` for username/password
+   */
+  private async authenticate(request: Request, response: Response, route?: ResolvedRoute): Promise<AuthUser> {
+    const apiKeyHeader = request.headers['x-api-key'];
     const authHeader = request.headers.authorization;
+    const ip = this.throttle.clientIp(request);
+    const provider = route?.provider ?? this.provider;
+
+    if (typeof apiKeyHeader === 'string' && apiKeyHeader) {
+      this.checkScheme('api-key', route);
+      return this.throttled(response, ip, undefined, 'api-key', () => this.authenticateApiKey(provider, apiKeyHeader));
+    }
+
+    if (authHeader?.startsWith('Bearer ')) {
+      const token = authHeader.slice(7).trim();
+      if (this.jwt.accepts(token)) {
+        this.checkScheme('jwt', route);
+        // JWTs are verified by auth.jwt, not by any of the providers a route may name
+        if (route?.providers) {
+          throw new UnauthorizedException(`Authentication scheme 'jwt' is not accepted for ${route.prefix}`);
+        }
+        return this.throttled(response, ip, undefined, 'jwt', async () => this.authenticateJwt(token));
+      }
+      this.checkScheme('api-key', route);
+      return this.throttled(response, ip, undefined, 'api-key', () => this.authenticateApiKey(provider, token));
+    }
 
     if (!authHeader || !authHeader.startsWith('Basic ')) {
       throw new UnauthorizedException('Missing or invalid Authorization header');
     }
 
+    this.checkScheme('basic', route);
     const base64Credentials = authHeader.slice(6);
     const credentials = Buffer.from(base64Credentials, 'base64').toString('utf-8');
     const [username, password] = credentials.split(':');
@@ -46,16 +132,123 @@ export class BasicAuthGuard implements CanActivate {
       throw new UnauthorizedException('Invalid credentials format');
     }
 
-    const user = await this.provider.validate(username, password);
+    return this.throttled(response, ip, username, 'basic', () => this.authenticateBasic(provider, username, password, ip));
+  }
+
+  private checkScheme(scheme: AuthScheme, route: ResolvedRoute | undefined): void {
+    if (route?.schemes && !route.schemes.includes(scheme)) {
+      throw new UnauthorizedException(`Authentication scheme '${scheme}' is not accepted for ${route.prefix}`);
+    }
+  }
+
+  /**
+   * Run an authentication attempt unless the IP or username is blocked, with
+   * parallel attempts reserved up front, counting a rejection as a failed
+   * attempt, and record the scheme on the user
+   */
+  private async throttled(
+    response: Response,
+    ip: string,
+    username: string | undefined,
+    scheme: AuthScheme,
+    attempt: () => Promise<AuthUser>,
+  ): Promise<AuthUser> {
+    const retryAfter = await this.throttle.reserve(ip, username);
+    if (retryAfter > 0) {
+      response.setHeader('Retry-After', String(retryAfter));
+      throw new HttpException('Too many failed authentication attempts', HttpStatus.TOO_MANY_REQUESTS);
+    }
+
+    try {
+      const user = await attempt();
+      this.throttle.recordSuccess(username);
+      return { ...user, authScheme: scheme };
+    } catch (error) {
+      if (error instanceof UnauthorizedException) {
+        this.throttle.recordFailure(ip, username);
+      }
+      throw error;
+    } finally {
+      this.throttle.release(ip, username);
+    }
+  }
+
+  private async authenticateBasic(provider: AuthProvider, username: string, password: string, ip: string): Promise<AuthUser> {
+    const user = await provider.validate(username, password);
 
     if (!user) {
-      this.logger.warn(`Failed auth attempt for user: ${username}`);
+      this.logger.warn(`Failed auth attempt for user: ${username} from ${ip}`);
       throw new UnauthorizedException('Invalid credentials');
     }
 
-    // Attach user to request for downstream use
-    (request as Request & { user: unknown }).user = user;
-    return true;
+    return user;
+  }
+
+  private authenticateJwt(token: string): AuthUser {
+    const user = this.jwt.verify(token);
+
+    if (!user) {
+      this.logger.warn('Failed auth attempt with JWT');
+      throw new UnauthorizedException('Invalid token');
+    }
+
+    return user;
+  }
+
+  private async authenticateApiKey(provider: AuthProvider, key: string): Promise<AuthUser> {
+    if (!provider.validateApiKey) {
+      throw new UnauthorizedException('API keys are not supported');
+    }
+
+    const user = key ? await provider.validateApiKey(key) : null;
+
+    if (!user) {
+      this.logger.warn('Failed auth attempt with API key');
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    return user;
+  }
+
+  /**
+   * Authenticate a stream token, accepted only for the stream of the session it was issued for
+   * @returns the session owner, or null if the request carries no stream token
+   */
+  private validateStreamToken(request: Request): AuthUser | null {
+    const token = request.query.token;
+    if (typeof token !== 'string' || request.method !== 'GET' || !request.path.startsWith(STREAM_PATH_PREFIX)) {
+      return null;
+    }
+
+    const sessionId = request.path.slice(STREAM_PATH_PREFIX.length);
+    if (!sessionId || sessionId.includes('/')) {
+      return null;
+    }
+
+    const user = this.streamTokens.verify(token, sessionId);
+    if (!user) {
+      this.logger.warn(`Rejected stream token for session: ${sessionId}`);
+      throw new UnauthorizedException('Invalid or expired stream token');
+    }
+
+    return { ...user, authScheme: 'stream-token' };
+  }
+
+  /**
+   * The provider a route rule authenticates against: the selected `auth.providers` entries, or all of them
+   * @throws at startup if the rule names providers that do not exist, or names providers and accepts JWTs
+   */
+  private providerFor(route: AuthRouteOptions): AuthProvider {
+    if (!route.providers) {
+      return this.provider;
+    }
+    if (route.schemes?.includes('jwt')) {
+      throw new Error(`auth.routes '${route.prefix}' names providers, which JWTs do not go through; remove 'jwt' from its schemes`);
+    }
+    if (!(this.provider instanceof CompositeAuthProvider)) {
+      throw new Error(`auth.routes '${route.prefix}' names providers, which requires auth.providers`);
+    }
+    return this.provider.select(route.providers);
   }
 
   private isExcludedPath(requestPath: string): boolean {
@@ -69,3 +262,11 @@ export class BasicAuthGuard implements CanActivate {
     });
   }
 }
+
+/**
+ * Whether a path is the prefix itself or below it (`/v1` matches `/v1/agents`, not `/v10`)
+ */
+function matchesPrefix(requestPath: string, prefix: string): boolean {
+  const base = prefix.endsWith('/') ? prefix.slice(0, -1) : prefix;
+  return requestPath === base || requestPath.startsWith(`${base}/`);
+}
@@ -1,5 +1,15 @@
 export interface AuthUser {
   username: string;
+  /** Role names, resolved to permissions through the role definitions */
+  roles?: string[];
+  /** Permissions granted directly, e.g. `agents:self-improver:execute` */
+  permissions?: string[];
+  /** How the request authenticated; set by the guard */
+  authScheme?: AuthScheme | 'stream-token';
+  /** Name of the `auth.providers` entry that accepted the credentials */
+  authProvider?: string;
+  /** Tenant from the JWT claim mapped by `jwt.claims.tenant` */
+  tenant?: string;
   [key: string]: unknown;
 }
 
@@ -9,6 +19,302 @@ export interface AuthProvider {
    * @returns AuthUser if valid, null if invalid
    */
   validate(username: string, password: string): Promise<AuthUser | null>;
+
+  /**
+   * Validate an API key sent as `Authorization: Bearer <key>` or `X-API-Key: <key>`.
+   * Providers without this method only support Basic auth.
+   * @returns AuthUser if the key is known and not expired, null otherwise
+   */
+  validateApiKey?(key: string): Promise<AuthUser | null>;
+
+  /**
+   * Role definitions (role name to permissions) known to the provider, such as
+   * the `roles` section of auth.yml. Merged over `AuthModuleOptions.roles`.
+   */
+  getRolePermissions?(): Record<string, string[]>;
+
+  /**
+   * Reload users and keys from the provider's source; called by POST /webhook/reload
+   * @returns false if the source could not be loaded and the previous state was kept
+   */
+  reload?(): Promise<boolean>;
+
+  /**
+   * Number of configured principals, for the startup report and `onMissingCredentials`.
+   * Providers without it are assumed to have credentials.
+   */
+  getPrincipalCounts?(): { users: number; apiKeys: number };
+}
+
+/**
+ * An API key as listed by the admin endpoints (never includes the key itself)
+ */
+export interface ApiKeyInfo {
+  id: string;
+  /** Unique, human-readable name (e.g. the calling service) */
+  name: string;
+  /** Username the key acts as; defaults to the key name */
+  owner?: string;
+  description?: string;
+  /** Without roles (or permissions in auth.yml), the key has those of its owner's auth.yml user */
+  roles?: string[];
+  /** ISO 8601 timestamps */
+  createdAt?: string;
+  expiresAt?: string;
+}
+
+export interface CreateApiKeyParams {
+  name: string;
+  owner?: string;
+  description?: string;
+  roles?: string[];
+  /** ISO 8601 expiry; keys without one never expire */
+  expiresAt?: string;
+}
+
+/**
+ * Implemented by auth providers that can mint and revoke API keys
+ * (used by the /v1/admin/api-keys endpoints)
+ */
+export interface ApiKeyManager {
+  /**
+   * Create a key; the plaintext is returned only here and stored hashed
+   */
+  createApiKey(params: CreateApiKeyParams): Promise<{ key: string; apiKey: ApiKeyInfo }>;
+  listApiKeys(): Promise<ApiKeyInfo[]>;
+  /**
+   * @returns false if no key has this ID
+   */
+  revokeApiKey(id: string): Promise<boolean>;
+}
+
+/**
+ * Whether `user` is the same identity as `owner`. Usernames alone can collide
+ * across `auth.providers` entries and JWT tenants, so those must match too.
+ */
+export function isSameUser(owner: AuthUser, user: AuthUser | undefined): boolean {
+  return !!user
+    && owner.username === user.username
+    && owner.authProvider === user.authProvider
+    && owner.tenant === user.tenant;
+}
+
+export function isApiKeyManager(provider: unknown): provider is ApiKeyManager {
+  return typeof (provider as ApiKeyManager | undefined)?.createApiKey === 'function'
+    && typeof (provider as ApiKeyManager).revokeApiKey === 'function'
+    && typeof (provider as ApiKeyManager).listApiKeys === 'function';
+}
+
+/**
+ * What to do when no credentials are configured (no users, API keys or JWT keys):
+ * - `fail-startup`: abort application bootstrap
+ * - `deny-all`: start, reject every authenticated request and report not ready
+ * - `allow-all`: start with the API unprotected, as if auth were disabled
+ */
+export type MissingCredentialsPolicy = 'fail-startup' | 'deny-all' | 'allow-all';
+
+export type AuthScheme = 'basic' | 'api-key' | 'jwt';
+
+/**
+ * Auth configuration as evaluated at startup and after each reload
+ */
+export interface AuthStatus {
+  /** False while credentials are missing, unless the policy is `allow-all` */
+  ready: boolean;
+  disabled: boolean;
+  /** Schemes that can currently authenticate someone */
+  schemes: AuthScheme[];
+  /** Principal counts; undefined for custom providers that do not report them */
+  users?: number;
+  apiKeys?: number;
+  jwtKeys: number;
+  missingCredentials: boolean;
+  onMissingCredentials: MissingCredentialsPolicy;
+}
+
+/**
+ * Failed attempts allowed for one username or client IP
+ */
+export interface LoginThrottleLimits {
+  /**
+   * Failures before backoff starts; each further failure doubles the wait
+   */
+  freeAttempts?: number;
+
+  /**
+   * Failures that trigger a lockout for `lockoutSeconds`
+   */
+  maxAttempts?: number;
+}
+
+/**
+ * Brute-force protection. Failed Basic logins count against the username and
+ * the client IP; failed API keys and JWTs against the client IP. Blocked
+ * requests get 429 with `Retry-After` without their credentials being checked.
+ */
+export interface BruteForceOptions {
+  /**
+   * @default true
+   */
+  enabled?: boolean;
+
+  /**
+   * @default { freeAttempts: 3, maxAttempts: 10 }
+   */
+  perUsername?: LoginThrottleLimits;
+
+  /**
+   * @default { freeAttempts: 10, maxAttempts: 50 }
+   */
+  perIp?: LoginThrottleLimits;
+
+  /**
+   * First backoff delay, doubled with each further failure
+   * @default 1
+   */
+  backoffBaseSeconds?: number;
+
+  /**
+   * Lockout duration, also the longest backoff
+   * @default 900
+   */
+  lockoutSeconds?: number;
+
+  /**
+   * Failures older than this are forgotten
+   * @default 900
+   */
+  windowSeconds?: number;
+
+  /**
+   * Reverse proxies (IPs or CIDR ranges, e.g. `10.0.0.0/8`) whose
+   * `X-Forwarded-For` header is trusted for the client IP
+   * @default []
+   */
+  trustedProxies?: string[];
+
+  /**
+   * Append audit events (lockouts and cleared lockouts) to this file as JSON lines
+   */
+  auditLogFile?: string;
+}
+
+export type LockoutScope = 'username' | 'ip';
+
+/**
+ * A username or client IP that is currently blocked
+ */
+export interface LockoutInfo {
+  scope: LockoutScope;
+  key: string;
+  failures: number;
+  /** True once `maxAttempts` is reached; false during backoff */
+  lockedOut: boolean;
+  /** ISO 8601 timestamps */
+  lastFailureAt: string;
+  blockedUntil: string;
+}
+
+/**
+ * Audit record for lockouts, emitted as `auth.audit` and written to `auditLogFile`
+ */
+export interface AuthAuditEvent {
+  type: 'lockout' | 'lockout-cleared';
+  scope: LockoutScope;
+  key: string;
+  failures?: number;
+  /** ISO 8601 */
+  blockedUntil?: string;
+  /** Username of the admin who cleared the lockout */
+  clearedBy?: string;
+  /** ISO 8601 */
+  timestamp: string;
+}
+
+/**
+ * An entry of `auth.providers`; `'yaml'` stands for the auth.yml provider
+ */
+export interface AuthProviderEntry {
+  name: string;
+  provider: AuthProvider | 'yaml';
+}
+
+/**
+ * Authentication rule for paths under a prefix; the longest matching prefix applies
+ */
+export interface AuthRouteOptions {
+  /** Path prefix, e.g. `/webhook` or `/v1` */
+  prefix: string;
+
+  /**
+   * Schemes accepted under the prefix
+   * @default all schemes
+   */
+  schemes?: AuthScheme[];
+
+  /**
+   * Names of the `auth.providers` entries to try, in order. JWTs are not
+   * accepted under a prefix that names providers.
+   * @default all providers
+   */
+  providers?: string[];
+}
+
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+/**
+ * Verification of JWTs sent as `Authorization: Bearer <jwt>`, e.g. from an
+ * existing identity service. Configure at least one key source.
+ */
+export interface JwtAuthOptions {
+  /**
+   * Shared secret for HS256
+   */
+  secret?: string;
+
+  /**
+   * PEM-encoded public key (RS256/ES256), inline
+   */
+  publicKey?: string;
+
+  /**
+   * Path to a PEM-encoded public key (RS256/ES256)
+   */
+  publicKeyFile?: string;
+
+  /**
+   * Path to a local JWKS file (`{ "keys": [...] }`); keys are selected by `kid`
+   */
+  jwksFile?: string;
+
+  /**
+   * Accepted algorithms
+   * @default all algorithms the configured keys support
+   */
+  algorithms?: JwtAlgorithm[];
+
+  /**
+   * Required `iss`; a list accepts any of them
+   */
+  issuer?: string | string[];
+
+  /**
+   * Required `aud`; the token must name at least one of these
+   */
+  audience?: string | string[];
+
+  /**
+   * Allowed clock skew when checking `exp` and `nbf`
+   * @default 0
+   */
+  clockToleranceSeconds?: number;
+
+  /**
+   * Maps AuthUser fields to claims. Nested claims use dots (`realm_access.roles`).
+   * Merged over the defaults; `username` must resolve to a string.
+   * @default { username: 'sub', roles: 'roles', permissions: 'permissions', tenant: 'tenant' }
+   */
+  claims?: Record<string, string>;
 }
 
 export interface AuthModuleOptions {
@@ -23,17 +329,93 @@ export interface AuthModuleOptions {
    */
   provider?: AuthProvider;
 
+  /**
+   * Ordered providers, tried in turn until one accepts the credentials
+   * (replaces `provider`). Use `'yaml'` to include the auth.yml provider:
+   * `[{ name: 'ops', provider: 'yaml' }, { name: 'app', provider: appUsers }]`
+   */
+  providers?: AuthProviderEntry[];
+
+  /**
+   * Per-path-prefix restrictions on schemes and providers, e.g. Basic only
+   * for `/webhook` and Bearer (API keys, JWTs) for `/v1`
+   */
+  routes?: AuthRouteOptions[];
+
   /**
    * Path to auth.yml file (only used with default provider)
    * @default 'auth.yml'
    */
   authFilePath?: string;
 
+  /**
+   * Watch auth.yml and reload users, API keys and roles on change
+   * (only used with default provider)
+   * @default true
+   */
+  hotReload?: boolean;
+
+  /**
+   * After a successful login, replace plaintext, bcrypt or outdated password
+   * hashes in auth.yml with scrypt hashes (only used with default provider).
+   * Rewriting the file drops its comments.
+   * @default false
+   */
+  rehashOnLogin?: boolean;
+
+  /**
+   * Policy when no users, API keys or JWT keys are configured
+   * @default 'deny-all'
+   */
+  onMissingCredentials?: MissingCredentialsPolicy;
+
   /**
    * Paths to exclude from authentication (supports wildcards)
    * @default ['/health', '/api/docs*']
    */
   excludePaths?: string[];
+
+  /**
+   * Role definitions: role name to permissions. Permissions are `:`-separated
+   * (`agents:<name>:execute`, `plugins:<name>:execute`, `admin:reload`,
+   * `admin:api-keys`); `*` matches one segment, or everything after it when last.
+   * The built-in `admin` role grants `*` unless redefined.
+   */
+  roles?: Record<string, string[]>;
+
+  /**
+   * Permissions of users that have neither roles nor permissions
+   * @default ['agents:*', 'plugins:*']
+   */
+  defaultPermissions?: string[];
+
+  /**
+   * Accept JWTs as `Authorization: Bearer <jwt>`, alongside Basic auth and API keys
+   */
+  jwt?: JwtAuthOptions;
+
+  /**
+   * Backoff and lockout after failed logins
+   */
+  bruteForce?: BruteForceOptions;
+
+  /**
+   * Signed stream URLs (`/v1/stream/:sessionId?token=...`) for clients that
+   * cannot send an Authorization header, such as EventSource
+   */
+  streamTokens?: {
+    /**
+     * HMAC secret; set it when running several instances
+     * @default random per process
+     */
+    secret?: string;
+
+    /**
+     * Token lifetime in seconds
+     * @default 300
+     */
+    ttlSeconds?: number;
+  };
 }
 
 export const AUTH_OPTIONS = 'AUTH_OPTIONS';
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CompositeAuthProvider } from './composite-auth.provider.js';
+import { AuthProvider, isApiKeyManager } from './auth.types.js';
+
+function usersProvider(users: Record<string, string>, extra: Partial<AuthProvider> = {}): AuthProvider {
+  return {
+    validate: async (username, password) => (users[username] === password ? { username } : null),
+    getPrincipalCounts: () => ({ users: Object.keys(users).length, apiKeys: 0 }),
+    ...extra,
+  };
+}
+
+describe('CompositeAuthProvider', () => {
+  it('should try providers in order and record which one accepted', async () => {
+    const composite = new CompositeAuthProvider([
+      { name: 'ops', provider: usersProvider({ admin: 'ops-pass', shared: 'ops' }) },
+      { name: 'app', provider: usersProvider({ alice: 'app-pass', shared: 'app' }) },
+    ]);
+
+    expect(await composite.validate('admin', 'ops-pass')).toEqual({ username: 'admin', authProvider: 'ops' });
+    expect(await composite.validate('alice', 'app-pass')).toEqual({ username: 'alice', authProvider: 'app' });
+    expect(await composite.validate('shared', 'app')).toEqual({ username: 'shared', authProvider: 'app' });
+    expect(await composite.validate('alice', 'ops-pass')).toBeNull();
+  });
+
+  it('should skip providers that throw', async () => {
+    const failing: AuthProvider = { validate: vi.fn().mockRejectedValue(new Error('directory unavailable')) };
+    const composite = new CompositeAuthProvider([
+      { name: 'ldap', provider: failing },
+      { name: 'ops', provider: usersProvider({ admin: 'ops-pass' }) },
+    ]);
+
+    expect(await composite.validate('admin', 'ops-pass')).toEqual({ username: 'admin', authProvider: 'ops' });
+  });
+
+  it('should only offer capabilities the providers have', async () => {
+    const withKeys = usersProvider({}, {
+      validateApiKey: async (key) => (key === 'k1' ? { username: 'ci' } : null),
+      createApiKey: vi.fn(),
+      listApiKeys: vi.fn().mockResolvedValue([]),
+      revokeApiKey: vi.fn(),
+    } as Partial<AuthProvider>);
+    const plain: AuthProvider = { validate: async () => null };
+
+    const composite = new CompositeAuthProvider([{ name: 'app', provider: plain }, { name: 'ops', provider: withKeys }]);
+    expect(await composite.validateApiKey?.('k1')).toEqual({ username: 'ci', authProvider: 'ops' });
+    expect(isApiKeyManager(composite)).toBe(true);
+    expect(composite.getPrincipalCounts).toBeUndefined();
+
+    const basicOnly = new CompositeAuthProvider([{ name: 'app', provider: plain }]);
+    expect(basicOnly.validateApiKey).toBeUndefined();
+    expect(isApiKeyManager(basicOnly)).toBe(false);
+  });
+
+  it('should sum principal counts and merge roles with earlier providers first', () => {
+    const composite = new CompositeAuthProvider([
+      { name: 'ops', provider: usersProvider({ admin: 'x' }, { getRolePermissions: () => ({ ops: ['admin:*'], shared: ['a'] }) }) },
+      { name: 'app', provider: usersProvider({ alice: 'x', bob: 'y' }, { getRolePermissions: () => ({ shared: ['b'] }) }) },
+    ]);
+
+    expect(composite.getPrincipalCounts?.()).toEqual({ users: 3, apiKeys: 0 });
+    expect(composite.getRolePermissions()).toEqual({ ops: ['admin:*'], shared: ['a'] });
+  });
+
+  it('should select a subset of providers by name', async () => {
+    const composite = new CompositeAuthProvider([
+      { name: 'ops', provider: usersProvider({ admin: 'ops-pass' }) },
+      { name: 'app', provider: usersProvider({ alice: 'app-pass' }) },
+    ]);
+
+    const appOnly = composite.select(['app']);
+    expect(await appOnly.validate('admin', 'ops-pass')).toBeNull();
+    expect(await appOnly.validate('alice', 'app-pass')).toEqual({ username: 'alice', authProvider: 'app' });
+    expect(composite.select(['app'])).toBe(appOnly);
+    expect(() => composite.select(['ldap'])).toThrow(/Unknown auth provider 'ldap'/);
+    expect(() => new CompositeAuthProvider([
+      { name: 'ops', provider: usersProvider({}) },
+      { name: 'ops', provider: usersProvider({}) },
+    ])).toThrow(/Duplicate/);
+  });
+});
@@ -0,0 +1,153 @@
+import { Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import {
+  ApiKeyInfo,
+  ApiKeyManager,
+  AuthProvider,
+  AuthUser,
+  CreateApiKeyParams,
+  isApiKeyManager,
+} from './auth.types.js';
+
+/**
+ * A provider in a CompositeAuthProvider; `name` is recorded on the AuthUser
+ * as `authProvider` and referenced by `auth.routes[].providers`
+ */
+export interface NamedAuthProvider {
+  name: string;
+  provider: AuthProvider;
+}
+
+/**
+ * Tries an ordered list of providers and accepts the first that recognizes the
+ * credentials, e.g. ops accounts from auth.yml followed by application users
+ * from a custom provider. A provider that throws is logged and skipped.
+ *
+ * Optional capabilities (API keys, principal counts, key management) exist
+ * only when the providers have them. Key management goes to the first provider
+ * that supports it. Role definitions are merged, with earlier providers
+ * taking precedence.
+ */
+export class CompositeAuthProvider implements AuthProvider, OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(CompositeAuthProvider.name);
+  private readonly subsets = new Map<string, CompositeAuthProvider>();
+
+  /**
+   * Present when any provider accepts API keys
+   */
+  readonly validateApiKey?: (key: string) => Promise<AuthUser | null>;
+
+  /**
+   * Present when every provider reports principal counts
+   */
+  readonly getPrincipalCounts?: () => { users: number; apiKeys: number };
+
+  readonly createApiKey?: (params: CreateApiKeyParams) => Promise<{ key: string; apiKey: ApiKeyInfo }>;
+  readonly listApiKeys?: () => Promise<ApiKeyInfo[]>;
+  readonly revokeApiKey?: (id: string) => Promise<boolean>;
+
+  constructor(private readonly providers: NamedAuthProvider[]) {
+    const names = new Set<string>();
+    for (const { name } of providers) {
+      if (names.has(name)) {
+        throw new Error(`Duplicate auth provider name '${name}'`);
+      }
+      names.add(name);
+    }
+
+    if (providers.some(({ provider }) => provider.validateApiKey)) {
+      this.validateApiKey = (key) => this.first('validateApiKey', (provider) => provider.validateApiKey?.(key));
+    }
+
+    const keyManager = providers.find(({ provider }) => isApiKeyManager(provider))?.provider as ApiKeyManager | undefined;
+    if (keyManager) {
+      this.createApiKey = (params) => keyManager.createApiKey(params);
+      this.listApiKeys = () => keyManager.listApiKeys();
+      this.revokeApiKey = (id) => keyManager.revokeApiKey(id);
+    }
+
+    if (providers.length > 0 && providers.every(({ provider }) => provider.getPrincipalCounts)) {
+      this.getPrincipalCounts = () => providers.reduce(
+        (total, { provider }) => {
+          const counts = provider.getPrincipalCounts!();
+          return { users: total.users + counts.users, apiKeys: total.apiKeys + counts.apiKeys };
+        },
+        { users: 0, apiKeys: 0 },
+      );
+    }
+  }
+
+  get names(): string[] {
+    return this.providers.map(({ name }) => name);
+  }
+
+  async onModuleInit() {
+    for (const { provider } of this.providers) {
+      await (provider as Partial<OnModuleInit>).onModuleInit?.();
+    }
+  }
+
+  async onModuleDestroy() {
+    for (const { provider } of this.providers) {
+      await (provider as Partial<OnModuleDestroy>).onModuleDestroy?.();
+    }
+  }
+
+  /**
+   * A composite of some of the providers, in the given order
+   * @throws if a name is unknown
+   */
+  select(names: string[]): CompositeAuthProvider {
+    const key = names.join('\0');
+    let subset = this.subsets.get(key);
+    if (!subset) {
+      subset = new CompositeAuthProvider(names.map((name) => {
+        const entry = this.providers.find((candidate) => candidate.name === name);
+        if (!entry) {
+          throw new Error(`Unknown auth provider '${name}'. Configured: ${this.names.join(', ')}`);
+        }
+        return entry;
+      }));
+      this.subsets.set(key, subset);
+    }
+    return subset;
+  }
+
+  validate(username: string, password: string): Promise<AuthUser | null> {
+    return this.first('validate', (provider) => provider.validate(username, password));
+  }
+
+  getRolePermissions(): Record<string, string[]> {
+    return Object.assign(
+      {},
+      ...[...this.providers].reverse().map(({ provider }) => provider.getRolePermissions?.() ?? {}),
+    );
+  }
+
+  /**
+   * Reload every provider that supports it
+   * @returns false if any of them kept its previous state
+   */
+  async reload(): Promise<boolean> {
+    const results = await Promise.all(this.providers.map(({ provider }) => provider.reload?.() ?? true));
+    return results.every(Boolean);
+  }
+
+  private async first(
+    method: string,
+    attempt: (provider: AuthProvider) => Promise<AuthUser | null> | undefined,
+  ): Promise<AuthUser | null> {
+    for (const { name, provider } of this.providers) {
+      let user: AuthUser | null | undefined;
+      try {
+        user = await attempt(provider);
+      } catch (error: unknown) {
+        this.logger.warn(`Auth provider '${name}' failed in ${method}: ${(error as Error).message}`);
+        continue;
+      }
+      if (user) {
+        return { ...user, authProvider: name };
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,12 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+import { AuthUser } from './auth.types.js';
+
+/**
+ * The authenticated user attached to the request by the auth guard
+ * (undefined when auth is disabled or the path is excluded)
+ */
+export const CurrentUser = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): AuthUser | undefined =>
+    context.switchToHttp().getRequest<Request & { user?: AuthUser }>().user,
+);
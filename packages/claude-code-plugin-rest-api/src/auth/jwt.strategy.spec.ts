@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { createHmac, generateKeyPairSync, sign, KeyObject } from 'crypto';
+import { JwtAuthStrategy } from './jwt.strategy.js';
+import { JwtAuthOptions } from './auth.types.js';
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function signJwt(header: object, payload: object, key: string | KeyObject): string {
+  const data = `${encode(header)}.${encode(payload)}`;
+  const alg = (header as { alg: string }).alg;
+  const signature = alg === 'HS256'
+    ? createHmac('sha256', key).update(data).digest()
+    : sign('sha256', Buffer.from(data), alg === 'ES256' ? { key: key as KeyObject, dsaEncoding: 'ieee-p1363' } : key as KeyObject);
+  return `${data}.${signature.toString('base64url')}`;
+}
+
+async function createStrategy(jwt: JwtAuthOptions): Promise<JwtAuthStrategy> {
+  const strategy = new JwtAuthStrategy({ jwt });
+  await strategy.onModuleInit();
+  return strategy;
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+
+describe('JwtAuthStrategy', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jwt-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should only accept three-part tokens when configured', async () => {
+    const strategy = await createStrategy({ secret: 'shh' });
+
+    expect(strategy.accepts('a.b.c')).toBe(true);
+    expect(strategy.accepts('cpk_abc')).toBe(false);
+    expect(new JwtAuthStrategy().accepts('a.b.c')).toBe(false);
+  });
+
+  it('should verify HS256 tokens and map default claims', async () => {
+    const strategy = await createStrategy({ secret: 'shh' });
+    const token = signJwt(
+      { alg: 'HS256', typ: 'JWT' },
+      { sub: 'alice', roles: ['admin'], tenant: 'acme', exp: now() + 60 },
+      'shh',
+    );
+
+    expect(strategy.verify(token)).toEqual({ username: 'alice', roles: ['admin'], tenant: 'acme' });
+    expect(strategy.verify(signJwt({ alg: 'HS256' }, { sub: 'alice' }, 'wrong'))).toBeNull();
+  });
+
+  it('should check exp and nbf with clock tolerance', async () => {
+    const strategy = await createStrategy({ secret: 'shh', clockToleranceSeconds: 30 });
+
+    expect(strategy.verify(signJwt({ alg: 'HS256' }, { sub: 'a', exp: now() - 60 }, 'shh'))).toBeNull();
+    expect(strategy.verify(signJwt({ alg: 'HS256' }, { sub: 'a', nbf: now() + 60 }, 'shh'))).toBeNull();
+    expect(strategy.verify(signJwt({ alg: 'HS256' }, { sub: 'a', exp: now() - 10, nbf: now() + 10 }, 'shh')))
+      .toEqual({ username: 'a' });
+  });
+
+  it('should check issuer and audience', async () => {
+    const strategy = await createStrategy({ secret: 'shh', issuer: 'https://id.example.com', audience: ['api', 'cli'] });
+
+    expect(strategy.verify(signJwt({ alg: 'HS256' }, { sub: 'a', iss: 'https://id.example.com', aud: ['other', 'api'] }, 'shh')))
+      .toEqual({ username: 'a' });
+    expect(strategy.verify(signJwt({ alg: 'HS256' }, { sub: 'a', iss: 'https://evil.example.com', aud: 'api' }, 'shh'))).toBeNull();
+    expect(strategy.verify(signJwt({ alg: 'HS256' }, { sub: 'a', iss: 'https://id.example.com', aud: 'other' }, 'shh'))).toBeNull();
+    expect(strategy.verify(signJwt({ alg: 'HS256' }, { sub: 'a', iss: 'https://id.example.com' }, 'shh'))).toBeNull();
+  });
+
+  it('should verify RS256 tokens against a PEM file', async () => {
+    const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const publicKeyFile = path.join(tempDir, 'public.pem');
+    await fs.writeFile(publicKeyFile, publicKey.export({ type: 'spki', format: 'pem' }));
+
+    const strategy = await createStrategy({ publicKeyFile });
+
+    expect(strategy.verify(signJwt({ alg: 'RS256' }, { sub: 'bob' }, privateKey))).toEqual({ username: 'bob' });
+  });
+
+  it('should select ES256 keys from a JWKS file by kid', async () => {
+    const first = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const second = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const jwksFile = path.join(tempDir, 'jwks.json');
+    await fs.writeFile(jwksFile, JSON.stringify({
+      keys: [
+        { ...first.publicKey.export({ format: 'jwk' }), kid: 'k1', alg: 'ES256', use: 'sig' },
+        { ...second.publicKey.export({ format: 'jwk' }), kid: 'k2' },
+      ],
+    }));
+
+    const strategy = await createStrategy({ jwksFile });
+
+    expect(strategy.verify(signJwt({ alg: 'ES256', kid: 'k2' }, { sub: 'carol' }, second.privateKey)))
+      .toEqual({ username: 'carol' });
+    expect(strategy.verify(signJwt({ alg: 'ES256', kid: 'k1' }, { sub: 'carol' }, second.privateKey))).toBeNull();
+  });
+
+  it('should reject algorithms the key was not configured for', async () => {
+    const { publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const pem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+    const strategy = await createStrategy({ publicKey: pem, algorithms: ['RS256'] });
+
+    // HS256 signed with the public key as the secret
+    expect(strategy.verify(signJwt({ alg: 'HS256' }, { sub: 'mallory' }, pem))).toBeNull();
+    expect(strategy.verify(`${encode({ alg: 'none' })}.${encode({ sub: 'mallory' })}.`)).toBeNull();
+  });
+
+  it('should map claims through a custom mapping', async () => {
+    const strategy = await createStrategy({
+      secret: 'shh',
+      claims: { username: 'preferred_username', roles: 'realm_access.roles', tenant: 'org' },
+    });
+    const token = signJwt(
+      { alg: 'HS256' },
+      { sub: '123', preferred_username: 'dave', realm_access: { roles: ['reader'] }, org: 'acme' },
+      'shh',
+    );
+
+    expect(strategy.verify(token)).toEqual({ username: 'dave', roles: ['reader'], tenant: 'acme' });
+    expect(strategy.verify(signJwt({ alg: 'HS256' }, { sub: '123' }, 'shh'))).toBeNull();
+  });
+});
@@ -0,0 +1,306 @@
+import { Injectable, Inject, Logger, OnModuleInit, Optional } from '@nestjs/common';
+import {
+  createHmac,
+  createPublicKey,
+  createSecretKey,
+  timingSafeEqual,
+  verify as verifySignature,
+  JsonWebKey,
+  KeyObject,
+} from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  AuthModuleOptions,
+  AuthUser,
+  JwtAlgorithm,
+  JwtAuthOptions,
+  AUTH_OPTIONS,
+} from './auth.types.js';
+
+const ALGORITHMS: JwtAlgorithm[] = ['HS256', 'RS256', 'ES256'];
+
+const DEFAULT_CLAIMS: Record<string, string> = {
+  username: 'sub',
+  roles: 'roles',
+  permissions: 'permissions',
+  tenant: 'tenant',
+};
+
+interface VerificationKey {
+  kid?: string;
+  algorithm: JwtAlgorithm;
+  key: KeyObject;
+}
+
+interface JwtHeader {
+  alg?: string;
+  kid?: string;
+}
+
+type JwtPayload = Record<string, unknown>;
+
+/**
+ * Verifies JWTs sent as `Authorization: Bearer <jwt>` against a shared secret,
+ * a PEM public key or a local JWKS file, then maps their claims onto AuthUser.
+ *
+ * Each key is tied to one algorithm, so a token cannot pick a weaker one
+ * (`none`, or HS256 signed with a public key).
+ */
+@Injectable()
+export class JwtAuthStrategy implements OnModuleInit {
+  private readonly logger = new Logger(JwtAuthStrategy.name);
+  private readonly options?: JwtAuthOptions;
+  private keys: VerificationKey[] = [];
+
+  constructor(@Optional() @Inject(AUTH_OPTIONS) authOptions?: AuthModuleOptions) {
+    this.options = authOptions?.jwt;
+  }
+
+  async onModuleInit() {
+    await this.loadKeys();
+  }
+
+  /**
+   * Whether JWT auth is configured
+   */
+  get enabled(): boolean {
+    return this.options !== undefined;
+  }
+
+  /**
+   * Number of usable verification keys
+   */
+  get keyCount(): number {
+    return this.keys.length;
+  }
+
+  /**
+   * Whether a Bearer token should be verified as a JWT rather than treated as an API key
+   */
+  accepts(token: string): boolean {
+    return this.enabled && token.split('.').length === 3;
+  }
+
+  /**
+   * Verify a token's signature and `exp`/`nbf`/`iss`/`aud`
+   * @returns the mapped AuthUser, or null if the token is invalid
+   */
+  verify(token: string): AuthUser | null {
+    if (!this.options) {
+      return null;
+    }
+
+    const [encodedHeader, encodedPayload, signature] = token.split('.');
+    const header = this.decode<JwtHeader>(encodedHeader);
+    const payload = this.decode<JwtPayload>(encodedPayload);
+    if (!header || !payload || signature === undefined) {
+      return this.reject('malformed token');
+    }
+
+    const algorithm = header.alg as JwtAlgorithm;
+    if (!ALGORITHMS.includes(algorithm) || (this.options.algorithms && !this.options.algorithms.includes(algorithm))) {
+      return this.reject(`algorithm '${header.alg}' not allowed`);
+    }
+
+    const data = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+    const signatureBytes = Buffer.from(signature, 'base64url');
+    const verified = this.keysFor(algorithm, header.kid)
+      .some((key) => this.checkSignature(key, data, signatureBytes));
+    if (!verified) {
+      return this.reject('invalid signature');
+    }
+
+    const now = Date.now() / 1000;
+    const tolerance = this.options.clockToleranceSeconds ?? 0;
+    if (payload.exp !== undefined && (typeof payload.exp !== 'number' || payload.exp + tolerance <= now)) {
+      return this.reject('token expired');
+    }
+    if (payload.nbf !== undefined && (typeof payload.nbf !== 'number' || payload.nbf - tolerance > now)) {
+      return this.reject('token not yet valid');
+    }
+
+    if (this.options.issuer !== undefined) {
+      const issuers = ([] as string[]).concat(this.options.issuer);
+      if (typeof payload.iss !== 'string' || !issuers.includes(payload.iss)) {
+        return this.reject(`unexpected issuer '${payload.iss}'`);
+      }
+    }
+
+    if (this.options.audience !== undefined) {
+      const audiences = ([] as string[]).concat(this.options.audience);
+      const tokenAudiences = ([] as unknown[]).concat(payload.aud ?? []);
+      if (!tokenAudiences.some((aud) => typeof aud === 'string' && audiences.includes(aud))) {
+        return this.reject('unexpected audience');
+      }
+    }
+
+    return this.toAuthUser(payload);
+  }
+
+  private async loadKeys(): Promise<void> {
+    if (!this.options) {
+      return;
+    }
+
+    const keys: VerificationKey[] = [];
+
+    if (this.options.secret) {
+      keys.push({ algorithm: 'HS256', key: createSecretKey(Buffer.from(this.options.secret)) });
+    }
+
+    const pems: Array<{ source: string; pem: string }> = [];
+    if (this.options.publicKey) {
+      pems.push({ source: 'publicKey', pem: this.options.publicKey });
+    }
+    if (this.options.publicKeyFile) {
+      const filePath = path.resolve(process.cwd(), this.options.publicKeyFile);
+      try {
+        pems.push({ source: filePath, pem: await fs.readFile(filePath, 'utf-8') });
+      } catch (error: unknown) {
+        this.logger.error(`Failed to read JWT public key ${filePath}: ${(error as Error).message}`);
+      }
+    }
+    for (const { source, pem } of pems) {
+      try {
+        const key = createPublicKey(pem);
+        keys.push({ algorithm: this.algorithmFor(key), key });
+      } catch (error: unknown) {
+        this.logger.error(`Invalid JWT public key in ${source}: ${(error as Error).message}`);
+      }
+    }
+
+    if (this.options.jwksFile) {
+      keys.push(...await this.loadJwks(path.resolve(process.cwd(), this.options.jwksFile)));
+    }
+
+    this.keys = keys;
+
+    if (keys.length === 0) {
+      this.logger.warn('JWT auth is configured without usable keys; all JWTs will be rejected');
+    } else {
+      this.logger.log(`Loaded ${keys.length} JWT verification keys`);
+    }
+  }
+
+  private async loadJwks(filePath: string): Promise<VerificationKey[]> {
+    let jwks: { keys?: Array<JsonWebKey & { kid?: string; alg?: string; use?: string }> };
+    try {
+      jwks = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error: unknown) {
+      this.logger.error(`Failed to load JWKS file ${filePath}: ${(error as Error).message}`);
+      return [];
+    }
+
+    const keys: VerificationKey[] = [];
+    for (const jwk of Array.isArray(jwks?.keys) ? jwks.keys : []) {
+      if (jwk.use === 'enc') {
+        continue;
+      }
+      try {
+        const key = jwk.kty === 'oct'
+          ? createSecretKey(Buffer.from(String(jwk.k), 'base64url'))
+          : createPublicKey({ key: jwk, format: 'jwk' });
+        const algorithm = this.algorithmFor(key);
+        if (jwk.alg && jwk.alg !== algorithm) {
+          throw new Error(`alg '${jwk.alg}' does not match the key type`);
+        }
+        keys.push({ kid: jwk.kid, algorithm, key });
+      } catch (error: unknown) {
+        this.logger.warn(`Skipping JWKS key '${jwk.kid ?? '(no kid)'}': ${(error as Error).message}`);
+      }
+    }
+    return keys;
+  }
+
+  /**
+   * The single algorithm a key may verify
+   */
+  private algorithmFor(key: KeyObject): JwtAlgorithm {
+    if (key.type === 'secret') {
+      return 'HS256';
+    }
+    if (key.asymmetricKeyType === 'rsa') {
+      return 'RS256';
+    }
+    if (key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'prime256v1') {
+      return 'ES256';
+    }
+    throw new Error(`unsupported key type '${key.asymmetricKeyType}'`);
+  }
+
+  /**
+   * Keys for an algorithm. With a `kid`, keys with that ID are used, falling
+   * back to keys configured without one (secret, PEM).
+   */
+  private keysFor(algorithm: JwtAlgorithm, kid: string | undefined): VerificationKey[] {
+    const candidates = this.keys.filter((key) => key.algorithm === algorithm);
+    if (kid === undefined) {
+      return candidates;
+    }
+    const matching = candidates.filter((key) => key.kid === kid);
+    return matching.length > 0 ? matching : candidates.filter((key) => key.kid === undefined);
+  }
+
+  private checkSignature(key: VerificationKey, data: Buffer, signature: Buffer): boolean {
+    try {
+      switch (key.algorithm) {
+        case 'HS256': {
+          const expected = createHmac('sha256', key.key).update(data).digest();
+          return expected.length === signature.length && timingSafeEqual(expected, signature);
+        }
+        case 'RS256':
+          return verifySignature('sha256', data, key.key, signature);
+        case 'ES256':
+          return verifySignature('sha256', data, { key: key.key, dsaEncoding: 'ieee-p1363' }, signature);
+      }
+    } catch {
+      return false;
+    }
+  }
+
+  private toAuthUser(payload: JwtPayload): AuthUser | null {
+    const mapping = { ...DEFAULT_CLAIMS, ...this.options?.claims };
+
+    const username = this.claim(payload, mapping.username);
+    if (typeof username !== 'string' || !username) {
+      return this.reject(`missing '${mapping.username}' claim`);
+    }
+
+    const user: AuthUser = { username };
+    for (const [field, claimPath] of Object.entries(mapping)) {
+      const value = this.claim(payload, claimPath);
+      if (field !== 'username' && value !== undefined) {
+        user[field] = value;
+      }
+    }
+    return user;
+  }
+
+  /**
+   * Read a claim by dotted path (`realm_access.roles`)
+   */
+  private claim(payload: JwtPayload, claimPath: string): unknown {
+    return claimPath.split('.').reduce<unknown>(
+      (value, segment) => (value !== null && typeof value === 'object' ? (value as JwtPayload)[segment] : undefined),
+      payload,
+    );
+  }
+
+  private decode<T>(segment: string | undefined): T | null {
+    if (!segment) {
+      return null;
+    }
+    try {
+      const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8'));
+      return value !== null && typeof value === 'object' && !Array.isArray(value) ? value : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private reject(reason: string): null {
+    this.logger.debug(`Rejected JWT: ${reason}`);
+    return null;
+  }
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Request } from 'express';
+import { LoginThrottleService } from './login-throttle.service.js';
+import { AuthAuditEvent } from './auth.types.js';
+
+function request(remoteAddress: string, forwardedFor?: string): Request {
+  return {
+    socket: { remoteAddress },
+    headers: forwardedFor === undefined ? {} : { 'x-forwarded-for': forwardedFor },
+  } as unknown as Request;
+}
+
+describe('LoginThrottleService', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should back off exponentially after the free attempts', () => {
+    vi.useFakeTimers();
+    const service = new LoginThrottleService({
+      bruteForce: { perUsername: { freeAttempts: 2, maxAttempts: 10 }, backoffBaseSeconds: 1 },
+    });
+
+    service.recordFailure('10.0.0.1', 'alice');
+    service.recordFailure('10.0.0.1', 'alice');
+    expect(service.check('10.0.0.1', 'alice')).toBe(0);
+
+    service.recordFailure('10.0.0.1', 'alice');
+    expect(service.check('10.0.0.2', 'alice')).toBe(1);
+
+    vi.advanceTimersByTime(1000);
+    service.recordFailure('10.0.0.1', 'alice');
+    expect(service.check('10.0.0.2', 'alice')).toBe(2);
+    expect(service.check('10.0.0.2', 'bob')).toBe(0);
+  });
+
+  it('should lock out at max attempts, audit it and release it after lockoutSeconds', () => {
+    vi.useFakeTimers();
+    const eventEmitter = new EventEmitter2();
+    const events: AuthAuditEvent[] = [];
+    eventEmitter.on('auth.audit', (event: AuthAuditEvent) => events.push(event));
+    const service = new LoginThrottleService({
+      bruteForce: { perUsername: { freeAttempts: 5, maxAttempts: 3 }, lockoutSeconds: 60 },
+    }, eventEmitter);
+
+    for (let i = 0; i < 3; i++) {
+      service.recordFailure('10.0.0.1', 'alice');
+    }
+
+    expect(service.check('10.0.0.2', 'alice')).toBe(60);
+    expect(service.listLockouts()).toEqual([
+      expect.objectContaining({ scope: 'username', key: 'alice', failures: 3, lockedOut: true }),
+    ]);
+    expect(events).toEqual([expect.objectContaining({ type: 'lockout', scope: 'username', key: 'alice' })]);
+
+    vi.advanceTimersByTime(60 * 1000);
+    expect(service.check('10.0.0.2', 'alice')).toBe(0);
+    expect(service.listLockouts()).toEqual([]);
+  });
+
+  it('should count failures per IP across usernames and keep them after a success', () => {
+    const service = new LoginThrottleService({
+      bruteForce: { perIp: { freeAttempts: 0, maxAttempts: 2 } },
+    });
+
+    service.recordFailure('10.0.0.1', 'alice');
+    service.recordSuccess('bob');
+    service.recordFailure('10.0.0.1');
+
+    expect(service.check('10.0.0.1', 'carol')).toBe(900);
+    expect(service.check('10.0.0.2', 'alice')).toBe(0);
+  });
+
+  it('should reset a username after a successful login', () => {
+    const service = new LoginThrottleService({
+      bruteForce: { perUsername: { freeAttempts: 2 } },
+    });
+
+    service.recordFailure('10.0.0.1', 'alice');
+    service.recordFailure('10.0.0.1', 'alice');
+    service.recordSuccess('alice');
+    service.recordFailure('10.0.0.1', 'alice');
+
+    expect(service.check('10.0.0.1', 'alice')).toBe(0);
+  });
+
+  it('should clear lockouts and audit who cleared them', () => {
+    const events: AuthAuditEvent[] = [];
+    const eventEmitter = new EventEmitter2();
+    eventEmitter.on('auth.audit', (event: AuthAuditEvent) => events.push(event));
+    const service = new LoginThrottleService({
+      bruteForce: { perUsername: { maxAttempts: 1 }, perIp: { maxAttempts: 1 } },
+    }, eventEmitter);
+
+    service.recordFailure('10.0.0.1', 'alice');
+    expect(service.clear('username', 'alice', 'admin')).toBe(true);
+    expect(service.clear('username', 'alice', 'admin')).toBe(false);
+    expect(service.check('10.0.0.2', 'alice')).toBe(0);
+    expect(service.check('10.0.0.1')).toBeGreaterThan(0);
+
+    expect(service.clearAll('admin')).toBe(1);
+    expect(service.check('10.0.0.1')).toBe(0);
+    expect(events.filter((event) => event.type === 'lockout-cleared')).toEqual([
+      expect.objectContaining({ scope: 'username', key: 'alice', clearedBy: 'admin' }),
+      expect.objectContaining({ scope: 'ip', key: '10.0.0.1', clearedBy: 'admin' }),
+    ]);
+  });
+
+  it('should evict the least recently failed keys beyond 10,000', () => {
+    const service = new LoginThrottleService({ bruteForce: { perIp: { freeAttempts: 0, maxAttempts: 50 } } });
+
+    service.recordFailure('10.0.0.1');
+    service.recordFailure('10.0.0.2');
+    for (let i = 0; i < 9_999; i++) {
+      service.recordFailure(`10.1.${Math.floor(i / 256)}.${i % 256}`);
+    }
+    service.recordFailure('10.0.0.2');
+
+    expect(service.listLockouts()).toHaveLength(10_000);
+    expect(service.check('10.0.0.1')).toBe(0);
+    expect(service.check('10.0.0.2')).toBeGreaterThan(0);
+  });
+
+  it('should do nothing when disabled', () => {
+    const service = new LoginThrottleService({ bruteForce: { enabled: false, perUsername: { maxAttempts: 1 } } });
+
+    service.recordFailure('10.0.0.1', 'alice');
+
+    expect(service.check('10.0.0.1', 'alice')).toBe(0);
+  });
+
+  it('should honor X-Forwarded-For only from trusted proxies', () => {
+    const service = new LoginThrottleService({
+      bruteForce: { trustedProxies: ['127.0.0.1', '10.0.0.0/8'] },
+    });
+    const untrusted = new LoginThrottleService();
+
+    expect(service.clientIp(request('::ffff:127.0.0.1', '203.0.113.7, 10.1.2.3'))).toBe('203.0.113.7');
+    expect(service.clientIp(request('127.0.0.1', '198.51.100.1, 203.0.113.7'))).toBe('203.0.113.7');
+    expect(service.clientIp(request('192.0.2.10', '203.0.113.7'))).toBe('192.0.2.10');
+    expect(untrusted.clientIp(request('127.0.0.1', '203.0.113.7'))).toBe('127.0.0.1');
+  });
+});
@@ -0,0 +1,363 @@
+import { Injectable, Inject, Logger, Optional } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { BlockList, isIP } from 'net';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Request } from 'express';
+import {
+  AuthAuditEvent,
+  AuthModuleOptions,
+  BruteForceOptions,
+  LockoutInfo,
+  LockoutScope,
+  AUTH_OPTIONS,
+} from './auth.types.js';
+
+const DEFAULT_LIMITS: Record<LockoutScope, { freeAttempts: number; maxAttempts: number }> = {
+  username: { freeAttempts: 3, maxAttempts: 10 },
+  ip: { freeAttempts: 10, maxAttempts: 50 },
+};
+const DEFAULT_BACKOFF_BASE_SECONDS = 1;
+const DEFAULT_LOCKOUT_SECONDS = 900;
+const DEFAULT_WINDOW_SECONDS = 900;
+
+/** Counters kept; beyond it expired ones are pruned, then the least recently failed evicted */
+const MAX_ENTRIES = 10_000;
+
+/** Authentication attempts under way for a key, and those waiting for one to end */
+interface InFlightAttempts {
+  count: number;
+  waiters: (() => void)[];
+}
+
+interface FailureEntry {
+  failures: number;
+  lastFailureAt: number;
+  blockedUntil: number;
+  lockedOut: boolean;
+}
+
+/**
+ * Counts failed logins per username and per client IP. After `freeAttempts`
+ * failures a key is blocked for an exponentially growing delay; at
+ * `maxAttempts` it is locked out for `lockoutSeconds`. Lockouts are audited.
+ *
+ * Attempts still being checked count against the free attempts too, so a
+ * burst of parallel guesses reaches the provider no faster than sequential ones.
+ *
+ * Counters are in memory, so each instance throttles on its own. At most
+ * 10,000 are kept: under a flood of distinct keys, the least recently failed
+ * are forgotten first.
+ */
+@Injectable()
+export class LoginThrottleService {
+  private readonly logger = new Logger('AuthAudit');
+  private readonly options: BruteForceOptions;
+  private readonly trustedProxies = new BlockList();
+  private readonly entries = new Map<string, FailureEntry>();
+  private readonly inFlight = new Map<string, InFlightAttempts>();
+
+  constructor(
+    @Optional() @Inject(AUTH_OPTIONS) authOptions?: AuthModuleOptions,
+    @Optional() private readonly eventEmitter?: EventEmitter2,
+  ) {
+    this.options = authOptions?.bruteForce ?? {};
+
+    for (const proxy of this.options.trustedProxies ?? []) {
+      const [address, prefix] = proxy.split('/');
+      const type = isIP(address) === 6 ? 'ipv6' : 'ipv4';
+      if (prefix === undefined) {
+        this.trustedProxies.addAddress(address, type);
+      } else {
+        this.trustedProxies.addSubnet(address, Number(prefix), type);
+      }
+    }
+  }
+
+  get enabled(): boolean {
+    return this.options.enabled !== false;
+  }
+
+  /**
+   * The client IP: the socket address, or the nearest `X-Forwarded-For`
+   * entry not added by a trusted proxy
+   */
+  clientIp(request: Request): string {
+    let ip = normalizeIp(request.socket?.remoteAddress ?? request.ip ?? '');
+    const header = request.headers['x-forwarded-for'];
+    const forwarded = (Array.isArray(header) ? header.join(',') : header ?? '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+
+    while (this.isTrustedProxy(ip) && forwarded.length > 0) {
+      ip = normalizeIp(forwarded.pop()!);
+    }
+    return ip;
+  }
+
+  /**
+   * Seconds until the IP (and username, if given) may try again; 0 if not blocked
+   */
+  check(ip: string, username?: string): number {
+    if (!this.enabled) {
+      return 0;
+    }
+
+    const now = Date.now();
+    const blockedUntil = Math.max(
+      this.entry('ip', ip, now)?.blockedUntil ?? 0,
+      username === undefined ? 0 : this.entry('username', username, now)?.blockedUntil ?? 0,
+    );
+    return blockedUntil > now ? Math.ceil((blockedUntil - now) / 1000) : 0;
+  }
+
+  /**
+   * Reserve an authentication attempt for the IP and username. While attempts
+   * under way would use up the free attempts, waits for them to end first.
+   * Call `release()` once the attempt has been recorded.
+   * @returns 0 once reserved, or the seconds until the IP or username may try again
+   */
+  async reserve(ip: string, username?: string): Promise<number> {
+    if (!this.enabled) {
+      return 0;
+    }
+
+    const keys = username === undefined ? [entryKey('ip', ip)] : [entryKey('ip', ip), entryKey('username', username)];
+    for (;;) {
+      const retryAfter = this.check(ip, username);
+      if (retryAfter > 0) {
+        return retryAfter;
+      }
+
+      const busy = keys.map((id) => this.inFlight.get(id)).find((attempts, i) => {
+        if (!attempts) {
+          return false;
+        }
+        const [scope, key] = splitEntryKey(keys[i]);
+        const failures = this.entry(scope, key, Date.now())?.failures ?? 0;
+        return failures + attempts.count > this.limits(scope).freeAttempts;
+      });
+      if (!busy) {
+        break;
+      }
+      await new Promise<void>((resolve) => busy.waiters.push(resolve));
+    }
+
+    for (const id of keys) {
+      const attempts = this.inFlight.get(id) ?? { count: 0, waiters: [] };
+      attempts.count++;
+      this.inFlight.set(id, attempts);
+    }
+    return 0;
+  }
+
+  /**
+   * End an attempt reserved with `reserve()`, letting waiting attempts re-check
+   */
+  release(ip: string, username?: string): void {
+    const keys = username === undefined ? [entryKey('ip', ip)] : [entryKey('ip', ip), entryKey('username', username)];
+    for (const id of keys) {
+      const attempts = this.inFlight.get(id);
+      if (!attempts) {
+        continue;
+      }
+      attempts.count--;
+      const waiters = attempts.waiters.splice(0);
+      if (attempts.count <= 0) {
+        this.inFlight.delete(id);
+      }
+      waiters.forEach((wake) => wake());
+    }
+  }
+
+  recordFailure(ip: string, username?: string): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    if (this.entries.size >= MAX_ENTRIES) {
+      this.prune();
+    }
+
+    this.fail('ip', ip);
+    if (username !== undefined) {
+      this.fail('username', username);
+    }
+
+    for (const id of this.entries.keys()) {
+      if (this.entries.size <= MAX_ENTRIES) {
+        break;
+      }
+      this.entries.delete(id);
+    }
+  }
+
+  /**
+   * Reset the username's failures after a successful login. IP failures are
+   * kept, so one valid account does not unlock guessing at others.
+   */
+  recordSuccess(username?: string): void {
+    if (username !== undefined) {
+      this.entries.delete(entryKey('username', username));
+    }
+  }
+
+  /**
+   * Usernames and IPs that are currently blocked (backoff or lockout)
+   */
+  listLockouts(): LockoutInfo[] {
+    const now = Date.now();
+    const lockouts: LockoutInfo[] = [];
+
+    for (const id of [...this.entries.keys()]) {
+      const [scope, key] = splitEntryKey(id);
+      const entry = this.entry(scope, key, now);
+      if (entry && entry.blockedUntil > now) {
+        lockouts.push({
+          scope,
+          key,
+          failures: entry.failures,
+          lockedOut: entry.lockedOut,
+          lastFailureAt: new Date(entry.lastFailureAt).toISOString(),
+          blockedUntil: new Date(entry.blockedUntil).toISOString(),
+        });
+      }
+    }
+
+    return lockouts.sort((a, b) => a.blockedUntil.localeCompare(b.blockedUntil));
+  }
+
+  /**
+   * Forget the failures of a username or IP
+   * @returns false if it had none
+   */
+  clear(scope: LockoutScope, key: string, clearedBy?: string): boolean {
+    const entry = this.entry(scope, key, Date.now());
+    if (!entry) {
+      return false;
+    }
+
+    this.entries.delete(entryKey(scope, key));
+    this.audit({ type: 'lockout-cleared', scope, key, failures: entry.failures, clearedBy });
+    return true;
+  }
+
+  /**
+   * Forget all failures
+   * @returns the number of blocked usernames and IPs that were cleared
+   */
+  clearAll(clearedBy?: string): number {
+    const lockouts = this.listLockouts();
+    this.entries.clear();
+
+    for (const { scope, key, failures } of lockouts) {
+      this.audit({ type: 'lockout-cleared', scope, key, failures, clearedBy });
+    }
+    return lockouts.length;
+  }
+
+  private fail(scope: LockoutScope, key: string): void {
+    const now = Date.now();
+    const entry = this.entry(scope, key, now) ?? { failures: 0, lastFailureAt: now, blockedUntil: 0, lockedOut: false };
+    const { freeAttempts, maxAttempts } = this.limits(scope);
+    const lockoutMs = (this.options.lockoutSeconds ?? DEFAULT_LOCKOUT_SECONDS) * 1000;
+
+    entry.failures++;
+    entry.lastFailureAt = now;
+
+    if (entry.failures >= maxAttempts) {
+      entry.blockedUntil = now + lockoutMs;
+      if (!entry.lockedOut) {
+        entry.lockedOut = true;
+        this.audit({
+          type: 'lockout',
+          scope,
+          key,
+          failures: entry.failures,
+          blockedUntil: new Date(entry.blockedUntil).toISOString(),
+        });
+      }
+    } else if (entry.failures > freeAttempts) {
+      const baseMs = (this.options.backoffBaseSeconds ?? DEFAULT_BACKOFF_BASE_SECONDS) * 1000;
+      entry.blockedUntil = now + Math.min(baseMs * 2 ** (entry.failures - freeAttempts - 1), lockoutMs);
+    }
+
+    // Re-insert, so entries stay ordered by their last failure
+    this.entries.delete(entryKey(scope, key));
+    this.entries.set(entryKey(scope, key), entry);
+  }
+
+  /**
+   * The entry for a key, dropped once its lockout has ended or its failures have aged out
+   */
+  private entry(scope: LockoutScope, key: string, now: number): FailureEntry | undefined {
+    const id = entryKey(scope, key);
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return undefined;
+    }
+
+    const windowMs = (this.options.windowSeconds ?? DEFAULT_WINDOW_SECONDS) * 1000;
+    const lockoutEnded = entry.lockedOut && entry.blockedUntil <= now;
+    const agedOut = entry.blockedUntil <= now && now - entry.lastFailureAt > windowMs;
+    if (lockoutEnded || agedOut) {
+      this.entries.delete(id);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private limits(scope: LockoutScope): { freeAttempts: number; maxAttempts: number } {
+    const configured = scope === 'username' ? this.options.perUsername : this.options.perIp;
+    return { ...DEFAULT_LIMITS[scope], ...configured };
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const id of [...this.entries.keys()]) {
+      const [scope, key] = splitEntryKey(id);
+      this.entry(scope, key, now);
+    }
+  }
+
+  private isTrustedProxy(ip: string): boolean {
+    const type = isIP(ip);
+    return type !== 0 && this.trustedProxies.check(ip, type === 6 ? 'ipv6' : 'ipv4');
+  }
+
+  private audit(event: Omit<AuthAuditEvent, 'timestamp'>): void {
+    const record: AuthAuditEvent = { ...event, timestamp: new Date().toISOString() };
+
+    if (record.type === 'lockout') {
+      this.logger.warn(`Locked out ${record.scope} '${record.key}' after ${record.failures} failed attempts until ${record.blockedUntil}`);
+    } else {
+      this.logger.log(`Lockout of ${record.scope} '${record.key}' cleared by ${record.clearedBy ?? 'unknown'}`);
+    }
+
+    this.eventEmitter?.emit('auth.audit', record);
+
+    if (this.options.auditLogFile) {
+      const filePath = path.resolve(process.cwd(), this.options.auditLogFile);
+      fs.appendFile(filePath, `${JSON.stringify(record)}\n`).catch((error: Error) => {
+        this.logger.error(`Failed to write audit log ${filePath}: ${error.message}`);
+      });
+    }
+  }
+}
+
+function entryKey(scope: LockoutScope, key: string): string {
+  return `${scope}:${key}`;
+}
+
+function splitEntryKey(id: string): [LockoutScope, string] {
+  const separator = id.indexOf(':');
+  return [id.slice(0, separator) as LockoutScope, id.slice(separator + 1)];
+}
+
+/**
+ * IPv4-mapped IPv6 addresses (`::ffff:10.0.0.1`) as plain IPv4
+ */
+function normalizeIp(ip: string): string {
+  return ip.startsWith('::ffff:') && isIP(ip.slice(7)) === 4 ? ip.slice(7) : ip;
+}
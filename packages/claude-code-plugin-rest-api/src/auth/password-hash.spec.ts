@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { hashPassword, isPlaintextPassword, needsRehash, verifyPassword } from './password-hash.js';
+
+describe('password hashing', () => {
+  it('should hash and verify with scrypt by default', async () => {
+    const hash = await hashPassword('s3cret');
+
+    expect(hash).toMatch(/^\$scrypt\$ln=15,r=8,p=3\$[\w+/]+\$[\w+/]+$/);
+    expect(await verifyPassword('s3cret', hash)).toBe(true);
+    expect(await verifyPassword('wrong', hash)).toBe(false);
+    expect(await hashPassword('s3cret')).not.toBe(hash);
+  });
+
+  it('should hash and verify with PBKDF2', async () => {
+    const hash = await hashPassword('s3cret', 'pbkdf2');
+
+    expect(hash).toMatch(/^\$pbkdf2-sha256\$i=600000\$/);
+    expect(await verifyPassword('s3cret', hash)).toBe(true);
+    expect(await verifyPassword('wrong', hash)).toBe(false);
+  });
+
+  it('should verify hashes made with other parameters', async () => {
+    // scrypt of "s3cret" with N=2^10, r=8, p=1
+    const hash = '$scrypt$ln=10,r=8,p=1$c2FsdHNhbHRzYWx0c2FsdA$u5bCAiLkt2UD0ZRMpz2c6GLAonZ6UN5wl2BtbI0Csxw';
+
+    expect(await verifyPassword('s3cret', hash)).toBe(true);
+    expect(needsRehash(hash)).toBe(true);
+  });
+
+  it('should compare plaintext passwords', async () => {
+    expect(await verifyPassword('s3cret', 's3cret')).toBe(true);
+    expect(await verifyPassword('s3cret', 's3cre')).toBe(false);
+  });
+
+  it('should treat values starting with $ as plaintext unless they are a known hash', async () => {
+    expect(await verifyPassword('$ecret', '$ecret')).toBe(true);
+    expect(await verifyPassword('$ecret', '$ecre')).toBe(false);
+    expect(await verifyPassword('s3cret', '$argon2id$v=19$m=65536,t=3,p=4$c2FsdA$aGFzaA')).toBe(false);
+    expect(isPlaintextPassword('$ecret')).toBe(true);
+    expect(isPlaintextPassword(await hashPassword('s3cret', 'pbkdf2'))).toBe(false);
+    expect(needsRehash('$ecret')).toBe(true);
+  });
+
+  it('should flag plaintext, bcrypt and weaker hashes for rehashing', async () => {
+    expect(needsRehash('plaintext')).toBe(true);
+    expect(needsRehash('$2b$10$rOzJqQZQGaHvvYnVJxQNPuh8cJmYkqLqH1b0wXZwDhT8jQWuP1UKe')).toBe(true);
+    expect(needsRehash('$pbkdf2-sha256$i=1000$c2FsdA$aGFzaA')).toBe(true);
+    expect(needsRehash(await hashPassword('s3cret'))).toBe(false);
+  });
+
+  it('should reject unreadable hashes', async () => {
+    await expect(verifyPassword('s3cret', '$scrypt$ln=x$c2FsdA$aGFzaA')).rejects.toThrow(/Invalid scrypt parameters/);
+  });
+});
@@ -0,0 +1,148 @@
+import * as crypto from 'crypto';
+import { promisify } from 'util';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions,
+) => Promise<Buffer>;
+const pbkdf2 = promisify(crypto.pbkdf2);
+
+export type PasswordHashAlgorithm = 'scrypt' | 'pbkdf2';
+
+/** scrypt cost (N = 2^ln), block size and parallelism for new hashes */
+const SCRYPT_PARAMS = { ln: 15, r: 8, p: 3 };
+/** PBKDF2-HMAC-SHA256 iterations for new hashes */
+const PBKDF2_ITERATIONS = 600_000;
+/** Prefixes of the PHC strings `hashPassword()` writes */
+const PHC_PREFIXES = ['$scrypt$', '$pbkdf2-sha256$'];
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+
+interface ParsedHash {
+  id: 'scrypt' | 'pbkdf2-sha256';
+  params: Record<string, number>;
+  salt: Buffer;
+  hash: Buffer;
+}
+
+/**
+ * Hash a password with Node's crypto in PHC string format, which records the
+ * algorithm, its parameters and the salt:
+ * `$scrypt$ln=15,r=8,p=3$<salt>$<hash>` or `$pbkdf2-sha256$i=600000$<salt>$<hash>`
+ */
+export async function hashPassword(password: string, algorithm: PasswordHashAlgorithm = 'scrypt'): Promise<string> {
+  const salt = crypto.randomBytes(SALT_BYTES);
+
+  if (algorithm === 'pbkdf2') {
+    const hash = await pbkdf2(password, salt, PBKDF2_ITERATIONS, KEY_BYTES, 'sha256');
+    return `$pbkdf2-sha256$i=${PBKDF2_ITERATIONS}$${b64(salt)}$${b64(hash)}`;
+  }
+
+  const { ln, r, p } = SCRYPT_PARAMS;
+  const hash = await scrypt(password, salt, KEY_BYTES, scryptOptions(ln, r, p));
+  return `$scrypt$ln=${ln},r=${r},p=${p}$${b64(salt)}$${b64(hash)}`;
+}
+
+/**
+ * Check a password against a stored scrypt, PBKDF2 or bcrypt hash, or a plaintext password.
+ * bcrypt needs the optional `bcrypt` package.
+ * @throws if the stored value is a bcrypt hash and bcrypt is not installed, or an unreadable PHC string
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  if (isBcryptHash(stored)) {
+    const bcrypt = await loadBcrypt();
+    if (!bcrypt) {
+      throw new Error('bcrypt is not installed');
+    }
+    return bcrypt.compare(password, stored);
+  }
+
+  if (isPlaintextPassword(stored)) {
+    return safeEqual(Buffer.from(password), Buffer.from(stored));
+  }
+
+  const parsed = parseHash(stored);
+  const actual = parsed.id === 'scrypt'
+    ? await scrypt(password, parsed.salt, parsed.hash.length, scryptOptions(parsed.params.ln, parsed.params.r, parsed.params.p))
+    : await pbkdf2(password, parsed.salt, parsed.params.i, parsed.hash.length, 'sha256');
+  return safeEqual(actual, parsed.hash);
+}
+
+/**
+ * Whether a stored password should be replaced by `hashPassword()`: plaintext,
+ * bcrypt, or a native hash with weaker parameters than new hashes use
+ */
+export function needsRehash(stored: string): boolean {
+  if (isPlaintextPassword(stored) || isBcryptHash(stored)) {
+    return true;
+  }
+
+  try {
+    const { id, params } = parseHash(stored);
+    return id === 'scrypt'
+      ? params.ln < SCRYPT_PARAMS.ln || params.r < SCRYPT_PARAMS.r || params.p < SCRYPT_PARAMS.p
+      : params.i < PBKDF2_ITERATIONS;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a stored password is plaintext rather than a hash. Only scrypt,
+ * PBKDF2 and bcrypt prefixes mark a hash, so plaintext may start with `$`.
+ */
+export function isPlaintextPassword(stored: string): boolean {
+  return !PHC_PREFIXES.some((prefix) => stored.startsWith(prefix)) && !isBcryptHash(stored);
+}
+
+export function isBcryptHash(stored: string): boolean {
+  return /^\$2[aby]\$/.test(stored);
+}
+
+/**
+ * The optional bcrypt module, or null if it is not installed
+ */
+export async function loadBcrypt(): Promise<{ compare(data: string, encrypted: string): Promise<boolean> } | null> {
+  try {
+    return await import('bcrypt');
+  } catch {
+    return null;
+  }
+}
+
+function parseHash(stored: string): ParsedHash {
+  const [, id, paramString, salt, hash] = stored.split('$');
+  if ((id !== 'scrypt' && id !== 'pbkdf2-sha256') || !paramString || !salt || !hash) {
+    throw new Error(`Unsupported password hash format '${stored.split('$')[1]}'`);
+  }
+
+  const params: Record<string, number> = {};
+  for (const pair of paramString.split(',')) {
+    const [name, value] = pair.split('=');
+    params[name] = Number(value);
+  }
+
+  const required = id === 'scrypt' ? ['ln', 'r', 'p'] : ['i'];
+  if (required.some((name) => !Number.isInteger(params[name]) || params[name] <= 0)) {
+    throw new Error(`Invalid ${id} parameters '${paramString}'`);
+  }
+
+  return { id, params, salt: Buffer.from(salt, 'base64'), hash: Buffer.from(hash, 'base64') };
+}
+
+function scryptOptions(ln: number, r: number, p: number): crypto.ScryptOptions {
+  const N = 2 ** ln;
+  // Node's default 32 MiB limit is just below what N=2^15, r=8 needs
+  return { N, r, p, maxmem: 128 * N * r * 2 };
+}
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/** Unpadded base64, as PHC strings use */
+function b64(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/=+$/, '');
+}
@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const PERMISSIONS_KEY = 'claude-plugin:permissions';
+
+/**
+ * Permissions a route requires, all of which the user must hold. `{param}`
+ * is replaced with the route parameter, e.g. `agents:{name}:execute`.
+ * On a controller it applies to every route without its own decorator.
+ */
+export const RequirePermissions = (...permissions: string[]) => SetMetadata(PERMISSIONS_KEY, permissions);
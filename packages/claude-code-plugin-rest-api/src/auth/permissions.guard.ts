@@ -0,0 +1,48 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { AuthUser } from './auth.types.js';
+import { AccessControlService } from './access-control.service.js';
+import { PERMISSIONS_KEY } from './permissions.decorator.js';
+
+/**
+ * Global guard enforcing `@RequirePermissions()`. Runs after BasicAuthGuard,
+ * so `request.user` is set whenever authentication applies.
+ */
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  private readonly logger = new Logger(PermissionsGuard.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly accessControl: AccessControlService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const required = this.reflector.getAllAndOverride<string[] | undefined>(PERMISSIONS_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!required || required.length === 0) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<Request & { user?: AuthUser }>();
+
+    for (const template of required) {
+      const permission = template.replace(/\{(\w+)\}/g, (_match, param: string) => request.params?.[param] ?? '');
+      if (!this.accessControl.can(request.user, permission)) {
+        this.logger.warn(`Denied ${request.method} ${request.path} to ${request.user?.username}: missing ${permission}`);
+        throw new ForbiddenException(`Missing permission '${permission}'`);
+      }
+    }
+
+    return true;
+  }
+}
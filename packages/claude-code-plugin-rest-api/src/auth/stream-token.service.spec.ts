@@ -0,0 +1,64 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { StreamTokenService } from './stream-token.service.js';
+
+describe('StreamTokenService', () => {
+  const alice = { username: 'alice', role: 'admin' };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should verify a token for its session and return the owner', () => {
+    const service = new StreamTokenService({ streamTokens: { secret: 'test-secret' } });
+    const { token, expiresIn } = service.sign('session-1', alice);
+
+    expect(expiresIn).toBe(300);
+    expect(service.verify(token, 'session-1')).toEqual({ username: 'alice' });
+  });
+
+  it('should carry the owner\'s provider and tenant', () => {
+    const service = new StreamTokenService();
+    const { token } = service.sign('session-1', { username: 'alice', authProvider: 'ldap', tenant: 'acme' });
+
+    expect(service.verify(token, 'session-1')).toEqual({ username: 'alice', authProvider: 'ldap', tenant: 'acme' });
+  });
+
+  it('should reject a token for another session', () => {
+    const service = new StreamTokenService();
+    const { token } = service.sign('session-1', alice);
+
+    expect(service.verify(token, 'session-2')).toBeNull();
+  });
+
+  it('should reject tampered tokens and tokens signed with another secret', () => {
+    const service = new StreamTokenService({ streamTokens: { secret: 'one' } });
+    const other = new StreamTokenService({ streamTokens: { secret: 'two' } });
+    const { token } = service.sign('session-1', alice);
+    const [, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ sid: 'session-1', sub: 'bob', exp: 9999999999 })).toString('base64url');
+
+    expect(other.verify(token, 'session-1')).toBeNull();
+    expect(service.verify(`${forged}.${signature}`, 'session-1')).toBeNull();
+    expect(service.verify('garbage', 'session-1')).toBeNull();
+  });
+
+  it('should reject expired tokens', () => {
+    vi.useFakeTimers();
+    const service = new StreamTokenService({ streamTokens: { ttlSeconds: 60 } });
+    const { token } = service.sign('session-1', alice);
+
+    vi.advanceTimersByTime(59 * 1000);
+    expect(service.verify(token, 'session-1')).not.toBeNull();
+
+    vi.advanceTimersByTime(2 * 1000);
+    expect(service.verify(token, 'session-1')).toBeNull();
+  });
+
+  it('should build the signed stream URL', () => {
+    const service = new StreamTokenService();
+    const { signedStreamUrl, tokenExpiresIn } = service.signUrl('session-1', alice);
+
+    expect(signedStreamUrl).toMatch(/^\/v1\/stream\/session-1\?token=[\w-]+\.[\w-]+$/);
+    expect(tokenExpiresIn).toBe(300);
+  });
+});
@@ -0,0 +1,110 @@
+import { Injectable, Inject, Optional } from '@nestjs/common';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { AuthModuleOptions, AuthUser, AUTH_OPTIONS } from './auth.types.js';
+
+/** Path of the SSE endpoint that accepts stream tokens */
+export const STREAM_PATH_PREFIX = '/v1/stream/';
+
+const DEFAULT_TTL_SECONDS = 300;
+
+interface StreamTokenPayload {
+  /** Stream session ID */
+  sid: string;
+  /** Username of the session owner */
+  sub: string;
+  /** The owner's `authProvider`, when set */
+  prv?: string;
+  /** The owner's `tenant`, when set */
+  tnt?: string;
+  /** Expiry (seconds since epoch) */
+  exp: number;
+}
+
+/**
+ * Issues and verifies short-lived HMAC-signed tokens for /v1/stream/:sessionId.
+ *
+ * Browsers' EventSource cannot send an Authorization header, so session
+ * creation also returns a signed URL carrying `?token=`. A token is bound to
+ * one session and its owner; the guard accepts it only for that session's stream.
+ *
+ * Without a configured secret a random one is generated per process, so tokens
+ * are not valid across restarts or replicas.
+ */
+@Injectable()
+export class StreamTokenService {
+  private readonly secret: string | Buffer;
+  private readonly ttlSeconds: number;
+
+  constructor(@Optional() @Inject(AUTH_OPTIONS) options?: AuthModuleOptions) {
+    this.secret = options?.streamTokens?.secret ?? randomBytes(32);
+    this.ttlSeconds = options?.streamTokens?.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+  }
+
+  /**
+   * Sign a token granting `user` access to a stream session
+   */
+  sign(sessionId: string, user: AuthUser): { token: string; expiresIn: number } {
+    const payload: StreamTokenPayload = {
+      sid: sessionId,
+      sub: user.username,
+      ...(user.authProvider && { prv: user.authProvider }),
+      ...(user.tenant && { tnt: user.tenant }),
+      exp: Math.floor(Date.now() / 1000) + this.ttlSeconds,
+    };
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+    return {
+      token: `${encoded}.${this.signature(encoded)}`,
+      expiresIn: this.ttlSeconds,
+    };
+  }
+
+  /**
+   * Signed stream URL for a session, as returned by the session-creation endpoints
+   */
+  signUrl(sessionId: string, user: AuthUser): { signedStreamUrl: string; tokenExpiresIn: number } {
+    const { token, expiresIn } = this.sign(sessionId, user);
+    return {
+      signedStreamUrl: `${STREAM_PATH_PREFIX}${sessionId}?token=${token}`,
+      tokenExpiresIn: expiresIn,
+    };
+  }
+
+  /**
+   * Verify a token for a session
+   * @returns the session owner if the token is valid, unexpired and issued for `sessionId`; null otherwise
+   */
+  verify(token: string, sessionId: string): AuthUser | null {
+    const [encoded, signature] = token.split('.');
+    if (!encoded || !signature) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.signature(encoded));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    let payload: StreamTokenPayload;
+    try {
+      payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8'));
+    } catch {
+      return null;
+    }
+
+    if (payload.sid !== sessionId || payload.exp * 1000 <= Date.now() || !payload.sub) {
+      return null;
+    }
+
+    return {
+      username: payload.sub,
+      ...(payload.prv && { authProvider: payload.prv }),
+      ...(payload.tnt && { tenant: payload.tnt }),
+    };
+  }
+
+  private signature(encoded: string): string {
+    return createHmac('sha256', this.secret).update(encoded).digest('base64url');
+  }
+}
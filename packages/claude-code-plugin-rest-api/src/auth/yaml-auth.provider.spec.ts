@@ -1,8 +1,11 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
-import { YamlAuthProvider } from './yaml-auth.provider.js';
+import * as yaml from 'js-yaml';
+import { YamlAuthProvider, hashApiKey } from './yaml-auth.provider.js';
+import { hashPassword } from './password-hash.js';
 
 describe('YamlAuthProvider', () => {
   let tempDir: string;
@@ -168,6 +171,292 @@ users:
     });
   });
 
+  describe('password hashing', () => {
+    it('should validate scrypt and PBKDF2 hashes', async () => {
+      await createAuthFile(`
+users:
+  - username: alice
+    password: ${await hashPassword('alicepass')}
+  - username: bob
+    password: ${await hashPassword('bobpass', 'pbkdf2')}
+`);
+
+      const provider = new YamlAuthProvider(authFilePath);
+      await provider.onModuleInit();
+
+      expect(await provider.validate('alice', 'alicepass')).toEqual({ username: 'alice' });
+      expect(await provider.validate('bob', 'bobpass')).toEqual({ username: 'bob' });
+      expect(await provider.validate('alice', 'bobpass')).toBeNull();
+    });
+
+    it('should replace a plaintext password with a hash on login when rehashOnLogin is set', async () => {
+      await createAuthFile(`
+users:
+  - username: alice
+    password: alicepass
+    roles: [admin]
+`);
+
+      const provider = new YamlAuthProvider(authFilePath, { rehashOnLogin: true });
+      await provider.onModuleInit();
+
+      expect(await provider.validate('alice', 'wrong')).toBeNull();
+      expect(await provider.validate('alice', 'alicepass')).toEqual({ username: 'alice', roles: ['admin'] });
+
+      await vi.waitFor(async () => {
+        const config = yaml.load(await fs.readFile(authFilePath, 'utf-8')) as { users: Array<{ password: string }> };
+        expect(config.users[0].password).toMatch(/^\$scrypt\$/);
+      }, { timeout: 5000 });
+
+      expect(await provider.validate('alice', 'alicepass')).toEqual({ username: 'alice', roles: ['admin'] });
+    });
+
+    it('should leave plaintext passwords alone by default', async () => {
+      await createAuthFile(`
+users:
+  - username: alice
+    password: alicepass
+`);
+
+      const provider = new YamlAuthProvider(authFilePath);
+      await provider.onModuleInit();
+      await provider.validate('alice', 'alicepass');
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(await fs.readFile(authFilePath, 'utf-8')).toContain('password: alicepass');
+    });
+  });
+
+  describe('roles', () => {
+    it('should include roles on the AuthUser', async () => {
+      await createAuthFile(`
+users:
+  - username: admin
+    password: secret
+    roles: [admin]
+`);
+
+      const provider = new YamlAuthProvider(authFilePath);
+      await provider.onModuleInit();
+
+      const result = await provider.validate('admin', 'secret');
+      expect(result).toEqual({ username: 'admin', roles: ['admin'] });
+    });
+
+    it('should load role definitions and direct permissions', async () => {
+      await createAuthFile(`
+roles:
+  reviewer:
+    - plugins:code-review:*
+users:
+  - username: alice
+    password: secret
+    roles: [reviewer]
+    permissions: [agents:self-improver:execute]
+apiKeys:
+  - name: ci
+    hash: ${hashApiKey('cpk_ci')}
+    roles: [reviewer]
+`);
+
+      const provider = new YamlAuthProvider(authFilePath);
+      await provider.onModuleInit();
+
+      expect(provider.getRolePermissions()).toEqual({ reviewer: ['plugins:code-review:*'] });
+      expect(await provider.validate('alice', 'secret')).toEqual({
+        username: 'alice',
+        roles: ['reviewer'],
+        permissions: ['agents:self-improver:execute'],
+      });
+      expect(await provider.validateApiKey('cpk_ci')).toEqual({ username: 'ci', apiKey: 'ci', roles: ['reviewer'] });
+    });
+  });
+
+  describe('API keys', () => {
+    it('should validate a key by its hash', async () => {
+      await createAuthFile(`
+apiKeys:
+  - id: ci
+    name: ci-pipeline
+    owner: deploy-bot
+    hash: ${hashApiKey('cpk_test')}
+`);
+
+      const provider = new YamlAuthProvider(authFilePath);
+      await provider.onModuleInit();
+
+      expect(await provider.validateApiKey('cpk_test')).toEqual({ username: 'deploy-bot', apiKey: 'ci-pipeline' });
+      expect(await provider.validateApiKey('cpk_other')).toBeNull();
+    });
+
+    it('should give keys without roles or permissions those of their owner', async () => {
+      await createAuthFile(`
+users:
+  - username: dev
+    password: secret
+    roles: [reviewer]
+    permissions: [agents:self-improver:execute]
+apiKeys:
+  - name: dev-laptop
+    owner: dev
+    hash: ${hashApiKey('cpk_dev')}
+  - name: dev-ci
+    owner: dev
+    hash: ${hashApiKey('cpk_ci')}
+    roles: [ci]
+`);
+
+      const provider = new YamlAuthProvider(authFilePath);
+      await provider.onModuleInit();
+
+      expect(await provider.validateApiKey('cpk_dev')).toEqual({
+        username: 'dev',
+        apiKey: 'dev-laptop',
+        roles: ['reviewer'],
+        permissions: ['agents:self-improver:execute'],
+      });
+      expect(await provider.validateApiKey('cpk_ci')).toEqual({ username: 'dev', apiKey: 'dev-ci', roles: ['ci'] });
+    });
+
+    it('should reject expired keys', async () => {
+      await createAuthFile(`
+apiKeys:
+  - name: old
+    hash: ${hashApiKey('cpk_old')}
+    expiresAt: 2020-01-01T00:00:00Z
+  - name: current
+    hash: ${hashApiKey('cpk_current')}
+    expiresAt: 2999-01-01T00:00:00Z
+`);
+
+      const provider = new YamlAuthProvider(authFilePath);
+      await provider.onModuleInit();
+
+      expect(await provider.validateApiKey('cpk_old')).toBeNull();
+      expect(await provider.validateApiKey('cpk_current')).toEqual({ username: 'current', apiKey: 'current' });
+    });
+
+    it('should store created keys hashed and keep existing users', async () => {
+      await createAuthFile(`
+users:
+  - username: admin
+    password: secret
+`);
+
+      const provider = new YamlAuthProvider(authFilePath);
+      await provider.onModuleInit();
+
+      const { key, apiKey } = await provider.createApiKey({ name: 'reporting', description: 'Nightly reports' });
+
+      expect(key).toMatch(/^cpk_/);
+      expect(apiKey).toMatchObject({ name: 'reporting', description: 'Nightly reports' });
+      expect(await provider.validateApiKey(key)).toEqual({ username: 'reporting', apiKey: 'reporting' });
+
+      const content = await fs.readFile(authFilePath, 'utf-8');
+      expect(content).not.toContain(key);
+      expect(content).toContain(hashApiKey(key));
+      expect((yaml.load(content) as { users: unknown[] }).users).toHaveLength(1);
+
+      // A fresh provider reads the persisted key
+      const reloaded = new YamlAuthProvider(authFilePath);
+      await reloaded.onModuleInit();
+      expect(await reloaded.listApiKeys()).toEqual([apiKey]);
+      expect(await reloaded.validate('admin', 'secret')).toEqual({ username: 'admin' });
+    });
+
+    it('should revoke keys by ID', async () => {
+      await createAuthFile('users: []\n');
+
+      const provider = new YamlAuthProvider(authFilePath);
+      await provider.onModuleInit();
+
+      const { key, apiKey } = await provider.createApiKey({ name: 'temp' });
+
+      expect(await provider.revokeApiKey('unknown')).toBe(false);
+      expect(await provider.revokeApiKey(apiKey.id)).toBe(true);
+      expect(await provider.validateApiKey(key)).toBeNull();
+      expect(await provider.listApiKeys()).toEqual([]);
+    });
+  });
+
+  describe('reload', () => {
+    it('should swap in the new users and emit auth.reloaded', async () => {
+      await createAuthFile(`
+users:
+  - username: old
+    password: oldpass
+`);
+
+      const eventEmitter = new EventEmitter2();
+      const listener = vi.fn();
+      eventEmitter.on('auth.reloaded', listener);
+      const provider = new YamlAuthProvider(authFilePath, { eventEmitter });
+      await provider.onModuleInit();
+
+      await createAuthFile(`
+users:
+  - username: new
+    password: newpass
+`);
+
+      expect(await provider.reload()).toBe(true);
+      expect(await provider.validate('old', 'oldpass')).toBeNull();
+      expect(await provider.validate('new', 'newpass')).toEqual({ username: 'new' });
+      expect(listener).toHaveBeenCalledWith({ authFilePath, users: 1, apiKeys: 0 });
+    });
+
+    it('should keep the previous config when the file is malformed', async () => {
+      await createAuthFile(`
+users:
+  - username: admin
+    password: secret
+`);
+
+      const eventEmitter = new EventEmitter2();
+      const listener = vi.fn();
+      eventEmitter.on('auth.reloaded', listener);
+      const provider = new YamlAuthProvider(authFilePath, { eventEmitter });
+      await provider.onModuleInit();
+
+      await createAuthFile('users: [unclosed');
+      expect(await provider.reload()).toBe(false);
+
+      await createAuthFile('users:\n  username: not-a-list\n');
+      expect(await provider.reload()).toBe(false);
+
+      expect(await provider.validate('admin', 'secret')).toEqual({ username: 'admin' });
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should reload when the watched file changes', async () => {
+      await createAuthFile(`
+users:
+  - username: before
+    password: pass
+`);
+
+      const provider = new YamlAuthProvider(authFilePath, { hotReload: true });
+      await provider.onModuleInit();
+
+      try {
+        // Give the watcher time to start before changing the file
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        await createAuthFile(`
+users:
+  - username: after
+    password: pass
+`);
+
+        await vi.waitFor(
+          async () => expect(await provider.validate('after', 'pass')).toEqual({ username: 'after' }),
+          { timeout: 5000, interval: 100 },
+        );
+      } finally {
+        await provider.onModuleDestroy();
+      }
+    });
+  });
+
   describe('edge cases', () => {
     it('should handle users without password field', async () => {
       await createAuthFile(`
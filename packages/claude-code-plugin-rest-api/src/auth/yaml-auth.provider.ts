@@ -1,93 +1,462 @@
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as yaml from 'js-yaml';
 import * as crypto from 'crypto';
-import { AuthProvider, AuthUser } from './auth.types.js';
+import * as chokidar from 'chokidar';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ApiKeyInfo,
+  ApiKeyManager,
+  AuthProvider,
+  AuthUser,
+  CreateApiKeyParams,
+} from './auth.types.js';
+import {
+  hashPassword,
+  isBcryptHash,
+  isPlaintextPassword,
+  loadBcrypt,
+  needsRehash,
+  verifyPassword,
+} from './password-hash.js';
+
+interface AuthYamlUser {
+  username: string;
+  password: string; // scrypt/PBKDF2 hash from `hash-password`, bcrypt hash ($2b$...) or plain text
+  roles?: string[];
+  permissions?: string[];
+}
+
+interface AuthYamlApiKey extends Omit<ApiKeyInfo, 'createdAt' | 'expiresAt'> {
+  /** `sha256:<hex digest of the key>` */
+  hash: string;
+  permissions?: string[];
+  // YAML parses unquoted timestamps into Dates
+  createdAt?: string | Date;
+  expiresAt?: string | Date;
+}
 
 interface AuthYamlConfig {
-  users: Array<{
-    username: string;
-    password: string; // Plain text or bcrypt hash (prefix with $2b$)
-  }>;
+  /** Role name to permissions */
+  roles?: Record<string, string[]>;
+  users?: AuthYamlUser[];
+  apiKeys?: AuthYamlApiKey[];
+}
+
+export interface YamlAuthProviderOptions {
+  /**
+   * Watch the auth file and reload it on change
+   * @default false
+   */
+  hotReload?: boolean;
+
+  /**
+   * Receives `auth.reloaded` after each successful reload
+   */
+  eventEmitter?: EventEmitter2;
+
+  /**
+   * After a successful login, replace a plaintext, bcrypt or outdated hash in
+   * the auth file with a scrypt hash
+   * @default false
+   */
+  rehashOnLogin?: boolean;
+}
+
+/** Payload of the `auth.reloaded` event */
+export interface AuthReloadedEvent {
+  authFilePath: string;
+  users: number;
+  apiKeys: number;
+}
+
+/** Prefix of generated API keys, so leaked keys are easy to recognize */
+const API_KEY_PREFIX = 'cpk_';
+
+/**
+ * Hash an API key the way it is stored in auth.yml (`sha256:<hex>`).
+ * Keys are random and high-entropy, so a fast unsalted hash is sufficient.
+ */
+export function hashApiKey(key: string): string {
+  return `sha256:${crypto.createHash('sha256').update(key).digest('hex')}`;
 }
 
 @Injectable()
-export class YamlAuthProvider implements AuthProvider, OnModuleInit {
+export class YamlAuthProvider implements AuthProvider, ApiKeyManager, OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(YamlAuthProvider.name);
-  private users = new Map<string, string>();
+  private users = new Map<string, AuthYamlUser>();
+  /** API keys by hash */
+  private apiKeys = new Map<string, AuthYamlApiKey>();
+  private roles: Record<string, string[]> = {};
   private authFilePath: string;
+  /** Serializes reloads and writes of the auth file */
+  private queue: Promise<unknown> = Promise.resolve();
+  private watcher: chokidar.FSWatcher | null = null;
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private readonly DEBOUNCE_MS = 500;
+  /** Users whose password hash is being upgraded */
+  private readonly rehashing = new Set<string>();
 
-  constructor(authFilePath: string = 'auth.yml') {
+  constructor(
+    authFilePath: string = 'auth.yml',
+    private readonly options: YamlAuthProviderOptions = {},
+  ) {
     this.authFilePath = path.resolve(process.cwd(), authFilePath);
   }
 
   async onModuleInit() {
     await this.loadUsers();
+
+    if (this.options.hotReload) {
+      this.startFileWatcher();
+    }
+  }
+
+  async onModuleDestroy() {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    await this.watcher?.close();
+    this.watcher = null;
+  }
+
+  /**
+   * Re-read the auth file and swap in its users, API keys and roles.
+   * If the file is missing or malformed, the current tables are kept.
+   * @returns whether the new file was applied
+   */
+  reload(): Promise<boolean> {
+    return this.enqueue(async () => {
+      try {
+        this.applyConfig(this.parseConfig(await fs.readFile(this.authFilePath, 'utf-8')));
+      } catch (error: unknown) {
+        this.logger.error(`Failed to reload auth file, keeping previous config: ${(error as Error).message}`);
+        return false;
+      }
+
+      this.logger.log(`Reloaded ${this.users.size} users and ${this.apiKeys.size} API keys from ${this.authFilePath}`);
+      const event: AuthReloadedEvent = {
+        authFilePath: this.authFilePath,
+        users: this.users.size,
+        apiKeys: this.apiKeys.size,
+      };
+      this.options.eventEmitter?.emit('auth.reloaded', event);
+      return true;
+    });
   }
 
   private async loadUsers(): Promise<void> {
     try {
       const content = await fs.readFile(this.authFilePath, 'utf-8');
-      const config = yaml.load(content) as AuthYamlConfig;
 
-      if (!config?.users || !Array.isArray(config.users)) {
+      this.applyConfig(this.parseConfig(content));
+
+      if (this.users.size === 0 && this.apiKeys.size === 0) {
         this.logger.warn(`No users found in ${this.authFilePath}`);
         return;
       }
 
-      for (const user of config.users) {
-        if (user.username && user.password) {
-          this.users.set(user.username, user.password);
-        }
-      }
-
-      this.logger.log(`Loaded ${this.users.size} users from ${this.authFilePath}`);
+      this.logger.log(`Loaded ${this.users.size} users and ${this.apiKeys.size} API keys from ${this.authFilePath}`);
+      await this.reportWeakPasswords();
     } catch (error: unknown) {
       const err = error as NodeJS.ErrnoException;
       if (err.code === 'ENOENT') {
-        this.logger.warn(`Auth file not found: ${this.authFilePath}. API is UNPROTECTED!`);
-        this.logger.warn(`Create ${this.authFilePath} or disable auth with { auth: { disabled: true } }`);
+        this.logger.warn(`Auth file not found: ${this.authFilePath}`);
       } else {
         this.logger.error(`Failed to load auth file: ${err.message}`);
       }
     }
   }
 
-  async validate(username: string, password: string): Promise<AuthUser | null> {
-    const storedPassword = this.users.get(username);
+  /**
+   * Warn about plaintext passwords, and about bcrypt hashes that cannot be verified
+   */
+  private async reportWeakPasswords(): Promise<void> {
+    const users = [...this.users.values()];
 
-    if (!storedPassword) {
-      return null;
+    const plaintext = users.filter((user) => isPlaintextPassword(String(user.password)));
+    if (plaintext.length > 0) {
+      const upgrade = this.options.rehashOnLogin
+        ? 'they are hashed on the next successful login'
+        : 'or enable auth.rehashOnLogin';
+      this.logger.warn(
+        `Plaintext passwords in ${this.authFilePath} for: ${plaintext.map((user) => user.username).join(', ')}. `
+        + `Replace them with hashes from \`npx claude-plugin-rest-api hash-password\` (${upgrade})`,
+      );
     }
 
-    // Check if it's a bcrypt hash (starts with $2b$, $2a$, or $2y$)
-    if (storedPassword.startsWith('$2')) {
-      // For bcrypt, use bcrypt.compare() if available
-      try {
-        const bcrypt = await import('bcrypt');
-        const isValid = await bcrypt.compare(password, storedPassword);
-        return isValid ? { username } : null;
-      } catch {
-        this.logger.warn('bcrypt not installed, cannot verify hashed passwords. Install bcrypt: pnpm add bcrypt');
-        return null;
+    const bcryptUsers = users.filter((user) => isBcryptHash(String(user.password)));
+    if (bcryptUsers.length > 0 && !(await loadBcrypt())) {
+      this.logger.error(
+        `bcrypt is not installed, so these users cannot log in: ${bcryptUsers.map((user) => user.username).join(', ')}. `
+        + 'Install bcrypt (pnpm add bcrypt) or replace their hashes with `npx claude-plugin-rest-api hash-password`',
+      );
+    }
+  }
+
+  private startFileWatcher(): void {
+    this.watcher = chokidar.watch(this.authFilePath, {
+      persistent: true,
+      ignoreInitial: true,
+    });
+
+    const scheduleReload = (filePath: string) => {
+      this.logger.debug(`Auth file changed: ${filePath}`);
+      if (this.debounceTimer) {
+        clearTimeout(this.debounceTimer);
+      }
+      this.debounceTimer = setTimeout(() => {
+        this.debounceTimer = null;
+        void this.reload();
+      }, this.DEBOUNCE_MS);
+    };
+
+    // Editors and our own writes replace the file, which can show up as unlink + add
+    this.watcher.on('change', scheduleReload);
+    this.watcher.on('add', scheduleReload);
+
+    this.logger.log(`Auth file hot reload enabled for ${this.authFilePath}`);
+  }
+
+  /**
+   * Parse auth.yml, rejecting content whose sections have the wrong shape
+   */
+  private parseConfig(content: string): AuthYamlConfig {
+    const config = (yaml.load(content) ?? {}) as AuthYamlConfig;
+
+    if (typeof config !== 'object' || Array.isArray(config)) {
+      throw new Error('expected a mapping at the top level');
+    }
+    for (const section of ['users', 'apiKeys'] as const) {
+      if (config[section] != null && !Array.isArray(config[section])) {
+        throw new Error(`'${section}' must be a list`);
+      }
+    }
+    if (config.roles != null && (typeof config.roles !== 'object' || Array.isArray(config.roles))) {
+      throw new Error(`'roles' must map role names to permissions`);
+    }
+
+    return config;
+  }
+
+  /**
+   * Build the new tables, then replace the current ones together
+   */
+  private applyConfig(config: AuthYamlConfig): void {
+    const users = new Map<string, AuthYamlUser>();
+    for (const user of Array.isArray(config?.users) ? config.users : []) {
+      if (user?.username && user.password) {
+        users.set(user.username, user);
       }
     }
 
-    // Plain text comparison (for development only)
-    // Use timing-safe comparison to prevent timing attacks
-    try {
-      const passwordBuffer = Buffer.from(password);
-      const storedBuffer = Buffer.from(storedPassword);
+    const apiKeys = new Map<string, AuthYamlApiKey>();
+    for (const entry of Array.isArray(config?.apiKeys) ? config.apiKeys : []) {
+      if (entry?.name && entry.hash?.startsWith('sha256:')) {
+        apiKeys.set(entry.hash.toLowerCase(), entry);
+      } else if (entry) {
+        this.logger.warn(`Skipping API key '${entry.name ?? '(unnamed)'}': expected a name and a sha256: hash`);
+      }
+    }
 
-      if (passwordBuffer.length !== storedBuffer.length) {
-        return null;
+    const roles: Record<string, string[]> = {};
+    for (const [role, permissions] of Object.entries(config?.roles ?? {})) {
+      if (Array.isArray(permissions)) {
+        roles[role] = permissions.map(String);
+      } else {
+        this.logger.warn(`Skipping role '${role}': expected a list of permissions`);
       }
+    }
+
+    this.users = users;
+    this.apiKeys = apiKeys;
+    this.roles = roles;
+  }
+
+  async validate(username: string, password: string): Promise<AuthUser | null> {
+    const user = this.users.get(username);
 
-      const isValid = crypto.timingSafeEqual(passwordBuffer, storedBuffer);
-      return isValid ? { username } : null;
-    } catch {
+    if (!user) {
       return null;
     }
+
+    const authUser: AuthUser = {
+      username,
+      ...(user.roles ? { roles: user.roles } : {}),
+      ...(user.permissions ? { permissions: user.permissions } : {}),
+    };
+    const storedPassword = String(user.password);
+
+    // scrypt/PBKDF2 hashes, bcrypt hashes (needs the optional bcrypt package),
+    // or plain text (development only), all compared in constant time
+    let isValid: boolean;
+    try {
+      isValid = await verifyPassword(password, storedPassword);
+    } catch (error: unknown) {
+      this.logger.warn(`Cannot verify the password of user '${username}': ${(error as Error).message}`);
+      return null;
+    }
+
+    if (!isValid) {
+      return null;
+    }
+
+    if (this.options.rehashOnLogin && needsRehash(storedPassword)) {
+      this.rehash(username, storedPassword, password);
+    }
+
+    return authUser;
+  }
+
+  /**
+   * Replace a user's stored password with a fresh scrypt hash, in the background.
+   * Skipped if the entry changed in the meantime.
+   */
+  private rehash(username: string, previous: string, password: string): void {
+    if (this.rehashing.has(username)) {
+      return;
+    }
+    this.rehashing.add(username);
+
+    let upgraded = false;
+    hashPassword(password)
+      .then((hash) => this.updateAuthFile((config) => {
+        const entry = config.users?.find((user) => user?.username === username && String(user.password) === previous);
+        if (!entry) {
+          return false;
+        }
+        entry.password = hash;
+        upgraded = true;
+      }))
+      .then(() => {
+        if (upgraded) {
+          this.logger.log(`Upgraded the password hash of user '${username}'`);
+        }
+      })
+      .catch((error: Error) => {
+        this.logger.warn(`Failed to upgrade the password hash of user '${username}': ${error.message}`);
+      })
+      .finally(() => this.rehashing.delete(username));
+  }
+
+  async validateApiKey(key: string): Promise<AuthUser | null> {
+    const apiKey = this.apiKeys.get(hashApiKey(key));
+
+    if (!apiKey) {
+      return null;
+    }
+
+    if (apiKey.expiresAt && new Date(apiKey.expiresAt).getTime() <= Date.now()) {
+      this.logger.warn(`Rejected expired API key: ${apiKey.name}`);
+      return null;
+    }
+
+    // Keys without grants of their own act with their owner's
+    const owner = apiKey.roles || apiKey.permissions ? undefined : this.users.get(apiKey.owner ?? '');
+    const roles = owner ? owner.roles : apiKey.roles;
+    const permissions = owner ? owner.permissions : apiKey.permissions;
+
+    return {
+      username: apiKey.owner ?? apiKey.name,
+      apiKey: apiKey.name,
+      ...(roles ? { roles } : {}),
+      ...(permissions ? { permissions } : {}),
+    };
+  }
+
+  getPrincipalCounts(): { users: number; apiKeys: number } {
+    return { users: this.users.size, apiKeys: this.apiKeys.size };
+  }
+
+  getRolePermissions(): Record<string, string[]> {
+    return this.roles;
+  }
+
+  async createApiKey(params: CreateApiKeyParams): Promise<{ key: string; apiKey: ApiKeyInfo }> {
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    const entry: AuthYamlApiKey = {
+      id: uuidv4(),
+      name: params.name,
+      ...(params.owner ? { owner: params.owner } : {}),
+      ...(params.description ? { description: params.description } : {}),
+      ...(params.roles ? { roles: params.roles } : {}),
+      hash: hashApiKey(key),
+      createdAt: new Date().toISOString(),
+      ...(params.expiresAt ? { expiresAt: new Date(params.expiresAt).toISOString() } : {}),
+    };
+
+    await this.updateAuthFile((config) => {
+      config.apiKeys = [...(config.apiKeys ?? []), entry];
+    });
+    this.logger.log(`Created API key '${entry.name}' (${entry.id})`);
+
+    return { key, apiKey: this.toApiKeyInfo(entry) };
+  }
+
+  async listApiKeys(): Promise<ApiKeyInfo[]> {
+    return [...this.apiKeys.values()].map((entry) => this.toApiKeyInfo(entry));
+  }
+
+  async revokeApiKey(id: string): Promise<boolean> {
+    let revoked = false;
+
+    await this.updateAuthFile((config) => {
+      const apiKeys = config.apiKeys ?? [];
+      config.apiKeys = apiKeys.filter((entry) => String(entry?.id ?? entry?.name) !== id);
+      revoked = config.apiKeys.length < apiKeys.length;
+      return revoked;
+    });
+
+    if (revoked) {
+      this.logger.log(`Revoked API key ${id}`);
+    }
+    return revoked;
+  }
+
+  /**
+   * Apply a change to the auth file and reload it. The file is re-read first so
+   * manual edits are kept, then replaced atomically. YAML comments are not preserved.
+   * `update` can return false to leave the file untouched.
+   */
+  private updateAuthFile(update: (config: AuthYamlConfig) => boolean | void): Promise<void> {
+    return this.enqueue(async () => {
+      let config: AuthYamlConfig = {};
+      try {
+        config = this.parseConfig(await fs.readFile(this.authFilePath, 'utf-8'));
+      } catch (error: unknown) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
+
+      if (update(config) === false) {
+        return;
+      }
+
+      const tempPath = `${this.authFilePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, yaml.dump(config), { mode: 0o600 });
+      await fs.rename(tempPath, this.authFilePath);
+      this.applyConfig(config);
+    });
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private toApiKeyInfo(entry: AuthYamlApiKey): ApiKeyInfo {
+    return {
+      id: String(entry.id ?? entry.name),
+      name: entry.name,
+      ...(entry.owner ? { owner: entry.owner } : {}),
+      ...(entry.description ? { description: entry.description } : {}),
+      ...(entry.roles ? { roles: entry.roles } : {}),
+      ...(entry.createdAt ? { createdAt: new Date(entry.createdAt).toISOString() } : {}),
+      ...(entry.expiresAt ? { expiresAt: new Date(entry.expiresAt).toISOString() } : {}),
+    };
   }
 }
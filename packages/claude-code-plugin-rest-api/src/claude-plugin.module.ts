@@ -1,19 +1,53 @@
 import { Module, DynamicModule, Provider, InjectionToken, OptionalFactoryDependency, OnModuleInit } from '@nestjs/common';
 import { ModuleRef } from '@nestjs/core';
 import { ConfigModule } from '@nestjs/config';
-import { EventEmitterModule } from '@nestjs/event-emitter';
+import { EventEmitter2, EventEmitterModule } from '@nestjs/event-emitter';
 import { APP_GUARD } from '@nestjs/core';
 import { PluginDiscoveryService, PLUGIN_DISCOVERY_OPTIONS } from './services/plugin-discovery.service.js';
 import { PluginExecutionService, PLUGIN_EXECUTION_OPTIONS } from './services/plugin-execution.service.js';
 import { StreamSessionService } from './services/stream-session.service.js';
+import { JobService } from './services/job.service.js';
+import { ConversationService } from './services/conversation.service.js';
+import { InMemoryJobStore } from './services/in-memory-job.store.js';
+import { InMemoryStreamSessionStore } from './services/in-memory-stream-session.store.js';
+import { InMemoryUsageStore } from './services/in-memory-usage.store.js';
+import { UsageService } from './services/usage.service.js';
+import { JsonlExecutionHistoryStore } from './services/jsonl-execution-history.store.js';
+import { ExecutionHistoryService } from './services/execution-history.service.js';
+import { SpendQuotaGuard } from './services/spend-quota.guard.js';
 import { AgentService, AGENT_CONFIG } from './services/agent.service.js';
 import { PluginController, StreamController } from './controllers/plugin.controller.js';
 import { AgentController } from './controllers/agent.controller.js';
 import { WebhookController } from './controllers/webhook.controller.js';
+import { JobController } from './controllers/job.controller.js';
+import { ConversationController } from './controllers/conversation.controller.js';
+import { ApiKeyController } from './controllers/api-key.controller.js';
 import { BasicAuthGuard } from './auth/auth.guard.js';
 import { YamlAuthProvider } from './auth/yaml-auth.provider.js';
-import { AuthModuleOptions, AUTH_OPTIONS, AUTH_PROVIDER } from './auth/auth.types.js';
-import { AgentConfig } from './types/plugin.types.js';
+import { CompositeAuthProvider } from './auth/composite-auth.provider.js';
+import { StreamTokenService } from './auth/stream-token.service.js';
+import { JwtAuthStrategy } from './auth/jwt.strategy.js';
+import { AccessControlService } from './auth/access-control.service.js';
+import { PermissionsGuard } from './auth/permissions.guard.js';
+import { AuthStatusService } from './auth/auth-status.service.js';
+import { LoginThrottleService } from './auth/login-throttle.service.js';
+import { LockoutController } from './controllers/lockout.controller.js';
+import { UsageController } from './controllers/usage.controller.js';
+import { ExecutionController } from './controllers/execution.controller.js';
+import { AuthModuleOptions, AuthProvider, AUTH_OPTIONS, AUTH_PROVIDER } from './auth/auth.types.js';
+import { AgentConfig, PluginPolicy, PluginHooksOptions } from './types/plugin.types.js';
+import { JobsModuleOptions, JOB_STORE } from './types/job.types.js';
+import { QuotasModuleOptions, QUOTA_OPTIONS, USAGE_STORE } from './types/usage.types.js';
+import {
+  ExecutionHistoryModuleOptions,
+  EXECUTION_HISTORY_OPTIONS,
+  EXECUTION_HISTORY_STORE,
+} from './types/execution-history.types.js';
+import {
+  StreamSessionsModuleOptions,
+  STREAM_SESSION_OPTIONS,
+  STREAM_SESSION_STORE,
+} from './types/stream-session.types.js';
 
 export interface ClaudePluginModuleOptions {
   /**
@@ -49,6 +83,18 @@ export interface ClaudePluginModuleOptions {
    */
   maxBudgetUsd?: number;
 
+  /**
+   * Limits on the model, permission mode, tools, turns, thinking and output
+   * format that plugin agent and skill frontmatter may request
+   */
+  pluginPolicy?: PluginPolicy;
+
+  /**
+   * Plugin hooks (hooks/hooks.json): enable them, allowlist the commands
+   * that may run, and set the default command timeout
+   */
+  pluginHooks?: PluginHooksOptions;
+
   /**
    * Route prefix for plugin endpoints
    * @default 'v1'
@@ -67,6 +113,31 @@ export interface ClaudePluginModuleOptions {
    */
   auth?: AuthModuleOptions;
 
+  /**
+   * Asynchronous job configuration (used by `?async=true` executions)
+   */
+  jobs?: JobsModuleOptions;
+
+  /**
+   * Stream session configuration (POST .../stream + GET /v1/stream/:sessionId).
+   * Use a shared store such as RedisStreamSessionStore when running several instances.
+   */
+  streamSessions?: StreamSessionsModuleOptions;
+
+  /**
+   * Spend quotas per user, per agent and globally over daily and monthly
+   * windows, fed from the cost of each execution. Exhausted quotas reject
+   * executions before they start; GET /v1/usage reports the remaining allowance.
+   */
+  quotas?: QuotasModuleOptions;
+
+  /**
+   * History of every execution (caller, target, inputs, SDK messages, timing,
+   * cost, outcome), served by GET /v1/executions. Recorded to JSONL files in
+   * `.claude/executions` by default; pass a custom store to use a database.
+   */
+  executionHistory?: ExecutionHistoryModuleOptions;
+
   /**
    * User-defined agents with full SDK options.
    * Each agent gets exposed via /v1/agents/:name endpoint.
@@ -87,6 +158,27 @@ export interface ClaudePluginModuleOptions {
 
 const CLAUDE_PLUGIN_OPTIONS = 'CLAUDE_PLUGIN_OPTIONS';
 
+/**
+ * The AUTH_PROVIDER: a composite of `auth.providers`, the custom `auth.provider`,
+ * or the auth.yml provider
+ */
+function createAuthProvider(auth: AuthModuleOptions | undefined, eventEmitter: EventEmitter2): AuthProvider {
+  const yamlProvider = () => new YamlAuthProvider(auth?.authFilePath ?? 'auth.yml', {
+    hotReload: auth?.hotReload ?? true,
+    rehashOnLogin: auth?.rehashOnLogin ?? false,
+    eventEmitter,
+  });
+
+  if (auth?.providers) {
+    return new CompositeAuthProvider(auth.providers.map(({ name, provider }) => ({
+      name,
+      provider: provider === 'yaml' ? yamlProvider() : provider,
+    })));
+  }
+
+  return auth?.provider ?? yamlProvider();
+}
+
 @Module({})
 export class ClaudePluginModule implements OnModuleInit {
   constructor(private moduleRef: ModuleRef) {}
@@ -132,6 +224,12 @@ export class ClaudePluginModule implements OnModuleInit {
       controllers.push(StreamController);
       // Always include WebhookController for GitOps reload trigger
       controllers.push(WebhookController);
+      // Always include JobController for async execution status
+      controllers.push(JobController);
+      // Always include UsageController so callers can see their spend
+      controllers.push(UsageController);
+      // Always include ExecutionController for execution history
+      controllers.push(ExecutionController);
       // Include AgentController if agents are configured
       if (hasAgents) {
         controllers.push(AgentController);
@@ -140,6 +238,10 @@ export class ClaudePluginModule implements OnModuleInit {
       if (enablePluginEndpoints) {
         controllers.push(PluginController);
       }
+      // Conversations are available for both user-defined and plugin agents
+      if (hasAgents || enablePluginEndpoints) {
+        controllers.push(ConversationController);
+      }
     }
 
     // Auth configuration
@@ -147,8 +249,22 @@ export class ClaudePluginModule implements OnModuleInit {
       disabled: options.auth?.disabled ?? false,
       excludePaths: options.auth?.excludePaths ?? ['/health', '/api/docs*'],
       authFilePath: options.auth?.authFilePath ?? 'auth.yml',
+      hotReload: options.auth?.hotReload ?? true,
+      rehashOnLogin: options.auth?.rehashOnLogin ?? false,
+      onMissingCredentials: options.auth?.onMissingCredentials ?? 'deny-all',
+      streamTokens: options.auth?.streamTokens,
+      roles: options.auth?.roles,
+      defaultPermissions: options.auth?.defaultPermissions,
+      jwt: options.auth?.jwt,
+      bruteForce: options.auth?.bruteForce,
+      routes: options.auth?.routes,
     };
 
+    // API key and lockout admin endpoints need auth
+    if (resolvedOptions.includeControllers && !authOptions.disabled) {
+      controllers.push(ApiKeyController, LockoutController);
+    }
+
     const authProviders: Provider[] = authOptions.disabled ? [] : [
       {
         provide: AUTH_OPTIONS,
@@ -156,17 +272,18 @@ export class ClaudePluginModule implements OnModuleInit {
       },
       {
         provide: AUTH_PROVIDER,
-        useFactory: () => {
-          if (options.auth?.provider) {
-            return options.auth.provider;
-          }
-          return new YamlAuthProvider(authOptions.authFilePath);
-        },
+        useFactory: (eventEmitter: EventEmitter2) => createAuthProvider(options.auth, eventEmitter),
+        inject: [EventEmitter2],
       },
       {
         provide: APP_GUARD,
         useClass: BasicAuthGuard,
       },
+      // Registered after BasicAuthGuard so it sees the authenticated user
+      {
+        provide: APP_GUARD,
+        useClass: PermissionsGuard,
+      },
     ];
 
     // Agent providers (only if agents are configured)
@@ -190,6 +307,11 @@ export class ClaudePluginModule implements OnModuleInit {
       providers: [
         optionsProvider,
         ...authProviders,
+        // Registered after the auth guards so quotas see the authenticated user
+        {
+          provide: APP_GUARD,
+          useClass: SpendQuotaGuard,
+        },
         ...agentProviders,
         {
           provide: PLUGIN_DISCOVERY_OPTIONS,
@@ -203,16 +325,65 @@ export class ClaudePluginModule implements OnModuleInit {
           useValue: {
             maxTurns: resolvedOptions.maxTurns,
             maxBudgetUsd: resolvedOptions.maxBudgetUsd,
+            policy: options.pluginPolicy,
+            hooks: options.pluginHooks,
           },
         },
+        {
+          provide: JOB_STORE,
+          useFactory: () => options.jobs?.store ?? new InMemoryJobStore(options.jobs?.retentionMs),
+        },
+        {
+          provide: STREAM_SESSION_STORE,
+          useFactory: () => options.streamSessions?.store ?? new InMemoryStreamSessionStore(),
+        },
+        {
+          provide: STREAM_SESSION_OPTIONS,
+          useValue: { ttlMs: options.streamSessions?.ttlMs },
+        },
+        {
+          provide: QUOTA_OPTIONS,
+          useValue: options.quotas ?? {},
+        },
+        {
+          provide: USAGE_STORE,
+          useFactory: () => options.quotas?.store ?? new InMemoryUsageStore(),
+        },
+        {
+          provide: EXECUTION_HISTORY_OPTIONS,
+          useValue: options.executionHistory ?? {},
+        },
+        {
+          provide: EXECUTION_HISTORY_STORE,
+          useFactory: () => options.executionHistory?.store
+            ?? new JsonlExecutionHistoryStore(options.executionHistory?.directory),
+        },
         PluginDiscoveryService,
         PluginExecutionService,
         StreamSessionService,
+        StreamTokenService,
+        JwtAuthStrategy,
+        AccessControlService,
+        AuthStatusService,
+        LoginThrottleService,
+        UsageService,
+        ExecutionHistoryService,
+        JobService,
+        ConversationService,
       ],
       exports: [
         PluginDiscoveryService,
         PluginExecutionService,
         StreamSessionService,
+        StreamTokenService,
+        JwtAuthStrategy,
+        AccessControlService,
+        AuthStatusService,
+        LoginThrottleService,
+        UsageService,
+        ExecutionHistoryService,
+        JobService,
+        ConversationService,
         ...(hasAgents ? [AgentService] : []),
         CLAUDE_PLUGIN_OPTIONS,
       ],
@@ -254,6 +425,15 @@ export class ClaudePluginModule implements OnModuleInit {
           disabled: opts.auth?.disabled ?? false,
           excludePaths: opts.auth?.excludePaths ?? ['/health', '/api/docs*'],
           authFilePath: opts.auth?.authFilePath ?? 'auth.yml',
+          hotReload: opts.auth?.hotReload ?? true,
+          rehashOnLogin: opts.auth?.rehashOnLogin ?? false,
+          onMissingCredentials: opts.auth?.onMissingCredentials ?? 'deny-all',
+          streamTokens: opts.auth?.streamTokens,
+          roles: opts.auth?.roles,
+          defaultPermissions: opts.auth?.defaultPermissions,
+          jwt: opts.auth?.jwt,
+          bruteForce: opts.auth?.bruteForce,
+          routes: opts.auth?.routes,
         };
       },
       inject: asyncOptions.inject || [],
@@ -262,13 +442,12 @@ export class ClaudePluginModule implements OnModuleInit {
     const authProvider: Provider = {
       provide: AUTH_PROVIDER,
       useFactory: async (...args: unknown[]) => {
+        // EventEmitter2 is injected after the caller's dependencies
+        const eventEmitter = args.pop() as EventEmitter2;
         const opts = await asyncOptions.useFactory(...args);
-        if (opts.auth?.provider) {
-          return opts.auth.provider;
-        }
-        return new YamlAuthProvider(opts.auth?.authFilePath ?? 'auth.yml');
+        return createAuthProvider(opts.auth, eventEmitter);
       },
-      inject: asyncOptions.inject || [],
+      inject: [...(asyncOptions.inject || []), EventEmitter2],
     };
 
     const discoveryOptionsProvider: Provider = {
@@ -290,11 +469,76 @@ export class ClaudePluginModule implements OnModuleInit {
         return {
           maxTurns: opts.maxTurns ?? 50,
           maxBudgetUsd: opts.maxBudgetUsd ?? 10.0,
+          policy: opts.pluginPolicy,
+          hooks: opts.pluginHooks,
         };
       },
       inject: asyncOptions.inject || [],
     };
 
+    const jobStoreProvider: Provider = {
+      provide: JOB_STORE,
+      useFactory: async (...args: unknown[]) => {
+        const opts = await asyncOptions.useFactory(...args);
+        return opts.jobs?.store ?? new InMemoryJobStore(opts.jobs?.retentionMs);
+      },
+      inject: asyncOptions.inject || [],
+    };
+
+    const streamSessionStoreProvider: Provider = {
+      provide: STREAM_SESSION_STORE,
+      useFactory: async (...args: unknown[]) => {
+        const opts = await asyncOptions.useFactory(...args);
+        return opts.streamSessions?.store ?? new InMemoryStreamSessionStore();
+      },
+      inject: asyncOptions.inject || [],
+    };
+
+    const streamSessionOptionsProvider: Provider = {
+      provide: STREAM_SESSION_OPTIONS,
+      useFactory: async (...args: unknown[]) => {
+        const opts = await asyncOptions.useFactory(...args);
+        return { ttlMs: opts.streamSessions?.ttlMs };
+      },
+      inject: asyncOptions.inject || [],
+    };
+
+    const quotaOptionsProvider: Provider = {
+      provide: QUOTA_OPTIONS,
+      useFactory: async (...args: unknown[]) => {
+        const opts = await asyncOptions.useFactory(...args);
+        return opts.quotas ?? {};
+      },
+      inject: asyncOptions.inject || [],
+    };
+
+    const usageStoreProvider: Provider = {
+      provide: USAGE_STORE,
+      useFactory: async (...args: unknown[]) => {
+        const opts = await asyncOptions.useFactory(...args);
+        return opts.quotas?.store ?? new InMemoryUsageStore();
+      },
+      inject: asyncOptions.inject || [],
+    };
+
+    const executionHistoryOptionsProvider: Provider = {
+      provide: EXECUTION_HISTORY_OPTIONS,
+      useFactory: async (...args: unknown[]) => {
+        const opts = await asyncOptions.useFactory(...args);
+        return opts.executionHistory ?? {};
+      },
+      inject: asyncOptions.inject || [],
+    };
+
+    const executionHistoryStoreProvider: Provider = {
+      provide: EXECUTION_HISTORY_STORE,
+      useFactory: async (...args: unknown[]) => {
+        const opts = await asyncOptions.useFactory(...args);
+        return opts.executionHistory?.store ?? new JsonlExecutionHistoryStore(opts.executionHistory?.directory);
+      },
+      inject: asyncOptions.inject || [],
+    };
+
     // Agent config provider for async usage
     const agentConfigProvider: Provider = {
       provide: AGENT_CONFIG,
@@ -315,7 +559,18 @@ export class ClaudePluginModule implements OnModuleInit {
       // For async config, all controllers are included since we can't determine
       // enablePluginEndpoints at module registration time. Use forRoot() for
       // static configuration if you need to disable plugin endpoints.
-      controllers: [PluginController, StreamController, AgentController, WebhookController],
+      controllers: [
+        PluginController,
+        StreamController,
+        AgentController,
+        WebhookController,
+        JobController,
+        ConversationController,
+        ApiKeyController,
+        LockoutController,
+        UsageController,
+        ExecutionController,
+      ],
       providers: [
         optionsProvider,
         authOptionsProvider,
@@ -324,18 +579,51 @@ export class ClaudePluginModule implements OnModuleInit {
           provide: APP_GUARD,
           useClass: BasicAuthGuard,
         },
+        {
+          provide: APP_GUARD,
+          useClass: PermissionsGuard,
+        },
+        {
+          provide: APP_GUARD,
+          useClass: SpendQuotaGuard,
+        },
         discoveryOptionsProvider,
         executionOptionsProvider,
         agentConfigProvider,
+        jobStoreProvider,
+        streamSessionStoreProvider,
+        streamSessionOptionsProvider,
+        quotaOptionsProvider,
+        usageStoreProvider,
+        executionHistoryOptionsProvider,
+        executionHistoryStoreProvider,
         PluginDiscoveryService,
         PluginExecutionService,
         StreamSessionService,
+        StreamTokenService,
+        JwtAuthStrategy,
+        AccessControlService,
+        AuthStatusService,
+        LoginThrottleService,
+        UsageService,
+        ExecutionHistoryService,
+        JobService,
+        ConversationService,
         AgentService,
       ],
       exports: [
         PluginDiscoveryService,
         PluginExecutionService,
         StreamSessionService,
+        StreamTokenService,
+        JwtAuthStrategy,
+        AccessControlService,
+        AuthStatusService,
+        LoginThrottleService,
+        UsageService,
+        ExecutionHistoryService,
+        JobService,
+        ConversationService,
         AgentService,
         CLAUDE_PLUGIN_OPTIONS,
       ],
@@ -0,0 +1,113 @@
+#!/usr/bin/env node
+import { hashPassword, PasswordHashAlgorithm } from './auth/password-hash.js';
+
+const USAGE = `Usage: claude-plugin-rest-api <command>
+
+Commands:
+  hash-password [--algorithm scrypt|pbkdf2]
+      Hash a password for auth.yml. Reads it from a prompt, or from stdin when piped:
+        echo -n 'secret' | npx claude-plugin-rest-api hash-password
+`;
+
+async function main(args: string[]): Promise<number> {
+  const [command, ...rest] = args;
+
+  switch (command) {
+    case 'hash-password':
+      return hashPasswordCommand(rest);
+    case undefined:
+    case '--help':
+    case '-h':
+      process.stdout.write(USAGE);
+      return command === undefined ? 1 : 0;
+    default:
+      process.stderr.write(`Unknown command '${command}'\n\n${USAGE}`);
+      return 1;
+  }
+}
+
+async function hashPasswordCommand(args: string[]): Promise<number> {
+  let algorithm: PasswordHashAlgorithm = 'scrypt';
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = arg.startsWith('--algorithm=') ? arg.slice('--algorithm='.length) : arg === '--algorithm' ? args[++i] : undefined;
+    if (value === 'scrypt' || value === 'pbkdf2') {
+      algorithm = value;
+    } else {
+      process.stderr.write(`Invalid argument '${arg}'${value !== undefined ? ` '${value}'` : ''}\n\n${USAGE}`);
+      return 1;
+    }
+  }
+
+  const password = process.stdin.isTTY ? await prompt('Password: ') : await readStdin();
+  if (!password) {
+    process.stderr.write('Password must not be empty\n');
+    return 1;
+  }
+
+  process.stdout.write(`${await hashPassword(password, algorithm)}\n`);
+  return 0;
+}
+
+/**
+ * Read piped input, dropping one trailing newline
+ */
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8').replace(/\r?\n$/, '');
+}
+
+/**
+ * Read a line from the terminal without echoing it
+ */
+function prompt(question: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const stdin = process.stdin;
+    let input = '';
+
+    const finish = (result: string | Error) => {
+      stdin.setRawMode(false);
+      stdin.pause();
+      stdin.off('data', onData);
+      process.stderr.write('\n');
+      if (result instanceof Error) {
+        reject(result);
+      } else {
+        resolve(result);
+      }
+    };
+
+    const onData = (data: Buffer) => {
+      for (const char of data.toString('utf-8')) {
+        if (char === '\r' || char === '\n') {
+          finish(input);
+          return;
+        }
+        if (char === '\u0003') {
+          finish(new Error('Cancelled'));
+          return;
+        }
+        input = char === '\u007f' || char === '\b' ? input.slice(0, -1) : input + char;
+      }
+    };
+
+    process.stderr.write(question);
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.on('data', onData);
+  });
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: Error) => {
+    process.stderr.write(`${error.message}\n`);
+    process.exitCode = 1;
+  },
+);
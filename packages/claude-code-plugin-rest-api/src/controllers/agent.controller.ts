@@ -4,6 +4,8 @@ import {
   Post,
   Param,
   Body,
+  Query,
+  Headers,
   Res,
   Logger,
   HttpException,
@@ -12,16 +14,31 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { Response } from 'express';
-import { ApiTags, ApiOperation, ApiParam, ApiBody, ApiResponse } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiParam, ApiBody, ApiResponse, ApiQuery, ApiHeader, ApiProduces } from '@nestjs/swagger';
 import { Ajv, ErrorObject } from 'ajv';
 import { AgentService } from '../services/agent.service.js';
 import { StreamSessionService } from '../services/stream-session.service.js';
+import { JobService } from '../services/job.service.js';
+import { Attachment } from '../services/plugin-execution.service.js';
 import { AgentConfig } from '../types/plugin.types.js';
+import { validateAttachments } from '../utils/attachments.js';
+import { isSseFormat, toSseMessages } from '../utils/sse-events.js';
+import { acceptsEventStream, createEventStream } from '../utils/event-stream.js';
+import { abortOnClose } from '../utils/abort.js';
+import { SseFormat, SSE_FORMATS } from '../types/sse.types.js';
+import { AuthUser } from '../auth/auth.types.js';
+import { CurrentUser } from '../auth/current-user.decorator.js';
+import { StreamTokenService } from '../auth/stream-token.service.js';
+import { AccessControlService } from '../auth/access-control.service.js';
+import { RequirePermissions } from '../auth/permissions.decorator.js';
+import { SpendQuota } from '../services/spend-quota.decorator.js';
 
 const ajv = new Ajv({ allErrors: true });
 
 class ExecuteAgentDto {
   prompt!: string;
+  /** File attachments (images, PDFs, text files) */
+  attachments?: Attachment[];
   /**
    * When true, returns the agent's output directly without wrapper.
    * For agents with outputFormat, defaults to true (returns structured JSON directly).
@@ -33,6 +50,8 @@ class ExecuteAgentDto {
 
 class CreateStreamDto {
   prompt!: string;
+  /** File attachments (images, PDFs, text files) */
+  attachments?: Attachment[];
 }
 
 @ApiTags('agents')
@@ -43,16 +62,20 @@ export class AgentController {
   constructor(
     private readonly agentService: AgentService,
     private readonly streamSession: StreamSessionService,
+    private readonly jobService: JobService,
+    private readonly streamTokens: StreamTokenService,
+    private readonly accessControl: AccessControlService,
   ) {}
 
   /**
-   * List all user-defined agents
+   * List the user-defined agents the caller may execute
    */
   @Get()
   @ApiOperation({ summary: 'List all user-defined agents' })
   @ApiResponse({ status: 200, description: 'List of agent names' })
-  listAgents(): { agents: string[]; count: number } {
-    const agents = this.agentService.getAgentNames();
+  listAgents(@CurrentUser() user: AuthUser | undefined): { agents: string[]; count: number } {
+    const agents = this.agentService.getAgentNames()
+      .filter((name) => this.accessControl.can(user, `agents:${name}:execute`));
     return {
       agents,
       count: agents.length,
@@ -63,9 +86,11 @@ export class AgentController {
    * Get agent configuration
    */
   @Get(':name')
+  @RequirePermissions('agents:{name}:execute')
   @ApiOperation({ summary: 'Get agent configuration' })
   @ApiParam({ name: 'name', description: 'Agent name' })
   @ApiResponse({ status: 200, description: 'Agent configuration' })
+  @ApiResponse({ status: 403, description: 'Missing agents:<name>:execute permission' })
   @ApiResponse({ status: 404, description: 'Agent not found' })
   getAgent(@Param('name') name: string): AgentConfig & { endpoint: string; streamEndpoint: string } {
     const config = this.agentService.getAgentConfig(name);
@@ -88,18 +113,36 @@ export class AgentController {
    *
    * For agents with requestSchema configured, the request body is validated against the schema
    * and converted to a prompt using the configured template.
+   *
+   * With `?async=true`, responds 202 with a job ID to poll via GET /v1/jobs/:id.
+   * With `Accept: text/event-stream`, the response is the SSE stream of the execution.
    */
   @Post(':name')
+  @RequirePermissions('agents:{name}:execute')
+  @SpendQuota('{name}')
   @ApiOperation({ summary: 'Execute an agent' })
   @ApiParam({ name: 'name', description: 'Agent name' })
   @ApiBody({ type: ExecuteAgentDto })
+  @ApiProduces('application/json', 'text/event-stream')
+  @ApiHeader({ name: 'Accept', required: false, description: 'text/event-stream to stream the execution in the response' })
+  @ApiQuery({ name: 'async', required: false, description: 'Return a job ID immediately (see /v1/jobs)' })
+  @ApiQuery({ name: 'format', required: false, enum: SSE_FORMATS, description: 'SSE event schema when streaming (default: compact)' })
+  @ApiQuery({ name: 'partial', required: false, description: 'Stream token-level text deltas (true/false, defaults to the agent setting)' })
   @ApiResponse({ status: 200, description: 'Execution result' })
+  @ApiResponse({ status: 202, description: 'Job submitted (async mode)' })
   @ApiResponse({ status: 400, description: 'Request validation failed' })
+  @ApiResponse({ status: 402, description: 'Spend quota exhausted' })
+  @ApiResponse({ status: 403, description: 'Missing agents:<name>:execute permission' })
   @ApiResponse({ status: 404, description: 'Agent not found' })
   async executeAgent(
     @Param('name') name: string,
     @Body() body: unknown,
+    @CurrentUser() user: AuthUser | undefined,
+    @Query('async') runAsync: string | undefined,
     @Res({ passthrough: true }) res: Response,
+    @Headers('accept') accept?: string,
+    @Query('format') format?: string,
+    @Query('partial') partial?: string,
   ) {
     this.logger.log(`Executing agent: ${name}`);
 
@@ -109,43 +152,36 @@ export class AgentController {
       throw new NotFoundException(`Agent '${name}' not found`);
     }
 
-    let prompt: string;
-    let rawResponse: boolean | undefined;
-
-    if (config.requestSchema) {
-      // Validate request body against JSON schema
-      const validate = ajv.compile(config.requestSchema.schema);
-      const valid = validate(body);
-
-      if (!valid) {
-        throw new BadRequestException({
-          message: 'Request body validation failed',
-          errors: validate.errors?.map((err: ErrorObject) => ({
-            path: err.instancePath || '/',
-            message: err.message,
-            keyword: err.keyword,
-            params: err.params,
-          })),
-        });
-      }
+    const { prompt, attachments, rawResponse } = this.parseRequest(config, body);
 
-      // Convert request body to prompt using template
-      const template = config.requestSchema.promptTemplate ?? '{{json}}';
-      prompt = template.replace('{{json}}', JSON.stringify(body, null, 2));
+    if (acceptsEventStream(accept)) {
+      const messages = this.agentService.stream(name, prompt, {
+        attachments,
+        user,
+        includePartialMessages: partial === undefined ? undefined : partial === 'true',
+      });
+      return createEventStream(res, toSseMessages(messages, this.parseSseFormat(format)));
+    }
 
-      // For requestSchema agents, rawResponse defaults based on outputFormat
-      rawResponse = config.outputFormat !== undefined;
-    } else {
-      // Standard behavior: expect {prompt, rawResponse?}
-      const dto = body as ExecuteAgentDto;
-      if (!dto.prompt || typeof dto.prompt !== 'string') {
-        throw new BadRequestException('Request body must include a "prompt" string');
-      }
-      prompt = dto.prompt;
-      rawResponse = dto.rawResponse;
+    if (runAsync === 'true') {
+      const job = await this.jobService.submit(
+        { kind: 'agent', name },
+        () => this.agentService.stream(name, prompt, { attachments, user }),
+        user,
+      );
+      res.status(HttpStatus.ACCEPTED);
+      return {
+        jobId: job.id,
+        status: job.status,
+        statusUrl: `/v1/jobs/${job.id}`,
+      };
     }
 
-    const result = await this.agentService.execute(name, prompt);
+    const result = await this.agentService.execute(name, prompt, {
+      attachments,
+      user,
+      signal: abortOnClose(res),
+    });
 
     if (!result.success && result.error?.includes('not found')) {
       throw new NotFoundException(result.error);
@@ -188,14 +224,20 @@ export class AgentController {
    * Create a stream session for agent execution
    *
    * Returns a session ID that can be used with GET /v1/stream/:sessionId to consume the SSE stream.
+   * The session belongs to the authenticated user; `signedStreamUrl` lets clients that cannot
+   * send an Authorization header (e.g. EventSource) consume it.
    *
    * For agents with requestSchema configured, the request body is validated against the schema
    * and converted to a prompt using the configured template.
    */
   @Post(':name/stream')
+  @RequirePermissions('agents:{name}:execute')
+  @SpendQuota('{name}')
   @ApiOperation({ summary: 'Create a stream session for agent execution' })
   @ApiParam({ name: 'name', description: 'Agent name' })
   @ApiBody({ type: CreateStreamDto })
+  @ApiQuery({ name: 'format', required: false, enum: SSE_FORMATS, description: 'SSE event schema (default: compact)' })
+  @ApiQuery({ name: 'partial', required: false, description: 'Stream token-level text deltas (true/false, defaults to the agent setting)' })
   @ApiResponse({
     status: 200,
     description: 'Stream session created',
@@ -204,14 +246,21 @@ export class AgentController {
         sessionId: { type: 'string' },
         streamUrl: { type: 'string' },
         expiresIn: { type: 'number' },
+        signedStreamUrl: { type: 'string' },
+        tokenExpiresIn: { type: 'number' },
       },
     },
   })
   @ApiResponse({ status: 400, description: 'Request validation failed' })
+  @ApiResponse({ status: 402, description: 'Spend quota exhausted' })
+  @ApiResponse({ status: 403, description: 'Missing agents:<name>:execute permission' })
   @ApiResponse({ status: 404, description: 'Agent not found' })
   async createStreamSession(
     @Param('name') name: string,
     @Body() body: unknown,
+    @CurrentUser() user: AuthUser | undefined,
+    @Query('format') format?: string,
+    @Query('partial') partial?: string,
   ) {
     // Verify agent exists
     const config = this.agentService.getAgentConfig(name);
@@ -219,8 +268,39 @@ export class AgentController {
       throw new NotFoundException(`Agent '${name}' not found`);
     }
 
-    let prompt: string;
+    const { prompt, attachments } = this.parseRequest(config, body);
+
+    this.logger.log(`Creating stream session for agent: ${name}`);
 
+    const sessionId = await this.streamSession.createSession({
+      target: { kind: 'agent', name },
+      // Note: maxTurns and maxBudgetUsd are defined in the agent config, not per-request
+      options: {
+        arguments: prompt,
+        attachments,
+        includePartialMessages: partial === undefined ? undefined : partial === 'true',
+      },
+      format: this.parseSseFormat(format),
+      owner: user,
+    });
+
+    return {
+      sessionId,
+      streamUrl: `/v1/stream/${sessionId}`,
+      expiresIn: Math.floor(this.streamSession.sessionTtlMs / 1000),
+      ...(user ? this.streamTokens.signUrl(sessionId, user) : {}),
+    };
+  }
+
+  /**
+   * Turn a request body into a prompt.
+   * Agents with a requestSchema get their body validated against the schema and
+   * rendered with the prompt template; other agents expect `{prompt, attachments?, rawResponse?}`.
+   */
+  private parseRequest(
+    config: AgentConfig,
+    body: unknown,
+  ): { prompt: string; attachments?: Attachment[]; rawResponse?: boolean } {
     if (config.requestSchema) {
       // Validate request body against JSON schema
       const validate = ajv.compile(config.requestSchema.schema);
@@ -240,30 +320,49 @@ export class AgentController {
 
       // Convert request body to prompt using template
       const template = config.requestSchema.promptTemplate ?? '{{json}}';
-      prompt = template.replace('{{json}}', JSON.stringify(body, null, 2));
-    } else {
-      // Standard behavior: expect {prompt}
-      const dto = body as CreateStreamDto;
-      if (!dto.prompt || typeof dto.prompt !== 'string') {
-        throw new BadRequestException('Request body must include a "prompt" string');
-      }
-      prompt = dto.prompt;
+      return {
+        prompt: template.replace('{{json}}', JSON.stringify(body, null, 2)),
+        // For requestSchema agents, rawResponse defaults based on outputFormat
+        rawResponse: config.outputFormat !== undefined,
+      };
     }
 
-    this.logger.log(`Creating stream session for agent: ${name}`);
-
-    // Create session with special marker for user-defined agents
-    const sessionId = await this.streamSession.createSession({
-      pluginName: '__agent__', // Special marker to distinguish from plugin agents
-      agentName: name,
-      prompt,
-      // Note: maxTurns and maxBudgetUsd are defined in the agent config, not per-request
-    });
+    const dto = body as ExecuteAgentDto;
+    if (!dto?.prompt || typeof dto.prompt !== 'string') {
+      throw new BadRequestException('Request body must include a "prompt" string');
+    }
+    this.assertValidAttachments(dto.attachments);
 
     return {
-      sessionId,
-      streamUrl: `/v1/stream/${sessionId}`,
-      expiresIn: 300, // 5 minutes
+      prompt: dto.prompt,
+      attachments: dto.attachments,
+      rawResponse: dto.rawResponse,
     };
   }
+
+  /**
+   * Reject requests whose attachments have unsupported media types or sizes
+   */
+  private assertValidAttachments(attachments: unknown): void {
+    const errors = validateAttachments(attachments);
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        message: 'Attachment validation failed',
+        errors,
+      });
+    }
+  }
+
+  /**
+   * Parse the `format` query parameter of a stream session
+   */
+  private parseSseFormat(format: string | undefined): SseFormat | undefined {
+    if (format === undefined) {
+      return undefined;
+    }
+    if (!isSseFormat(format)) {
+      throw new BadRequestException(`Invalid format '${format}'. Expected one of: ${SSE_FORMATS.join(', ')}`);
+    }
+    return format;
+  }
 }
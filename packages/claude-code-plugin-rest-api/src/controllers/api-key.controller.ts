@@ -0,0 +1,138 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Body,
+  Inject,
+  Logger,
+  HttpCode,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  NotImplementedException,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiParam, ApiBody, ApiResponse } from '@nestjs/swagger';
+import {
+  ApiKeyManager,
+  AuthProvider,
+  AuthUser,
+  AUTH_PROVIDER,
+  isApiKeyManager,
+} from '../auth/auth.types.js';
+import { CurrentUser } from '../auth/current-user.decorator.js';
+import { RequirePermissions } from '../auth/permissions.decorator.js';
+
+class CreateApiKeyDto {
+  name!: string;
+  /** Username the key acts as (defaults to the key name) */
+  owner?: string;
+  description?: string;
+  /** Roles granted to requests using the key */
+  roles?: string[];
+  /** ISO 8601 expiry; omit for a key that never expires */
+  expiresAt?: string;
+}
+
+/**
+ * Admin endpoints for minting and revoking API keys.
+ * Requires the `admin:api-keys` permission.
+ */
+@ApiTags('admin')
+@Controller('v1/admin/api-keys')
+@RequirePermissions('admin:api-keys')
+export class ApiKeyController {
+  private readonly logger = new Logger(ApiKeyController.name);
+
+  constructor(@Inject(AUTH_PROVIDER) private readonly provider: AuthProvider) {}
+
+  /**
+   * List API keys (without the keys themselves)
+   */
+  @Get()
+  @ApiOperation({ summary: 'List API keys' })
+  @ApiResponse({ status: 200, description: 'API keys with name, owner, expiry and description' })
+  @ApiResponse({ status: 403, description: 'Missing admin:api-keys permission' })
+  async listApiKeys() {
+    const manager = this.getManager();
+    const apiKeys = await manager.listApiKeys();
+    return { apiKeys, count: apiKeys.length };
+  }
+
+  /**
+   * Mint an API key. The plaintext key is in this response only;
+   * auth.yml stores its hash.
+   */
+  @Post()
+  @ApiOperation({ summary: 'Create an API key' })
+  @ApiBody({ type: CreateApiKeyDto })
+  @ApiResponse({ status: 201, description: 'API key created; `key` is shown only once' })
+  @ApiResponse({ status: 400, description: 'Invalid name or expiry' })
+  @ApiResponse({ status: 403, description: 'Missing admin:api-keys permission' })
+  @ApiResponse({ status: 409, description: 'An API key with this name exists' })
+  async createApiKey(@Body() dto: CreateApiKeyDto, @CurrentUser() user: AuthUser | undefined) {
+    const manager = this.getManager();
+
+    if (!dto?.name || typeof dto.name !== 'string') {
+      throw new BadRequestException('Request body must include a "name" string');
+    }
+    if (dto.roles !== undefined && (!Array.isArray(dto.roles) || dto.roles.some((role) => typeof role !== 'string'))) {
+      throw new BadRequestException('"roles" must be an array of strings');
+    }
+    if (dto.expiresAt !== undefined) {
+      const expiresAt = Date.parse(dto.expiresAt);
+      if (Number.isNaN(expiresAt)) {
+        throw new BadRequestException(`Invalid expiresAt '${dto.expiresAt}'. Expected an ISO 8601 date`);
+      }
+      if (expiresAt <= Date.now()) {
+        throw new BadRequestException('expiresAt must be in the future');
+      }
+    }
+
+    const existing = await manager.listApiKeys();
+    if (existing.some((apiKey) => apiKey.name === dto.name)) {
+      throw new ConflictException(`API key '${dto.name}' already exists`);
+    }
+
+    const { key, apiKey } = await manager.createApiKey({
+      name: dto.name,
+      owner: dto.owner,
+      description: dto.description,
+      roles: dto.roles,
+      expiresAt: dto.expiresAt,
+    });
+    this.logger.log(`API key '${apiKey.name}' created by ${user?.username}`);
+
+    return { ...apiKey, key };
+  }
+
+  /**
+   * Revoke an API key
+   */
+  @Delete(':id')
+  @HttpCode(204)
+  @ApiOperation({ summary: 'Revoke an API key' })
+  @ApiParam({ name: 'id', description: 'API key ID' })
+  @ApiResponse({ status: 204, description: 'API key revoked' })
+  @ApiResponse({ status: 403, description: 'Missing admin:api-keys permission' })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  async revokeApiKey(@Param('id') id: string, @CurrentUser() user: AuthUser | undefined): Promise<void> {
+    const manager = this.getManager();
+
+    if (!(await manager.revokeApiKey(id))) {
+      throw new NotFoundException(`API key '${id}' not found`);
+    }
+    this.logger.log(`API key ${id} revoked by ${user?.username}`);
+  }
+
+  /**
+   * The provider's key management
+   */
+  private getManager(): ApiKeyManager {
+    if (!isApiKeyManager(this.provider)) {
+      throw new NotImplementedException('The auth provider does not support API key management');
+    }
+    return this.provider;
+  }
+}
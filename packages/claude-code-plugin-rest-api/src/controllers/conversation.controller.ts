@@ -0,0 +1,308 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Body,
+  Res,
+  HttpCode,
+  Logger,
+  Optional,
+  HttpException,
+  HttpStatus,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { ApiTags, ApiOperation, ApiParam, ApiBody, ApiResponse } from '@nestjs/swagger';
+import { ConversationService } from '../services/conversation.service.js';
+import { AgentService } from '../services/agent.service.js';
+import { PluginDiscoveryService } from '../services/plugin-discovery.service.js';
+import { Attachment } from '../services/plugin-execution.service.js';
+import { ConversationTarget } from '../types/conversation.types.js';
+import { validateAttachments } from '../utils/attachments.js';
+import { abortOnClose } from '../utils/abort.js';
+import { RequirePermissions } from '../auth/permissions.decorator.js';
+import { AuthUser } from '../auth/auth.types.js';
+import { CurrentUser } from '../auth/current-user.decorator.js';
+import { SpendQuota } from '../services/spend-quota.decorator.js';
+
+class SendMessageDto {
+  prompt!: string;
+  /** File attachments (images, PDFs, text files) */
+  attachments?: Attachment[];
+}
+
+class ForkConversationDto {
+  /** Assistant message to branch from (defaults to the latest reply) */
+  messageId?: string;
+}
+
+/**
+ * Multi-turn conversations for user-defined agents (/v1/agents/:name/conversations)
+ * and plugin agents (/v1/plugins/:pluginName/agents/:agentName/conversations).
+ * Each route requires the permission to execute the agent or plugin; callers
+ * only see and use the conversations they started.
+ */
+@ApiTags('conversations')
+@Controller('v1')
+export class ConversationController {
+  private readonly logger = new Logger(ConversationController.name);
+
+  constructor(
+    private readonly conversationService: ConversationService,
+    private readonly pluginDiscovery: PluginDiscoveryService,
+    @Optional() private readonly agentService?: AgentService,
+  ) {}
+
+  // User-defined agents
+
+  @Post('agents/:name/conversations')
+  @RequirePermissions('agents:{name}:execute')
+  @ApiOperation({ summary: 'Start a conversation with an agent' })
+  @ApiParam({ name: 'name', description: 'Agent name' })
+  @ApiResponse({ status: 201, description: 'Conversation created' })
+  @ApiResponse({ status: 404, description: 'Agent not found' })
+  createAgentConversation(@Param('name') name: string, @CurrentUser() user: AuthUser | undefined) {
+    return this.conversationService.create(this.agentTarget(name), user);
+  }
+
+  @Get('agents/:name/conversations')
+  @RequirePermissions('agents:{name}:execute')
+  @ApiOperation({ summary: 'List conversations with an agent' })
+  @ApiParam({ name: 'name', description: 'Agent name' })
+  listAgentConversations(@Param('name') name: string, @CurrentUser() user: AuthUser | undefined) {
+    const conversations = this.conversationService.list(this.agentTarget(name), user);
+    return { conversations, count: conversations.length };
+  }
+
+  @Get('agents/:name/conversations/:id')
+  @RequirePermissions('agents:{name}:execute')
+  @ApiOperation({ summary: 'Get a conversation and its message history' })
+  @ApiParam({ name: 'name', description: 'Agent name' })
+  @ApiParam({ name: 'id', description: 'Conversation ID' })
+  @ApiResponse({ status: 404, description: 'Conversation not found or started by another caller' })
+  getAgentConversation(
+    @Param('name') name: string,
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser | undefined,
+  ) {
+    return this.conversationService.get(this.agentTarget(name), id, user);
+  }
+
+  @Post('agents/:name/conversations/:id/messages')
+  @RequirePermissions('agents:{name}:execute')
+  @SpendQuota('{name}')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Send a message, resuming the conversation session' })
+  @ApiParam({ name: 'name', description: 'Agent name' })
+  @ApiParam({ name: 'id', description: 'Conversation ID' })
+  @ApiResponse({ status: 404, description: 'Conversation not found or started by another caller' })
+  @ApiBody({ type: SendMessageDto })
+  @ApiResponse({ status: 402, description: 'Spend quota exhausted' })
+  @ApiResponse({ status: 409, description: 'A message is already in progress' })
+  sendAgentMessage(
+    @Param('name') name: string,
+    @Param('id') id: string,
+    @Body() dto: SendMessageDto,
+    @CurrentUser() user: AuthUser | undefined,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.sendMessage(this.agentTarget(name), id, dto, user, res);
+  }
+
+  @Post('agents/:name/conversations/:id/fork')
+  @RequirePermissions('agents:{name}:execute')
+  @ApiOperation({ summary: 'Fork a conversation from an earlier reply' })
+  @ApiParam({ name: 'name', description: 'Agent name' })
+  @ApiParam({ name: 'id', description: 'Conversation ID' })
+  @ApiResponse({ status: 404, description: 'Conversation not found or started by another caller' })
+  @ApiBody({ type: ForkConversationDto })
+  forkAgentConversation(
+    @Param('name') name: string,
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser | undefined,
+    @Body() dto: ForkConversationDto = {},
+  ) {
+    return this.conversationService.fork(this.agentTarget(name), id, dto?.messageId, user);
+  }
+
+  @Delete('agents/:name/conversations/:id')
+  @RequirePermissions('agents:{name}:execute')
+  @HttpCode(204)
+  @ApiOperation({ summary: 'Delete a conversation' })
+  @ApiParam({ name: 'name', description: 'Agent name' })
+  @ApiParam({ name: 'id', description: 'Conversation ID' })
+  @ApiResponse({ status: 404, description: 'Conversation not found or started by another caller' })
+  deleteAgentConversation(
+    @Param('name') name: string,
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser | undefined,
+  ): void {
+    this.conversationService.delete(this.agentTarget(name), id, user);
+  }
+
+  // Plugin agents
+
+  @Post('plugins/:pluginName/agents/:agentName/conversations')
+  @RequirePermissions('plugins:{pluginName}:execute')
+  @ApiOperation({ summary: 'Start a conversation with a plugin agent' })
+  @ApiParam({ name: 'pluginName', description: 'Plugin name' })
+  @ApiParam({ name: 'agentName', description: 'Agent name' })
+  @ApiResponse({ status: 201, description: 'Conversation created' })
+  @ApiResponse({ status: 404, description: 'Agent not found' })
+  createPluginConversation(
+    @Param('pluginName') pluginName: string,
+    @Param('agentName') agentName: string,
+    @CurrentUser() user: AuthUser | undefined,
+  ) {
+    return this.conversationService.create(this.pluginTarget(pluginName, agentName), user);
+  }
+
+  @Get('plugins/:pluginName/agents/:agentName/conversations')
+  @RequirePermissions('plugins:{pluginName}:execute')
+  @ApiOperation({ summary: 'List conversations with a plugin agent' })
+  @ApiParam({ name: 'pluginName', description: 'Plugin name' })
+  @ApiParam({ name: 'agentName', description: 'Agent name' })
+  listPluginConversations(
+    @Param('pluginName') pluginName: string,
+    @Param('agentName') agentName: string,
+    @CurrentUser() user: AuthUser | undefined,
+  ) {
+    const conversations = this.conversationService.list(this.pluginTarget(pluginName, agentName), user);
+    return { conversations, count: conversations.length };
+  }
+
+  @Get('plugins/:pluginName/agents/:agentName/conversations/:id')
+  @RequirePermissions('plugins:{pluginName}:execute')
+  @ApiOperation({ summary: 'Get a plugin agent conversation and its message history' })
+  @ApiParam({ name: 'pluginName', description: 'Plugin name' })
+  @ApiParam({ name: 'agentName', description: 'Agent name' })
+  @ApiParam({ name: 'id', description: 'Conversation ID' })
+  @ApiResponse({ status: 404, description: 'Conversation not found or started by another caller' })
+  getPluginConversation(
+    @Param('pluginName') pluginName: string,
+    @Param('agentName') agentName: string,
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser | undefined,
+  ) {
+    return this.conversationService.get(this.pluginTarget(pluginName, agentName), id, user);
+  }
+
+  @Post('plugins/:pluginName/agents/:agentName/conversations/:id/messages')
+  @RequirePermissions('plugins:{pluginName}:execute')
+  @SpendQuota('{pluginName}/{agentName}')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Send a message to a plugin agent conversation' })
+  @ApiParam({ name: 'pluginName', description: 'Plugin name' })
+  @ApiParam({ name: 'agentName', description: 'Agent name' })
+  @ApiParam({ name: 'id', description: 'Conversation ID' })
+  @ApiResponse({ status: 404, description: 'Conversation not found or started by another caller' })
+  @ApiBody({ type: SendMessageDto })
+  @ApiResponse({ status: 402, description: 'Spend quota exhausted' })
+  @ApiResponse({ status: 409, description: 'A message is already in progress' })
+  sendPluginMessage(
+    @Param('pluginName') pluginName: string,
+    @Param('agentName') agentName: string,
+    @Param('id') id: string,
+    @Body() dto: SendMessageDto,
+    @CurrentUser() user: AuthUser | undefined,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.sendMessage(this.pluginTarget(pluginName, agentName), id, dto, user, res);
+  }
+
+  @Post('plugins/:pluginName/agents/:agentName/conversations/:id/fork')
+  @RequirePermissions('plugins:{pluginName}:execute')
+  @ApiOperation({ summary: 'Fork a plugin agent conversation from an earlier reply' })
+  @ApiParam({ name: 'pluginName', description: 'Plugin name' })
+  @ApiParam({ name: 'agentName', description: 'Agent name' })
+  @ApiParam({ name: 'id', description: 'Conversation ID' })
+  @ApiResponse({ status: 404, description: 'Conversation not found or started by another caller' })
+  @ApiBody({ type: ForkConversationDto })
+  forkPluginConversation(
+    @Param('pluginName') pluginName: string,
+    @Param('agentName') agentName: string,
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser | undefined,
+    @Body() dto: ForkConversationDto = {},
+  ) {
+    return this.conversationService.fork(this.pluginTarget(pluginName, agentName), id, dto?.messageId, user);
+  }
+
+  @Delete('plugins/:pluginName/agents/:agentName/conversations/:id')
+  @RequirePermissions('plugins:{pluginName}:execute')
+  @HttpCode(204)
+  @ApiOperation({ summary: 'Delete a plugin agent conversation' })
+  @ApiParam({ name: 'pluginName', description: 'Plugin name' })
+  @ApiParam({ name: 'agentName', description: 'Agent name' })
+  @ApiParam({ name: 'id', description: 'Conversation ID' })
+  @ApiResponse({ status: 404, description: 'Conversation not found or started by another caller' })
+  deletePluginConversation(
+    @Param('pluginName') pluginName: string,
+    @Param('agentName') agentName: string,
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser | undefined,
+  ): void {
+    this.conversationService.delete(this.pluginTarget(pluginName, agentName), id, user);
+  }
+
+  private async sendMessage(
+    target: ConversationTarget,
+    id: string,
+    dto: SendMessageDto,
+    user: AuthUser | undefined,
+    res: Response,
+  ) {
+    if (!dto?.prompt || typeof dto.prompt !== 'string') {
+      throw new BadRequestException('Request body must include a "prompt" string');
+    }
+
+    const errors = validateAttachments(dto.attachments);
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        message: 'Attachment validation failed',
+        errors,
+      });
+    }
+
+    this.logger.log(`Sending message to conversation ${id}`);
+
+    const { message, result } = await this.conversationService.sendMessage(
+      target,
+      id,
+      dto.prompt,
+      dto.attachments,
+      abortOnClose(res),
+      user,
+    );
+
+    if (!result.success) {
+      throw new HttpException(
+        { success: false, error: result.error },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+
+    return {
+      conversationId: id,
+      messageId: message?.id,
+      ...result,
+    };
+  }
+
+  private agentTarget(name: string): ConversationTarget {
+    if (!this.agentService?.getAgentConfig(name)) {
+      throw new NotFoundException(`Agent '${name}' not found`);
+    }
+    return { kind: 'agent', name };
+  }
+
+  private pluginTarget(pluginName: string, agentName: string): ConversationTarget {
+    if (!this.pluginDiscovery.getAgent(pluginName, agentName)) {
+      throw new NotFoundException(`Agent '${agentName}' not found in plugin '${pluginName}'`);
+    }
+    return { kind: 'plugin-agent', pluginName, name: agentName };
+  }
+}
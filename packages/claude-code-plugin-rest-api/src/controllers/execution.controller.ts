@@ -0,0 +1,143 @@
+import { Controller, Get, Param, Query, NotFoundException, BadRequestException } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiParam, ApiQuery, ApiResponse } from '@nestjs/swagger';
+import { AuthUser } from '../auth/auth.types.js';
+import { CurrentUser } from '../auth/current-user.decorator.js';
+import { AccessControlService } from '../auth/access-control.service.js';
+import { ExecutionHistoryService } from '../services/execution-history.service.js';
+import { ExecutionQuery, ExecutionRecord, ExecutionStatus } from '../types/execution-history.types.js';
+
+const KINDS = ['agent', 'plugin-agent', 'command', 'skill'];
+const STATUSES: ExecutionStatus[] = ['running', 'succeeded', 'failed', 'cancelled'];
+
+class ExecutionListQuery {
+  username?: string;
+  kind?: string;
+  plugin?: string;
+  name?: string;
+  status?: string;
+  since?: string;
+  until?: string;
+  limit?: string;
+  offset?: string;
+}
+
+/**
+ * Recorded executions and their transcripts.
+ * Callers see their own executions; the `admin:executions` permission grants
+ * access to everyone's.
+ */
+@ApiTags('executions')
+@Controller('v1/executions')
+export class ExecutionController {
+  constructor(
+    private readonly history: ExecutionHistoryService,
+    private readonly accessControl: AccessControlService,
+  ) {}
+
+  /**
+   * List executions, newest first
+   */
+  @Get()
+  @ApiOperation({ summary: 'List recorded executions' })
+  @ApiQuery({ name: 'username', required: false, description: 'Caller (ignored without admin:executions)' })
+  @ApiQuery({ name: 'kind', required: false, enum: KINDS })
+  @ApiQuery({ name: 'plugin', required: false, description: 'Plugin name' })
+  @ApiQuery({ name: 'name', required: false, description: 'Agent, command or skill name' })
+  @ApiQuery({ name: 'status', required: false, enum: STATUSES })
+  @ApiQuery({ name: 'since', required: false, description: 'Started at or after (ISO 8601 or epoch ms)' })
+  @ApiQuery({ name: 'until', required: false, description: 'Started before (ISO 8601 or epoch ms)' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Maximum results (default 50)' })
+  @ApiQuery({ name: 'offset', required: false, description: 'Results to skip' })
+  @ApiResponse({ status: 200, description: 'Execution summaries' })
+  @ApiResponse({ status: 400, description: 'Invalid filter' })
+  async listExecutions(@CurrentUser() user: AuthUser | undefined, @Query() query: ExecutionListQuery) {
+    if (query.kind && !KINDS.includes(query.kind)) {
+      throw new BadRequestException(`Invalid kind '${query.kind}'. Expected one of: ${KINDS.join(', ')}`);
+    }
+    if (query.status && !STATUSES.includes(query.status as ExecutionStatus)) {
+      throw new BadRequestException(`Invalid status '${query.status}'. Expected one of: ${STATUSES.join(', ')}`);
+    }
+
+    const filters: ExecutionQuery = {
+      username: this.canSeeAll(user) ? query.username || undefined : user?.username,
+      kind: (query.kind || undefined) as ExecutionQuery['kind'],
+      pluginName: query.plugin || undefined,
+      name: query.name || undefined,
+      status: (query.status || undefined) as ExecutionStatus | undefined,
+      since: parseTime('since', query.since),
+      until: parseTime('until', query.until),
+      limit: parseCount('limit', query.limit),
+      offset: parseCount('offset', query.offset),
+    };
+
+    const executions = await this.history.list(filters);
+    return {
+      executions,
+      count: executions.length,
+    };
+  }
+
+  /**
+   * Summary of one execution: target, caller, inputs, timing, cost and outcome
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an execution' })
+  @ApiParam({ name: 'id', description: 'Execution ID (executionId in execution results)' })
+  @ApiResponse({ status: 200, description: 'Execution summary' })
+  @ApiResponse({ status: 404, description: 'Execution not found' })
+  async getExecution(@CurrentUser() user: AuthUser | undefined, @Param('id') id: string): Promise<ExecutionRecord> {
+    return this.findVisible(user, id);
+  }
+
+  /**
+   * Every SDK message of an execution, in order
+   */
+  @Get(':id/transcript')
+  @ApiOperation({ summary: 'Get the transcript of an execution' })
+  @ApiParam({ name: 'id', description: 'Execution ID' })
+  @ApiResponse({ status: 200, description: 'SDK messages of the execution' })
+  @ApiResponse({ status: 404, description: 'Execution not found' })
+  async getTranscript(@CurrentUser() user: AuthUser | undefined, @Param('id') id: string) {
+    await this.findVisible(user, id);
+    const messages = (await this.history.getTranscript(id)) ?? [];
+    return {
+      id,
+      messages,
+      count: messages.length,
+    };
+  }
+
+  private async findVisible(user: AuthUser | undefined, id: string): Promise<ExecutionRecord> {
+    const record = await this.history.get(id);
+    // Other users' executions are reported as missing rather than forbidden
+    if (!record || (!this.canSeeAll(user) && record.username !== user?.username)) {
+      throw new NotFoundException(`Execution '${id}' not found`);
+    }
+    return record;
+  }
+
+  private canSeeAll(user: AuthUser | undefined): boolean {
+    return this.accessControl.can(user, 'admin:executions');
+  }
+}
+
+function parseTime(name: string, value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new BadRequestException(`Invalid ${name} '${value}'. Expected an ISO 8601 date or epoch milliseconds`);
+  }
+  return time;
+}
+
+function parseCount(name: string, value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new BadRequestException(`Invalid ${name} '${value}'. Expected a non-negative integer`);
+  }
+  return Number(value);
+}
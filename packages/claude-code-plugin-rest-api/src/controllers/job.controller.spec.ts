@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Subject } from 'rxjs';
+import { JobController } from './job.controller.js';
+import { JobService } from '../services/job.service.js';
+import { InMemoryJobStore } from '../services/in-memory-job.store.js';
+import { SDKMessage } from '../services/plugin-execution.service.js';
+import { AccessControlService } from '../auth/access-control.service.js';
+import { AuthUser } from '../auth/auth.types.js';
+
+describe('JobController', () => {
+  const alice: AuthUser = { username: 'alice', roles: ['user'] };
+  const bob: AuthUser = { username: 'bob', roles: ['user'] };
+  const admin: AuthUser = { username: 'ops', roles: ['admin'] };
+
+  let store: InMemoryJobStore;
+  let service: JobService;
+  let controller: JobController;
+  let messages: Subject<SDKMessage>;
+
+  beforeEach(() => {
+    store = new InMemoryJobStore();
+    service = new JobService(store, new AccessControlService({ roles: { user: ['agents:*'] } }));
+    controller = new JobController(service);
+    messages = new Subject<SDKMessage>();
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    store.onModuleDestroy();
+  });
+
+  function submit(user?: AuthUser) {
+    return service.submit({ kind: 'agent', name: 'test-agent' }, () => messages, user);
+  }
+
+  it('should let the submitter read and cancel their job', async () => {
+    const job = await submit(alice);
+
+    expect((await controller.getJob(alice, job.id)).username).toBe('alice');
+    expect((await controller.cancelJob(alice, job.id)).status).toBe('cancelled');
+  });
+
+  it('should report other callers\' jobs as not found', async () => {
+    const job = await submit(alice);
+
+    await expect(controller.getJob(bob, job.id)).rejects.toThrow(NotFoundException);
+    await expect(controller.getJob(undefined, job.id)).rejects.toThrow(NotFoundException);
+    await expect(controller.cancelJob(bob, job.id)).rejects.toThrow(NotFoundException);
+    expect((await controller.getJob(alice, job.id)).status).toBe('running');
+  });
+
+  it('should report jobs of a namesake from another provider or tenant as not found', async () => {
+    const job = await submit({ ...alice, authProvider: 'ldap', tenant: 'acme' });
+
+    expect((await controller.getJob({ ...alice, authProvider: 'ldap', tenant: 'acme' }, job.id)).id).toBe(job.id);
+    await expect(controller.getJob({ ...alice, authProvider: 'yaml', tenant: 'acme' }, job.id)).rejects.toThrow(NotFoundException);
+    await expect(controller.getJob({ ...alice, authProvider: 'ldap', tenant: 'globex' }, job.id)).rejects.toThrow(NotFoundException);
+    await expect(controller.cancelJob(alice, job.id)).rejects.toThrow(NotFoundException);
+  });
+
+  it('should let admin:jobs holders read and cancel any job', async () => {
+    const job = await submit(alice);
+
+    expect((await controller.getJob(admin, job.id)).id).toBe(job.id);
+    expect((await controller.cancelJob(admin, job.id)).status).toBe('cancelled');
+  });
+
+  it('should answer 409 for jobs running on another instance', async () => {
+    const job = await submit(alice);
+    const other = new JobController(new JobService(store));
+
+    await expect(other.cancelJob(alice, job.id)).rejects.toThrow(ConflictException);
+    expect((await controller.getJob(alice, job.id)).status).toBe('running');
+  });
+
+  it('should leave jobs submitted without a user accessible', async () => {
+    const job = await submit();
+
+    expect((await controller.getJob(undefined, job.id)).id).toBe(job.id);
+    expect((await controller.getJob(bob, job.id)).id).toBe(job.id);
+  });
+});
@@ -0,0 +1,57 @@
+import { Controller, Get, Delete, Param, Logger, NotFoundException, ConflictException } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiParam, ApiResponse } from '@nestjs/swagger';
+import { JobService } from '../services/job.service.js';
+import { Job } from '../types/job.types.js';
+import { AuthUser } from '../auth/auth.types.js';
+import { CurrentUser } from '../auth/current-user.decorator.js';
+
+/**
+ * Status and cancellation for asynchronous executions.
+ * Jobs are created by calling any agent, command or skill endpoint with `?async=true`.
+ * Callers see their own jobs; the `admin:jobs` permission grants access to everyone's.
+ */
+@ApiTags('jobs')
+@Controller('v1/jobs')
+export class JobController {
+  private readonly logger = new Logger(JobController.name);
+
+  constructor(private readonly jobService: JobService) {}
+
+  /**
+   * Get job status, progress and (when finished) the execution result
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get job status and result' })
+  @ApiParam({ name: 'id', description: 'Job ID returned when submitting with ?async=true' })
+  @ApiResponse({ status: 200, description: 'Job status, progress and result' })
+  @ApiResponse({ status: 404, description: 'Job not found or submitted by another caller' })
+  async getJob(@CurrentUser() user: AuthUser | undefined, @Param('id') id: string): Promise<Job> {
+    const job = await this.jobService.getJob(id, user);
+    if (!job) {
+      throw new NotFoundException(`Job '${id}' not found`);
+    }
+    return job;
+  }
+
+  /**
+   * Cancel a running job. Finished jobs are returned unchanged; jobs running
+   * on another instance sharing the job store can only be cancelled there.
+   */
+  @Delete(':id')
+  @ApiOperation({ summary: 'Cancel a job' })
+  @ApiParam({ name: 'id', description: 'Job ID' })
+  @ApiResponse({ status: 200, description: 'Job after cancellation' })
+  @ApiResponse({ status: 404, description: 'Job not found or submitted by another caller' })
+  @ApiResponse({ status: 409, description: 'Job is running on another instance' })
+  async cancelJob(@CurrentUser() user: AuthUser | undefined, @Param('id') id: string): Promise<Job> {
+    this.logger.log(`Cancelling job: ${id}`);
+    const job = await this.jobService.cancel(id, user);
+    if (!job) {
+      throw new NotFoundException(`Job '${id}' not found`);
+    }
+    if (job.status === 'running') {
+      throw new ConflictException(`Job '${id}' is running on another instance`);
+    }
+    return job;
+  }
+}
@@ -0,0 +1,82 @@
+import {
+  Controller,
+  Get,
+  Delete,
+  Param,
+  Logger,
+  HttpCode,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiParam, ApiResponse } from '@nestjs/swagger';
+import { AuthUser, LockoutScope } from '../auth/auth.types.js';
+import { CurrentUser } from '../auth/current-user.decorator.js';
+import { RequirePermissions } from '../auth/permissions.decorator.js';
+import { LoginThrottleService } from '../auth/login-throttle.service.js';
+
+const SCOPES: LockoutScope[] = ['username', 'ip'];
+
+/**
+ * Admin endpoints for usernames and client IPs blocked after failed logins.
+ * Requires the `admin:lockouts` permission.
+ */
+@ApiTags('admin')
+@Controller('v1/admin/lockouts')
+@RequirePermissions('admin:lockouts')
+export class LockoutController {
+  private readonly logger = new Logger(LockoutController.name);
+
+  constructor(private readonly throttle: LoginThrottleService) {}
+
+  /**
+   * List blocked usernames and IPs
+   */
+  @Get()
+  @ApiOperation({ summary: 'List lockouts' })
+  @ApiResponse({ status: 200, description: 'Blocked usernames and IPs with failure count and block expiry' })
+  @ApiResponse({ status: 403, description: 'Missing admin:lockouts permission' })
+  listLockouts() {
+    const lockouts = this.throttle.listLockouts();
+    return { lockouts, count: lockouts.length };
+  }
+
+  /**
+   * Clear all lockouts and failure counters
+   */
+  @Delete()
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Clear all lockouts' })
+  @ApiResponse({ status: 200, description: 'Number of lockouts cleared' })
+  @ApiResponse({ status: 403, description: 'Missing admin:lockouts permission' })
+  clearAll(@CurrentUser() user: AuthUser | undefined) {
+    const cleared = this.throttle.clearAll(user?.username);
+    this.logger.log(`${cleared} lockouts cleared by ${user?.username}`);
+    return { cleared };
+  }
+
+  /**
+   * Clear the lockout and failure counter of one username or IP
+   */
+  @Delete(':scope/:key')
+  @HttpCode(204)
+  @ApiOperation({ summary: 'Clear a lockout' })
+  @ApiParam({ name: 'scope', enum: SCOPES, description: 'Whether key is a username or a client IP' })
+  @ApiParam({ name: 'key', description: 'Username or client IP' })
+  @ApiResponse({ status: 204, description: 'Lockout cleared' })
+  @ApiResponse({ status: 400, description: 'Invalid scope' })
+  @ApiResponse({ status: 403, description: 'Missing admin:lockouts permission' })
+  @ApiResponse({ status: 404, description: 'No failed attempts recorded for this username or IP' })
+  clear(
+    @Param('scope') scope: string,
+    @Param('key') key: string,
+    @CurrentUser() user: AuthUser | undefined,
+  ): void {
+    if (!SCOPES.includes(scope as LockoutScope)) {
+      throw new BadRequestException(`Invalid scope '${scope}'. Expected one of: ${SCOPES.join(', ')}`);
+    }
+
+    if (!this.throttle.clear(scope as LockoutScope, key, user?.username)) {
+      throw new NotFoundException(`No failed attempts recorded for ${scope} '${key}'`);
+    }
+  }
+}
@@ -2,54 +2,60 @@ import {
   Controller,
   Get,
   Post,
+  Delete,
   Param,
   Body,
+  Query,
+  Headers,
   Res,
   Sse,
   Logger,
   HttpException,
   HttpStatus,
   NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
 } from '@nestjs/common';
 import { Response } from 'express';
-import { Observable, map, catchError, of } from 'rxjs';
-import { ApiTags, ApiOperation, ApiParam, ApiBody, ApiResponse } from '@nestjs/swagger';
+import { Observable, from, map, switchMap, tap, of, finalize } from 'rxjs';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiParam,
+  ApiBody,
+  ApiResponse,
+  ApiQuery,
+  ApiHeader,
+  ApiProduces,
+} from '@nestjs/swagger';
 import { PluginDiscoveryService } from '../services/plugin-discovery.service.js';
-import { PluginExecutionService } from '../services/plugin-execution.service.js';
-import { StreamSessionService } from '../services/stream-session.service.js';
-
-// Attachment types for multimodal inputs
-interface AttachmentSource {
-  type: 'base64' | 'url' | 'file';
-  /** Base64-encoded content (when type is 'base64') */
-  data?: string;
-  /** URL to fetch content from (when type is 'url') */
-  url?: string;
-  /** Anthropic file ID from upload (when type is 'file') */
-  fileId?: string;
-}
-
-interface Attachment {
-  /**
-   * Content type matching Anthropic API types:
-   * - 'image' for images (jpeg, png, gif, webp)
-   * - 'document' for PDFs
-   * - 'text' for plain text files
-   */
-  type: 'image' | 'document' | 'text';
-
-  /** MIME type (e.g., 'image/png', 'application/pdf', 'text/plain') */
-  mediaType: string;
-
-  /** How the content is provided */
-  source: AttachmentSource;
-
-  /** Optional filename for context */
-  filename?: string;
-}
+import {
+  PluginExecutionService,
+  Attachment,
+  ExecutionOptions,
+  ExecutionTarget,
+  SDKMessage,
+} from '../services/plugin-execution.service.js';
+import { StreamSessionService, StreamSession } from '../services/stream-session.service.js';
+import { JobService } from '../services/job.service.js';
+import { JobTarget } from '../types/job.types.js';
+import { validateAttachments } from '../utils/attachments.js';
+import { toSseMessages, isSseFormat } from '../utils/sse-events.js';
+import { abortOnClose } from '../utils/abort.js';
+import { acceptsEventStream, createEventStream } from '../utils/event-stream.js';
+import { SseEvent, SseFormat, SseMessage, SSE_FORMATS } from '../types/sse.types.js';
+import { AuthUser } from '../auth/auth.types.js';
+import { CurrentUser } from '../auth/current-user.decorator.js';
+import { StreamTokenService } from '../auth/stream-token.service.js';
+import { AccessControlService } from '../auth/access-control.service.js';
+import { RequirePermissions } from '../auth/permissions.decorator.js';
+import { SpendQuota } from '../services/spend-quota.decorator.js';
+import { UsageService, agentKey, quotaExceededMessage } from '../services/usage.service.js';
 
 // DTOs
 class ExecuteCommandDto {
+  /** Substituted for `$ARGUMENTS` and `$1..$n` in a command; the prompt for a skill */
   arguments?: string;
   context?: Record<string, unknown>;
   /** File attachments (images, PDFs, text files) */
@@ -86,17 +92,6 @@ class CreateStreamDto {
   maxBudgetUsd?: number;
 }
 
-interface SseMessage {
-  data: {
-    type: string;
-    content?: string;
-    error?: string;
-    result?: unknown;
-    timestamp?: number;
-  };
-  id?: string;
-}
-
 @ApiTags('plugins')
 @Controller('v1/plugins')
 export class PluginController {
@@ -106,16 +101,20 @@ export class PluginController {
     private readonly pluginDiscovery: PluginDiscoveryService,
     private readonly pluginExecution: PluginExecutionService,
     private readonly streamSession: StreamSessionService,
+    private readonly jobService: JobService,
+    private readonly streamTokens: StreamTokenService,
+    private readonly accessControl: AccessControlService,
   ) {}
 
   /**
-   * List all discovered plugins
+   * List the discovered plugins the caller may use
    */
   @Get()
   @ApiOperation({ summary: 'List all discovered plugins' })
   @ApiResponse({ status: 200, description: 'List of plugins with their capabilities' })
-  listPlugins() {
-    const plugins = this.pluginDiscovery.getAllPlugins();
+  listPlugins(@CurrentUser() user: AuthUser | undefined) {
+    const plugins = this.pluginDiscovery.getAllPlugins()
+      .filter((p) => this.accessControl.can(user, `plugins:${p.name}:execute`));
 
     return {
       plugins: plugins.map((p) => ({
@@ -134,10 +133,12 @@ export class PluginController {
    * Get plugin details
    */
   @Get(':pluginName')
+  @RequirePermissions('plugins:{pluginName}:execute')
   @ApiOperation({ summary: 'Get plugin details' })
   @ApiParam({ name: 'pluginName', description: 'Plugin name' })
   @ApiResponse({ status: 200, description: 'Plugin details' })
   @ApiResponse({ status: 404, description: 'Plugin not found' })
+  @ApiResponse({ status: 403, description: 'Missing plugins:<pluginName>:execute permission' })
   getPlugin(@Param('pluginName') pluginName: string) {
     const plugin = this.pluginDiscovery.getPlugin(pluginName);
 
@@ -152,7 +153,11 @@ export class PluginController {
       commands: plugin.commands.map((c) => ({
         name: c.name,
         description: c.description,
+        argumentHint: c.argumentHint,
+        allowedTools: c.allowedTools,
+        model: c.model,
         endpoint: `/v1/plugins/${plugin.name}/commands/${c.name}`,
+        streamEndpoint: `/v1/plugins/${plugin.name}/commands/${c.name}/stream`,
       })),
       agents: plugin.agents.map((a) => ({
         name: a.name,
@@ -166,7 +171,14 @@ export class PluginController {
         name: s.name,
         description: s.description,
         allowedTools: s.allowedTools,
+        model: s.model,
         endpoint: `/v1/plugins/${plugin.name}/skills/${s.name}`,
+        streamEndpoint: `/v1/plugins/${plugin.name}/skills/${s.name}/stream`,
+      })),
+      // Names and transports only: commands, URLs and env may carry secrets
+      mcpServers: Object.entries(plugin.mcpServers).map(([name, server]) => ({
+        name,
+        type: server.type ?? 'stdio',
       })),
     };
   }
@@ -176,25 +188,60 @@ export class PluginController {
    *
    * By default, returns a wrapped response with metadata (success, result, cost, turns, usage).
    * When `rawResponse: true`, returns the command's output directly with auto-detected Content-Type.
+   * With `Accept: text/event-stream`, the response is the SSE stream of the execution.
    */
   @Post(':pluginName/commands/:commandName')
+  @RequirePermissions('plugins:{pluginName}:execute')
+  @SpendQuota('{pluginName}/{commandName}')
   @ApiOperation({ summary: 'Execute a plugin command' })
   @ApiParam({ name: 'pluginName', description: 'Plugin name' })
   @ApiParam({ name: 'commandName', description: 'Command name' })
   @ApiBody({ type: ExecuteCommandDto })
+  @ApiProduces('application/json', 'text/event-stream')
+  @ApiHeader({ name: 'Accept', required: false, description: 'text/event-stream to stream the execution in the response' })
+  @ApiQuery({ name: 'async', required: false, description: 'Return a job ID immediately (see /v1/jobs)' })
+  @ApiQuery({ name: 'format', required: false, enum: SSE_FORMATS, description: 'SSE event schema when streaming (default: compact)' })
+  @ApiQuery({ name: 'partial', required: false, description: 'Stream token-level text deltas (true/false)' })
+  @ApiResponse({ status: 402, description: 'Spend quota exhausted' })
+  @ApiResponse({ status: 403, description: 'Missing plugins:<pluginName>:execute permission' })
   async executeCommand(
     @Param('pluginName') pluginName: string,
     @Param('commandName') commandName: string,
     @Body() dto: ExecuteCommandDto,
+    @CurrentUser() user: AuthUser | undefined,
+    @Query('async') runAsync: string | undefined,
     @Res({ passthrough: true }) res: Response,
+    @Headers('accept') accept?: string,
+    @Query('format') format?: string,
+    @Query('partial') partial?: string,
   ) {
     this.logger.log(`Executing command: ${pluginName}/${commandName}`);
+    this.assertValidAttachments(dto.attachments);
+
+    const options = { ...this.toExecutionOptions(dto), user };
+
+    if (acceptsEventStream(accept)) {
+      this.assertTargetExists({ kind: 'command', pluginName, name: commandName });
+      const messages = this.pluginExecution.streamCommand(pluginName, commandName, {
+        ...options,
+        includePartialMessages: partial === undefined ? undefined : partial === 'true',
+      });
+      return createEventStream(res, toSseMessages(messages, this.parseSseFormat(format)));
+    }
+
+    if (runAsync === 'true') {
+      this.assertTargetExists({ kind: 'command', pluginName, name: commandName });
+      return this.submitJob(
+        { kind: 'command', pluginName, name: commandName },
+        () => this.pluginExecution.streamCommand(pluginName, commandName, options),
+        res,
+        options.user,
+      );
+    }
 
     const result = await this.pluginExecution.executeCommand(pluginName, commandName, {
-      arguments: dto.arguments,
-      context: dto.context,
-      maxTurns: dto.maxTurns,
-      maxBudgetUsd: dto.maxBudgetUsd,
+      ...options,
+      signal: abortOnClose(res),
     });
 
     if (!result.success && result.error?.includes('not found')) {
@@ -227,28 +274,70 @@ export class PluginController {
   }
 
   /**
-   * Execute a plugin agent (non-streaming)
+   * Execute a plugin agent
    *
    * By default, returns a wrapped response with metadata (success, result, cost, turns, usage).
    * When `rawResponse: true`, returns the agent's output directly with auto-detected Content-Type.
+   * With `Accept: text/event-stream`, the response is the SSE stream of the execution.
    */
   @Post(':pluginName/agents/:agentName')
+  @RequirePermissions('plugins:{pluginName}:execute')
+  @SpendQuota('{pluginName}/{agentName}')
   @ApiOperation({ summary: 'Execute a plugin agent' })
   @ApiParam({ name: 'pluginName', description: 'Plugin name' })
   @ApiParam({ name: 'agentName', description: 'Agent name' })
   @ApiBody({ type: ExecuteAgentDto })
+  @ApiProduces('application/json', 'text/event-stream')
+  @ApiHeader({ name: 'Accept', required: false, description: 'text/event-stream to stream the execution in the response' })
+  @ApiQuery({ name: 'async', required: false, description: 'Return a job ID immediately (see /v1/jobs)' })
+  @ApiQuery({ name: 'format', required: false, enum: SSE_FORMATS, description: 'SSE event schema when streaming (default: compact)' })
+  @ApiQuery({ name: 'partial', required: false, description: 'Stream token-level text deltas (true/false)' })
+  @ApiResponse({ status: 402, description: 'Spend quota exhausted' })
+  @ApiResponse({ status: 403, description: 'Missing plugins:<pluginName>:execute permission' })
   async executeAgent(
     @Param('pluginName') pluginName: string,
     @Param('agentName') agentName: string,
     @Body() dto: ExecuteAgentDto,
+    @CurrentUser() user: AuthUser | undefined,
+    @Query('async') runAsync: string | undefined,
     @Res({ passthrough: true }) res: Response,
+    @Headers('accept') accept?: string,
+    @Query('format') format?: string,
+    @Query('partial') partial?: string,
   ) {
     this.logger.log(`Executing agent: ${pluginName}/${agentName}`);
+    this.assertValidAttachments(dto.attachments);
 
-    const result = await this.pluginExecution.executeAgent(pluginName, agentName, {
+    const options: ExecutionOptions = {
       arguments: dto.prompt,
+      attachments: dto.attachments,
       maxTurns: dto.maxTurns,
       maxBudgetUsd: dto.maxBudgetUsd,
+      user,
+    };
+
+    if (acceptsEventStream(accept)) {
+      this.assertTargetExists({ kind: 'plugin-agent', pluginName, name: agentName });
+      const messages = this.pluginExecution.streamAgent(pluginName, agentName, {
+        ...options,
+        includePartialMessages: partial === undefined ? undefined : partial === 'true',
+      });
+      return createEventStream(res, toSseMessages(messages, this.parseSseFormat(format)));
+    }
+
+    if (runAsync === 'true') {
+      this.assertTargetExists({ kind: 'plugin-agent', pluginName, name: agentName });
+      return this.submitJob(
+        { kind: 'plugin-agent', pluginName, name: agentName },
+        () => this.pluginExecution.streamAgent(pluginName, agentName, options),
+        res,
+        options.user,
+      );
+    }
+
+    const result = await this.pluginExecution.executeAgent(pluginName, agentName, {
+      ...options,
+      signal: abortOnClose(res),
     });
 
     if (!result.success && result.error?.includes('not found')) {
@@ -284,28 +373,44 @@ export class PluginController {
    * Create a stream session for agent execution
    */
   @Post('stream')
+  @SpendQuota('{pluginName}/{agentName}')
   @ApiOperation({ summary: 'Create a stream session for agent execution' })
   @ApiBody({ type: CreateStreamDto })
-  async createStreamSession(@Body() dto: CreateStreamDto) {
+  @ApiQuery({ name: 'format', required: false, enum: SSE_FORMATS, description: 'SSE event schema (default: compact)' })
+  @ApiQuery({ name: 'partial', required: false, description: 'Stream token-level text deltas (true/false, defaults to the agent setting)' })
+  @ApiResponse({ status: 402, description: 'Spend quota exhausted' })
+  @ApiResponse({ status: 403, description: 'Missing plugins:<pluginName>:execute permission' })
+  async createStreamSession(
+    @Body() dto: CreateStreamDto,
+    @CurrentUser() user: AuthUser | undefined,
+    @Query('format') format?: string,
+    @Query('partial') partial?: string,
+  ) {
+    // The plugin comes from the body, so @RequirePermissions cannot check it
+    if (!this.accessControl.can(user, `plugins:${dto.pluginName}:execute`)) {
+      throw new ForbiddenException(`Missing permission 'plugins:${dto.pluginName}:execute'`);
+    }
+
     const agent = this.pluginDiscovery.getAgent(dto.pluginName, dto.agentName);
 
     if (!agent) {
       throw new NotFoundException(`Agent '${dto.agentName}' not found in plugin '${dto.pluginName}'`);
     }
 
-    const sessionId = await this.streamSession.createSession({
-      pluginName: dto.pluginName,
-      agentName: dto.agentName,
-      prompt: dto.prompt,
-      maxTurns: dto.maxTurns,
-      maxBudgetUsd: dto.maxBudgetUsd,
-    });
+    this.assertValidAttachments(dto.attachments);
 
-    return {
-      sessionId,
-      streamUrl: `/v1/stream/${sessionId}`,
-      expiresIn: 300, // 5 minutes
-    };
+    return this.createSession(
+      { kind: 'plugin-agent', pluginName: dto.pluginName, name: dto.agentName },
+      {
+        arguments: dto.prompt,
+        attachments: dto.attachments,
+        maxTurns: dto.maxTurns,
+        maxBudgetUsd: dto.maxBudgetUsd,
+      },
+      format,
+      partial,
+      user,
+    );
   }
 
   /**
@@ -313,25 +418,60 @@ export class PluginController {
    *
    * By default, returns a wrapped response with metadata (success, result, cost, turns, usage).
    * When `rawResponse: true`, returns the skill's output directly with auto-detected Content-Type.
+   * With `Accept: text/event-stream`, the response is the SSE stream of the execution.
    */
   @Post(':pluginName/skills/:skillName')
+  @RequirePermissions('plugins:{pluginName}:execute')
+  @SpendQuota('{pluginName}/{skillName}')
   @ApiOperation({ summary: 'Execute a plugin skill' })
   @ApiParam({ name: 'pluginName', description: 'Plugin name' })
   @ApiParam({ name: 'skillName', description: 'Skill name' })
   @ApiBody({ type: ExecuteCommandDto })
+  @ApiProduces('application/json', 'text/event-stream')
+  @ApiHeader({ name: 'Accept', required: false, description: 'text/event-stream to stream the execution in the response' })
+  @ApiQuery({ name: 'async', required: false, description: 'Return a job ID immediately (see /v1/jobs)' })
+  @ApiQuery({ name: 'format', required: false, enum: SSE_FORMATS, description: 'SSE event schema when streaming (default: compact)' })
+  @ApiQuery({ name: 'partial', required: false, description: 'Stream token-level text deltas (true/false)' })
+  @ApiResponse({ status: 402, description: 'Spend quota exhausted' })
+  @ApiResponse({ status: 403, description: 'Missing plugins:<pluginName>:execute permission' })
   async executeSkill(
     @Param('pluginName') pluginName: string,
     @Param('skillName') skillName: string,
     @Body() dto: ExecuteCommandDto,
+    @CurrentUser() user: AuthUser | undefined,
+    @Query('async') runAsync: string | undefined,
     @Res({ passthrough: true }) res: Response,
+    @Headers('accept') accept?: string,
+    @Query('format') format?: string,
+    @Query('partial') partial?: string,
   ) {
     this.logger.log(`Executing skill: ${pluginName}/${skillName}`);
+    this.assertValidAttachments(dto.attachments);
+
+    const options = { ...this.toExecutionOptions(dto), user };
+
+    if (acceptsEventStream(accept)) {
+      this.assertTargetExists({ kind: 'skill', pluginName, name: skillName });
+      const messages = this.pluginExecution.streamSkill(pluginName, skillName, {
+        ...options,
+        includePartialMessages: partial === undefined ? undefined : partial === 'true',
+      });
+      return createEventStream(res, toSseMessages(messages, this.parseSseFormat(format)));
+    }
+
+    if (runAsync === 'true') {
+      this.assertTargetExists({ kind: 'skill', pluginName, name: skillName });
+      return this.submitJob(
+        { kind: 'skill', pluginName, name: skillName },
+        () => this.pluginExecution.streamSkill(pluginName, skillName, options),
+        res,
+        options.user,
+      );
+    }
 
     const result = await this.pluginExecution.executeSkill(pluginName, skillName, {
-      arguments: dto.arguments,
-      context: dto.context,
-      maxTurns: dto.maxTurns,
-      maxBudgetUsd: dto.maxBudgetUsd,
+      ...options,
+      signal: abortOnClose(res),
     });
 
     if (!result.success && result.error?.includes('not found')) {
@@ -362,6 +502,237 @@ export class PluginController {
     // Default: return wrapped response
     return result;
   }
+
+  /**
+   * Create a stream session for a plugin command
+   */
+  @Post(':pluginName/commands/:commandName/stream')
+  @RequirePermissions('plugins:{pluginName}:execute')
+  @SpendQuota('{pluginName}/{commandName}')
+  @ApiOperation({ summary: 'Create a stream session for a plugin command' })
+  @ApiParam({ name: 'pluginName', description: 'Plugin name' })
+  @ApiParam({ name: 'commandName', description: 'Command name' })
+  @ApiBody({ type: ExecuteCommandDto })
+  @ApiQuery({ name: 'format', required: false, enum: SSE_FORMATS, description: 'SSE event schema (default: compact)' })
+  @ApiQuery({ name: 'partial', required: false, description: 'Stream token-level text deltas (true/false)' })
+  @ApiResponse({ status: 404, description: 'Command not found' })
+  @ApiResponse({ status: 402, description: 'Spend quota exhausted' })
+  @ApiResponse({ status: 403, description: 'Missing plugins:<pluginName>:execute permission' })
+  async createCommandStream(
+    @Param('pluginName') pluginName: string,
+    @Param('commandName') commandName: string,
+    @Body() dto: ExecuteCommandDto,
+    @CurrentUser() user: AuthUser | undefined,
+    @Query('format') format?: string,
+    @Query('partial') partial?: string,
+  ) {
+    this.assertTargetExists({ kind: 'command', pluginName, name: commandName });
+    this.assertValidAttachments(dto.attachments);
+
+    return this.createSession(
+      { kind: 'command', pluginName, name: commandName },
+      this.toExecutionOptions(dto),
+      format,
+      partial,
+      user,
+    );
+  }
+
+  /**
+   * Create a stream session for a plugin agent
+   */
+  @Post(':pluginName/agents/:agentName/stream')
+  @RequirePermissions('plugins:{pluginName}:execute')
+  @SpendQuota('{pluginName}/{agentName}')
+  @ApiOperation({ summary: 'Create a stream session for a plugin agent' })
+  @ApiParam({ name: 'pluginName', description: 'Plugin name' })
+  @ApiParam({ name: 'agentName', description: 'Agent name' })
+  @ApiBody({ type: ExecuteAgentDto })
+  @ApiQuery({ name: 'format', required: false, enum: SSE_FORMATS, description: 'SSE event schema (default: compact)' })
+  @ApiQuery({ name: 'partial', required: false, description: 'Stream token-level text deltas (true/false, defaults to the agent setting)' })
+  @ApiResponse({ status: 404, description: 'Agent not found' })
+  @ApiResponse({ status: 402, description: 'Spend quota exhausted' })
+  @ApiResponse({ status: 403, description: 'Missing plugins:<pluginName>:execute permission' })
+  async createAgentStream(
+    @Param('pluginName') pluginName: string,
+    @Param('agentName') agentName: string,
+    @Body() dto: ExecuteAgentDto,
+    @CurrentUser() user: AuthUser | undefined,
+    @Query('format') format?: string,
+    @Query('partial') partial?: string,
+  ) {
+    this.assertTargetExists({ kind: 'plugin-agent', pluginName, name: agentName });
+    this.assertValidAttachments(dto.attachments);
+
+    return this.createSession(
+      { kind: 'plugin-agent', pluginName, name: agentName },
+      {
+        arguments: dto.prompt,
+        attachments: dto.attachments,
+        maxTurns: dto.maxTurns,
+        maxBudgetUsd: dto.maxBudgetUsd,
+      },
+      format,
+      partial,
+      user,
+    );
+  }
+
+  /**
+   * Create a stream session for a plugin skill
+   */
+  @Post(':pluginName/skills/:skillName/stream')
+  @RequirePermissions('plugins:{pluginName}:execute')
+  @SpendQuota('{pluginName}/{skillName}')
+  @ApiOperation({ summary: 'Create a stream session for a plugin skill' })
+  @ApiParam({ name: 'pluginName', description: 'Plugin name' })
+  @ApiParam({ name: 'skillName', description: 'Skill name' })
+  @ApiBody({ type: ExecuteCommandDto })
+  @ApiQuery({ name: 'format', required: false, enum: SSE_FORMATS, description: 'SSE event schema (default: compact)' })
+  @ApiQuery({ name: 'partial', required: false, description: 'Stream token-level text deltas (true/false)' })
+  @ApiResponse({ status: 404, description: 'Skill not found' })
+  @ApiResponse({ status: 402, description: 'Spend quota exhausted' })
+  @ApiResponse({ status: 403, description: 'Missing plugins:<pluginName>:execute permission' })
+  async createSkillStream(
+    @Param('pluginName') pluginName: string,
+    @Param('skillName') skillName: string,
+    @Body() dto: ExecuteCommandDto,
+    @CurrentUser() user: AuthUser | undefined,
+    @Query('format') format?: string,
+    @Query('partial') partial?: string,
+  ) {
+    this.assertTargetExists({ kind: 'skill', pluginName, name: skillName });
+    this.assertValidAttachments(dto.attachments);
+
+    return this.createSession(
+      { kind: 'skill', pluginName, name: skillName },
+      this.toExecutionOptions(dto),
+      format,
+      partial,
+      user,
+    );
+  }
+
+  /**
+   * Create a stream session owned by `user` and return its URLs
+   */
+  private async createSession(
+    target: ExecutionTarget,
+    options: ExecutionOptions,
+    format: string | undefined,
+    partial: string | undefined,
+    user: AuthUser | undefined,
+  ) {
+    const sessionId = await this.streamSession.createSession({
+      target,
+      options: {
+        ...options,
+        includePartialMessages: partial === undefined ? undefined : partial === 'true',
+      },
+      format: this.parseSseFormat(format),
+      owner: user,
+    });
+
+    return {
+      sessionId,
+      streamUrl: `/v1/stream/${sessionId}`,
+      expiresIn: Math.floor(this.streamSession.sessionTtlMs / 1000),
+      ...(user ? this.streamTokens.signUrl(sessionId, user) : {}),
+    };
+  }
+
+  /**
+   * Execution options from a command or skill request body
+   */
+  private toExecutionOptions(dto: ExecuteCommandDto): ExecutionOptions {
+    return {
+      arguments: dto.arguments,
+      context: dto.context,
+      attachments: dto.attachments,
+      maxTurns: dto.maxTurns,
+      maxBudgetUsd: dto.maxBudgetUsd,
+    };
+  }
+
+  /**
+   * Throw 404 unless the plugin command, agent or skill exists
+   */
+  private assertTargetExists(target: ExecutionTarget): void {
+    const pluginName = target.pluginName ?? '';
+
+    switch (target.kind) {
+      case 'command':
+        if (!this.pluginDiscovery.getCommand(pluginName, target.name)) {
+          throw new NotFoundException(`Command '${target.name}' not found in plugin '${pluginName}'`);
+        }
+        break;
+      case 'skill':
+        if (!this.pluginDiscovery.getSkill(pluginName, target.name)) {
+          throw new NotFoundException(`Skill '${target.name}' not found in plugin '${pluginName}'`);
+        }
+        break;
+      default:
+        if (!this.pluginDiscovery.getAgent(pluginName, target.name)) {
+          throw new NotFoundException(`Agent '${target.name}' not found in plugin '${pluginName}'`);
+        }
+    }
+  }
+
+  /**
+   * Start an asynchronous job and respond with 202 Accepted
+   */
+  private async submitJob(
+    target: JobTarget,
+    run: () => Observable<SDKMessage>,
+    res: Response,
+    user: AuthUser | undefined,
+  ) {
+    const job = await this.jobService.submit(target, run, user);
+    res.status(HttpStatus.ACCEPTED);
+    return {
+      jobId: job.id,
+      status: job.status,
+      statusUrl: `/v1/jobs/${job.id}`,
+    };
+  }
+
+  /**
+   * Reject requests whose attachments have unsupported media types or sizes
+   */
+  private assertValidAttachments(attachments: unknown): void {
+    const errors = validateAttachments(attachments);
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        message: 'Attachment validation failed',
+        errors,
+      });
+    }
+  }
+
+  /**
+   * Parse the `format` query parameter of a stream session
+   */
+  private parseSseFormat(format: string | undefined): SseFormat | undefined {
+    if (format === undefined) {
+      return undefined;
+    }
+    if (!isSseFormat(format)) {
+      throw new BadRequestException(`Invalid format '${format}'. Expected one of: ${SSE_FORMATS.join(', ')}`);
+    }
+    return format;
+  }
+}
+
+/**
+ * Final event of a cancelled stream session
+ */
+function cancelledEvent(): SseEvent {
+  return {
+    type: 'error',
+    error: 'Execution cancelled',
+    subtype: 'cancelled',
+    timestamp: Date.now(),
+  };
 }
 
 /**
@@ -377,6 +748,8 @@ export class StreamController {
   constructor(
     private readonly pluginExecution: PluginExecutionService,
     private readonly streamSession: StreamSessionService,
+    private readonly streamTokens: StreamTokenService,
+    private readonly usage: UsageService,
   ) {}
 
   /**
@@ -390,111 +763,203 @@ export class StreamController {
   /**
    * Consume a stream session via SSE.
    * Supports both plugin agents and user-defined agents.
+   *
+   * Every event carries a monotonic `id`. Clients that lose their connection can
+   * reconnect with a `Last-Event-ID` header (sent automatically by EventSource) or
+   * `?lastEventId=` to replay missed events and continue with the live run.
+   *
+   * Only the user who created the session can consume it, authenticated either
+   * with the Authorization header or a signed `?token=` from the session-creation
+   * response. Other users get the same error as for an unknown session.
    */
   @Sse(':sessionId')
   @ApiOperation({ summary: 'Stream agent responses via SSE' })
   @ApiParam({ name: 'sessionId', description: 'Stream session ID from POST /v1/plugins/stream or /v1/agents/:name/stream' })
-  consumeStream(@Param('sessionId') sessionId: string): Observable<SseMessage> {
-    const session = this.streamSession.getSession(sessionId);
-
-    if (!session) {
-      return of({
-        data: { type: 'error', error: 'Session not found or expired' },
-      });
-    }
-
-    // Mark session as consumed
-    this.streamSession.markConsumed(sessionId);
-
-    // Check if this is a user-defined agent (marked with __agent__)
-    if (session.pluginName === '__agent__') {
-      if (!this.agentService) {
-        return of({
-          data: { type: 'error', error: 'Agent service not available' },
-        });
-      }
-
-      this.logger.log(`Streaming user-defined agent: ${session.agentName}`);
+  @ApiHeader({ name: 'Last-Event-ID', required: false, description: 'Resume after this event ID' })
+  @ApiQuery({ name: 'lastEventId', required: false, description: 'Resume after this event ID (for clients that cannot set headers)' })
+  @ApiQuery({ name: 'token', required: false, description: 'Signed stream token (alternative to the Authorization header)' })
+  consumeStream(
+    @Param('sessionId') sessionId: string,
+    @CurrentUser() user: AuthUser | undefined,
+    @Headers('last-event-id') lastEventIdHeader?: string,
+    @Query('lastEventId') lastEventIdQuery?: string,
+  ): Observable<SseMessage> {
+    const lastEventId = parseInt(lastEventIdHeader ?? lastEventIdQuery ?? '0', 10) || 0;
+
+    return from(this.getOwnSession(sessionId, user)).pipe(
+      switchMap((session): Observable<SseMessage> => {
+        if (!session) {
+          return of({
+            data: { type: 'error', error: 'Session not found or expired' },
+          });
+        }
 
-      return this.agentService.stream(session.agentName, session.prompt).pipe(
-        map((message) => this.formatSseMessage(message)),
-        catchError((error: Error) => {
-          this.logger.error(`Stream error: ${error.message}`);
+        // The execution and its replay buffer live on the instance that started it
+        if (session.status !== 'pending' && !this.streamSession.hasRun(sessionId)) {
           return of({
-            data: { type: 'error', error: error.message, timestamp: Date.now() },
+            data: {
+              type: 'error',
+              error: session.status === 'running'
+                ? 'Session is streaming on another instance'
+                : `Session already ${session.status}`,
+            },
           });
-        }),
-      );
-    }
+        }
 
-    // Otherwise use plugin agent (existing behavior)
-    this.logger.log(`Streaming plugin agent: ${session.pluginName}/${session.agentName}`);
-
-    return this.pluginExecution.streamAgent(session.pluginName, session.agentName, {
-      arguments: session.prompt,
-      maxTurns: session.maxTurns,
-      maxBudgetUsd: session.maxBudgetUsd,
-    }).pipe(
-      map((message) => this.formatSseMessage(message)),
-      catchError((error: Error) => {
-        this.logger.error(`Stream error: ${error.message}`);
-        return of({
-          data: { type: 'error', error: error.message, timestamp: Date.now() },
-        });
+        if (lastEventId > 0) {
+          this.logger.log(`Reconnecting to stream session ${sessionId} after event ${lastEventId}`);
+        }
+
+        return this.streamSession
+          .connect(sessionId, () => this.startStream(session), lastEventId, () => ({ data: cancelledEvent() }))
+          .pipe(map((event) => ({ ...event.data, id: String(event.id) })));
       }),
     );
   }
 
   /**
-   * Format SDK message to SSE message format
+   * Cancel a pending or running stream session.
+   * Connected clients receive a final `error` event and the stream ends.
+   * A session running on another instance is aborted there within a few
+   * seconds; the response is then 202 without progress, which only that
+   * instance knows.
    */
-  private formatSseMessage(message: { type: string; [key: string]: unknown }): SseMessage {
-    if (message.type === 'assistant') {
-      const assistantMessage = message as {
-        type: 'assistant';
-        message: { content: Array<{ type: string; text?: string }> };
-      };
-      const text = assistantMessage.message.content
-        .filter((c) => c.type === 'text')
-        .map((c) => c.text || '')
-        .join('');
+  @Delete(':sessionId')
+  @ApiOperation({ summary: 'Cancel a stream session' })
+  @ApiParam({ name: 'sessionId', description: 'Stream session ID' })
+  @ApiResponse({ status: 200, description: 'Session cancelled; reports usage so far' })
+  @ApiResponse({ status: 202, description: 'Session running on another instance; it stops there within a few seconds' })
+  @ApiResponse({ status: 404, description: 'Session not found or expired' })
+  @ApiResponse({ status: 409, description: 'Session already finished' })
+  async cancelStream(
+    @Param('sessionId') sessionId: string,
+    @CurrentUser() user: AuthUser | undefined,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const session = await this.getOwnSession(sessionId, user);
+    if (!session) {
+      throw new NotFoundException(`Stream session '${sessionId}' not found or expired`);
+    }
 
-      return {
-        data: {
-          type: 'delta',
-          content: text,
-          timestamp: Date.now(),
-        },
-      };
+    const runsElsewhere = session.status === 'running' && !this.streamSession.hasRun(sessionId);
+
+    if (!(await this.streamSession.cancel(sessionId))) {
+      throw new ConflictException(`Stream session '${sessionId}' has already ${session.status}`);
     }
 
-    if (message.type === 'result') {
-      const resultMessage = message as {
-        type: 'result';
-        is_error?: boolean;
-        result?: string;
-        total_cost_usd?: number;
-        num_turns?: number;
-      };
+    if (runsElsewhere) {
+      res.status(HttpStatus.ACCEPTED);
       return {
-        data: {
-          type: 'complete',
-          result: {
-            success: !resultMessage.is_error,
-            result: resultMessage.result,
-            cost: resultMessage.total_cost_usd,
-            turns: resultMessage.num_turns,
-          },
-          timestamp: Date.now(),
-        },
+        sessionId,
+        status: 'cancelling',
+        message: 'The session is running on another instance, which stops it within a few seconds',
       };
     }
 
     return {
-      data: {
-        type: message.type,
-        timestamp: Date.now(),
-      },
+      sessionId,
+      status: 'cancelled',
+      progress: this.streamSession.getProgress(sessionId),
     };
   }
+
+  /**
+   * Issue a new signed stream URL for a session, e.g. when the previous token
+   * expired before an EventSource reconnect
+   */
+  @Post(':sessionId/token')
+  @ApiOperation({ summary: 'Issue a signed stream URL' })
+  @ApiParam({ name: 'sessionId', description: 'Stream session ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Signed stream URL',
+    schema: {
+      properties: {
+        signedStreamUrl: { type: 'string' },
+        tokenExpiresIn: { type: 'number' },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Authentication is disabled' })
+  @ApiResponse({ status: 404, description: 'Session not found or expired' })
+  async issueStreamToken(@Param('sessionId') sessionId: string, @CurrentUser() user: AuthUser | undefined) {
+    if (!user) {
+      throw new BadRequestException('Stream tokens require authentication');
+    }
+
+    if (!(await this.getOwnSession(sessionId, user))) {
+      throw new NotFoundException(`Stream session '${sessionId}' not found or expired`);
+    }
+
+    return this.streamTokens.signUrl(sessionId, user);
+  }
+
+  /**
+   * A session the user may access; sessions of other users are treated as not found
+   */
+  private async getOwnSession(sessionId: string, user: AuthUser | undefined): Promise<StreamSession | undefined> {
+    const session = await this.streamSession.getSession(sessionId);
+    if (session && !this.streamSession.canAccess(session, user)) {
+      this.logger.warn(`User '${user?.username}' denied access to stream session ${sessionId}`);
+      return undefined;
+    }
+    return session;
+  }
+
+  /**
+   * Start the execution behind a stream session, unless a spend quota was
+   * exhausted since the session was created
+   */
+  private startStream(session: StreamSession): Observable<SseMessage> {
+    return from(this.usage.reserve(session.owner, agentKey(session.target))).pipe(
+      switchMap(({ exhausted, release }) => (exhausted
+        ? of({ data: { type: 'error', error: quotaExceededMessage(exhausted) } })
+        : this.runStream(session).pipe(finalize(release)))),
+    );
+  }
+
+  private runStream(session: StreamSession): Observable<SseMessage> {
+    const messages = this.streamTarget(session);
+    if (!messages) {
+      return of({
+        data: { type: 'error', error: 'Agent service not available' },
+      });
+    }
+
+    return toSseMessages(
+      messages.pipe(
+        tap({
+          next: (message) => this.streamSession.recordProgress(session.id, message),
+          error: (error: Error) => this.logger.error(`Stream error: ${error.message}`),
+        }),
+      ),
+      session.format,
+    );
+  }
+
+  /**
+   * Stream the SDK messages of a session's target with its execution options
+   */
+  private streamTarget(session: StreamSession): Observable<SDKMessage> | undefined {
+    const { target } = session;
+    const options = { ...session.options, user: session.owner };
+    const pluginName = target.pluginName ?? '';
+
+    this.logger.log(`Streaming ${target.kind}: ${target.pluginName ? `${target.pluginName}/` : ''}${target.name}`);
+
+    switch (target.kind) {
+      case 'agent':
+        return this.agentService?.stream(target.name, options.arguments ?? '', {
+          attachments: options.attachments,
+          includePartialMessages: options.includePartialMessages,
+          user: options.user,
+        });
+      case 'plugin-agent':
+        return this.pluginExecution.streamAgent(pluginName, target.name, options);
+      case 'command':
+        return this.pluginExecution.streamCommand(pluginName, target.name, options);
+      case 'skill':
+        return this.pluginExecution.streamSkill(pluginName, target.name, options);
+    }
+  }
 }
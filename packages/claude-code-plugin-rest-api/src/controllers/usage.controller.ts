@@ -0,0 +1,31 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiQuery, ApiResponse } from '@nestjs/swagger';
+import { AuthUser } from '../auth/auth.types.js';
+import { CurrentUser } from '../auth/current-user.decorator.js';
+import { UsageService } from '../services/usage.service.js';
+
+/**
+ * The caller's spend and remaining allowance under the configured quotas
+ */
+@ApiTags('usage')
+@Controller('v1/usage')
+export class UsageController {
+  constructor(private readonly usage: UsageService) {}
+
+  /**
+   * The caller's spend this day and month, and every limited quota that applies
+   * to them. With `?agent=`, that agent's quotas are included as well.
+   */
+  @Get()
+  @ApiOperation({ summary: 'Get spend and remaining quota for the caller' })
+  @ApiQuery({ name: 'agent', required: false, description: 'Agent key (`name` or `plugin/name`) to include quotas for' })
+  @ApiResponse({ status: 200, description: 'Spend, limit, remaining allowance and reset time per quota window' })
+  async getUsage(@CurrentUser() user: AuthUser | undefined, @Query('agent') agent?: string) {
+    const quotas = await this.usage.getUsage(user, agent || undefined);
+    return {
+      username: user?.username,
+      quotas,
+      count: quotas.length,
+    };
+  }
+}
@@ -1,25 +1,33 @@
-import { Controller, Post, HttpCode, Logger } from '@nestjs/common';
+import { Controller, Post, HttpCode, Logger, Inject, Optional } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { PluginDiscoveryService } from '../services/plugin-discovery.service.js';
+import { RequirePermissions } from '../auth/permissions.decorator.js';
+import { AuthProvider, AUTH_PROVIDER } from '../auth/auth.types.js';
 
 /**
- * Webhook controller for triggering plugin reloads.
+ * Webhook controller for triggering plugin and auth reloads.
  * Useful for GitOps workflows where a GitHub webhook can trigger
  * a reload after merging PRs that modify plugin files.
+ * Requires the `admin:reload` permission.
  */
 @ApiTags('webhook')
 @Controller('webhook')
 export class WebhookController {
   private readonly logger = new Logger(WebhookController.name);
 
-  constructor(private pluginDiscovery: PluginDiscoveryService) {}
+  constructor(
+    private pluginDiscovery: PluginDiscoveryService,
+    @Optional() @Inject(AUTH_PROVIDER) private authProvider?: AuthProvider,
+  ) {}
 
   @Post('reload')
   @HttpCode(200)
+  @RequirePermissions('admin:reload')
   @ApiOperation({
     summary: 'Trigger plugin reload',
     description:
-      'Manually trigger a reload of all plugins. Useful after merging PRs that modify plugin files.',
+      'Manually trigger a reload of all plugins and, when the auth provider supports it, of auth.yml. '
+      + 'Useful after merging PRs that modify plugin files.',
   })
   @ApiResponse({
     status: 200,
@@ -29,17 +37,23 @@ export class WebhookController {
       properties: {
         reloaded: { type: 'boolean' },
         pluginCount: { type: 'number' },
+        authReloaded: { type: 'boolean', description: 'false if auth.yml was invalid and the previous config was kept' },
       },
     },
   })
-  async triggerReload(): Promise<{ reloaded: boolean; pluginCount: number }> {
+  @ApiResponse({ status: 403, description: 'Missing admin:reload permission' })
+  async triggerReload(): Promise<{ reloaded: boolean; pluginCount: number; authReloaded?: boolean }> {
     this.logger.log('Manual plugin reload triggered via webhook');
     await this.pluginDiscovery.discoverPlugins();
     const pluginCount = this.pluginDiscovery.getAllPlugins().length;
     this.logger.log(`Reload complete. ${pluginCount} plugins loaded.`);
+
+    const authReloaded = this.authProvider?.reload ? await this.authProvider.reload() : undefined;
+
     return {
       reloaded: true,
       pluginCount,
+      ...(authReloaded !== undefined ? { authReloaded } : {}),
     };
   }
 }
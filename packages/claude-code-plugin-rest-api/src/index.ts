@@ -5,10 +5,58 @@ export type { ClaudePluginModuleOptions } from './claude-plugin.module.js';
 // Services (for advanced usage)
 export { PluginDiscoveryService } from './services/plugin-discovery.service.js';
 export { PluginExecutionService } from './services/plugin-execution.service.js';
-export type { ExecutionOptions, ExecutionResult, Attachment, AttachmentSource } from './services/plugin-execution.service.js';
+export { toExecutionResult, recordProgress, toHookFailureMessage } from './services/plugin-execution.service.js';
+export type {
+  ExecutionOptions,
+  ExecutionResult,
+  ExecutionProgress,
+  ExecutionTarget,
+  Attachment,
+  AttachmentSource,
+  SessionResume,
+} from './services/plugin-execution.service.js';
 export { StreamSessionService } from './services/stream-session.service.js';
-export type { StreamSession } from './services/stream-session.service.js';
+export { InMemoryStreamSessionStore } from './services/in-memory-stream-session.store.js';
+export { RedisStreamSessionStore } from './services/redis-stream-session.store.js';
+export type { RedisStreamSessionStoreOptions } from './services/redis-stream-session.store.js';
 export { AgentService, AGENT_CONFIG } from './services/agent.service.js';
+export type { AgentExecutionOptions } from './services/agent.service.js';
+export { JobService } from './services/job.service.js';
+export { InMemoryJobStore } from './services/in-memory-job.store.js';
+export { ConversationService } from './services/conversation.service.js';
+export { UsageService, SpendTracker, agentKey } from './services/usage.service.js';
+export { InMemoryUsageStore } from './services/in-memory-usage.store.js';
+export { SpendQuotaGuard } from './services/spend-quota.guard.js';
+export { SpendQuota, SPEND_QUOTA_KEY } from './services/spend-quota.decorator.js';
+export { ExecutionHistoryService, ExecutionRecorder } from './services/execution-history.service.js';
+export { JsonlExecutionHistoryStore } from './services/jsonl-execution-history.store.js';
+
+// Attachment helpers
+export {
+  validateAttachments,
+  toContentBlock,
+  DEFAULT_ATTACHMENT_LIMITS,
+  SUPPORTED_MEDIA_TYPES,
+} from './utils/attachments.js';
+export type { AttachmentBlock, AttachmentLimits } from './utils/attachments.js';
+
+// SSE event formatting
+export {
+  formatSseEvents,
+  formatCompactEvent,
+  formatDetailedEvents,
+  formatPartialEvents,
+  toSseMessages,
+  serializeSseMessage,
+} from './utils/sse-events.js';
+export { acceptsEventStream, createEventStream } from './utils/event-stream.js';
+
+// Plugin policy
+export { applyPluginPolicy, DEFAULT_PLUGIN_PERMISSION_MODES } from './utils/plugin-policy.js';
+export type { AppliedPluginPolicy } from './utils/plugin-policy.js';
+export { expandPluginVariables, expandPluginVariablesDeep } from './utils/plugin-variables.js';
+export { runCommandHook, toSdkHooks, matchesHookCommand, DEFAULT_HOOK_TIMEOUT_SECONDS } from './utils/plugin-hooks.js';
+export type { CommandHookOutcome, CommandHookContext } from './utils/plugin-hooks.js';
 
 // Types - Plugin discovery
 export type {
@@ -16,9 +64,86 @@ export type {
   PluginCommand,
   PluginAgent,
   PluginSkill,
+  PluginExecutionSettings,
+  PluginPolicy,
+  PluginMcpServerConfig,
+  PluginCommandHook,
+  PluginHookMatcher,
+  PluginHooks,
+  PluginHooksOptions,
+  HookFailure,
   DiscoveredPlugin,
 } from './types/plugin.types.js';
 
+// Types - Async jobs
+export type {
+  Job,
+  JobStatus,
+  JobTarget,
+  JobProgress,
+  JobStore,
+  JobsModuleOptions,
+} from './types/job.types.js';
+export { JOB_STORE } from './types/job.types.js';
+
+// Types - Stream sessions
+export type {
+  StreamSession,
+  StreamSessionStatus,
+  StreamSessionStore,
+  StreamSessionsModuleOptions,
+} from './types/stream-session.types.js';
+export { STREAM_SESSION_STORE } from './types/stream-session.types.js';
+
+// Types - Spend quotas
+export type {
+  QuotaWindow,
+  QuotaScope,
+  QuotaUsage,
+  SpendLimits,
+  UsageStore,
+  QuotasModuleOptions,
+} from './types/usage.types.js';
+export { USAGE_STORE } from './types/usage.types.js';
+
+// Types - Execution history
+export type {
+  ExecutionStatus,
+  ExecutionInputs,
+  ExecutionRecord,
+  ExecutionQuery,
+  ExecutionHistoryStore,
+  ExecutionHistoryModuleOptions,
+} from './types/execution-history.types.js';
+export { EXECUTION_HISTORY_STORE } from './types/execution-history.types.js';
+
+// Types - Conversations
+export type {
+  Conversation,
+  ConversationMessage,
+  ConversationTarget,
+} from './types/conversation.types.js';
+
+// Types - SSE events
+export type {
+  SseFormat,
+  SseEvent,
+  SseCompactEvent,
+  SseMessage,
+  SseInitEvent,
+  SseDeltaEvent,
+  SseTextDeltaEvent,
+  SseThinkingEvent,
+  SseThinkingDeltaEvent,
+  SseToolCallEvent,
+  SseToolResultEvent,
+  SseUsageEvent,
+  SseErrorEvent,
+  SseHookFailureEvent,
+  SseCompleteEvent,
+} from './types/sse.types.js';
+export { SSE_SCHEMA_VERSION, SSE_FORMATS } from './types/sse.types.js';
+
 // Types - Agent configuration (extends SDK Options)
 export type { AgentConfig, RequestSchema } from './types/plugin.types.js';
 
@@ -26,11 +151,50 @@ export type { AgentConfig, RequestSchema } from './types/plugin.types.js';
 export { PluginController, StreamController } from './controllers/plugin.controller.js';
 export { AgentController } from './controllers/agent.controller.js';
 export { WebhookController } from './controllers/webhook.controller.js';
+export { JobController } from './controllers/job.controller.js';
+export { ConversationController } from './controllers/conversation.controller.js';
+export { ApiKeyController } from './controllers/api-key.controller.js';
+export { LockoutController } from './controllers/lockout.controller.js';
+export { UsageController } from './controllers/usage.controller.js';
+export { ExecutionController } from './controllers/execution.controller.js';
 
 // Auth exports
-export type { AuthUser, AuthProvider, AuthModuleOptions } from './auth/auth.types.js';
-export { YamlAuthProvider } from './auth/yaml-auth.provider.js';
+export type {
+  AuthUser,
+  AuthProvider,
+  AuthModuleOptions,
+  JwtAuthOptions,
+  JwtAlgorithm,
+  AuthScheme,
+  AuthStatus,
+  MissingCredentialsPolicy,
+  AuthProviderEntry,
+  AuthRouteOptions,
+  BruteForceOptions,
+  LoginThrottleLimits,
+  LockoutScope,
+  LockoutInfo,
+  AuthAuditEvent,
+  ApiKeyInfo,
+  ApiKeyManager,
+  CreateApiKeyParams,
+} from './auth/auth.types.js';
+export { isApiKeyManager, isSameUser } from './auth/auth.types.js';
+export { YamlAuthProvider, hashApiKey } from './auth/yaml-auth.provider.js';
+export { hashPassword, verifyPassword, needsRehash } from './auth/password-hash.js';
+export type { PasswordHashAlgorithm } from './auth/password-hash.js';
+export type { YamlAuthProviderOptions, AuthReloadedEvent } from './auth/yaml-auth.provider.js';
+export { CompositeAuthProvider } from './auth/composite-auth.provider.js';
+export type { NamedAuthProvider } from './auth/composite-auth.provider.js';
 export { BasicAuthGuard } from './auth/auth.guard.js';
+export { StreamTokenService } from './auth/stream-token.service.js';
+export { JwtAuthStrategy } from './auth/jwt.strategy.js';
+export { CurrentUser } from './auth/current-user.decorator.js';
+export { AccessControlService, matchesPermission } from './auth/access-control.service.js';
+export { PermissionsGuard } from './auth/permissions.guard.js';
+export { AuthStatusService } from './auth/auth-status.service.js';
+export { LoginThrottleService } from './auth/login-throttle.service.js';
+export { RequirePermissions, PERMISSIONS_KEY } from './auth/permissions.decorator.js';
 
 // Claude Agent SDK re-exports for convenience
 export { createSdkMcpServer, tool } from '@anthropic-ai/claude-agent-sdk';
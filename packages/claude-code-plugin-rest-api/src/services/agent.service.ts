@@ -1,11 +1,42 @@
-import { Injectable, Logger, Inject, NotFoundException } from '@nestjs/common';
+import { Injectable, Logger, Inject, NotFoundException, Optional } from '@nestjs/common';
 import { query } from '@anthropic-ai/claude-agent-sdk';
 import { Observable } from 'rxjs';
 import { AgentConfig } from '../types/plugin.types.js';
-import { SDKMessage, ExecutionResult } from './plugin-execution.service.js';
+import {
+  SDKMessage,
+  ExecutionResult,
+  Attachment,
+  SessionResume,
+  toExecutionResult,
+  toResumeOptions,
+} from './plugin-execution.service.js';
+import { buildPromptInput } from '../utils/attachments.js';
+import { createAbortController } from '../utils/abort.js';
+import { AuthUser } from '../auth/auth.types.js';
+import { UsageService } from './usage.service.js';
+import { ExecutionHistoryService, ExecutionRecorder, toExecutionInputs } from './execution-history.service.js';
 
 export const AGENT_CONFIG = 'AGENT_CONFIG';
 
+/**
+ * Per-request options for user-defined agent execution
+ */
+export interface AgentExecutionOptions {
+  /** File attachments sent as multimodal content alongside the prompt */
+  attachments?: Attachment[];
+  /** Continue an earlier SDK session (multi-turn conversations) */
+  resume?: SessionResume;
+  /**
+   * Emit SDK `stream_event` messages with token-level deltas.
+   * Overrides the agent's `includePartialMessages` setting.
+   */
+  includePartialMessages?: boolean;
+  /** Aborts the execution (e.g. when the HTTP client disconnects) */
+  signal?: AbortSignal;
+  /** Caller whose spend the execution's cost is recorded against */
+  user?: AuthUser;
+}
+
 /**
  * Service for executing user-defined agents with full SDK options.
  * These agents are configured programmatically at module registration time
@@ -17,6 +48,8 @@ export class AgentService {
 
   constructor(
     @Inject(AGENT_CONFIG) private agents: Record<string, AgentConfig>,
+    @Optional() private usage?: UsageService,
+    @Optional() private history?: ExecutionHistoryService,
   ) {
     const agentNames = Object.keys(this.agents);
     if (agentNames.length > 0) {
@@ -41,7 +74,11 @@ export class AgentService {
   /**
    * Execute an agent (request/response mode)
    */
-  async execute(agentName: string, prompt: string): Promise<ExecutionResult> {
+  async execute(
+    agentName: string,
+    prompt: string,
+    options: AgentExecutionOptions = {},
+  ): Promise<ExecutionResult> {
     const config = this.agents[agentName];
     if (!config) {
       throw new NotFoundException(`Agent '${agentName}' not found`);
@@ -49,51 +86,52 @@ export class AgentService {
 
     this.logger.log(`Executing agent '${agentName}' with prompt: ${prompt.substring(0, 100)}...`);
 
-    const queryOptions = this.buildQueryOptions(config);
+    const queryOptions = this.buildQueryOptions(config, options);
+    const abortController = createAbortController(options.signal);
+    const recorder = this.startRecording(agentName, config, prompt, options);
+    const executionId = recorder?.id;
+    const spend = this.usage?.track({ kind: 'agent', name: agentName }, options.user);
 
     try {
       let finalResult: ExecutionResult = { success: false };
 
-      for await (const message of query({ prompt, options: queryOptions })) {
+      for await (const message of query({
+        prompt: buildPromptInput(prompt, options.attachments),
+        options: { ...queryOptions, abortController },
+      })) {
+        recorder?.message(message);
+        spend?.message(message);
         if (message.type === 'result') {
-          const resultMessage = message as {
-            type: 'result';
-            is_error?: boolean;
-            result?: string;
-            structured_output?: unknown;
-            total_cost_usd?: number;
-            num_turns?: number;
-            usage?: { input_tokens?: number; output_tokens?: number };
-          };
-          finalResult = {
-            success: !resultMessage.is_error,
-            result: resultMessage.result,
-            structuredOutput: resultMessage.structured_output,
-            cost: resultMessage.total_cost_usd,
-            turns: resultMessage.num_turns,
-            usage: resultMessage.usage
-              ? {
-                  inputTokens: resultMessage.usage.input_tokens || 0,
-                  outputTokens: resultMessage.usage.output_tokens || 0,
-                }
-              : undefined,
-          };
+          finalResult = toExecutionResult(message);
         }
       }
 
       this.logger.log(`Agent '${agentName}' completed: success=${finalResult.success}, turns=${finalResult.turns}`);
-      return finalResult;
+      spend?.finish();
+      recorder?.finish(finalResult.success ? 'succeeded' : 'failed', finalResult);
+      return { ...finalResult, executionId };
     } catch (error: unknown) {
+      spend?.finish();
       const err = error as Error;
+      if (abortController.signal.aborted) {
+        this.logger.log(`Agent '${agentName}' execution aborted`);
+        recorder?.finish('cancelled', { error: 'Execution aborted' });
+        return { success: false, error: 'Execution aborted', executionId };
+      }
       this.logger.error(`Agent '${agentName}' execution failed: ${err.message}`, err.stack);
-      return { success: false, error: err.message };
+      recorder?.finish('failed', { error: err.message });
+      return { success: false, error: err.message, executionId };
     }
   }
 
   /**
    * Stream agent execution via Observable
    */
-  stream(agentName: string, prompt: string): Observable<SDKMessage> {
+  stream(
+    agentName: string,
+    prompt: string,
+    options: AgentExecutionOptions = {},
+  ): Observable<SDKMessage> {
     const config = this.agents[agentName];
     if (!config) {
       return new Observable((subscriber) => {
@@ -103,32 +141,75 @@ export class AgentService {
 
     this.logger.log(`Streaming agent '${agentName}' with prompt: ${prompt.substring(0, 100)}...`);
 
-    const queryOptions = this.buildQueryOptions(config);
+    const queryOptions = this.buildQueryOptions(config, options);
 
     return new Observable((subscriber) => {
+      const abortController = createAbortController(options.signal);
+      const recorder = this.startRecording(agentName, config, prompt, options);
+      const spend = this.usage?.track({ kind: 'agent', name: agentName }, options.user);
+      let finished = false;
+
       (async () => {
         try {
-          for await (const message of query({ prompt, options: queryOptions })) {
+          for await (const message of query({
+            prompt: buildPromptInput(prompt, options.attachments),
+            options: { ...queryOptions, abortController },
+          })) {
+            recorder?.message(message);
+            spend?.message(message);
             subscriber.next(message);
 
             if (message.type === 'result') {
+              const result = toExecutionResult(message);
+              recorder?.finish(result.success ? 'succeeded' : 'failed', result);
+              finished = true;
               subscriber.complete();
             }
           }
         } catch (error: unknown) {
+          spend?.finish();
           const err = error as Error;
-          this.logger.error(`Agent '${agentName}' stream failed: ${err.message}`, err.stack);
+          if (abortController.signal.aborted) {
+            this.logger.log(`Agent '${agentName}' stream aborted`);
+            recorder?.finish('cancelled', { error: 'Execution aborted' });
+          } else {
+            this.logger.error(`Agent '${agentName}' stream failed: ${err.message}`, err.stack);
+            recorder?.finish('failed', { error: err.message });
+          }
           subscriber.error(error);
         }
       })();
+
+      // Unsubscribing before the result stops the query
+      return () => {
+        if (!finished) {
+          recorder?.finish('cancelled', { error: 'Execution aborted' });
+          spend?.finish();
+          abortController.abort();
+        }
+      };
     });
   }
 
+  private startRecording(
+    agentName: string,
+    config: AgentConfig,
+    prompt: string,
+    options: AgentExecutionOptions,
+  ): ExecutionRecorder | undefined {
+    return this.history?.start({ kind: 'agent', name: agentName }, options.user, toExecutionInputs(prompt, {
+      attachments: options.attachments,
+      resume: options.resume,
+      maxTurns: config.maxTurns,
+      maxBudgetUsd: config.maxBudgetUsd,
+    }));
+  }
+
   /**
    * Build query options from agent config.
    * Spreads SDK options directly and sets defaults for cwd and permissionMode.
    */
-  private buildQueryOptions(config: AgentConfig) {
+  private buildQueryOptions(config: AgentConfig, options: AgentExecutionOptions) {
     // Extract our custom extension, pass everything else to SDK
     const { requestSchema: _requestSchema, ...sdkOptions } = config;
 
@@ -138,6 +219,8 @@ export class AgentService {
       cwd: sdkOptions.cwd ?? process.cwd(),
       // Default permission mode
       permissionMode: sdkOptions.permissionMode ?? 'default',
+      includePartialMessages: options.includePartialMessages ?? sdkOptions.includePartialMessages,
+      ...toResumeOptions(options.resume),
     };
   }
 }
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { of } from 'rxjs';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { ConversationService } from './conversation.service.js';
+import { AgentService } from './agent.service.js';
+import { PluginExecutionService, SDKMessage } from './plugin-execution.service.js';
+import { ConversationTarget } from '../types/conversation.types.js';
+
+describe('ConversationService', () => {
+  const target: ConversationTarget = { kind: 'agent', name: 'chat-agent' };
+  let service: ConversationService;
+  let agentService: { stream: ReturnType<typeof vi.fn> };
+  let pluginExecution: { streamAgent: ReturnType<typeof vi.fn> };
+  let replyCount: number;
+
+  function reply(sessionId: string): SDKMessage[] {
+    replyCount++;
+    return [
+      { type: 'assistant', uuid: `assistant-${replyCount}`, parent_tool_use_id: null, session_id: sessionId },
+      {
+        type: 'result',
+        is_error: false,
+        result: `reply ${replyCount}`,
+        total_cost_usd: 0.01,
+        num_turns: 1,
+        session_id: sessionId,
+      },
+    ];
+  }
+
+  beforeEach(() => {
+    replyCount = 0;
+    agentService = { stream: vi.fn(() => of(...reply('session-1'))) };
+    pluginExecution = { streamAgent: vi.fn(() => of(...reply('plugin-session'))) };
+    service = new ConversationService(
+      pluginExecution as unknown as PluginExecutionService,
+      agentService as unknown as AgentService,
+    );
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+  });
+
+  it('should create an empty conversation', () => {
+    const conversation = service.create(target);
+
+    expect(conversation.id).toBeDefined();
+    expect(conversation.messages).toEqual([]);
+    expect(conversation.sessionId).toBeUndefined();
+  });
+
+  it('should start a new session on the first message and resume it afterwards', async () => {
+    const { id } = service.create(target);
+
+    await service.sendMessage(target, id, 'Hello');
+    await service.sendMessage(target, id, 'And then?');
+
+    expect(agentService.stream).toHaveBeenNthCalledWith(1, 'chat-agent', 'Hello', {
+      attachments: undefined,
+      resume: undefined,
+    });
+    expect(agentService.stream).toHaveBeenNthCalledWith(2, 'chat-agent', 'And then?', {
+      attachments: undefined,
+      resume: { sessionId: 'session-1' },
+    });
+
+    const conversation = service.get(target, id);
+    expect(conversation.sessionId).toBe('session-1');
+    expect(conversation.messages.map((m) => [m.role, m.content])).toEqual([
+      ['user', 'Hello'],
+      ['assistant', 'reply 1'],
+      ['user', 'And then?'],
+      ['assistant', 'reply 2'],
+    ]);
+  });
+
+  it('should not record history when execution fails', async () => {
+    const { id } = service.create(target);
+    agentService.stream.mockReturnValueOnce(of({ type: 'result', is_error: true, session_id: 'x' }));
+
+    const { result } = await service.sendMessage(target, id, 'Hello');
+
+    expect(result.success).toBe(false);
+    expect(service.get(target, id).messages).toEqual([]);
+  });
+
+  it('should reject concurrent messages', async () => {
+    const { id } = service.create(target);
+
+    const first = service.sendMessage(target, id, 'one');
+    await expect(service.sendMessage(target, id, 'two')).rejects.toThrow(ConflictException);
+    await first;
+  });
+
+  it('should fork from an earlier reply into a new session', async () => {
+    const { id } = service.create(target);
+    await service.sendMessage(target, id, 'first');
+    await service.sendMessage(target, id, 'second');
+
+    const source = service.get(target, id);
+    const firstReply = source.messages[1];
+
+    const fork = service.fork(target, id, firstReply.id);
+    expect(fork.forkedFrom).toEqual({ conversationId: id, messageId: firstReply.id });
+    expect(fork.messages).toHaveLength(2);
+
+    agentService.stream.mockReturnValueOnce(of(...reply('session-2')));
+    await service.sendMessage(target, fork.id, 'alternative');
+
+    expect(agentService.stream).toHaveBeenLastCalledWith('chat-agent', 'alternative', {
+      attachments: undefined,
+      resume: { sessionId: 'session-1', fork: true, atMessageUuid: 'assistant-1' },
+    });
+    expect(service.get(target, fork.id).sessionId).toBe('session-2');
+    expect(service.get(target, id).messages).toHaveLength(4);
+  });
+
+  it('should run plugin agent conversations through PluginExecutionService', async () => {
+    const pluginTarget: ConversationTarget = { kind: 'plugin-agent', pluginName: 'my-plugin', name: 'helper' };
+    const { id } = service.create(pluginTarget);
+
+    await service.sendMessage(pluginTarget, id, 'Hi');
+
+    expect(pluginExecution.streamAgent).toHaveBeenCalledWith('my-plugin', 'helper', {
+      arguments: 'Hi',
+      attachments: undefined,
+      resume: undefined,
+    });
+  });
+
+  it('should not expose conversations under a different target', () => {
+    const { id } = service.create(target);
+
+    expect(() => service.get({ kind: 'agent', name: 'other' }, id)).toThrow(NotFoundException);
+  });
+
+  it('should only expose conversations to the caller who started them', async () => {
+    const alice = { username: 'alice' };
+    const bob = { username: 'bob' };
+    const { id } = service.create(target, alice);
+    await service.sendMessage(target, id, 'Hello', undefined, undefined, alice);
+
+    expect(service.list(target, alice).map((c) => c.id)).toEqual([id]);
+    expect(service.list(target, bob)).toEqual([]);
+    expect(() => service.get(target, id, bob)).toThrow(NotFoundException);
+    expect(() => service.get(target, id)).toThrow(NotFoundException);
+    expect(() => service.fork(target, id, undefined, bob)).toThrow(NotFoundException);
+    expect(() => service.delete(target, id, bob)).toThrow(NotFoundException);
+    await expect(service.sendMessage(target, id, 'Mine now', undefined, undefined, bob)).rejects.toThrow(NotFoundException);
+
+    const fork = service.fork(target, id, undefined, alice);
+    expect(service.get(target, fork.id, alice).messages).toHaveLength(2);
+    expect(() => service.get(target, fork.id, bob)).toThrow(NotFoundException);
+    expect(service.get(target, id, alice)).not.toHaveProperty('owner');
+  });
+
+  it('should not expose conversations to a namesake from another provider or tenant', () => {
+    const alice = { username: 'alice', authProvider: 'ldap', tenant: 'acme' };
+    const { id } = service.create(target, alice);
+
+    expect(service.get(target, id, { ...alice }).id).toBe(id);
+    expect(service.list(target, { ...alice, authProvider: 'yaml' })).toEqual([]);
+    expect(() => service.get(target, id, { ...alice, tenant: 'globex' })).toThrow(NotFoundException);
+    expect(() => service.get(target, id, { username: 'alice' })).toThrow(NotFoundException);
+  });
+
+  it('should delete conversations', () => {
+    const { id } = service.create(target);
+
+    service.delete(target, id);
+
+    expect(() => service.get(target, id)).toThrow(NotFoundException);
+  });
+});
@@ -0,0 +1,273 @@
+import {
+  Injectable,
+  Logger,
+  Optional,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  PluginExecutionService,
+  SDKMessage,
+  ExecutionResult,
+  Attachment,
+  SessionResume,
+  toExecutionResult,
+} from './plugin-execution.service.js';
+import { AgentService } from './agent.service.js';
+import { AuthUser, isSameUser } from '../auth/auth.types.js';
+import { Conversation, ConversationMessage, ConversationTarget } from '../types/conversation.types.js';
+
+/** Internal conversation state that is not exposed over the API */
+interface ConversationState extends Conversation {
+  /** Resume options for the first message of a forked conversation */
+  pendingFork?: SessionResume;
+  /** Caller who started the conversation; only they can use it (unset without auth) */
+  owner?: AuthUser;
+}
+
+/**
+ * Multi-turn conversations on top of SDK session resume.
+ * Each appended message resumes the SDK session of the previous reply, so the
+ * agent sees the full history without it being re-sent.
+ * Conversations belong to the caller who started them; to anyone else they
+ * do not exist.
+ */
+@Injectable()
+export class ConversationService implements OnModuleDestroy {
+  private readonly logger = new Logger(ConversationService.name);
+  private conversations = new Map<string, ConversationState>();
+  /** Conversations with a message currently in flight */
+  private busy = new Set<string>();
+  private readonly IDLE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+  private cleanupInterval: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly pluginExecution: PluginExecutionService,
+    @Optional() private readonly agentService?: AgentService,
+  ) {
+    // Cleanup idle conversations every hour
+    this.cleanupInterval = setInterval(() => this.cleanupIdleConversations(), 60 * 60 * 1000);
+  }
+
+  create(target: ConversationTarget, user?: AuthUser): Conversation {
+    const now = Date.now();
+    const conversation: ConversationState = {
+      id: uuidv4(),
+      target,
+      messages: [],
+      owner: user,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.conversations.set(conversation.id, conversation);
+    this.logger.debug(`Created conversation ${conversation.id}`);
+
+    return this.toPublic(conversation);
+  }
+
+  list(target: ConversationTarget, user?: AuthUser): Conversation[] {
+    return Array.from(this.conversations.values())
+      .filter((c) => this.sameTarget(c.target, target) && this.canAccess(c, user))
+      .map((c) => this.toPublic(c));
+  }
+
+  get(target: ConversationTarget, id: string, user?: AuthUser): Conversation {
+    return this.toPublic(this.getState(target, id, user));
+  }
+
+  delete(target: ConversationTarget, id: string, user?: AuthUser): void {
+    this.getState(target, id, user);
+    this.conversations.delete(id);
+    this.logger.debug(`Deleted conversation ${id}`);
+  }
+
+  /**
+   * Append a user message and run the agent, resuming the conversation's SDK session
+   */
+  async sendMessage(
+    target: ConversationTarget,
+    id: string,
+    prompt: string,
+    attachments?: Attachment[],
+    signal?: AbortSignal,
+    user?: AuthUser,
+  ): Promise<{ message?: ConversationMessage; result: ExecutionResult }> {
+    const conversation = this.getState(target, id, user);
+
+    if (this.busy.has(id)) {
+      throw new ConflictException(`Conversation '${id}' already has a message in progress`);
+    }
+
+    const resume: SessionResume | undefined = conversation.pendingFork
+      ?? (conversation.sessionId ? { sessionId: conversation.sessionId } : undefined);
+
+    this.busy.add(id);
+    try {
+      const userMessage: ConversationMessage = {
+        id: uuidv4(),
+        role: 'user',
+        content: prompt,
+        createdAt: Date.now(),
+      };
+
+      const { result, lastAssistantUuid } = await this.run(target, prompt, { attachments, resume, signal, user });
+
+      if (!result.success) {
+        return { result };
+      }
+
+      const reply: ConversationMessage = {
+        id: uuidv4(),
+        role: 'assistant',
+        content: result.result ?? '',
+        createdAt: Date.now(),
+        sessionId: result.sessionId,
+        sdkMessageUuid: lastAssistantUuid,
+        cost: result.cost,
+      };
+
+      conversation.messages.push(userMessage, reply);
+      conversation.sessionId = result.sessionId ?? conversation.sessionId;
+      conversation.pendingFork = undefined;
+      conversation.updatedAt = Date.now();
+
+      return { message: reply, result };
+    } finally {
+      this.busy.delete(id);
+    }
+  }
+
+  /**
+   * Branch a new conversation from an assistant reply (defaults to the latest one).
+   * The fork shares history up to that reply; its next message continues from there
+   * in a new SDK session, leaving the source conversation untouched.
+   */
+  fork(target: ConversationTarget, id: string, messageId?: string, user?: AuthUser): Conversation {
+    const source = this.getState(target, id, user);
+
+    const index = messageId
+      ? source.messages.findIndex((m) => m.id === messageId)
+      : source.messages.map((m) => m.role).lastIndexOf('assistant');
+
+    if (index === -1) {
+      throw messageId
+        ? new NotFoundException(`Message '${messageId}' not found in conversation '${id}'`)
+        : new BadRequestException(`Conversation '${id}' has no replies to fork from`);
+    }
+
+    const forkPoint = source.messages[index];
+    if (forkPoint.role !== 'assistant' || !forkPoint.sessionId) {
+      throw new BadRequestException('Conversations can only be forked from an assistant message');
+    }
+
+    const now = Date.now();
+    const conversation: ConversationState = {
+      id: uuidv4(),
+      target: source.target,
+      forkedFrom: { conversationId: source.id, messageId: forkPoint.id },
+      messages: source.messages.slice(0, index + 1).map((m) => ({ ...m })),
+      pendingFork: {
+        sessionId: forkPoint.sessionId,
+        fork: true,
+        atMessageUuid: forkPoint.sdkMessageUuid,
+      },
+      owner: source.owner,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.conversations.set(conversation.id, conversation);
+    this.logger.debug(`Forked conversation ${source.id} at ${forkPoint.id} into ${conversation.id}`);
+
+    return this.toPublic(conversation);
+  }
+
+  private run(
+    target: ConversationTarget,
+    prompt: string,
+    options: { attachments?: Attachment[]; resume?: SessionResume; signal?: AbortSignal; user?: AuthUser },
+  ): Promise<{ result: ExecutionResult; lastAssistantUuid?: string }> {
+    let stream: Observable<SDKMessage>;
+
+    if (target.kind === 'agent') {
+      if (!this.agentService) {
+        throw new NotFoundException(`Agent '${target.name}' not found`);
+      }
+      stream = this.agentService.stream(target.name, prompt, options);
+    } else {
+      stream = this.pluginExecution.streamAgent(target.pluginName!, target.name, {
+        arguments: prompt,
+        ...options,
+      });
+    }
+
+    return new Promise((resolve) => {
+      let result: ExecutionResult = { success: false, error: 'Execution ended without a result' };
+      let lastAssistantUuid: string | undefined;
+
+      stream.subscribe({
+        next: (message) => {
+          if (message.type === 'assistant' && !message.parent_tool_use_id) {
+            lastAssistantUuid = message.uuid as string | undefined;
+          } else if (message.type === 'result') {
+            result = toExecutionResult(message);
+          }
+        },
+        error: (error: Error) => resolve({ result: { success: false, error: error.message } }),
+        complete: () => resolve({ result, lastAssistantUuid }),
+      });
+    });
+  }
+
+  private getState(target: ConversationTarget, id: string, user?: AuthUser): ConversationState {
+    const conversation = this.conversations.get(id);
+    if (!conversation || !this.sameTarget(conversation.target, target) || !this.canAccess(conversation, user)) {
+      throw new NotFoundException(`Conversation '${id}' not found`);
+    }
+    return conversation;
+  }
+
+  /**
+   * Whether `user` may use a conversation: only its owner can, unless it was
+   * created without one
+   */
+  private canAccess(conversation: ConversationState, user: AuthUser | undefined): boolean {
+    return !conversation.owner || isSameUser(conversation.owner, user);
+  }
+
+  private sameTarget(a: ConversationTarget, b: ConversationTarget): boolean {
+    return a.kind === b.kind && a.pluginName === b.pluginName && a.name === b.name;
+  }
+
+  private toPublic(conversation: ConversationState): Conversation {
+    const { pendingFork: _pendingFork, owner: _owner, ...rest } = conversation;
+    return { ...rest, messages: conversation.messages.map((m) => ({ ...m })) };
+  }
+
+  private cleanupIdleConversations(): void {
+    const now = Date.now();
+    let cleaned = 0;
+
+    for (const [id, conversation] of this.conversations.entries()) {
+      if (!this.busy.has(id) && now - conversation.updatedAt > this.IDLE_TTL_MS) {
+        this.conversations.delete(id);
+        cleaned++;
+      }
+    }
+
+    if (cleaned > 0) {
+      this.logger.debug(`Cleaned up ${cleaned} idle conversations`);
+    }
+  }
+
+  onModuleDestroy() {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { ExecutionHistoryService, toExecutionInputs } from './execution-history.service.js';
+import { JsonlExecutionHistoryStore } from './jsonl-execution-history.store.js';
+import type { SDKMessage } from './plugin-execution.service.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('ExecutionHistoryService', () => {
+  let directory: string;
+  let service: ExecutionHistoryService;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'execution-history-'));
+    service = new ExecutionHistoryService({ enabled: true, retentionDays: 7 }, new JsonlExecutionHistoryStore(directory));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should record inputs, transcript and outcome, readable by a new store instance', async () => {
+    const recorder = service.start(
+      { kind: 'command', pluginName: 'reviews', name: 'review' },
+      { username: 'alice' },
+      toExecutionInputs('Review this', {
+        arguments: 'src/',
+        attachments: [{ type: 'image', mediaType: 'image/png', source: { type: 'base64', data: 'aGVsbG8=' }, filename: 'shot.png' }],
+      }),
+    )!;
+    recorder.message({ type: 'assistant', message: { content: [] } } as unknown as SDKMessage);
+    recorder.message({ type: 'result', subtype: 'success' } as unknown as SDKMessage);
+    recorder.finish('succeeded', { success: true, cost: 0.02, turns: 1, sessionId: 'sdk-session' });
+    // Messages after finish are not recorded
+    recorder.message({ type: 'assistant' } as unknown as SDKMessage);
+    await recorder.flush();
+
+    const reloaded = new ExecutionHistoryService({}, new JsonlExecutionHistoryStore(directory));
+    const record = await reloaded.get(recorder.id);
+    expect(record).toMatchObject({
+      target: { kind: 'command', pluginName: 'reviews', name: 'review' },
+      username: 'alice',
+      status: 'succeeded',
+      cost: 0.02,
+      turns: 1,
+      sessionId: 'sdk-session',
+      messageCount: 2,
+    });
+    expect(record!.inputs.attachments).toEqual([{ type: 'image', mediaType: 'image/png', filename: 'shot.png' }]);
+    expect(record!.durationMs).toBeGreaterThanOrEqual(0);
+
+    const transcript = await reloaded.getTranscript(recorder.id);
+    expect(transcript?.map((message) => message.type)).toEqual(['assistant', 'result']);
+  });
+
+  it('should filter executions and list them newest first', async () => {
+    const alice = { username: 'alice' };
+    const first = service.start({ kind: 'agent', name: 'helper' }, alice, toExecutionInputs('one', {}))!;
+    first.finish('failed', { error: 'boom' });
+    await first.flush();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = service.start({ kind: 'agent', name: 'helper' }, alice, toExecutionInputs('two', {}))!;
+    await second.flush();
+    const other = service.start({ kind: 'skill', pluginName: 'docs', name: 'write' }, { username: 'bob' }, toExecutionInputs('three', {}))!;
+    await other.flush();
+
+    expect((await service.list({ username: 'alice' })).map((record) => record.inputs.prompt)).toEqual(['two', 'one']);
+    expect((await service.list({ status: 'failed' })).map((record) => record.id)).toEqual([first.id]);
+    expect((await service.list({ kind: 'skill', pluginName: 'docs' })).map((record) => record.id)).toEqual([other.id]);
+    expect(await service.list({ limit: 1, offset: 1 })).toHaveLength(1);
+    expect(await service.get('../escape')).toBeUndefined();
+  });
+
+  it('should prune executions past the retention period and the maximum count', async () => {
+    const store = new JsonlExecutionHistoryStore(directory);
+    const now = Date.now();
+    for (const [id, age] of [['old', 8 * DAY_MS], ['a', 3000], ['b', 2000], ['c', 1000]] as const) {
+      await store.save({
+        id,
+        target: { kind: 'agent', name: 'helper' },
+        inputs: { prompt: id },
+        status: 'succeeded',
+        startedAt: now - age,
+        messageCount: 0,
+      });
+      await store.appendMessages(id, [{ type: 'result' } as unknown as SDKMessage]);
+    }
+
+    const pruning = new ExecutionHistoryService({ enabled: true, retentionDays: 7, maxExecutions: 2 }, store);
+    expect(await pruning.prune()).toBe(2);
+    expect((await pruning.list({})).map((record) => record.id)).toEqual(['c', 'b']);
+    expect((await fs.readdir(directory)).sort()).toEqual(['b.json', 'b.jsonl', 'c.json', 'c.jsonl']);
+  });
+
+  it('should not record unless enabled', () => {
+    for (const options of [{}, { enabled: false }]) {
+      const disabled = new ExecutionHistoryService(options, new JsonlExecutionHistoryStore(directory));
+      expect(disabled.start({ kind: 'agent', name: 'helper' }, undefined, toExecutionInputs('hi', {}))).toBeUndefined();
+    }
+  });
+});
@@ -0,0 +1,199 @@
+import { Injectable, Logger, Inject, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { AuthUser } from '../auth/auth.types.js';
+import type { Attachment, ExecutionResult, ExecutionTarget, SDKMessage, SessionResume } from './plugin-execution.service.js';
+import {
+  ExecutionHistoryModuleOptions,
+  ExecutionHistoryStore,
+  ExecutionInputs,
+  ExecutionQuery,
+  ExecutionRecord,
+  ExecutionStatus,
+  EXECUTION_HISTORY_OPTIONS,
+  EXECUTION_HISTORY_STORE,
+} from '../types/execution-history.types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_EXECUTIONS = 10_000;
+
+/**
+ * Inputs to record for an execution, without attachment content
+ */
+export function toExecutionInputs(
+  prompt: string,
+  options: {
+    arguments?: string;
+    context?: Record<string, unknown>;
+    attachments?: Attachment[];
+    resume?: SessionResume;
+    maxTurns?: number;
+    maxBudgetUsd?: number;
+  },
+): ExecutionInputs {
+  return {
+    prompt,
+    arguments: options.arguments,
+    context: options.context,
+    attachments: options.attachments?.map(({ type, mediaType, filename }) => ({ type, mediaType, filename })),
+    resume: options.resume,
+    maxTurns: options.maxTurns,
+    maxBudgetUsd: options.maxBudgetUsd,
+  };
+}
+
+/**
+ * Records one execution. Messages are written in order in the background;
+ * store failures are logged and never affect the execution.
+ */
+export class ExecutionRecorder {
+  private writes: Promise<void> = Promise.resolve();
+  private finished = false;
+
+  constructor(
+    private readonly record: ExecutionRecord,
+    private readonly store: ExecutionHistoryStore,
+    private readonly logger: Logger,
+  ) {
+    this.enqueue(() => store.save({ ...record }));
+  }
+
+  get id(): string {
+    return this.record.id;
+  }
+
+  /**
+   * Append an SDK message to the transcript
+   */
+  message(message: SDKMessage): void {
+    if (this.finished) {
+      return;
+    }
+    this.record.messageCount++;
+    this.enqueue(() => this.store.appendMessages(this.record.id, [message]));
+  }
+
+  /**
+   * Record the outcome; later calls are ignored
+   */
+  finish(status: ExecutionStatus, result: Partial<ExecutionResult> = {}): void {
+    if (this.finished) {
+      return;
+    }
+    this.finished = true;
+
+    const finishedAt = Date.now();
+    Object.assign(this.record, {
+      status,
+      finishedAt,
+      durationMs: finishedAt - this.record.startedAt,
+      cost: result.cost,
+      turns: result.turns,
+      usage: result.usage,
+      sessionId: result.sessionId,
+      error: result.error,
+    });
+    this.enqueue(() => this.store.save({ ...this.record }));
+  }
+
+  /**
+   * Resolves once everything recorded so far is written
+   */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  private enqueue(write: () => Promise<void>): void {
+    this.writes = this.writes.then(write).catch((error: Error) => {
+      this.logger.error(`Failed to record execution ${this.record.id}: ${error.message}`);
+    });
+  }
+}
+
+/**
+ * History of executions: who ran what with which inputs, every SDK message,
+ * timing, cost and outcome. Once enabled, AgentService and PluginExecutionService
+ * record each run; executions past `retentionDays` or `maxExecutions` are
+ * pruned at startup and hourly.
+ */
+@Injectable()
+export class ExecutionHistoryService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ExecutionHistoryService.name);
+  private pruneInterval: NodeJS.Timeout | null = null;
+
+  constructor(
+    @Inject(EXECUTION_HISTORY_OPTIONS) private readonly options: ExecutionHistoryModuleOptions,
+    @Inject(EXECUTION_HISTORY_STORE) private readonly store: ExecutionHistoryStore,
+  ) {}
+
+  get enabled(): boolean {
+    return this.options.enabled ?? false;
+  }
+
+  onModuleInit() {
+    if (!this.enabled) {
+      return;
+    }
+    void this.prune();
+    this.pruneInterval = setInterval(() => void this.prune(), 60 * 60 * 1000);
+  }
+
+  onModuleDestroy() {
+    if (this.pruneInterval) {
+      clearInterval(this.pruneInterval);
+    }
+  }
+
+  /**
+   * Start recording an execution
+   * @returns undefined when history is disabled
+   */
+  start(target: ExecutionTarget, user: AuthUser | undefined, inputs: ExecutionInputs): ExecutionRecorder | undefined {
+    if (!this.enabled) {
+      return undefined;
+    }
+
+    return new ExecutionRecorder(
+      {
+        id: uuidv4(),
+        target,
+        username: user?.username,
+        inputs,
+        status: 'running',
+        startedAt: Date.now(),
+        messageCount: 0,
+      },
+      this.store,
+      this.logger,
+    );
+  }
+
+  get(id: string): Promise<ExecutionRecord | undefined> {
+    return this.store.get(id);
+  }
+
+  getTranscript(id: string): Promise<SDKMessage[] | undefined> {
+    return this.store.getTranscript(id);
+  }
+
+  list(query: ExecutionQuery): Promise<ExecutionRecord[]> {
+    return this.store.list(query);
+  }
+
+  /**
+   * Delete executions past the retention settings
+   * @returns the number deleted
+   */
+  async prune(): Promise<number> {
+    const before = Date.now() - (this.options.retentionDays ?? 30) * DAY_MS;
+    try {
+      const pruned = await this.store.prune(before, this.options.maxExecutions ?? DEFAULT_MAX_EXECUTIONS);
+      if (pruned > 0) {
+        this.logger.log(`Pruned ${pruned} executions from history`);
+      }
+      return pruned;
+    } catch (error: unknown) {
+      this.logger.error(`Failed to prune execution history: ${(error as Error).message}`);
+      return 0;
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { Job, JobStore } from '../types/job.types.js';
+
+/**
+ * Default job store. Jobs live in process memory, so they are lost on restart
+ * and not visible to other instances.
+ */
+export class InMemoryJobStore implements JobStore, OnModuleDestroy {
+  private readonly logger = new Logger(InMemoryJobStore.name);
+  private jobs = new Map<string, Job>();
+  private cleanupInterval: NodeJS.Timeout | null = null;
+
+  constructor(private readonly retentionMs: number = 60 * 60 * 1000) {
+    // Remove finished jobs past retention every minute
+    this.cleanupInterval = setInterval(() => this.cleanupFinishedJobs(), 60 * 1000);
+  }
+
+  async save(job: Job): Promise<void> {
+    this.jobs.set(job.id, { ...job, progress: { ...job.progress } });
+  }
+
+  async get(id: string): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    return job ? { ...job, progress: { ...job.progress } } : undefined;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.jobs.delete(id);
+  }
+
+  private cleanupFinishedJobs(): void {
+    const now = Date.now();
+    let cleaned = 0;
+
+    for (const [id, job] of this.jobs.entries()) {
+      if (job.finishedAt && now - job.finishedAt > this.retentionMs) {
+        this.jobs.delete(id);
+        cleaned++;
+      }
+    }
+
+    if (cleaned > 0) {
+      this.logger.debug(`Cleaned up ${cleaned} finished jobs`);
+    }
+  }
+
+  onModuleDestroy() {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { StreamSession, StreamSessionStore } from '../types/stream-session.types.js';
+
+interface StoredSession {
+  session: StreamSession;
+  /** Unset while the session is running */
+  expiresAt?: number;
+}
+
+/**
+ * Default stream session store. Sessions live in process memory, so they are
+ * lost on restart and not visible to other instances.
+ */
+export class InMemoryStreamSessionStore implements StreamSessionStore, OnModuleDestroy {
+  private readonly logger = new Logger(InMemoryStreamSessionStore.name);
+  private sessions = new Map<string, StoredSession>();
+  private cleanupInterval: NodeJS.Timeout | null = null;
+
+  constructor() {
+    // Cleanup expired sessions every minute
+    this.cleanupInterval = setInterval(() => this.cleanupExpiredSessions(), 60 * 1000);
+  }
+
+  async create(session: StreamSession, ttlMs: number): Promise<void> {
+    this.sessions.set(session.id, { session: { ...session }, expiresAt: Date.now() + ttlMs });
+  }
+
+  async get(id: string): Promise<StreamSession | undefined> {
+    const stored = this.getStored(id);
+    return stored ? { ...stored.session } : undefined;
+  }
+
+  async markConsumed(id: string): Promise<StreamSession | undefined> {
+    const stored = this.getStored(id);
+    if (!stored || stored.session.status !== 'pending') {
+      return undefined;
+    }
+
+    stored.session.consumed = true;
+    stored.session.status = 'running';
+    stored.expiresAt = undefined;
+    return { ...stored.session };
+  }
+
+  async expire(id: string, ttlMs: number, status?: 'completed' | 'cancelled'): Promise<void> {
+    const stored = this.getStored(id);
+    if (!stored) {
+      return;
+    }
+
+    if (ttlMs <= 0) {
+      this.sessions.delete(id);
+      return;
+    }
+
+    if (status) {
+      stored.session.consumed = true;
+      stored.session.status = status;
+      stored.session.completedAt = Date.now();
+    }
+    stored.expiresAt = Date.now() + ttlMs;
+  }
+
+  private getStored(id: string): StoredSession | undefined {
+    const stored = this.sessions.get(id);
+    if (stored && this.isExpired(stored, Date.now())) {
+      this.sessions.delete(id);
+      return undefined;
+    }
+    return stored;
+  }
+
+  private isExpired(stored: StoredSession, now: number): boolean {
+    return stored.expiresAt !== undefined && now > stored.expiresAt;
+  }
+
+  private cleanupExpiredSessions(): void {
+    const now = Date.now();
+    let cleaned = 0;
+
+    for (const [id, stored] of this.sessions.entries()) {
+      if (this.isExpired(stored, now)) {
+        this.sessions.delete(id);
+        cleaned++;
+      }
+    }
+
+    if (cleaned > 0) {
+      this.logger.debug(`Cleaned up ${cleaned} expired stream sessions`);
+    }
+  }
+
+  onModuleDestroy() {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+    }
+  }
+}
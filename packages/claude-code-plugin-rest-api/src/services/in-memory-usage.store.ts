@@ -0,0 +1,56 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { UsageStore } from '../types/usage.types.js';
+
+/**
+ * Default usage store. Spend lives in process memory, so it starts over on
+ * restart and each instance enforces quotas on its own spend.
+ */
+export class InMemoryUsageStore implements UsageStore, OnModuleDestroy {
+  private readonly logger = new Logger(InMemoryUsageStore.name);
+  private counters = new Map<string, { totalUsd: number; expiresAt: number }>();
+  private cleanupInterval: NodeJS.Timeout | null = null;
+
+  constructor() {
+    // Remove counters of past windows every hour
+    this.cleanupInterval = setInterval(() => this.cleanupExpiredCounters(), 60 * 60 * 1000);
+  }
+
+  async increment(key: string, amountUsd: number, expiresAt: number): Promise<void> {
+    const counter = this.counters.get(key);
+    if (counter && counter.expiresAt > Date.now()) {
+      counter.totalUsd += amountUsd;
+    } else {
+      this.counters.set(key, { totalUsd: amountUsd, expiresAt });
+    }
+  }
+
+  async get(keys: string[]): Promise<number[]> {
+    const now = Date.now();
+    return keys.map((key) => {
+      const counter = this.counters.get(key);
+      return counter && counter.expiresAt > now ? counter.totalUsd : 0;
+    });
+  }
+
+  private cleanupExpiredCounters(): void {
+    const now = Date.now();
+    let cleaned = 0;
+
+    for (const [key, counter] of this.counters.entries()) {
+      if (counter.expiresAt <= now) {
+        this.counters.delete(key);
+        cleaned++;
+      }
+    }
+
+    if (cleaned > 0) {
+      this.logger.debug(`Cleaned up ${cleaned} expired usage counters`);
+    }
+  }
+
+  onModuleDestroy() {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Subject } from 'rxjs';
+import { JobService } from './job.service.js';
+import { InMemoryJobStore } from './in-memory-job.store.js';
+import { SDKMessage } from './plugin-execution.service.js';
+
+describe('JobService', () => {
+  let store: InMemoryJobStore;
+  let service: JobService;
+  let messages: Subject<SDKMessage>;
+
+  beforeEach(() => {
+    store = new InMemoryJobStore();
+    service = new JobService(store);
+    messages = new Subject<SDKMessage>();
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    store.onModuleDestroy();
+  });
+
+  function submit() {
+    return service.submit({ kind: 'agent', name: 'test-agent' }, () => messages);
+  }
+
+  it('should return a running job immediately', async () => {
+    const job = await submit();
+
+    expect(job.id).toBeDefined();
+    expect(job.status).toBe('running');
+    expect(job.progress).toEqual({ turns: 0, inputTokens: 0, outputTokens: 0 });
+  });
+
+  it('should record progress from assistant messages', async () => {
+    const job = await submit();
+
+    messages.next({
+      type: 'assistant',
+      parent_tool_use_id: null,
+      message: { usage: { input_tokens: 10, output_tokens: 5 } },
+    });
+    messages.next({
+      type: 'assistant',
+      parent_tool_use_id: null,
+      message: { usage: { input_tokens: 20, output_tokens: 7 } },
+    });
+
+    const current = await service.getJob(job.id);
+    expect(current?.status).toBe('running');
+    expect(current?.progress).toEqual({ turns: 2, inputTokens: 30, outputTokens: 12 });
+  });
+
+  it('should store the final result when the SDK returns a result message', async () => {
+    const job = await submit();
+
+    messages.next({
+      type: 'result',
+      is_error: false,
+      result: 'done',
+      total_cost_usd: 0.12,
+      num_turns: 3,
+      usage: { input_tokens: 100, output_tokens: 50 },
+    });
+
+    const current = await service.getJob(job.id);
+    expect(current?.status).toBe('succeeded');
+    expect(current?.result?.result).toBe('done');
+    expect(current?.progress.cost).toBe(0.12);
+    expect(current?.progress.turns).toBe(3);
+    expect(current?.finishedAt).toBeDefined();
+  });
+
+  it('should mark the job failed when the stream errors', async () => {
+    const job = await submit();
+
+    messages.error(new Error('boom'));
+
+    const current = await service.getJob(job.id);
+    expect(current?.status).toBe('failed');
+    expect(current?.error).toBe('boom');
+  });
+
+  it('should cancel a running job and stop recording messages', async () => {
+    const job = await submit();
+
+    const cancelled = await service.cancel(job.id);
+    expect(cancelled?.status).toBe('cancelled');
+    expect(messages.observed).toBe(false);
+
+    const current = await service.getJob(job.id);
+    expect(current?.status).toBe('cancelled');
+  });
+
+  it('should leave finished jobs unchanged on cancel', async () => {
+    const job = await submit();
+    messages.next({ type: 'result', is_error: false, result: 'ok', num_turns: 1 });
+
+    const result = await service.cancel(job.id);
+    expect(result?.status).toBe('succeeded');
+  });
+
+  it('should keep the outcome of a job that finishes while being cancelled', async () => {
+    const job = await submit();
+
+    const cancelling = service.cancel(job.id);
+    messages.next({ type: 'result', is_error: false, result: 'ok', num_turns: 1 });
+
+    expect((await cancelling)?.status).toBe('succeeded');
+    expect(await service.getJob(job.id)).toMatchObject({ status: 'succeeded', result: { result: 'ok' } });
+  });
+
+  it('should not cancel jobs running on another instance', async () => {
+    const job = await submit();
+    const other = new JobService(store);
+
+    expect((await other.cancel(job.id))?.status).toBe('running');
+    expect(messages.observed).toBe(true);
+    expect((await service.getJob(job.id))?.status).toBe('running');
+  });
+
+  it('should return undefined for unknown jobs', async () => {
+    expect(await service.getJob('missing')).toBeUndefined();
+    expect(await service.cancel('missing')).toBeUndefined();
+  });
+});
@@ -0,0 +1,161 @@
+import { Injectable, Logger, Inject, Optional, OnModuleDestroy } from '@nestjs/common';
+import { Observable, Subscription } from 'rxjs';
+import { v4 as uuidv4 } from 'uuid';
+import { SDKMessage, toExecutionResult, recordProgress } from './plugin-execution.service.js';
+import { Job, JobStore, JobTarget, JOB_STORE } from '../types/job.types.js';
+import { AuthUser, isSameUser } from '../auth/auth.types.js';
+import { AccessControlService } from '../auth/access-control.service.js';
+
+/**
+ * Runs executions in the background so HTTP requests can return immediately.
+ * Jobs are driven by the streaming Observables of AgentService and
+ * PluginExecutionService, which lets progress be recorded per SDK message.
+ * A job belongs to the caller who submitted it; to anyone else without the
+ * `admin:jobs` permission it does not exist.
+ */
+@Injectable()
+export class JobService implements OnModuleDestroy {
+  private readonly logger = new Logger(JobService.name);
+  /** Jobs running on this instance, with their subscriptions */
+  private running = new Map<string, { job: Job; subscription: Subscription }>();
+  /** Serializes store writes per job so updates land in order */
+  private writes = new Map<string, Promise<void>>();
+
+  constructor(
+    @Inject(JOB_STORE) private readonly store: JobStore,
+    @Optional() private readonly accessControl?: AccessControlService,
+  ) {}
+
+  /**
+   * Start a job and return it immediately in the `running` state
+   */
+  async submit(target: JobTarget, run: () => Observable<SDKMessage>, user?: AuthUser): Promise<Job> {
+    const job: Job = {
+      id: uuidv4(),
+      target,
+      ...(user && {
+        username: user.username,
+        ...(user.authProvider && { authProvider: user.authProvider }),
+        ...(user.tenant && { tenant: user.tenant }),
+      }),
+      status: 'running',
+      progress: { turns: 0, inputTokens: 0, outputTokens: 0 },
+      createdAt: Date.now(),
+    };
+
+    await this.store.save(job);
+    this.logger.log(`Started job ${job.id} for ${this.describeTarget(target)}`);
+
+    const subscription = run().subscribe({
+      next: (message) => this.recordMessage(job, message),
+      error: (error: Error) => {
+        this.finish(job, 'failed', { error: error.message });
+      },
+      complete: () => {
+        if (job.status === 'running') {
+          // Stream ended without a result message
+          this.finish(job, 'failed', { error: 'Execution ended without a result' });
+        }
+      },
+    });
+
+    if (!job.finishedAt) {
+      this.running.set(job.id, { job, subscription });
+    }
+
+    return { ...job };
+  }
+
+  /**
+   * A job, or undefined if it does not exist or `user` may not see it
+   */
+  async getJob(id: string, user?: AuthUser): Promise<Job | undefined> {
+    await this.writes.get(id);
+    const job = await this.store.get(id);
+    return job && this.canAccess(job, user) ? job : undefined;
+  }
+
+  /**
+   * Cancel a job running on this instance. A job that finished meanwhile keeps
+   * its outcome, and one running on another instance sharing the store is
+   * returned still `running`, since only that instance can stop it.
+   * @returns The updated job, or undefined if it does not exist or `user` may not see it
+   */
+  async cancel(id: string, user?: AuthUser): Promise<Job | undefined> {
+    const found = await this.getJob(id, user);
+    const run = this.running.get(id);
+    if (!found || !run) {
+      // Finished since it was read, or running elsewhere
+      return found?.status === 'running' ? this.getJob(id, user) : found;
+    }
+
+    run.subscription.unsubscribe();
+    this.finish(run.job, 'cancelled', {});
+    await this.writes.get(id);
+
+    return { ...run.job, progress: { ...run.job.progress } };
+  }
+
+  /**
+   * Whether `user` may see or cancel a job: its owner or an `admin:jobs`
+   * holder can, and anyone can use jobs submitted without a user
+   */
+  private canAccess(job: Job, user: AuthUser | undefined): boolean {
+    if (!job.username || isSameUser({ username: job.username, authProvider: job.authProvider, tenant: job.tenant }, user)) {
+      return true;
+    }
+    return !!user && !!this.accessControl?.can(user, 'admin:jobs');
+  }
+
+  private recordMessage(job: Job, message: SDKMessage): void {
+    recordProgress(job.progress, message);
+
+    if (message.type === 'result') {
+      const result = toExecutionResult(message);
+      this.finish(job, result.success ? 'succeeded' : 'failed', { result });
+    } else if (message.type === 'assistant' && !message.parent_tool_use_id) {
+      this.persist(job);
+    }
+  }
+
+  private finish(job: Job, status: Job['status'], fields: Pick<Job, 'result' | 'error'>): void {
+    if (job.status !== 'running') {
+      return;
+    }
+
+    Object.assign(job, fields, { status, finishedAt: Date.now() });
+    this.running.delete(job.id);
+    this.persist(job);
+    this.logger.log(`Job ${job.id} ${status}`);
+  }
+
+  private persist(job: Job): void {
+    const snapshot: Job = { ...job, progress: { ...job.progress } };
+    const previous = this.writes.get(job.id) ?? Promise.resolve();
+    const next = previous
+      .then(() => this.store.save(snapshot))
+      .catch((error: Error) => {
+        this.logger.error(`Failed to persist job ${job.id}: ${error.message}`);
+      });
+
+    this.writes.set(job.id, next);
+    next.then(() => {
+      if (this.writes.get(job.id) === next) {
+        this.writes.delete(job.id);
+      }
+    });
+  }
+
+  private describeTarget(target: JobTarget): string {
+    return target.pluginName
+      ? `${target.kind} ${target.pluginName}/${target.name}`
+      : `${target.kind} ${target.name}`;
+  }
+
+  onModuleDestroy() {
+    for (const { subscription } of this.running.values()) {
+      subscription.unsubscribe();
+    }
+    this.running.clear();
+  }
+}
@@ -0,0 +1,149 @@
+import { Logger } from '@nestjs/common';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { SDKMessage } from './plugin-execution.service.js';
+import { ExecutionHistoryStore, ExecutionQuery, ExecutionRecord } from '../types/execution-history.types.js';
+
+const ID_PATTERN = /^[\w-]+$/;
+
+/**
+ * Default execution history store. Each execution is a `<id>.json` summary and
+ * a `<id>.jsonl` transcript with one SDK message per line. Summaries are
+ * indexed in memory when the store is first used, so the directory should
+ * belong to a single instance.
+ */
+export class JsonlExecutionHistoryStore implements ExecutionHistoryStore {
+  private readonly logger = new Logger(JsonlExecutionHistoryStore.name);
+  private records: Promise<Map<string, ExecutionRecord>> | null = null;
+  private directoryCreated: Promise<unknown> | null = null;
+
+  constructor(private readonly directory: string = '.claude/executions') {}
+
+  async save(record: ExecutionRecord): Promise<void> {
+    const records = await this.index();
+    const file = this.file(record.id, 'json');
+    await this.ensureDirectory();
+    // Write-then-rename so readers never see a partial summary
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(record));
+    await fs.rename(`${file}.tmp`, file);
+    records.set(record.id, { ...record });
+  }
+
+  async appendMessages(id: string, messages: SDKMessage[]): Promise<void> {
+    if (messages.length === 0) {
+      return;
+    }
+    await this.ensureDirectory();
+    await fs.appendFile(this.file(id, 'jsonl'), messages.map((message) => `${JSON.stringify(message)}\n`).join(''));
+  }
+
+  async get(id: string): Promise<ExecutionRecord | undefined> {
+    const record = ID_PATTERN.test(id) ? (await this.index()).get(id) : undefined;
+    return record ? { ...record } : undefined;
+  }
+
+  async getTranscript(id: string): Promise<SDKMessage[] | undefined> {
+    if (!(await this.get(id))) {
+      return undefined;
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.file(id, 'jsonl'), 'utf-8');
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return content
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as SDKMessage);
+  }
+
+  async list(query: ExecutionQuery): Promise<ExecutionRecord[]> {
+    const offset = query.offset ?? 0;
+    const limit = query.limit ?? 50;
+
+    return [...(await this.index()).values()]
+      .filter((record) =>
+        (query.username === undefined || record.username === query.username)
+        && (query.kind === undefined || record.target.kind === query.kind)
+        && (query.pluginName === undefined || record.target.pluginName === query.pluginName)
+        && (query.name === undefined || record.target.name === query.name)
+        && (query.status === undefined || record.status === query.status)
+        && (query.since === undefined || record.startedAt >= query.since)
+        && (query.until === undefined || record.startedAt < query.until))
+      .sort((a, b) => b.startedAt - a.startedAt)
+      .slice(offset, offset + limit)
+      .map((record) => ({ ...record }));
+  }
+
+  async prune(before: number, maxExecutions?: number): Promise<number> {
+    const records = await this.index();
+    const newestFirst = [...records.values()].sort((a, b) => b.startedAt - a.startedAt);
+    const expired = newestFirst.filter((record, i) =>
+      record.startedAt < before || (maxExecutions !== undefined && i >= maxExecutions));
+
+    for (const { id } of expired) {
+      records.delete(id);
+      await fs.rm(this.file(id, 'json'), { force: true });
+      await fs.rm(this.file(id, 'jsonl'), { force: true });
+    }
+
+    return expired.length;
+  }
+
+  /**
+   * Summaries by ID, read from the directory on first use
+   */
+  private index(): Promise<Map<string, ExecutionRecord>> {
+    this.records ??= this.load();
+    return this.records;
+  }
+
+  private async load(): Promise<Map<string, ExecutionRecord>> {
+    const records = new Map<string, ExecutionRecord>();
+
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return records;
+      }
+      throw error;
+    }
+
+    for (const entry of entries) {
+      if (!entry.endsWith('.json')) {
+        continue;
+      }
+      try {
+        const record = JSON.parse(await fs.readFile(path.join(this.directory, entry), 'utf-8')) as ExecutionRecord;
+        records.set(record.id, record);
+      } catch (error: unknown) {
+        this.logger.warn(`Skipping unreadable execution record ${entry}: ${(error as Error).message}`);
+      }
+    }
+
+    if (records.size > 0) {
+      this.logger.log(`Loaded ${records.size} executions from ${this.directory}`);
+    }
+    return records;
+  }
+
+  private ensureDirectory(): Promise<unknown> {
+    this.directoryCreated ??= fs.mkdir(this.directory, { recursive: true });
+    return this.directoryCreated;
+  }
+
+  private file(id: string, extension: 'json' | 'jsonl'): string {
+    if (!ID_PATTERN.test(id)) {
+      throw new Error(`Invalid execution ID '${id}'`);
+    }
+    return path.join(this.directory, `${id}.${extension}`);
+  }
+}
@@ -201,6 +201,29 @@ describe('PluginDiscoveryService', () => {
       expect(command?.description).toBe('Test command');
       expect(command?.content).toBe('Command body');
     });
+
+    it('should parse slash-command frontmatter', async () => {
+      const pluginPath = await createTestPlugin('my-plugin');
+      await fs.mkdir(path.join(pluginPath, 'commands'));
+      await fs.writeFile(path.join(pluginPath, 'commands', 'review-pr.md'), [
+        '---',
+        'description: Review a pull request',
+        'argument-hint: [pr-number] [priority]',
+        'allowed-tools: Bash(git diff:*), Read',
+        'model: haiku',
+        '---',
+        'Review PR #$1 with priority $2',
+      ].join('\n'));
+
+      await service.discoverPlugins();
+
+      expect(service.getCommand('my-plugin', 'review-pr')).toMatchObject({
+        argumentHint: '[pr-number] [priority]',
+        allowedTools: ['Bash(git diff:*)', 'Read'],
+        model: 'haiku',
+        content: 'Review PR #$1 with priority $2',
+      });
+    });
   });
 
   describe('agents discovery', () => {
@@ -239,6 +262,55 @@ describe('PluginDiscoveryService', () => {
       expect(agent?.model).toBe('claude-sonnet-4-20250514');
       expect(agent?.content).toBe('You are a helpful coding assistant.');
     });
+
+    it('should parse SDK settings from agent and skill frontmatter', async () => {
+      const pluginPath = await createTestPlugin('my-plugin');
+      await fs.mkdir(path.join(pluginPath, 'agents'));
+      await fs.writeFile(path.join(pluginPath, 'agents', 'planner.md'), [
+        '---',
+        'name: planner',
+        'tools: [Read, Grep]',
+        'model: opus',
+        'permissionMode: plan',
+        'disallowedTools: Bash, WebFetch',
+        'maxTurns: 12',
+        'maxThinkingTokens: 8000',
+        'outputFormat:',
+        '  type: json_schema',
+        '  schema:',
+        '    type: object',
+        '---',
+        'Plan the work.',
+      ].join('\n'));
+      await fs.mkdir(path.join(pluginPath, 'skills', 'notes'), { recursive: true });
+      await fs.writeFile(path.join(pluginPath, 'skills', 'notes', 'SKILL.md'), [
+        '---',
+        'name: notes',
+        'allowed-tools: Read',
+        'model: haiku',
+        'permission-mode: superuser',
+        'max-turns: 0',
+        '---',
+        'Take notes.',
+      ].join('\n'));
+
+      await service.discoverPlugins();
+
+      expect(service.getAgent('my-plugin', 'planner')).toMatchObject({
+        tools: ['Read', 'Grep'],
+        model: 'opus',
+        permissionMode: 'plan',
+        disallowedTools: ['Bash', 'WebFetch'],
+        maxTurns: 12,
+        maxThinkingTokens: 8000,
+        outputFormat: { type: 'json_schema', schema: { type: 'object' } },
+      });
+      // Invalid values are ignored
+      const skill = service.getSkill('my-plugin', 'notes');
+      expect(skill).toMatchObject({ allowedTools: ['Read'], model: 'haiku' });
+      expect(skill?.permissionMode).toBeUndefined();
+      expect(skill?.maxTurns).toBeUndefined();
+    });
   });
 
   describe('skills discovery', () => {
@@ -275,6 +347,122 @@ describe('PluginDiscoveryService', () => {
     });
   });
 
+  describe('MCP servers discovery', () => {
+    afterEach(() => {
+      delete process.env.TEST_MCP_TOKEN;
+    });
+
+    it('should load .mcp.json with plugin root and environment variables expanded', async () => {
+      process.env.TEST_MCP_TOKEN = 'secret';
+      const pluginPath = await createTestPlugin('my-plugin');
+      await fs.writeFile(path.join(pluginPath, '.mcp.json'), JSON.stringify({
+        mcpServers: {
+          database: {
+            command: '${CLAUDE_PLUGIN_ROOT}/servers/db',
+            args: ['--data', '${CLAUDE_PLUGIN_ROOT}/data'],
+            env: { TOKEN: '${TEST_MCP_TOKEN}', LEVEL: '${TEST_MCP_LEVEL:-info}' },
+          },
+          search: { type: 'http', url: 'https://search.example.com/mcp' },
+          broken: { type: 'sse' },
+        },
+      }));
+
+      await service.discoverPlugins();
+
+      expect(service.getPlugin('my-plugin')?.mcpServers).toEqual({
+        database: {
+          command: `${pluginPath}/servers/db`,
+          args: ['--data', `${pluginPath}/data`],
+          env: { TOKEN: 'secret', LEVEL: 'info' },
+        },
+        search: { type: 'http', url: 'https://search.example.com/mcp' },
+      });
+    });
+
+    it('should use the config files or inline servers named in the manifest', async () => {
+      const pluginPath = await createTestPlugin('file-plugin');
+      const manifestPath = path.join(pluginPath, '.claude-plugin', 'plugin.json');
+      await fs.writeFile(manifestPath, JSON.stringify({ name: 'file-plugin', version: '1.0.0', mcpServers: './config/mcp.json' }));
+      await fs.mkdir(path.join(pluginPath, 'config'));
+      await fs.writeFile(path.join(pluginPath, 'config', 'mcp.json'), JSON.stringify({ notes: { command: 'notes-server' } }));
+      // Ignored: the manifest names another file
+      await fs.writeFile(path.join(pluginPath, '.mcp.json'), JSON.stringify({ mcpServers: { other: { command: 'other' } } }));
+
+      const inlinePath = await createTestPlugin('inline-plugin');
+      await fs.writeFile(path.join(inlinePath, '.claude-plugin', 'plugin.json'), JSON.stringify({
+        name: 'inline-plugin',
+        version: '1.0.0',
+        mcpServers: { tools: { command: 'node', args: ['${CLAUDE_PLUGIN_ROOT}/tools.js'] } },
+      }));
+
+      await service.discoverPlugins();
+
+      expect(service.getPlugin('file-plugin')?.mcpServers).toEqual({ notes: { command: 'notes-server' } });
+      expect(service.getPlugin('inline-plugin')?.mcpServers).toEqual({
+        tools: { command: 'node', args: [`${inlinePath}/tools.js`] },
+      });
+      expect(service.getPlugin('my-plugin')).toBeUndefined();
+    });
+
+    it('should have no MCP servers without configuration', async () => {
+      await createTestPlugin('my-plugin');
+      await service.discoverPlugins();
+      expect(service.getPlugin('my-plugin')?.mcpServers).toEqual({});
+    });
+  });
+
+  describe('hooks discovery', () => {
+    it('should load command hooks from hooks/hooks.json', async () => {
+      const pluginPath = await createTestPlugin('my-plugin');
+      await fs.mkdir(path.join(pluginPath, 'hooks'));
+      await fs.writeFile(path.join(pluginPath, 'hooks', 'hooks.json'), JSON.stringify({
+        description: 'Guard and format',
+        hooks: {
+          PreToolUse: [{
+            matcher: 'Write|Edit',
+            hooks: [{ type: 'command', command: '${CLAUDE_PLUGIN_ROOT}/scripts/guard.sh', timeout: 10 }],
+          }],
+          PostToolUse: [{
+            matcher: 'Edit',
+            hooks: [
+              { type: 'command', command: 'npx prettier --write' },
+              { type: 'prompt', prompt: 'Check the edit' },
+            ],
+          }],
+          OnSave: [{ hooks: [{ type: 'command', command: 'true' }] }],
+        },
+      }));
+
+      await service.discoverPlugins();
+
+      expect(service.getPlugin('my-plugin')?.hooks).toEqual({
+        PreToolUse: [{
+          matcher: 'Write|Edit',
+          hooks: [{ type: 'command', command: '${CLAUDE_PLUGIN_ROOT}/scripts/guard.sh', timeout: 10 }],
+        }],
+        PostToolUse: [{ matcher: 'Edit', hooks: [{ type: 'command', command: 'npx prettier --write' }] }],
+      });
+    });
+
+    it('should use the hooks config named in the manifest', async () => {
+      const pluginPath = await createTestPlugin('my-plugin');
+      await fs.writeFile(
+        path.join(pluginPath, '.claude-plugin', 'plugin.json'),
+        JSON.stringify({ name: 'my-plugin', version: '1.0.0', hooks: './config/hooks.json' }),
+      );
+      await fs.mkdir(path.join(pluginPath, 'config'));
+      await fs.writeFile(path.join(pluginPath, 'config', 'hooks.json'), JSON.stringify({
+        hooks: { Stop: [{ hooks: [{ type: 'command', command: 'notify-send done' }] }] },
+      }));
+
+      await service.discoverPlugins();
+
+      expect(service.getPlugin('my-plugin')?.hooks).toEqual({
+        Stop: [{ hooks: [{ type: 'command', command: 'notify-send done' }] }],
+      });
+    });
+  });
+
   describe('getCommand', () => {
     it('should return command by plugin and command name', async () => {
       await createTestPlugin('my-plugin', {
@@ -4,13 +4,46 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as chokidar from 'chokidar';
 import matter from 'gray-matter';
+import { HOOK_EVENTS } from '@anthropic-ai/claude-agent-sdk';
+import type { HookEvent, PermissionMode } from '@anthropic-ai/claude-agent-sdk';
 import {
   PluginManifest,
   PluginCommand,
   PluginAgent,
   PluginSkill,
+  PluginExecutionSettings,
+  PluginMcpServerConfig,
+  PluginHooks,
+  PluginHookMatcher,
   DiscoveredPlugin,
 } from '../types/plugin.types.js';
+import { expandPluginVariablesDeep } from '../utils/plugin-variables.js';
+
+const PERMISSION_MODES: PermissionMode[] = ['default', 'acceptEdits', 'bypassPermissions', 'plan', 'dontAsk'];
+
+/**
+ * Tool names from frontmatter: a comma-separated string or a YAML list
+ */
+function parseToolList(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) {
+    return value.map((tool) => String(tool).trim()).filter(Boolean);
+  }
+  if (typeof value === 'string') {
+    return value.split(',').map((tool) => tool.trim()).filter(Boolean);
+  }
+  return undefined;
+}
+
+/**
+ * Quote a bracketed `argument-hint` in command frontmatter. Claude Code
+ * accepts `argument-hint: [pr-number] [priority]`, which is not valid YAML.
+ */
+function quoteArgumentHint(content: string): string {
+  return content.replace(/^---\r?\n[\s\S]*?\r?\n---/, (frontmatter) => frontmatter.replace(
+    /^(argument-hint:[ \t]*)(\[.*?)[ \t]*$/m,
+    (_match, key: string, hint: string) => `${key}${JSON.stringify(hint)}`,
+  ));
+}
 
 export interface PluginDiscoveryOptions {
   pluginDirectory: string;
@@ -91,6 +124,8 @@ export class PluginDiscoveryService implements OnModuleInit {
         commands: await this.discoverCommands(pluginPath, manifest),
         agents: await this.discoverAgents(pluginPath, manifest),
         skills: await this.discoverSkills(pluginPath, manifest),
+        mcpServers: await this.discoverMcpServers(pluginPath, manifest),
+        hooks: await this.discoverHooks(pluginPath, manifest),
       };
 
       this.plugins.set(manifest.name, plugin);
@@ -98,6 +133,8 @@ export class PluginDiscoveryService implements OnModuleInit {
       this.logger.debug(`  Commands: ${plugin.commands.map(c => c.name).join(', ') || 'none'}`);
       this.logger.debug(`  Agents: ${plugin.agents.map(a => a.name).join(', ') || 'none'}`);
       this.logger.debug(`  Skills: ${plugin.skills.map(s => s.name).join(', ') || 'none'}`);
+      this.logger.debug(`  MCP servers: ${Object.keys(plugin.mcpServers).join(', ') || 'none'}`);
+      this.logger.debug(`  Hooks: ${Object.keys(plugin.hooks).join(', ') || 'none'}`);
 
       this.eventEmitter.emit('plugin.loaded', plugin);
     } catch (error: unknown) {
@@ -119,13 +156,16 @@ export class PluginDiscoveryService implements OnModuleInit {
 
       for (const mdFile of mdFiles) {
         const content = await fs.readFile(mdFile, 'utf-8');
-        const { data, content: body } = matter(content);
+        const { data, content: body } = matter(quoteArgumentHint(content));
 
         commands.push({
           name: path.basename(mdFile, '.md'),
           description: (data.description as string) || '',
           filePath: mdFile,
           content: body.trim(),
+          allowedTools: parseToolList(data['allowed-tools']),
+          ...(typeof data['argument-hint'] === 'string' && { argumentHint: data['argument-hint'] }),
+          ...this.parseExecutionSettings(data, mdFile),
         });
       }
     }
@@ -148,14 +188,14 @@ export class PluginDiscoveryService implements OnModuleInit {
         const content = await fs.readFile(mdFile, 'utf-8');
         const { data, content: body } = matter(content);
 
-        const toolsStr = data.tools as string | undefined;
         agents.push({
           name: (data.name as string) || path.basename(mdFile, '.md'),
           description: (data.description as string) || '',
           filePath: mdFile,
           content: body.trim(),
-          tools: toolsStr?.split(',').map((t: string) => t.trim()),
-          model: data.model as string | undefined,
+          tools: parseToolList(data.tools),
+          includePartialMessages: data.includePartialMessages === true,
+          ...this.parseExecutionSettings(data, mdFile),
         });
       }
     }
@@ -184,14 +224,14 @@ export class PluginDiscoveryService implements OnModuleInit {
               const content = await fs.readFile(skillMdPath, 'utf-8');
               const { data, content: body } = matter(content);
 
-              const allowedToolsStr = data['allowed-tools'] as string | undefined;
               skills.push({
                 name: (data.name as string) || entry.name,
                 description: (data.description as string) || '',
                 dirPath: path.join(absolutePath, entry.name),
                 skillMdPath,
                 content: body.trim(),
-                allowedTools: allowedToolsStr?.split(',').map((t: string) => t.trim()),
+                allowedTools: parseToolList(data['allowed-tools']),
+                ...this.parseExecutionSettings(data, skillMdPath),
               });
             } catch {
               // No SKILL.md in this directory, skip
@@ -206,6 +246,154 @@ export class PluginDiscoveryService implements OnModuleInit {
     return skills;
   }
 
+  /**
+   * MCP servers from the manifest's `mcpServers` (inline, or config files in
+   * `.mcp.json` format) or the plugin's `.mcp.json`. `${CLAUDE_PLUGIN_ROOT}` and
+   * environment variables are expanded; invalid servers are logged and skipped.
+   */
+  private async discoverMcpServers(
+    pluginPath: string,
+    manifest: PluginManifest,
+  ): Promise<Record<string, PluginMcpServerConfig>> {
+    const declared: Record<string, unknown> = {};
+
+    if (manifest.mcpServers && typeof manifest.mcpServers === 'object' && !Array.isArray(manifest.mcpServers)) {
+      Object.assign(declared, manifest.mcpServers);
+    } else {
+      const configPaths = this.normalizePaths(manifest.mcpServers as string | string[] | undefined, []);
+      const explicit = configPaths.length > 0;
+
+      for (const configPath of explicit ? configPaths : ['.mcp.json']) {
+        const absolutePath = path.join(pluginPath, configPath);
+        try {
+          const config = JSON.parse(await fs.readFile(absolutePath, 'utf-8')) as Record<string, unknown>;
+          // Same format as a project .mcp.json; a bare map of servers is accepted too
+          Object.assign(declared, (config.mcpServers as Record<string, unknown> | undefined) ?? config);
+        } catch (error: unknown) {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT' || explicit) {
+            this.logger.warn(`Failed to read MCP config ${absolutePath}: ${(error as Error).message}`);
+          }
+        }
+      }
+    }
+
+    const servers: Record<string, PluginMcpServerConfig> = {};
+    for (const [name, server] of Object.entries(declared)) {
+      const config = expandPluginVariablesDeep(server, pluginPath, process.env, (variable) =>
+        this.logger.warn(`MCP server '${name}' of ${manifest.name} references unset variable ${variable}`),
+      ) as Partial<PluginMcpServerConfig> & { type?: string };
+
+      const remote = config.type === 'sse' || config.type === 'http';
+      const valid = remote
+        ? typeof (config as { url?: unknown }).url === 'string'
+        : (config.type === undefined || config.type === 'stdio') && typeof (config as { command?: unknown }).command === 'string';
+      if (!valid) {
+        this.logger.warn(`Skipping MCP server '${name}' of ${manifest.name}: expected a command, or an sse/http url`);
+        continue;
+      }
+      servers[name] = config as PluginMcpServerConfig;
+    }
+
+    return servers;
+  }
+
+  /**
+   * Hooks from the manifest's `hooks` (a config file path, or the config inline)
+   * or the plugin's `hooks/hooks.json`. Only command hooks are supported;
+   * unknown events and other hook types are logged and skipped.
+   */
+  private async discoverHooks(pluginPath: string, manifest: PluginManifest): Promise<PluginHooks> {
+    let config: unknown = typeof manifest.hooks === 'object' ? manifest.hooks : undefined;
+
+    if (config === undefined) {
+      const configPath = path.join(pluginPath, (manifest.hooks as string | undefined) ?? 'hooks/hooks.json');
+      try {
+        config = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+      } catch (error: unknown) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT' || manifest.hooks) {
+          this.logger.warn(`Failed to read hooks config ${configPath}: ${(error as Error).message}`);
+        }
+        return {};
+      }
+    }
+
+    // Same format as Claude Code settings: { "hooks": { "<event>": [matchers] } }
+    const declared = ((config as { hooks?: unknown }).hooks ?? config) as Record<string, unknown>;
+    const hooks: PluginHooks = {};
+
+    for (const [event, matchers] of Object.entries(declared ?? {})) {
+      if (!HOOK_EVENTS.includes(event as HookEvent) || !Array.isArray(matchers)) {
+        this.logger.warn(`Skipping hooks for unknown event '${event}' in ${manifest.name}`);
+        continue;
+      }
+
+      hooks[event as HookEvent] = matchers.map((matcher: { matcher?: unknown; hooks?: unknown }): PluginHookMatcher => ({
+        matcher: typeof matcher.matcher === 'string' && matcher.matcher ? matcher.matcher : undefined,
+        hooks: (Array.isArray(matcher.hooks) ? matcher.hooks : []).flatMap((hook: { type?: unknown; command?: unknown; timeout?: unknown }) => {
+          if (hook.type !== 'command' || typeof hook.command !== 'string') {
+            this.logger.warn(`Skipping ${event} hook in ${manifest.name}: only command hooks are supported`);
+            return [];
+          }
+          return [{
+            type: 'command' as const,
+            command: hook.command,
+            ...(typeof hook.timeout === 'number' && hook.timeout > 0 && { timeout: hook.timeout }),
+          }];
+        }),
+      }));
+    }
+
+    return hooks;
+  }
+
+  /**
+   * SDK settings from agent, skill or command frontmatter. Keys are camelCase
+   * (`permissionMode`) or kebab-case (`permission-mode`); invalid values are
+   * logged and ignored.
+   */
+  private parseExecutionSettings(data: Record<string, unknown>, file: string): PluginExecutionSettings {
+    const value = (key: string) => data[key] ?? data[key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)];
+    const invalid = (key: string) => this.logger.warn(`Ignoring invalid ${key} in ${file}: ${JSON.stringify(value(key))}`);
+    const settings: PluginExecutionSettings = {};
+
+    const model = value('model');
+    if (typeof model === 'string' && model.trim()) {
+      settings.model = model.trim();
+    } else if (model !== undefined) {
+      invalid('model');
+    }
+
+    const permissionMode = value('permissionMode');
+    if (PERMISSION_MODES.includes(permissionMode as PermissionMode)) {
+      settings.permissionMode = permissionMode as PermissionMode;
+    } else if (permissionMode !== undefined) {
+      invalid('permissionMode');
+    }
+
+    const disallowedTools = parseToolList(value('disallowedTools'));
+    if (disallowedTools) {
+      settings.disallowedTools = disallowedTools;
+    }
+
+    for (const key of ['maxTurns', 'maxThinkingTokens'] as const) {
+      const count = value(key);
+      if (Number.isInteger(count) && (count as number) >= (key === 'maxTurns' ? 1 : 0)) {
+        settings[key] = count as number;
+      } else if (count !== undefined) {
+        invalid(key);
+      }
+    }
+
+    const outputFormat = value('outputFormat') as { type?: unknown; schema?: unknown } | undefined;
+    if (outputFormat?.type === 'json_schema' && outputFormat.schema && typeof outputFormat.schema === 'object') {
+      settings.outputFormat = { type: 'json_schema', schema: outputFormat.schema as Record<string, unknown> };
+    } else if (outputFormat !== undefined) {
+      invalid('outputFormat');
+    }
+
+    return settings;
+  }
+
   private normalizePaths(
     configPaths: string | string[] | undefined,
     defaults: string[],
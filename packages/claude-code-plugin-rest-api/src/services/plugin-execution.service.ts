@@ -1,8 +1,25 @@
-import { Injectable, Logger, Inject } from '@nestjs/common';
+import { Injectable, Logger, Inject, Optional } from '@nestjs/common';
 import { query } from '@anthropic-ai/claude-agent-sdk';
-import { Observable } from 'rxjs';
+import { Observable, defer, switchMap } from 'rxjs';
 import { PluginDiscoveryService } from './plugin-discovery.service.js';
-import { PluginCommand, PluginAgent, PluginSkill } from '../types/plugin.types.js';
+import {
+  PluginCommand,
+  PluginAgent,
+  PluginSkill,
+  PluginExecutionSettings,
+  PluginPolicy,
+  PluginHooks,
+  PluginHooksOptions,
+  HookFailure,
+} from '../types/plugin.types.js';
+import { buildPromptInput } from '../utils/attachments.js';
+import { createAbortController } from '../utils/abort.js';
+import { applyPluginPolicy } from '../utils/plugin-policy.js';
+import { DEFAULT_HOOK_TIMEOUT_SECONDS, matchesHookCommand, toSdkHooks } from '../utils/plugin-hooks.js';
+import { renderCommandPrompt } from '../utils/command-prompt.js';
+import type { AuthUser } from '../auth/auth.types.js';
+import { UsageService, agentKey } from './usage.service.js';
+import { ExecutionHistoryService, toExecutionInputs } from './execution-history.service.js';
 
 /** SDK message type from claude-agent-sdk streaming responses */
 export interface SDKMessage {
@@ -13,26 +30,72 @@ export interface SDKMessage {
 
 export interface AttachmentSource {
   type: 'base64' | 'url' | 'file';
+  /** Base64-encoded content (when type is 'base64') */
   data?: string;
+  /** URL to fetch content from (when type is 'url') */
   url?: string;
   /** Anthropic file ID from upload (when type is 'file') */
   fileId?: string;
 }
 
 export interface Attachment {
+  /**
+   * Content type matching Anthropic API types:
+   * - 'image' for images (jpeg, png, gif, webp)
+   * - 'document' for PDFs
+   * - 'text' for plain text files
+   */
   type: 'image' | 'document' | 'text';
+
+  /** MIME type (e.g., 'image/png', 'application/pdf', 'text/plain') */
   mediaType: string;
+
+  /** How the content is provided */
   source: AttachmentSource;
+
+  /** Optional filename for context */
   filename?: string;
 }
 
+/**
+ * Continue an existing SDK session instead of starting a new one
+ */
+export interface SessionResume {
+  /** SDK session ID to resume (from ExecutionResult.sessionId) */
+  sessionId: string;
+  /** Branch into a new session instead of appending to the resumed one */
+  fork?: boolean;
+  /** Only resume history up to and including this assistant message UUID */
+  atMessageUuid?: string;
+}
+
+/**
+ * What an execution runs: a user-defined agent, or a plugin agent, command or skill
+ */
+export interface ExecutionTarget {
+  kind: 'agent' | 'plugin-agent' | 'command' | 'skill';
+  /** Plugin name (omitted for user-defined agents) */
+  pluginName?: string;
+  name: string;
+}
+
 export interface ExecutionOptions {
   arguments?: string;
   context?: Record<string, unknown>;
   attachments?: Attachment[];
+  resume?: SessionResume;
   maxTurns?: number;
   maxBudgetUsd?: number;
   cwd?: string;
+  /**
+   * Emit SDK `stream_event` messages with token-level deltas while streaming.
+   * Defaults to the agent's `includePartialMessages` frontmatter setting.
+   */
+  includePartialMessages?: boolean;
+  /** Aborts the execution (e.g. when the HTTP client disconnects) */
+  signal?: AbortSignal;
+  /** Caller whose spend the execution's cost is recorded against */
+  user?: AuthUser;
 }
 
 export interface ExecutionResult {
@@ -47,22 +110,141 @@ export interface ExecutionResult {
     inputTokens: number;
     outputTokens: number;
   };
+  /** SDK session ID, usable to resume the conversation */
+  sessionId?: string;
+  /** ID in the execution history (GET /v1/executions/:id/transcript) */
+  executionId?: string;
+  /** Plugin hook commands that failed or timed out during the execution */
+  hookFailures?: HookFailure[];
+}
+
+/**
+ * Turns and token usage observed while an execution runs.
+ * Cost is only known once the SDK returns its final `result` message.
+ */
+export interface ExecutionProgress {
+  /** Assistant turns completed so far */
+  turns: number;
+  /** Cost in USD so far */
+  cost?: number;
+  inputTokens: number;
+  outputTokens: number;
 }
 
 export interface PluginExecutionOptions {
   maxTurns: number;
   maxBudgetUsd: number;
+  /** Caps on what plugin frontmatter may request */
+  policy?: PluginPolicy;
+  /** Whether and which plugin hook commands run */
+  hooks?: PluginHooksOptions;
 }
 
 export const PLUGIN_EXECUTION_OPTIONS = 'PLUGIN_EXECUTION_OPTIONS';
 
+/**
+ * Convert an SDK `result` message into an ExecutionResult
+ */
+export function toExecutionResult(message: SDKMessage): ExecutionResult {
+  const resultMessage = message as SDKMessage & {
+    is_error?: boolean;
+    result?: string;
+    structured_output?: unknown;
+    total_cost_usd?: number;
+    num_turns?: number;
+    usage?: { input_tokens?: number; output_tokens?: number };
+    session_id?: string;
+  };
+  return {
+    success: !resultMessage.is_error,
+    result: resultMessage.result,
+    structuredOutput: resultMessage.structured_output,
+    cost: resultMessage.total_cost_usd,
+    turns: resultMessage.num_turns,
+    usage: resultMessage.usage
+      ? {
+          inputTokens: resultMessage.usage.input_tokens || 0,
+          outputTokens: resultMessage.usage.output_tokens || 0,
+        }
+      : undefined,
+    sessionId: resultMessage.session_id,
+  };
+}
+
+/**
+ * Update progress from an SDK message: top-level assistant messages add a turn
+ * and their token usage; the final result replaces the totals.
+ */
+export function recordProgress(progress: ExecutionProgress, message: SDKMessage): void {
+  if (message.type === 'assistant' && !message.parent_tool_use_id) {
+    const usage = (message as { message?: { usage?: { input_tokens?: number; output_tokens?: number } } })
+      .message?.usage;
+    progress.turns++;
+    progress.inputTokens += usage?.input_tokens || 0;
+    progress.outputTokens += usage?.output_tokens || 0;
+    return;
+  }
+
+  if (message.type === 'result') {
+    const result = toExecutionResult(message);
+    progress.turns = result.turns ?? progress.turns;
+    progress.cost = result.cost;
+    if (result.usage) {
+      progress.inputTokens = result.usage.inputTokens;
+      progress.outputTokens = result.usage.outputTokens;
+    }
+  }
+}
+
+/**
+ * Stream message reporting a failed plugin hook (`hook_failure` SSE event)
+ */
+export function toHookFailureMessage(failure: HookFailure): SDKMessage {
+  return { type: 'hook_failure', ...failure };
+}
+
+/**
+ * Map a SessionResume onto the SDK's resume/forkSession/resumeSessionAt options
+ */
+export function toResumeOptions(resume?: SessionResume) {
+  if (!resume) {
+    return {};
+  }
+  return {
+    resume: resume.sessionId,
+    ...(resume.fork && { forkSession: true }),
+    ...(resume.atMessageUuid && { resumeSessionAt: resume.atMessageUuid }),
+  };
+}
+
+/** Options resolved for a single query() call */
+interface QueryParams {
+  target: ExecutionTarget;
+  user?: AuthUser;
+  systemPrompt?: string;
+  allowedTools?: string[];
+  /** Frontmatter settings of the agent, skill or command */
+  settings?: PluginExecutionSettings;
+  attachments?: Attachment[];
+  resume?: SessionResume;
+  maxTurns?: number;
+  maxBudgetUsd?: number;
+  cwd?: string;
+  includePartialMessages?: boolean;
+  signal?: AbortSignal;
+}
+
 @Injectable()
 export class PluginExecutionService {
   private readonly logger = new Logger(PluginExecutionService.name);
+  /** Plugin hook commands already reported as not allowed */
+  private readonly skippedHooks = new Set<string>();
 
   constructor(
     @Inject(PLUGIN_EXECUTION_OPTIONS) private options: PluginExecutionOptions,
     private pluginDiscovery: PluginDiscoveryService,
+    @Optional() private usage?: UsageService,
+    @Optional() private history?: ExecutionHistoryService,
   ) {}
 
   /**
@@ -82,14 +264,42 @@ export class PluginExecutionService {
       };
     }
 
-    const prompt = this.buildCommandPrompt(command, options);
+    const prompt = await this.buildCommandPrompt(command, options);
 
     return this.execute(prompt, {
-      systemPrompt: command.content,
+      target: { kind: 'command', pluginName, name: commandName },
+      allowedTools: command.allowedTools,
+      settings: command,
       ...options,
     });
   }
 
+  /**
+   * Stream command execution via Observable
+   */
+  streamCommand(
+    pluginName: string,
+    commandName: string,
+    options: ExecutionOptions = {},
+  ): Observable<SDKMessage> {
+    const command = this.pluginDiscovery.getCommand(pluginName, commandName);
+
+    if (!command) {
+      return new Observable((subscriber) => {
+        subscriber.error(new Error(`Command '${commandName}' not found in plugin '${pluginName}'`));
+      });
+    }
+
+    return defer(() => this.buildCommandPrompt(command, options)).pipe(
+      switchMap((prompt) => this.stream(prompt, {
+        target: { kind: 'command', pluginName, name: commandName },
+        allowedTools: command.allowedTools,
+        settings: command,
+        ...options,
+      })),
+    );
+  }
+
   /**
    * Execute a plugin agent
    */
@@ -111,7 +321,9 @@ export class PluginExecutionService {
 
     return this.execute(prompt, {
       systemPrompt: agent.content,
+      target: { kind: 'plugin-agent', pluginName, name: agentName },
       allowedTools: agent.tools,
+      settings: agent,
       ...options,
     });
   }
@@ -136,8 +348,11 @@ export class PluginExecutionService {
 
     return this.stream(prompt, {
       systemPrompt: agent.content,
+      target: { kind: 'plugin-agent', pluginName, name: agentName },
       allowedTools: agent.tools,
+      settings: agent,
       ...options,
+      includePartialMessages: options.includePartialMessages ?? agent.includePartialMessages,
     });
   }
 
@@ -162,122 +377,248 @@ export class PluginExecutionService {
 
     return this.execute(prompt, {
       systemPrompt: skill.content,
+      target: { kind: 'skill', pluginName, name: skillName },
       allowedTools: skill.allowedTools,
+      settings: skill,
+      ...options,
+    });
+  }
+
+  /**
+   * Stream skill execution via Observable
+   */
+  streamSkill(
+    pluginName: string,
+    skillName: string,
+    options: ExecutionOptions = {},
+  ): Observable<SDKMessage> {
+    const skill = this.pluginDiscovery.getSkill(pluginName, skillName);
+
+    if (!skill) {
+      return new Observable((subscriber) => {
+        subscriber.error(new Error(`Skill '${skillName}' not found in plugin '${pluginName}'`));
+      });
+    }
+
+    const prompt = options.arguments || 'Execute the skill';
+
+    return this.stream(prompt, {
+      systemPrompt: skill.content,
+      target: { kind: 'skill', pluginName, name: skillName },
+      allowedTools: skill.allowedTools,
+      settings: skill,
       ...options,
     });
   }
 
   private async execute(
     prompt: string,
-    options: {
-      systemPrompt?: string;
-      allowedTools?: string[];
-      maxTurns?: number;
-      maxBudgetUsd?: number;
-      cwd?: string;
-    },
+    options: QueryParams,
   ): Promise<ExecutionResult> {
-    const queryOptions = this.buildQueryOptions(options);
+    const hookFailures: HookFailure[] = [];
+    const queryOptions = this.buildQueryOptions(options, (failure) => hookFailures.push(failure));
+    const abortController = createAbortController(options.signal);
+    const recorder = this.history?.start(options.target, options.user, toExecutionInputs(prompt, options));
+    const executionId = recorder?.id;
+    const spend = this.usage?.track(options.target, options.user);
+    const reported = () => (hookFailures.length > 0 ? { hookFailures } : {});
 
     try {
       let finalResult: ExecutionResult = { success: false };
 
       for await (const message of query({
-        prompt,
-        options: queryOptions,
+        prompt: buildPromptInput(prompt, options.attachments),
+        options: { ...queryOptions, abortController },
       })) {
+        recorder?.message(message);
+        spend?.message(message);
         if (message.type === 'result') {
-          const resultMessage = message as SDKMessage & {
-            is_error?: boolean;
-            result?: string;
-            total_cost_usd?: number;
-            num_turns?: number;
-            usage?: { input_tokens?: number; output_tokens?: number };
-          };
-          finalResult = {
-            success: !resultMessage.is_error,
-            result: resultMessage.result,
-            cost: resultMessage.total_cost_usd,
-            turns: resultMessage.num_turns,
-            usage: {
-              inputTokens: resultMessage.usage?.input_tokens || 0,
-              outputTokens: resultMessage.usage?.output_tokens || 0,
-            },
-          };
+          finalResult = toExecutionResult(message);
         }
       }
 
-      return finalResult;
+      spend?.finish();
+      recorder?.finish(finalResult.success ? 'succeeded' : 'failed', finalResult);
+      return { ...finalResult, executionId, ...reported() };
     } catch (error: unknown) {
+      spend?.finish();
       const err = error as Error;
+      if (abortController.signal.aborted) {
+        this.logger.log('Execution aborted');
+        recorder?.finish('cancelled', { error: 'Execution aborted' });
+        return { success: false, error: 'Execution aborted', executionId, ...reported() };
+      }
       this.logger.error(`Execution failed: ${err.message}`, err.stack);
+      recorder?.finish('failed', { error: err.message });
       return {
         success: false,
         error: err.message,
+        executionId,
+        ...reported(),
       };
     }
   }
 
   private stream(
     prompt: string,
-    options: {
-      systemPrompt?: string;
-      allowedTools?: string[];
-      maxTurns?: number;
-      maxBudgetUsd?: number;
-      cwd?: string;
-    },
+    options: QueryParams,
   ): Observable<SDKMessage> {
-    const queryOptions = this.buildQueryOptions(options);
-
     return new Observable((subscriber) => {
+      const abortController = createAbortController(options.signal);
+      const recorder = this.history?.start(options.target, options.user, toExecutionInputs(prompt, options));
+      const spend = this.usage?.track(options.target, options.user);
+      let finished = false;
+      const queryOptions = this.buildQueryOptions(options, (failure) => {
+        if (!finished) {
+          const message = toHookFailureMessage(failure);
+          recorder?.message(message);
+          subscriber.next(message);
+        }
+      });
+
       (async () => {
         try {
           for await (const message of query({
-            prompt,
-            options: queryOptions,
+            prompt: buildPromptInput(prompt, options.attachments),
+            options: { ...queryOptions, abortController },
           })) {
+            recorder?.message(message);
+            spend?.message(message);
             subscriber.next(message);
 
             if (message.type === 'result') {
+              const result = toExecutionResult(message);
+              recorder?.finish(result.success ? 'succeeded' : 'failed', result);
+              finished = true;
               subscriber.complete();
             }
           }
         } catch (error: unknown) {
+          spend?.finish();
           const err = error as Error;
-          this.logger.error(`Stream failed: ${err.message}`, err.stack);
+          if (abortController.signal.aborted) {
+            this.logger.log('Stream aborted');
+            recorder?.finish('cancelled', { error: 'Execution aborted' });
+          } else {
+            this.logger.error(`Stream failed: ${err.message}`, err.stack);
+            recorder?.finish('failed', { error: err.message });
+          }
           subscriber.error(error);
         }
       })();
+
+      // Unsubscribing before the result stops the query
+      return () => {
+        if (!finished) {
+          recorder?.finish('cancelled', { error: 'Execution aborted' });
+          spend?.finish();
+          abortController.abort();
+        }
+      };
     });
   }
 
-  private buildQueryOptions(options: {
-    systemPrompt?: string;
-    allowedTools?: string[];
-    maxTurns?: number;
-    maxBudgetUsd?: number;
-    cwd?: string;
-  }) {
+  /**
+   * SDK options from the frontmatter settings, reduced to the plugin policy.
+   * Turns requested in the request body take precedence over frontmatter.
+   * The plugin's MCP servers and hooks apply to all of its commands, agents and skills.
+   */
+  private buildQueryOptions(options: QueryParams, onHookFailure: (failure: HookFailure) => void) {
+    const { settings, reductions } = applyPluginPolicy(
+      {
+        ...options.settings,
+        allowedTools: options.allowedTools,
+        maxTurns: options.maxTurns || options.settings?.maxTurns || this.options.maxTurns,
+      },
+      this.options.policy,
+    );
+    for (const reduction of reductions) {
+      this.logger.warn(`Plugin policy for '${agentKey(options.target)}': ${reduction}`);
+    }
+    const plugin = options.target.pluginName ? this.pluginDiscovery.getPlugin(options.target.pluginName) : undefined;
+    const mcpServers = plugin?.mcpServers;
+    const hooks = plugin && this.allowedHooks(plugin.name, plugin.hooks);
+
     return {
-      allowedTools: options.allowedTools || ['Read', 'Glob', 'Grep'],
-      maxTurns: options.maxTurns || this.options.maxTurns,
+      allowedTools: settings.allowedTools,
+      ...(settings.disallowedTools && { disallowedTools: settings.disallowedTools }),
+      ...(settings.model && { model: settings.model }),
+      permissionMode: settings.permissionMode,
+      ...(settings.permissionMode === 'bypassPermissions' && { allowDangerouslySkipPermissions: true }),
+      maxTurns: settings.maxTurns,
       maxBudgetUsd: options.maxBudgetUsd || this.options.maxBudgetUsd,
-      permissionMode: 'default' as const,
-      workingDirectory: options.cwd || process.cwd(),
+      ...(settings.maxThinkingTokens !== undefined && { maxThinkingTokens: settings.maxThinkingTokens }),
+      ...(settings.outputFormat && { outputFormat: settings.outputFormat }),
+      ...(options.cwd && { cwd: options.cwd }),
+      ...(mcpServers && Object.keys(mcpServers).length > 0 && { mcpServers }),
+      ...(plugin && hooks && {
+        hooks: toSdkHooks(hooks, {
+          pluginRoot: plugin.rootPath,
+          cwd: options.cwd || process.cwd(),
+          timeoutSeconds: this.options.hooks?.timeoutSeconds ?? DEFAULT_HOOK_TIMEOUT_SECONDS,
+          onFailure: (failure) => {
+            this.logger.warn(`${failure.event} hook of plugin '${plugin.name}' failed: ${failure.error}`);
+            onHookFailure(failure);
+          },
+        }),
+      }),
       ...(options.systemPrompt && {
         systemPrompt: options.systemPrompt,
       }),
+      ...(options.includePartialMessages && {
+        includePartialMessages: true,
+      }),
+      ...toResumeOptions(options.resume),
     };
   }
 
-  private buildCommandPrompt(command: PluginCommand, options: ExecutionOptions): string {
-    let prompt = `Execute the following command: ${command.name}`;
+  /**
+   * The plugin's hooks that `pluginHooks` lets run, or undefined if none.
+   * Hooks only run once enabled; commands outside the allowlist are skipped
+   * with a warning (once per command).
+   */
+  private allowedHooks(pluginName: string, hooks: PluginHooks): PluginHooks | undefined {
+    const hooksOptions = this.options.hooks ?? {};
+    if (!hooksOptions.enabled) {
+      if (!this.skippedHooks.has(pluginName)) {
+        this.skippedHooks.add(pluginName);
+        this.logger.log(`Ignoring hooks of plugin '${pluginName}': set pluginHooks.enabled to run them`);
+      }
+      return undefined;
+    }
 
-    if (options.arguments) {
-      prompt += `\n\nArguments: ${options.arguments}`;
+    const allowed: PluginHooks = {};
+    for (const [event, matchers] of Object.entries(hooks) as [keyof PluginHooks, PluginHooks[keyof PluginHooks]][]) {
+      const allowedMatchers = (matchers ?? [])
+        .map((matcher) => ({
+          ...matcher,
+          hooks: matcher.hooks.filter((hook) => {
+            const permitted = !hooksOptions.allowedCommands
+              || hooksOptions.allowedCommands.some((pattern) => matchesHookCommand(pattern, hook.command));
+            const key = `${pluginName}:${hook.command}`;
+            if (!permitted && !this.skippedHooks.has(key)) {
+              this.skippedHooks.add(key);
+              this.logger.warn(`Skipping ${event} hook of plugin '${pluginName}' not in pluginHooks.allowedCommands: ${hook.command}`);
+            }
+            return permitted;
+          }),
+        }))
+        .filter((matcher) => matcher.hooks.length > 0);
+      if (allowedMatchers.length > 0) {
+        allowed[event] = allowedMatchers;
+      }
     }
 
+    return Object.keys(allowed).length > 0 ? allowed : undefined;
+  }
+
+  /**
+   * The command body as the user prompt (see renderCommandPrompt), with the
+   * request's context appended
+   */
+  private async buildCommandPrompt(command: PluginCommand, options: ExecutionOptions): Promise<string> {
+    let prompt = await renderCommandPrompt(command.content, options.arguments, options.cwd || process.cwd());
+
     if (options.context) {
       prompt += `\n\nContext: ${JSON.stringify(options.context, null, 2)}`;
     }
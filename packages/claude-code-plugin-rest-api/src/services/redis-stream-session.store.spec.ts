@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, AddressInfo } from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import { RedisStreamSessionStore } from './redis-stream-session.store.js';
+import { StreamSession } from '../types/stream-session.types.js';
+
+/**
+ * Runs against a local server speaking the Redis protocol, e.g.
+ * `redis-server --port 6379` and `REDIS_URL=redis://localhost:6379 pnpm test`
+ */
+describe.skipIf(!process.env.REDIS_URL)('RedisStreamSessionStore', () => {
+  let store: RedisStreamSessionStore;
+
+  beforeEach(() => {
+    store = new RedisStreamSessionStore({ url: process.env.REDIS_URL, keyPrefix: `test:${uuidv4()}:` });
+  });
+
+  afterEach(() => {
+    store.onModuleDestroy();
+  });
+
+  function session(): StreamSession {
+    return {
+      id: uuidv4(),
+      target: { kind: 'agent', name: 'test-agent' },
+      options: { arguments: 'Hello', attachments: [] },
+      format: 'detailed',
+      owner: { username: 'alice' },
+      createdAt: Date.now(),
+      consumed: false,
+      status: 'pending',
+    };
+  }
+
+  it('should round-trip a pending session', async () => {
+    const created = session();
+    await store.create(created, 60_000);
+
+    expect(await store.get(created.id)).toEqual(created);
+    expect(await store.get('unknown')).toBeUndefined();
+  });
+
+  it('should claim a pending session only once', async () => {
+    const created = session();
+    await store.create(created, 60_000);
+
+    expect(await store.markConsumed(created.id)).toMatchObject({ status: 'running', consumed: true });
+    expect(await store.markConsumed(created.id)).toBeUndefined();
+  });
+
+  it('should record the final status and expire the session', async () => {
+    const created = session();
+    await store.create(created, 60_000);
+    await store.markConsumed(created.id);
+
+    await store.expire(created.id, 100, 'completed');
+    expect(await store.get(created.id)).toMatchObject({ status: 'completed', completedAt: expect.any(Number) });
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(await store.get(created.id)).toBeUndefined();
+  });
+
+  it('should expire running sessions that are not kept alive', async () => {
+    store.onModuleDestroy();
+    store = new RedisStreamSessionStore({ url: process.env.REDIS_URL, keyPrefix: `test:${uuidv4()}:`, runningTtlMs: 200 });
+    const created = session();
+    await store.create(created, 60_000);
+    await store.markConsumed(created.id);
+
+    await new Promise((resolve) => setTimeout(resolve, 120));
+    await store.keepAlive(created.id);
+    await new Promise((resolve) => setTimeout(resolve, 120));
+    expect(await store.get(created.id)).toMatchObject({ status: 'running' });
+
+    await new Promise((resolve) => setTimeout(resolve, 250));
+    expect(await store.get(created.id)).toBeUndefined();
+  });
+
+  it('should expire sessions that are never consumed', async () => {
+    const created = session();
+    await store.create(created, 50);
+
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    expect(await store.get(created.id)).toBeUndefined();
+    expect(await store.markConsumed(created.id)).toBeUndefined();
+  });
+});
+
+describe('RedisStreamSessionStore without a responsive server', () => {
+  it('should fail requests instead of hanging when the server stalls', async () => {
+    // Accepts connections and reads commands, but never replies
+    const server = createServer((socket) => socket.resume());
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    const store = new RedisStreamSessionStore({ url: `redis://127.0.0.1:${port}`, commandTimeoutMs: 100 });
+
+    try {
+      await expect(store.get('session')).rejects.toThrow('Redis command HGETALL timed out after 100ms');
+    } finally {
+      store.onModuleDestroy();
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,139 @@
+import { OnModuleDestroy } from '@nestjs/common';
+import { StreamSession, StreamSessionStatus, StreamSessionStore } from '../types/stream-session.types.js';
+import { RespClient, RespClientOptions, RespValue } from '../utils/resp-client.js';
+
+export interface RedisStreamSessionStoreOptions extends Pick<RespClientOptions, 'connectTimeoutMs' | 'commandTimeoutMs'> {
+  /**
+   * Server URL; credentials and database come from the URL
+   * (e.g. `redis://:password@redis:6379/1`, or `rediss://` for TLS)
+   * @default 'redis://localhost:6379'
+   */
+  url?: string;
+
+  /**
+   * Prefix for session keys
+   * @default 'claude-plugin:stream-session:'
+   */
+  keyPrefix?: string;
+
+  /**
+   * Expiry of running sessions. The instance running a session renews it every
+   * 2 seconds while the stream lives, so a crashed instance does not leave it
+   * behind for long. Keep it well above the renewal interval.
+   * @default 60000 (1 minute)
+   */
+  runningTtlMs?: number;
+}
+
+// Sessions are hashes: `session` holds the JSON record, `status` and
+// `completedAt` the fields that change while the session lives.
+
+const CREATE_SCRIPT = `
+redis.call('HSET', KEYS[1], 'session', ARGV[1], 'status', 'pending')
+redis.call('PEXPIRE', KEYS[1], ARGV[2])
+return 1`;
+
+const MARK_CONSUMED_SCRIPT = `
+if redis.call('HGET', KEYS[1], 'status') ~= 'pending' then
+  return false
+end
+redis.call('HSET', KEYS[1], 'status', 'running')
+redis.call('PEXPIRE', KEYS[1], ARGV[1])
+return redis.call('HGETALL', KEYS[1])`;
+
+const EXPIRE_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then
+  return 0
+end
+if ARGV[2] ~= '' then
+  redis.call('HSET', KEYS[1], 'status', ARGV[2], 'completedAt', ARGV[3])
+end
+redis.call('PEXPIRE', KEYS[1], ARGV[1])
+return 1`;
+
+const KEEP_ALIVE_SCRIPT = `
+if redis.call('HGET', KEYS[1], 'status') ~= 'running' then
+  return 0
+end
+redis.call('PEXPIRE', KEYS[1], ARGV[1])
+return 1`;
+
+/**
+ * Stream session store for multi-instance deployments, backed by any server
+ * speaking the Redis protocol (Redis, Valkey, KeyDB, ...). Status changes run
+ * as Lua scripts, so only one instance can claim a pending session.
+ */
+export class RedisStreamSessionStore implements StreamSessionStore, OnModuleDestroy {
+  private readonly client: RespClient;
+  private readonly keyPrefix: string;
+  private readonly runningTtlMs: number;
+
+  constructor(options: RedisStreamSessionStoreOptions = {}) {
+    this.client = new RespClient(options.url ?? 'redis://localhost:6379', {
+      connectTimeoutMs: options.connectTimeoutMs,
+      commandTimeoutMs: options.commandTimeoutMs,
+    });
+    this.keyPrefix = options.keyPrefix ?? 'claude-plugin:stream-session:';
+    this.runningTtlMs = options.runningTtlMs ?? 60 * 1000;
+  }
+
+  async create(session: StreamSession, ttlMs: number): Promise<void> {
+    const { status: _status, consumed: _consumed, completedAt: _completedAt, ...record } = session;
+    await this.client.command('EVAL', CREATE_SCRIPT, 1, this.key(session.id), JSON.stringify(record), ttlMs);
+  }
+
+  async get(id: string): Promise<StreamSession | undefined> {
+    return this.toSession(await this.client.command('HGETALL', this.key(id)));
+  }
+
+  async markConsumed(id: string): Promise<StreamSession | undefined> {
+    return this.toSession(
+      await this.client.command('EVAL', MARK_CONSUMED_SCRIPT, 1, this.key(id), this.runningTtlMs),
+    );
+  }
+
+  async expire(id: string, ttlMs: number, status?: 'completed' | 'cancelled'): Promise<void> {
+    if (ttlMs <= 0) {
+      await this.client.command('DEL', this.key(id));
+      return;
+    }
+    await this.client.command('EVAL', EXPIRE_SCRIPT, 1, this.key(id), ttlMs, status ?? '', Date.now());
+  }
+
+  async keepAlive(id: string): Promise<void> {
+    await this.client.command('EVAL', KEEP_ALIVE_SCRIPT, 1, this.key(id), this.runningTtlMs);
+  }
+
+  private key(id: string): string {
+    return `${this.keyPrefix}${id}`;
+  }
+
+  /**
+   * Build a session from an HGETALL reply (a flat field/value list)
+   */
+  private toSession(reply: RespValue): StreamSession | undefined {
+    if (!Array.isArray(reply) || reply.length === 0) {
+      return undefined;
+    }
+
+    const fields: Record<string, string> = {};
+    for (let i = 0; i + 1 < reply.length; i += 2) {
+      fields[String(reply[i])] = String(reply[i + 1]);
+    }
+    if (!fields.session) {
+      return undefined;
+    }
+
+    const status = fields.status as StreamSessionStatus;
+    return {
+      ...JSON.parse(fields.session),
+      status,
+      consumed: status !== 'pending',
+      ...(fields.completedAt ? { completedAt: Number(fields.completedAt) } : {}),
+    };
+  }
+
+  onModuleDestroy() {
+    this.client.close();
+  }
+}
@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const SPEND_QUOTA_KEY = 'claude-plugin:spend-quota';
+
+/**
+ * Marks a route that starts an execution, so it is rejected while a spend
+ * quota of the caller, the agent or the global total is exhausted. `agent` is
+ * the agent key; `{param}` is replaced with the route parameter or, failing
+ * that, the request body field, e.g. `{pluginName}/{agentName}`.
+ */
+export const SpendQuota = (agent: string) => SetMetadata(SPEND_QUOTA_KEY, agent);
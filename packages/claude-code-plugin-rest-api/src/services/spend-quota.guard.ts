@@ -0,0 +1,60 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  Logger,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request, Response } from 'express';
+import { AuthUser } from '../auth/auth.types.js';
+import { UsageService, quotaExceededMessage } from './usage.service.js';
+import { SPEND_QUOTA_KEY } from './spend-quota.decorator.js';
+
+/**
+ * Global guard enforcing `@SpendQuota()`. Runs after the auth guards, so the
+ * caller's quota applies whenever authentication does. Admitted requests hold
+ * `quotas.reserveUsd` against the quotas until their run's cost is recorded.
+ * Rejected requests get `quotas.exceededStatus` with `Retry-After` set to when
+ * the quota resets.
+ */
+@Injectable()
+export class SpendQuotaGuard implements CanActivate {
+  private readonly logger = new Logger(SpendQuotaGuard.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly usage: UsageService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const template = this.reflector.get<string | undefined>(SPEND_QUOTA_KEY, context.getHandler());
+    if (!template || !this.usage.enabled) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<Request & { user?: AuthUser }>();
+    const agent = template.replace(
+      /\{(\w+)\}/g,
+      (_match, param: string) => request.params?.[param] ?? String(request.body?.[param] ?? ''),
+    );
+
+    const response = context.switchToHttp().getResponse<Response>();
+    const { exhausted: quota, release } = await this.usage.reserve(request.user, agent);
+    if (!quota) {
+      // Runs that start while handling the request take the reservation over
+      response.once('close', release);
+      return true;
+    }
+
+    const retryAfter = Math.max(1, Math.ceil((Date.parse(quota.resetsAt) - Date.now()) / 1000));
+    const message = quotaExceededMessage(quota);
+    this.logger.warn(`Rejected ${request.method} ${request.path} for ${request.user?.username ?? 'anonymous'}: ${message}`);
+
+    response.setHeader('Retry-After', String(retryAfter));
+    throw new HttpException(
+      { statusCode: this.usage.exceededStatus, message, quota },
+      this.usage.exceededStatus,
+    );
+  }
+}
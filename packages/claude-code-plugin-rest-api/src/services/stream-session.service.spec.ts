@@ -1,25 +1,41 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { StreamSessionService } from './stream-session.service.js';
+import { Subject, of } from 'rxjs';
+import { StreamSessionService, StreamEvent } from './stream-session.service.js';
+import { InMemoryStreamSessionStore } from './in-memory-stream-session.store.js';
+
+const SESSION_PARAMS = {
+  target: { kind: 'plugin-agent' as const, pluginName: 'p', name: 'a' },
+  options: { arguments: 'x' },
+};
+
+/** Let the store settle (sessions are claimed asynchronously) */
+async function flush() {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+}
 
 describe('StreamSessionService', () => {
+  let store: InMemoryStreamSessionStore;
   let service: StreamSessionService;
 
   beforeEach(() => {
     vi.useFakeTimers();
-    service = new StreamSessionService();
+    store = new InMemoryStreamSessionStore();
+    service = new StreamSessionService(store);
   });
 
   afterEach(() => {
     service.onModuleDestroy();
+    store.onModuleDestroy();
     vi.useRealTimers();
   });
 
   describe('createSession', () => {
     it('should create a session and return an id', async () => {
       const sessionId = await service.createSession({
-        pluginName: 'test-plugin',
-        agentName: 'test-agent',
-        prompt: 'Hello world',
+        target: { kind: 'plugin-agent', pluginName: 'test-plugin', name: 'test-agent' },
+        options: { arguments: 'Hello world' },
       });
 
       expect(sessionId).toBeDefined();
@@ -29,15 +45,13 @@ describe('StreamSessionService', () => {
 
     it('should create unique session ids', async () => {
       const id1 = await service.createSession({
-        pluginName: 'plugin',
-        agentName: 'agent',
-        prompt: 'prompt1',
+        target: { kind: 'plugin-agent', pluginName: 'plugin', name: 'agent' },
+        options: { arguments: 'prompt1' },
       });
 
       const id2 = await service.createSession({
-        pluginName: 'plugin',
-        agentName: 'agent',
-        prompt: 'prompt2',
+        target: { kind: 'plugin-agent', pluginName: 'plugin', name: 'agent' },
+        options: { arguments: 'prompt2' },
       });
 
       expect(id1).not.toBe(id2);
@@ -45,109 +59,363 @@ describe('StreamSessionService', () => {
 
     it('should store optional parameters', async () => {
       const sessionId = await service.createSession({
-        pluginName: 'test-plugin',
-        agentName: 'test-agent',
-        prompt: 'Hello',
-        maxTurns: 100,
-        maxBudgetUsd: 25.0,
+        target: { kind: 'plugin-agent', pluginName: 'test-plugin', name: 'test-agent' },
+        options: { arguments: 'Hello', maxTurns: 100, maxBudgetUsd: 25.0 },
       });
 
-      const session = service.getSession(sessionId);
+      const session = await service.getSession(sessionId);
       expect(session).toBeDefined();
-      expect(session?.maxTurns).toBe(100);
-      expect(session?.maxBudgetUsd).toBe(25.0);
+      expect(session?.options.maxTurns).toBe(100);
+      expect(session?.options.maxBudgetUsd).toBe(25.0);
     });
   });
 
   describe('getSession', () => {
     it('should retrieve an existing session', async () => {
       const sessionId = await service.createSession({
-        pluginName: 'test-plugin',
-        agentName: 'test-agent',
-        prompt: 'Hello',
+        target: { kind: 'plugin-agent', pluginName: 'test-plugin', name: 'test-agent' },
+        options: { arguments: 'Hello' },
       });
 
-      const session = service.getSession(sessionId);
+      const session = await service.getSession(sessionId);
 
       expect(session).toBeDefined();
       expect(session?.id).toBe(sessionId);
-      expect(session?.pluginName).toBe('test-plugin');
-      expect(session?.agentName).toBe('test-agent');
-      expect(session?.prompt).toBe('Hello');
+      expect(session?.target).toEqual({ kind: 'plugin-agent', pluginName: 'test-plugin', name: 'test-agent' });
+      expect(session?.options.arguments).toBe('Hello');
       expect(session?.consumed).toBe(false);
+      expect(session?.status).toBe('pending');
     });
 
-    it('should return undefined for non-existent session', () => {
-      const session = service.getSession('non-existent-id');
+    it('should return undefined for non-existent session', async () => {
+      const session = await service.getSession('non-existent-id');
       expect(session).toBeUndefined();
     });
 
     it('should return undefined for expired session', async () => {
       const sessionId = await service.createSession({
-        pluginName: 'test-plugin',
-        agentName: 'test-agent',
-        prompt: 'Hello',
+        target: { kind: 'plugin-agent', pluginName: 'test-plugin', name: 'test-agent' },
+        options: { arguments: 'Hello' },
       });
 
       // Advance time past TTL (5 minutes + 1ms)
       vi.advanceTimersByTime(5 * 60 * 1000 + 1);
 
-      const session = service.getSession(sessionId);
+      const session = await service.getSession(sessionId);
       expect(session).toBeUndefined();
     });
 
-    it('should return undefined for consumed session', async () => {
+    it('should use the configured session TTL', async () => {
+      service.onModuleDestroy();
+      service = new StreamSessionService(store, { ttlMs: 1000 });
+      const sessionId = await service.createSession(SESSION_PARAMS);
+
+      expect(service.sessionTtlMs).toBe(1000);
+      vi.advanceTimersByTime(1001);
+      expect(await service.getSession(sessionId)).toBeUndefined();
+    });
+
+    it('should keep returning a consumed session while it is running', async () => {
       const sessionId = await service.createSession({
-        pluginName: 'test-plugin',
-        agentName: 'test-agent',
-        prompt: 'Hello',
+        target: { kind: 'plugin-agent', pluginName: 'test-plugin', name: 'test-agent' },
+        options: { arguments: 'Hello' },
       });
 
-      service.markConsumed(sessionId);
+      await service.markConsumed(sessionId);
 
-      const session = service.getSession(sessionId);
-      expect(session).toBeUndefined();
+      // Running sessions do not expire with the pending TTL
+      vi.advanceTimersByTime(10 * 60 * 1000);
+
+      const session = await service.getSession(sessionId);
+      expect(session?.status).toBe('running');
+    });
+  });
+
+  describe('canAccess', () => {
+    it('should allow only the owner of an owned session', async () => {
+      const sessionId = await service.createSession({ ...SESSION_PARAMS, owner: { username: 'alice' } });
+      const session = (await service.getSession(sessionId))!;
+
+      expect(service.canAccess(session, { username: 'alice' })).toBe(true);
+      expect(service.canAccess(session, { username: 'bob' })).toBe(false);
+      expect(service.canAccess(session, undefined)).toBe(false);
+    });
+
+    it('should tell apart owners with the same username from another provider or tenant', async () => {
+      const owner = { username: 'alice', authProvider: 'ldap', tenant: 'acme' };
+      const session = (await service.getSession(await service.createSession({ ...SESSION_PARAMS, owner })))!;
+
+      expect(service.canAccess(session, { username: 'alice', authProvider: 'ldap', tenant: 'acme' })).toBe(true);
+      expect(service.canAccess(session, { username: 'alice', authProvider: 'yaml', tenant: 'acme' })).toBe(false);
+      expect(service.canAccess(session, { username: 'alice', authProvider: 'ldap', tenant: 'globex' })).toBe(false);
+      expect(service.canAccess(session, { username: 'alice' })).toBe(false);
+    });
+
+    it('should allow anyone for a session without owner', async () => {
+      const session = (await service.getSession(await service.createSession(SESSION_PARAMS)))!;
+      expect(service.canAccess(session, undefined)).toBe(true);
+      expect(service.canAccess(session, { username: 'bob' })).toBe(true);
     });
   });
 
   describe('markConsumed', () => {
-    it('should mark session as consumed', async () => {
+    it('should mark session as consumed and running', async () => {
       const sessionId = await service.createSession({
-        pluginName: 'test-plugin',
-        agentName: 'test-agent',
-        prompt: 'Hello',
+        target: { kind: 'plugin-agent', pluginName: 'test-plugin', name: 'test-agent' },
+        options: { arguments: 'Hello' },
       });
 
-      // Session is available before marking
-      expect(service.getSession(sessionId)).toBeDefined();
+      const claimed = await service.markConsumed(sessionId);
+
+      const session = await service.getSession(sessionId);
+      expect(claimed?.status).toBe('running');
+      expect(session?.consumed).toBe(true);
+      expect(session?.status).toBe('running');
+    });
+
+    it('should claim a session only once', async () => {
+      const sessionId = await service.createSession(SESSION_PARAMS);
+
+      expect(await service.markConsumed(sessionId)).toBeDefined();
+      expect(await service.markConsumed(sessionId)).toBeUndefined();
+    });
+
+    it('should handle marking non-existent session gracefully', async () => {
+      expect(await service.markConsumed('non-existent')).toBeUndefined();
+    });
+  });
+
+  describe('connect', () => {
+    function collect<T>(events: StreamEvent<T>[], source: ReturnType<StreamSessionService['connect']>) {
+      return source.subscribe((event) => events.push(event as StreamEvent<T>));
+    }
+
+    it('should number events with monotonic ids', async () => {
+      const sessionId = await service.createSession(SESSION_PARAMS);
+      const events: StreamEvent<string>[] = [];
+
+      collect(events, service.connect(sessionId, () => of('a', 'b', 'c')));
+      await flush();
+
+      expect(events).toEqual([
+        { id: 1, data: 'a' },
+        { id: 2, data: 'b' },
+        { id: 3, data: 'c' },
+      ]);
+    });
+
+    it('should replay missed events on reconnect and continue live', async () => {
+      const sessionId = await service.createSession(SESSION_PARAMS);
+      const source = new Subject<string>();
+      const start = vi.fn(() => source);
 
-      service.markConsumed(sessionId);
+      const first: StreamEvent<string>[] = [];
+      const subscription = collect(first, service.connect(sessionId, start));
+      await flush();
+      source.next('one');
+      source.next('two');
 
-      // Session is no longer available after marking
-      expect(service.getSession(sessionId)).toBeUndefined();
+      // Client drops; execution keeps going
+      subscription.unsubscribe();
+      source.next('three');
+
+      const second: StreamEvent<string>[] = [];
+      collect(second, service.connect(sessionId, start, 1));
+      source.next('four');
+
+      expect(start).toHaveBeenCalledTimes(1);
+      expect(first.map((e) => e.data)).toEqual(['one', 'two']);
+      expect(second.map((e) => e.id)).toEqual([2, 3, 4]);
+    });
+
+    it('should replay a completed session until the grace period ends', async () => {
+      const sessionId = await service.createSession(SESSION_PARAMS);
+      service.connect(sessionId, () => of('done')).subscribe();
+      await flush();
+
+      expect((await service.getSession(sessionId))?.status).toBe('completed');
+
+      const replayed: StreamEvent<string>[] = [];
+      collect(replayed, service.connect(sessionId, () => of('unused')));
+      expect(replayed).toEqual([{ id: 1, data: 'done' }]);
+
+      vi.advanceTimersByTime(61 * 1000);
+      expect(await service.getSession(sessionId)).toBeUndefined();
     });
 
-    it('should handle marking non-existent session gracefully', () => {
-      expect(() => service.markConsumed('non-existent')).not.toThrow();
+    it('should abort a run when no consumer reconnects in time', async () => {
+      const sessionId = await service.createSession(SESSION_PARAMS);
+      const source = new Subject<string>();
+
+      const subscription = service.connect(sessionId, () => source).subscribe();
+      await flush();
+      subscription.unsubscribe();
+
+      vi.advanceTimersByTime(29 * 1000);
+      expect(source.observed).toBe(true);
+
+      vi.advanceTimersByTime(2 * 1000);
+      await flush();
+      expect(source.observed).toBe(false);
+      expect((await service.getSession(sessionId))?.status).toBe('cancelled');
+    });
+
+    it('should keep the run when a consumer reconnects within the window', async () => {
+      const sessionId = await service.createSession(SESSION_PARAMS);
+      const source = new Subject<string>();
+
+      service.connect(sessionId, () => source).subscribe().unsubscribe();
+      await flush();
+      vi.advanceTimersByTime(10 * 1000);
+      service.connect(sessionId, () => source).subscribe();
+      vi.advanceTimersByTime(60 * 1000);
+
+      expect(source.observed).toBe(true);
+      expect((await service.getSession(sessionId))?.status).toBe('running');
+    });
+
+    it('should not start a session claimed by another instance', async () => {
+      const other = new StreamSessionService(store);
+      const sessionId = await service.createSession(SESSION_PARAMS);
+      const start = vi.fn(() => new Subject<string>());
+      let completed = false;
+
+      service.connect(sessionId, start).subscribe();
+      await flush();
+      other.connect(sessionId, start).subscribe({ complete: () => (completed = true) });
+      await flush();
+
+      expect(start).toHaveBeenCalledTimes(1);
+      expect(completed).toBe(true);
+      expect(service.hasRun(sessionId)).toBe(true);
+      other.onModuleDestroy();
+    });
+  });
+
+  describe('cancel', () => {
+    it('should abort the run and deliver the final event', async () => {
+      const sessionId = await service.createSession(SESSION_PARAMS);
+      const source = new Subject<string>();
+      const events: StreamEvent<string>[] = [];
+      let completed = false;
+
+      service.connect(sessionId, () => source).subscribe({
+        next: (event) => events.push(event as StreamEvent<string>),
+        complete: () => (completed = true),
+      });
+      await flush();
+      source.next('partial');
+
+      expect(await service.cancel(sessionId, 'cancelled')).toBe(true);
+      expect(source.observed).toBe(false);
+      expect(completed).toBe(true);
+      expect(events.map((e) => e.data)).toEqual(['partial', 'cancelled']);
+      expect((await service.getSession(sessionId))?.status).toBe('cancelled');
+    });
+
+    it('should abort a run cancelled from another instance', async () => {
+      const other = new StreamSessionService(store);
+      const sessionId = await service.createSession(SESSION_PARAMS);
+      const source = new Subject<string>();
+      const events: StreamEvent<string>[] = [];
+      let completed = false;
+
+      service.connect(sessionId, () => source, 0, () => 'cancelled').subscribe({
+        next: (event) => events.push(event as StreamEvent<string>),
+        complete: () => (completed = true),
+      });
+      await flush();
+      source.next('partial');
+
+      expect(other.hasRun(sessionId)).toBe(false);
+      expect(await other.cancel(sessionId)).toBe(true);
+      expect(source.observed).toBe(true);
+
+      vi.advanceTimersByTime(2 * 1000);
+      await flush();
+
+      expect(source.observed).toBe(false);
+      expect(completed).toBe(true);
+      expect(events.map((e) => e.data)).toEqual(['partial', 'cancelled']);
+      other.onModuleDestroy();
+    });
+
+    it('should renew running sessions in the store while they stream', async () => {
+      const keepAlive = vi.fn(async () => undefined);
+      Object.assign(store, { keepAlive });
+      const sessionId = await service.createSession(SESSION_PARAMS);
+      const source = new Subject<string>();
+
+      service.connect(sessionId, () => source).subscribe();
+      await flush();
+      vi.advanceTimersByTime(2 * 1000);
+      await flush();
+      expect(keepAlive).toHaveBeenCalledWith(sessionId);
+
+      source.complete();
+      keepAlive.mockClear();
+      vi.advanceTimersByTime(4 * 1000);
+      await flush();
+      expect(keepAlive).not.toHaveBeenCalled();
+    });
+
+    it('should not start a session cancelled before it was consumed', async () => {
+      const sessionId = await service.createSession(SESSION_PARAMS);
+      const start = vi.fn(() => of('never'));
+
+      expect(await service.cancel(sessionId)).toBe(true);
+      service.connect(sessionId, start).subscribe();
+      await flush();
+
+      expect(start).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to cancel finished or unknown sessions', async () => {
+      const sessionId = await service.createSession(SESSION_PARAMS);
+      service.connect(sessionId, () => of('done')).subscribe();
+      await flush();
+
+      expect(await service.cancel(sessionId)).toBe(false);
+      expect(await service.cancel('unknown')).toBe(false);
+    });
+  });
+
+  describe('progress', () => {
+    it('should accumulate usage from SDK messages', async () => {
+      const sessionId = await service.createSession(SESSION_PARAMS);
+      service.connect(sessionId, () => new Subject<string>()).subscribe();
+      await flush();
+
+      service.recordProgress(sessionId, {
+        type: 'assistant',
+        parent_tool_use_id: null,
+        message: { usage: { input_tokens: 10, output_tokens: 5 } },
+      });
+      service.recordProgress(sessionId, {
+        type: 'assistant',
+        parent_tool_use_id: null,
+        message: { usage: { input_tokens: 20, output_tokens: 7 } },
+      });
+
+      expect(service.getProgress(sessionId)).toEqual({ turns: 2, inputTokens: 30, outputTokens: 12 });
     });
   });
 
   describe('session cleanup', () => {
     it('should clean up expired sessions automatically', async () => {
       const sessionId = await service.createSession({
-        pluginName: 'test-plugin',
-        agentName: 'test-agent',
-        prompt: 'Hello',
+        target: { kind: 'plugin-agent', pluginName: 'test-plugin', name: 'test-agent' },
+        options: { arguments: 'Hello' },
       });
 
       // Session exists initially
-      expect(service.getSession(sessionId)).toBeDefined();
+      expect(await service.getSession(sessionId)).toBeDefined();
 
       // Advance past expiration and trigger cleanup interval
       vi.advanceTimersByTime(6 * 60 * 1000); // 6 minutes
 
       // Session should be expired now
-      expect(service.getSession(sessionId)).toBeUndefined();
+      expect(await service.getSession(sessionId)).toBeUndefined();
     });
   });
 });
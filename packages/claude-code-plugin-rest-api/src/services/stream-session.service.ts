@@ -1,35 +1,90 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, Inject, Optional, OnModuleDestroy } from '@nestjs/common';
+import { Observable, Subject, Subscription } from 'rxjs';
 import { v4 as uuidv4 } from 'uuid';
+import {
+  ExecutionOptions,
+  ExecutionProgress,
+  ExecutionTarget,
+  SDKMessage,
+  recordProgress,
+} from './plugin-execution.service.js';
+import { SseFormat } from '../types/sse.types.js';
+import { AuthUser, isSameUser } from '../auth/auth.types.js';
+import {
+  StreamSession,
+  StreamSessionStore,
+  StreamSessionsModuleOptions,
+  STREAM_SESSION_OPTIONS,
+  STREAM_SESSION_STORE,
+} from '../types/stream-session.types.js';
 
-export interface StreamSession {
-  id: string;
-  pluginName: string;
-  agentName: string;
-  prompt: string;
-  maxTurns?: number;
-  maxBudgetUsd?: number;
-  createdAt: number;
-  consumed: boolean;
+export type { StreamSession, StreamSessionStatus } from '../types/stream-session.types.js';
+
+/** An event emitted by a stream session, numbered for Last-Event-ID replay */
+export interface StreamEvent<T = unknown> {
+  id: number;
+  data: T;
+}
+
+/** In-process execution state of a running session */
+interface StreamRun {
+  /** Most recent events, bounded by REPLAY_BUFFER_SIZE */
+  buffer: StreamEvent[];
+  nextId: number;
+  live: Subject<StreamEvent>;
+  done: boolean;
+  /** When the run completed or was cancelled */
+  finishedAt?: number;
+  subscription?: Subscription;
+  /** Connected consumers */
+  consumers: number;
+  /** Aborts the run when no consumer reconnects in time */
+  abandonTimer?: NodeJS.Timeout;
+  progress: ExecutionProgress;
+  /** Final event for consumers when the run is cancelled */
+  cancelEvent?: () => unknown;
 }
 
+const DEFAULT_SESSION_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Stream sessions decouple creating an execution (POST) from consuming it
+ * over SSE (GET /v1/stream/:sessionId). Session records live in the
+ * configured StreamSessionStore; executions and their replay buffers live
+ * on the instance whose consumer started them. That instance checks the store
+ * every few seconds, aborting runs cancelled from another instance and
+ * renewing the expiry of the others.
+ */
 @Injectable()
-export class StreamSessionService {
+export class StreamSessionService implements OnModuleDestroy {
   private readonly logger = new Logger(StreamSessionService.name);
-  private sessions = new Map<string, StreamSession>();
-  private readonly SESSION_TTL_MS = 5 * 60 * 1000; // 5 minutes
+  /** Executions started on this instance */
+  private runs = new Map<string, StreamRun>();
+  /** How long a created session waits for its first consumer */
+  readonly sessionTtlMs: number;
+  private readonly COMPLETED_GRACE_MS = 60 * 1000; // 1 minute
+  private readonly REPLAY_BUFFER_SIZE = 1000;
+  private readonly RECONNECT_WINDOW_MS = 30 * 1000; // 30 seconds
+  private readonly RUN_CHECK_INTERVAL_MS = 2 * 1000; // 2 seconds
   private cleanupInterval: NodeJS.Timeout | null = null;
+  private runCheckInterval: NodeJS.Timeout | null = null;
+  private checkingRuns = false;
 
-  constructor() {
-    // Cleanup expired sessions every minute
-    this.cleanupInterval = setInterval(() => this.cleanupExpiredSessions(), 60 * 1000);
+  constructor(
+    @Inject(STREAM_SESSION_STORE) private readonly store: StreamSessionStore,
+    @Optional() @Inject(STREAM_SESSION_OPTIONS) options: StreamSessionsModuleOptions = {},
+  ) {
+    this.sessionTtlMs = options.ttlMs ?? DEFAULT_SESSION_TTL_MS;
+    // Release finished runs every minute
+    this.cleanupInterval = setInterval(() => this.cleanupFinishedRuns(), 60 * 1000);
+    this.runCheckInterval = setInterval(() => void this.checkRuns(), this.RUN_CHECK_INTERVAL_MS);
   }
 
   async createSession(params: {
-    pluginName: string;
-    agentName: string;
-    prompt: string;
-    maxTurns?: number;
-    maxBudgetUsd?: number;
+    target: ExecutionTarget;
+    options: Omit<ExecutionOptions, 'signal'>;
+    format?: SseFormat;
+    owner?: AuthUser;
   }): Promise<string> {
     const id = uuidv4();
 
@@ -38,55 +93,275 @@ export class StreamSessionService {
       ...params,
       createdAt: Date.now(),
       consumed: false,
+      status: 'pending',
     };
 
-    this.sessions.set(id, session);
+    await this.store.create(session, this.sessionTtlMs);
     this.logger.debug(`Created stream session: ${id}`);
 
     return id;
   }
 
-  getSession(id: string): StreamSession | undefined {
-    const session = this.sessions.get(id);
+  /**
+   * Get a session that can still be consumed or reconnected to
+   */
+  getSession(id: string): Promise<StreamSession | undefined> {
+    return this.store.get(id);
+  }
+
+  /**
+   * Whether `user` may consume or cancel a session: only its owner can,
+   * unless it was created without one
+   */
+  canAccess(session: StreamSession, user: AuthUser | undefined): boolean {
+    return !session.owner || isSameUser(session.owner, user);
+  }
 
-    if (!session) {
-      return undefined;
+  /**
+   * Whether the session's execution was started on this instance
+   * (and can therefore be followed or replayed here)
+   */
+  hasRun(id: string): boolean {
+    return this.runs.has(id);
+  }
+
+  /**
+   * Claim a pending session for execution
+   * @returns the running session, or undefined if it was already consumed, cancelled or expired
+   */
+  markConsumed(id: string): Promise<StreamSession | undefined> {
+    return this.store.markConsumed(id);
+  }
+
+  /**
+   * Connect a consumer to a session.
+   *
+   * The first connection on this instance claims the session and starts the
+   * execution via `start`; its events are numbered and kept in a bounded replay
+   * buffer. Every connection (including reconnects) first receives buffered
+   * events newer than `lastEventId`, then follows the live execution until it
+   * completes. When the last consumer disconnects, the execution keeps running
+   * for the reconnect window and is aborted if nobody reconnects. If the
+   * session can no longer be claimed (e.g. it was cancelled), the stream ends
+   * without events. `cancelEvent` is delivered (and kept for replay) when the
+   * run is cancelled, here or from another instance.
+   */
+  connect<T>(
+    id: string,
+    start: () => Observable<T>,
+    lastEventId = 0,
+    cancelEvent?: () => T,
+  ): Observable<StreamEvent<T>> {
+    const run = this.runs.get(id) ?? this.startRun(id, start as () => Observable<unknown>, cancelEvent);
+
+    return new Observable<StreamEvent<T>>((subscriber) => {
+      for (const event of run.buffer) {
+        if (event.id > lastEventId) {
+          subscriber.next(event as StreamEvent<T>);
+        }
+      }
+
+      if (run.done) {
+        subscriber.complete();
+        return;
+      }
+
+      run.consumers++;
+      if (run.abandonTimer) {
+        clearTimeout(run.abandonTimer);
+        run.abandonTimer = undefined;
+      }
+
+      const live = run.live.subscribe({
+        next: (event) => subscriber.next(event as StreamEvent<T>),
+        complete: () => subscriber.complete(),
+      });
+
+      return () => {
+        live.unsubscribe();
+        run.consumers--;
+        if (run.consumers === 0 && !run.done) {
+          run.abandonTimer = setTimeout(() => {
+            this.logger.log(`Aborting stream session ${id}: no consumer reconnected`);
+            void this.cancel(id);
+          }, this.RECONNECT_WINDOW_MS);
+        }
+      };
+    });
+  }
+
+  /**
+   * Record progress for a running session from an SDK message
+   */
+  recordProgress(id: string, message: SDKMessage): void {
+    const run = this.runs.get(id);
+    if (run) {
+      recordProgress(run.progress, message);
     }
+  }
 
-    // Check if expired
-    if (Date.now() - session.createdAt > this.SESSION_TTL_MS) {
-      this.sessions.delete(id);
-      return undefined;
+  /**
+   * Progress of a session's execution (zero until it starts)
+   */
+  getProgress(id: string): ExecutionProgress {
+    const progress = this.runs.get(id)?.progress;
+    return progress ? { ...progress } : { turns: 0, inputTokens: 0, outputTokens: 0 };
+  }
+
+  /**
+   * Abort a pending or running session.
+   * `finalEvent` (or the `cancelEvent` given to connect()) is delivered to
+   * connected consumers (and kept for replay) before the stream ends. The
+   * session is marked cancelled in the store; an execution running on another
+   * instance is aborted there once that instance checks the store.
+   * @returns false if the session does not exist or has already finished
+   */
+  async cancel(id: string, finalEvent?: unknown): Promise<boolean> {
+    const session = await this.store.get(id);
+    if (!session || session.status === 'completed' || session.status === 'cancelled') {
+      return false;
     }
 
-    // Check if already consumed
-    if (session.consumed) {
-      return undefined;
+    await this.store.expire(id, this.COMPLETED_GRACE_MS, 'cancelled');
+
+    const run = this.runs.get(id);
+    if (run && !run.done) {
+      this.abortRun(run, finalEvent);
     }
 
-    return session;
+    this.logger.log(`Cancelled stream session ${id}`);
+    return true;
   }
 
-  markConsumed(id: string): void {
-    const session = this.sessions.get(id);
-    if (session) {
-      session.consumed = true;
+  private startRun(id: string, start: () => Observable<unknown>, cancelEvent?: () => unknown): StreamRun {
+    const run: StreamRun = {
+      buffer: [],
+      nextId: 1,
+      live: new Subject<StreamEvent>(),
+      done: false,
+      consumers: 0,
+      progress: { turns: 0, inputTokens: 0, outputTokens: 0 },
+      cancelEvent,
+    };
+    // Registered before the session is claimed so concurrent consumers share the run
+    this.runs.set(id, run);
+
+    const finish = (status?: 'completed') => {
+      if (run.done) {
+        return;
+      }
+      run.done = true;
+      run.finishedAt = Date.now();
+      if (run.abandonTimer) {
+        clearTimeout(run.abandonTimer);
+      }
+      run.live.complete();
+
+      if (status) {
+        this.store.expire(id, this.COMPLETED_GRACE_MS, status).catch((error: Error) => {
+          this.logger.error(`Failed to complete stream session ${id}: ${error.message}`);
+        });
+      }
+    };
+
+    this.store.markConsumed(id).then(
+      (session) => {
+        if (run.done) {
+          // Cancelled while the session was being claimed
+          return;
+        }
+        if (!session) {
+          this.logger.warn(`Stream session ${id} could not be claimed`);
+          finish();
+          return;
+        }
+
+        run.subscription = start().subscribe({
+          next: (data) => this.pushEvent(run, data),
+          error: (error: Error) => {
+            this.logger.error(`Stream session ${id} failed: ${error.message}`);
+            finish('completed');
+          },
+          complete: () => finish('completed'),
+        });
+      },
+      (error: Error) => {
+        this.logger.error(`Failed to claim stream session ${id}: ${error.message}`);
+        finish();
+      },
+    );
+
+    return run;
+  }
+
+  private abortRun(run: StreamRun, finalEvent?: unknown): void {
+    if (run.abandonTimer) {
+      clearTimeout(run.abandonTimer);
+    }
+    // Unsubscribing aborts the underlying query
+    run.subscription?.unsubscribe();
+    const event = finalEvent ?? run.cancelEvent?.();
+    if (event !== undefined) {
+      this.pushEvent(run, event);
+    }
+    run.done = true;
+    run.finishedAt = Date.now();
+    run.live.complete();
+  }
+
+  /**
+   * Abort runs whose session was cancelled on another instance, and renew
+   * the expiry of the others
+   */
+  private async checkRuns(): Promise<void> {
+    if (this.checkingRuns) {
+      return;
+    }
+    this.checkingRuns = true;
+    try {
+      for (const [id, run] of this.runs.entries()) {
+        if (run.done || !run.subscription) {
+          continue;
+        }
+        try {
+          const session = await this.store.get(id);
+          if (session?.status === 'cancelled' && !run.done) {
+            this.logger.log(`Stream session ${id} was cancelled on another instance`);
+            this.abortRun(run);
+          } else if (session?.status === 'running') {
+            await this.store.keepAlive?.(id);
+          }
+        } catch (error: unknown) {
+          this.logger.error(`Failed to check stream session ${id}: ${(error as Error).message}`);
+        }
+      }
+    } finally {
+      this.checkingRuns = false;
     }
   }
 
-  private cleanupExpiredSessions(): void {
+  private pushEvent(run: StreamRun, data: unknown): void {
+    const event: StreamEvent = { id: run.nextId++, data };
+    run.buffer.push(event);
+    if (run.buffer.length > this.REPLAY_BUFFER_SIZE) {
+      run.buffer.shift();
+    }
+    run.live.next(event);
+  }
+
+  private cleanupFinishedRuns(): void {
     const now = Date.now();
     let cleaned = 0;
 
-    for (const [id, session] of this.sessions.entries()) {
-      if (now - session.createdAt > this.SESSION_TTL_MS) {
-        this.sessions.delete(id);
+    for (const [id, run] of this.runs.entries()) {
+      if (run.finishedAt !== undefined && now - run.finishedAt > this.COMPLETED_GRACE_MS) {
+        this.runs.delete(id);
         cleaned++;
       }
     }
 
     if (cleaned > 0) {
-      this.logger.debug(`Cleaned up ${cleaned} expired stream sessions`);
+      this.logger.debug(`Released ${cleaned} finished stream runs`);
     }
   }
 
@@ -94,5 +369,14 @@ export class StreamSessionService {
     if (this.cleanupInterval) {
       clearInterval(this.cleanupInterval);
     }
+    if (this.runCheckInterval) {
+      clearInterval(this.runCheckInterval);
+    }
+    for (const run of this.runs.values()) {
+      if (run.abandonTimer) {
+        clearTimeout(run.abandonTimer);
+      }
+      run.subscription?.unsubscribe();
+    }
   }
 }
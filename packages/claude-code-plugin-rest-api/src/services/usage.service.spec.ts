@@ -0,0 +1,148 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { UsageService, quotaExceededMessage } from './usage.service.js';
+import { InMemoryUsageStore } from './in-memory-usage.store.js';
+import { QuotasModuleOptions } from '../types/usage.types.js';
+import type { SDKMessage } from './plugin-execution.service.js';
+
+function createService(options: QuotasModuleOptions) {
+  const store = new InMemoryUsageStore();
+  return { service: new UsageService(options, store), store };
+}
+
+describe('UsageService', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should record cost against the user, the agent and the global total', async () => {
+    const { service, store } = createService({
+      global: { monthlyUsd: 100 },
+      perUser: { dailyUsd: 5 },
+      agents: { 'reviews/reviewer': { dailyUsd: 2 } },
+    });
+    const alice = { username: 'alice' };
+
+    await service.record({ kind: 'plugin-agent', pluginName: 'reviews', name: 'reviewer' }, alice, 1.5);
+    await service.record({ kind: 'agent', name: 'helper' }, alice, 0.5);
+
+    expect(await service.getUsage(alice, 'reviews/reviewer')).toEqual([
+      expect.objectContaining({ scope: 'user', key: 'alice', window: 'daily', limitUsd: 5, spentUsd: 2, remainingUsd: 3 }),
+      expect.objectContaining({ scope: 'user', key: 'alice', window: 'monthly', spentUsd: 2, remainingUsd: undefined }),
+      expect.objectContaining({ scope: 'agent', key: 'reviews/reviewer', window: 'daily', limitUsd: 2, remainingUsd: 0.5 }),
+      expect.objectContaining({ scope: 'global', key: '*', window: 'monthly', limitUsd: 100, spentUsd: 2, remainingUsd: 98 }),
+    ]);
+    store.onModuleDestroy();
+  });
+
+  it('should find the exhausted quota, with per-user limits replacing perUser', async () => {
+    const { service, store } = createService({
+      perUser: { dailyUsd: 1 },
+      users: { ops: { dailyUsd: 10 } },
+    });
+
+    await service.record({ kind: 'agent', name: 'helper' }, { username: 'alice' }, 1);
+    await service.record({ kind: 'agent', name: 'helper' }, { username: 'ops' }, 1);
+
+    const exhausted = await service.findExhausted({ username: 'alice' }, 'helper');
+    expect(exhausted).toMatchObject({ scope: 'user', key: 'alice', window: 'daily', remainingUsd: 0 });
+    expect(quotaExceededMessage(exhausted!)).toBe("Daily spend quota for user 'alice' exhausted ($1.00 of $1.00)");
+    expect(await service.findExhausted({ username: 'ops' }, 'helper')).toBeUndefined();
+    // Anonymous callers are only subject to agent and global quotas
+    expect(await service.findExhausted(undefined, 'helper')).toBeUndefined();
+    store.onModuleDestroy();
+  });
+
+  it('should start each UTC day and month over', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-31T23:59:00Z'));
+    const { service, store } = createService({ global: { dailyUsd: 1, monthlyUsd: 50 } });
+
+    await service.record({ kind: 'agent', name: 'helper' }, undefined, 1);
+    const exhausted = await service.findExhausted(undefined, 'helper');
+    expect(exhausted).toMatchObject({ window: 'daily', resetsAt: '2026-11-01T00:00:00.000Z' });
+
+    vi.setSystemTime(new Date('2026-11-01T00:01:00Z'));
+    expect(await service.findExhausted(undefined, 'helper')).toBeUndefined();
+    expect(await service.getUsage(undefined)).toEqual([
+      expect.objectContaining({ window: 'daily', spentUsd: 0 }),
+      expect.objectContaining({ window: 'monthly', spentUsd: 0, resetsAt: '2026-12-01T00:00:00.000Z' }),
+    ]);
+    store.onModuleDestroy();
+  });
+
+  it('should record the result cost of a tracked execution once', async () => {
+    const { service, store } = createService({});
+    const alice = { username: 'alice' };
+    const spend = service.track({ kind: 'agent', name: 'helper' }, alice);
+
+    spend.message({ type: 'assistant', message: { id: 'm1', usage: { input_tokens: 1_000_000, output_tokens: 0 } } } as unknown as SDKMessage);
+    spend.message({ type: 'result', total_cost_usd: 0.25 } as unknown as SDKMessage);
+    spend.finish();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(await service.getUsage(alice)).toEqual([
+      expect.objectContaining({ window: 'daily', spentUsd: 0.25 }),
+      expect.objectContaining({ window: 'monthly', spentUsd: 0.25 }),
+    ]);
+    store.onModuleDestroy();
+  });
+
+  it('should record an estimate for executions that end without a result', async () => {
+    const { service, store } = createService({ estimatePrices: { inputPerMillionUsd: 2, outputPerMillionUsd: 10 } });
+    const alice = { username: 'alice' };
+    const spend = service.track({ kind: 'agent', name: 'helper' }, alice);
+    const turn = {
+      type: 'assistant',
+      message: { id: 'm1', usage: { input_tokens: 100_000, cache_read_input_tokens: 100_000, output_tokens: 10_000 } },
+    } as unknown as SDKMessage;
+
+    // The SDK repeats a message for each of its content blocks
+    spend.message(turn);
+    spend.message(turn);
+    spend.message({ type: 'assistant', message: { id: 'm2', usage: { input_tokens: 300_000, output_tokens: 40_000 } } } as unknown as SDKMessage);
+    spend.finish();
+    spend.finish();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    // 500k input tokens at $2/M and 50k output tokens at $10/M
+    expect((await service.getUsage(alice))[0].spentUsd).toBeCloseTo(1.5);
+    store.onModuleDestroy();
+  });
+
+  it('should hold a reservation per admitted run so concurrent runs cannot all start', async () => {
+    const { service, store } = createService({ perUser: { dailyUsd: 1 }, reserveUsd: 0.4 });
+    const alice = { username: 'alice' };
+    await service.record({ kind: 'agent', name: 'helper' }, alice, 0.3);
+
+    const results = await Promise.all(Array.from({ length: 4 }, () => service.reserve(alice, 'helper')));
+
+    // $0.70 remained: the first two runs reserve $0.80 between them
+    expect(results.map(({ exhausted }) => exhausted === undefined)).toEqual([true, true, false, false]);
+    expect(results[2].exhausted).toMatchObject({ spentUsd: 0.3, reservedUsd: 0.8, remainingUsd: 0 });
+
+    // A run takes its reservation over and settles it with the actual cost
+    const spend = service.track({ kind: 'agent', name: 'helper' }, alice);
+    results[0].release();
+    spend.message({ type: 'result', total_cost_usd: 0.1 } as unknown as SDKMessage);
+    await new Promise((resolve) => setImmediate(resolve));
+    expect((await service.getUsage(alice))[0]).toMatchObject({ spentUsd: 0.4, reservedUsd: 0.4 });
+
+    // A reservation no run took over is dropped on release
+    results[1].release();
+    expect((await service.getUsage(alice))[0]).toMatchObject({ spentUsd: 0.4, remainingUsd: 0.6 });
+    expect((await service.getUsage(alice))[0].reservedUsd).toBeUndefined();
+    store.onModuleDestroy();
+  });
+
+  it('should not check quotas when no limits are configured', async () => {
+    const store = { increment: vi.fn().mockResolvedValue(undefined), get: vi.fn().mockResolvedValue([]) };
+    const service = new UsageService({}, store);
+
+    expect(service.enabled).toBe(false);
+    expect(await service.findExhausted({ username: 'alice' }, 'helper')).toBeUndefined();
+    expect(store.get).not.toHaveBeenCalled();
+
+    await service.record({ kind: 'agent', name: 'helper' }, undefined, 0);
+    expect(store.increment).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,333 @@
+import { Injectable, Logger, Inject, HttpStatus } from '@nestjs/common';
+import { AuthUser } from '../auth/auth.types.js';
+import type { ExecutionTarget, SDKMessage } from './plugin-execution.service.js';
+import {
+  QuotaScope,
+  QuotaUsage,
+  QuotaWindow,
+  QuotasModuleOptions,
+  SpendLimits,
+  UsageStore,
+  QUOTA_OPTIONS,
+  USAGE_STORE,
+} from '../types/usage.types.js';
+
+const WINDOWS: QuotaWindow[] = ['daily', 'monthly'];
+
+/** Prices for estimating the cost of runs that end without an SDK result (Sonnet list prices) */
+const DEFAULT_ESTIMATE_PRICES = { inputPerMillionUsd: 3, outputPerMillionUsd: 15 };
+
+const DEFAULT_RESERVE_USD = 0.5;
+
+/** Cost held against the quotas of a run that has not finished yet */
+interface Reservation {
+  username?: string;
+  agent: string;
+  amountUsd: number;
+  /** Whether an execution took it over, to release once its cost is recorded */
+  claimed: boolean;
+}
+
+/**
+ * The key agent quotas use for a target: the agent name for user-defined
+ * agents, `<plugin>/<name>` for plugin agents, commands and skills
+ */
+export function agentKey(target: ExecutionTarget): string {
+  return target.pluginName ? `${target.pluginName}/${target.name}` : target.name;
+}
+
+/**
+ * Error message for an exhausted quota
+ */
+export function quotaExceededMessage(quota: QuotaUsage): string {
+  const subject = quota.scope === 'global' ? 'all executions' : `${quota.scope} '${quota.key}'`;
+  const window = quota.window === 'daily' ? 'Daily' : 'Monthly';
+  return `${window} spend quota for ${subject} exhausted ($${quota.spentUsd.toFixed(2)} of $${quota.limitUsd?.toFixed(2)})`;
+}
+
+/**
+ * Records the spend of one execution: the SDK result's cost, or, when the run
+ * is aborted or fails first, an estimate from the tokens of the assistant
+ * messages seen so far. The reservation made for the run, if any, is released
+ * once the cost is recorded.
+ */
+export class SpendTracker {
+  /** Token usage by assistant message ID; the SDK repeats a message per content block */
+  private readonly tokens = new Map<string, { input: number; output: number }>();
+  private recorded = false;
+
+  constructor(
+    private readonly usage: UsageService,
+    private readonly target: ExecutionTarget,
+    private readonly user: AuthUser | undefined,
+    private readonly release: () => void = () => {},
+  ) {}
+
+  message(message: SDKMessage): void {
+    if (message.type === 'assistant') {
+      const { id, usage } = (message as {
+        message?: {
+          id?: string;
+          usage?: {
+            input_tokens?: number;
+            output_tokens?: number;
+            cache_creation_input_tokens?: number;
+            cache_read_input_tokens?: number;
+          };
+        };
+      }).message ?? {};
+      if (usage) {
+        this.tokens.set(id ?? String(this.tokens.size), {
+          input: (usage.input_tokens || 0) + (usage.cache_creation_input_tokens || 0) + (usage.cache_read_input_tokens || 0),
+          output: usage.output_tokens || 0,
+        });
+      }
+    } else if (message.type === 'result') {
+      this.record((message as { total_cost_usd?: number }).total_cost_usd);
+    }
+  }
+
+  /**
+   * Record the estimate unless the result's cost was recorded; later calls are ignored
+   */
+  finish(): void {
+    let input = 0;
+    let output = 0;
+    for (const tokens of this.tokens.values()) {
+      input += tokens.input;
+      output += tokens.output;
+    }
+    this.record(this.usage.estimateCost(input, output));
+  }
+
+  private record(costUsd: number | undefined): void {
+    if (this.recorded) {
+      return;
+    }
+    this.recorded = true;
+    void this.usage.record(this.target, this.user, costUsd).then(this.release);
+  }
+}
+
+/**
+ * Cost ledger and spend quotas. The cost of every finished execution
+ * (`total_cost_usd` of the SDK result) is added to the caller's, the agent's
+ * and the global spend for the current UTC day and month.
+ *
+ * Runs that end without a result, because they were aborted or failed, count
+ * an estimate from their token usage instead.
+ *
+ * Quotas are checked before an execution starts: a run that begins under its
+ * limit finishes, and its cost counts against the next one. Admitted runs hold
+ * `reserveUsd` against their quotas until their cost is recorded, so
+ * concurrent requests cannot all start under the same remaining allowance.
+ */
+@Injectable()
+export class UsageService {
+  private readonly logger = new Logger(UsageService.name);
+  private readonly reservations = new Set<Reservation>();
+
+  constructor(
+    @Inject(QUOTA_OPTIONS) private readonly options: QuotasModuleOptions,
+    @Inject(USAGE_STORE) private readonly store: UsageStore,
+  ) {}
+
+  /**
+   * Whether any spend limit is configured
+   */
+  get enabled(): boolean {
+    const { global, perUser, users, perAgent, agents } = this.options;
+    return [global, perUser, perAgent, ...Object.values(users ?? {}), ...Object.values(agents ?? {})]
+      .some((limits) => limits?.dailyUsd !== undefined || limits?.monthlyUsd !== undefined);
+  }
+
+  /**
+   * Status code for an exhausted quota
+   */
+  get exceededStatus(): HttpStatus {
+    return this.options.exceededStatus ?? HttpStatus.PAYMENT_REQUIRED;
+  }
+
+  /**
+   * Start tracking the spend of an execution: pass it every SDK message, and
+   * call `finish()` when the run ends without a result
+   */
+  track(target: ExecutionTarget, user: AuthUser | undefined): SpendTracker {
+    const reservation = [...this.reservations].find((candidate) => !candidate.claimed
+      && candidate.username === user?.username && candidate.agent === agentKey(target));
+    if (!reservation) {
+      return new SpendTracker(this, target, user);
+    }
+    reservation.claimed = true;
+    return new SpendTracker(this, target, user, () => this.reservations.delete(reservation));
+  }
+
+  /**
+   * Estimated cost in USD of the given token counts
+   */
+  estimateCost(inputTokens: number, outputTokens: number): number {
+    const prices = this.options.estimatePrices ?? DEFAULT_ESTIMATE_PRICES;
+    return (inputTokens * prices.inputPerMillionUsd + outputTokens * prices.outputPerMillionUsd) / 1_000_000;
+  }
+
+  /**
+   * Add the cost of an execution to the spend of its caller, agent and the global total.
+   * Store failures are logged rather than failing the execution.
+   */
+  async record(target: ExecutionTarget, user: AuthUser | undefined, costUsd: number | undefined): Promise<void> {
+    if (!costUsd || costUsd <= 0) {
+      return;
+    }
+
+    const now = new Date();
+    const key = agentKey(target);
+
+    try {
+      await Promise.all(
+        this.subjects(user, key).flatMap(({ scope, key: subject }) => WINDOWS.map((window) => {
+          const { counter, resetsAt } = this.counter(scope, subject, window, now);
+          return this.store.increment(counter, costUsd, resetsAt);
+        })),
+      );
+    } catch (error: unknown) {
+      this.logger.error(`Failed to record $${costUsd} for ${key}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Spend against every limited quota that applies to the caller, and to
+   * `agent` when given. The caller's own spend is included even when unlimited.
+   */
+  async getUsage(user: AuthUser | undefined, agent?: string): Promise<QuotaUsage[]> {
+    return this.withReservations(await this.readSpent(user, agent));
+  }
+
+  /**
+   * The quota that stops the caller from running `agent`, if any. When several
+   * are exhausted, the one that resets last.
+   */
+  async findExhausted(user: AuthUser | undefined, agent: string): Promise<QuotaUsage | undefined> {
+    if (!this.enabled) {
+      return undefined;
+    }
+
+    return this.exhausted(await this.getUsage(user, agent));
+  }
+
+  /**
+   * Check the caller's quotas for a run of `agent` and, unless one is
+   * exhausted, hold `reserveUsd` against them. Nothing is awaited between the
+   * check and the reservation, so concurrent requests see each other's. The
+   * next execution of `agent` by the caller takes the reservation over;
+   * `release` drops it if none did.
+   */
+  async reserve(user: AuthUser | undefined, agent: string): Promise<{ exhausted?: QuotaUsage; release: () => void }> {
+    if (!this.enabled) {
+      return { release: () => {} };
+    }
+
+    const exhausted = this.exhausted(this.withReservations(await this.readSpent(user, agent)));
+    if (exhausted) {
+      return { exhausted, release: () => {} };
+    }
+
+    const reservation: Reservation = {
+      username: user?.username,
+      agent,
+      amountUsd: this.options.reserveUsd ?? DEFAULT_RESERVE_USD,
+      claimed: false,
+    };
+    this.reservations.add(reservation);
+    return {
+      release: () => {
+        if (!reservation.claimed) {
+          this.reservations.delete(reservation);
+        }
+      },
+    };
+  }
+
+  /**
+   * The caller, the agent and the global total, with their limits
+   */
+  private subjects(user: AuthUser | undefined, agent: string | undefined) {
+    const subjects: { scope: QuotaScope; key: string; limits?: SpendLimits }[] = [];
+    if (user) {
+      subjects.push({ scope: 'user', key: user.username, limits: this.options.users?.[user.username] ?? this.options.perUser });
+    }
+    if (agent !== undefined) {
+      subjects.push({ scope: 'agent', key: agent, limits: this.options.agents?.[agent] ?? this.options.perAgent });
+    }
+    subjects.push({ scope: 'global', key: '*', limits: this.options.global });
+    return subjects;
+  }
+
+  /**
+   * Recorded spend against the quotas of the caller, and of `agent` when given
+   */
+  private async readSpent(user: AuthUser | undefined, agent: string | undefined) {
+    const now = new Date();
+    const entries = this.subjects(user, agent).flatMap(({ scope, key, limits }) => WINDOWS
+      .map((window) => ({ scope, key, window, limitUsd: limits?.[window === 'daily' ? 'dailyUsd' : 'monthlyUsd'] }))
+      .filter((entry) => entry.scope === 'user' || entry.limitUsd !== undefined));
+
+    const counters = entries.map(({ scope, key, window }) => this.counter(scope, key, window, now));
+    const spent = await this.store.get(counters.map(({ counter }) => counter));
+
+    return entries.map((entry, i) => ({
+      ...entry,
+      spentUsd: spent[i],
+      resetsAt: new Date(counters[i].resetsAt).toISOString(),
+    }));
+  }
+
+  /**
+   * Add the cost held by runs in progress, and what remains of each limit
+   */
+  private withReservations(quotas: Omit<QuotaUsage, 'reservedUsd' | 'remainingUsd'>[]): QuotaUsage[] {
+    return quotas.map((quota) => {
+      const reservedUsd = this.reserved(quota.scope, quota.key);
+      return {
+        ...quota,
+        ...(reservedUsd > 0 && { reservedUsd }),
+        remainingUsd: quota.limitUsd === undefined ? undefined : Math.max(0, quota.limitUsd - quota.spentUsd - reservedUsd),
+      };
+    });
+  }
+
+  /**
+   * The exhausted quota that resets last
+   */
+  private exhausted(quotas: QuotaUsage[]): QuotaUsage | undefined {
+    return quotas
+      .filter((quota) => quota.remainingUsd !== undefined && quota.remainingUsd <= 0)
+      .sort((a, b) => b.resetsAt.localeCompare(a.resetsAt))[0];
+  }
+
+  /**
+   * Cost held by runs in progress against a quota
+   */
+  private reserved(scope: QuotaScope, key: string): number {
+    let totalUsd = 0;
+    for (const reservation of this.reservations) {
+      if (scope === 'global'
+        || (scope === 'user' && reservation.username === key)
+        || (scope === 'agent' && reservation.agent === key)) {
+        totalUsd += reservation.amountUsd;
+      }
+    }
+    return totalUsd;
+  }
+
+  /**
+   * Store key of the counter for the current window, and when the window ends
+   */
+  private counter(scope: QuotaScope, key: string, window: QuotaWindow, now: Date) {
+    const year = now.getUTCFullYear();
+    const month = now.getUTCMonth();
+    const day = now.getUTCDate();
+    const period = now.toISOString().slice(0, window === 'daily' ? 10 : 7);
+    const resetsAt = window === 'daily' ? Date.UTC(year, month, day + 1) : Date.UTC(year, month + 1, 1);
+    return { counter: `usage:${scope}:${key}:${period}`, resetsAt };
+  }
+}
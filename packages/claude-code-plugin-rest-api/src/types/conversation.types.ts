@@ -0,0 +1,37 @@
+/**
+ * The agent a conversation talks to: a user-defined agent or a plugin agent
+ */
+export interface ConversationTarget {
+  kind: 'agent' | 'plugin-agent';
+  /** Plugin name (omitted for user-defined agents) */
+  pluginName?: string;
+  name: string;
+}
+
+export interface ConversationMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: number;
+  /** SDK session the reply was produced in (assistant messages only) */
+  sessionId?: string;
+  /** UUID of the last SDK assistant message of the reply, used as a fork point */
+  sdkMessageUuid?: string;
+  /** Cost in USD of producing the reply (assistant messages only) */
+  cost?: number;
+}
+
+export interface Conversation {
+  id: string;
+  target: ConversationTarget;
+  /** Current SDK session ID (unset until the first reply) */
+  sessionId?: string;
+  /** Source of a forked conversation */
+  forkedFrom?: {
+    conversationId: string;
+    messageId: string;
+  };
+  messages: ConversationMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
@@ -0,0 +1,129 @@
+import type { ExecutionTarget, SDKMessage, SessionResume } from '../services/plugin-execution.service.js';
+
+/**
+ * - `running`: the execution has not finished (or its instance stopped before it did)
+ * - `succeeded` / `failed`: the SDK returned a result, or the execution threw
+ * - `cancelled`: aborted by the client or by cancelling the job or stream session
+ */
+export type ExecutionStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * What an execution was asked to do. Attachments are recorded without their content.
+ */
+export interface ExecutionInputs {
+  /** Prompt sent to the SDK */
+  prompt: string;
+  arguments?: string;
+  context?: Record<string, unknown>;
+  attachments?: { type: string; mediaType: string; filename?: string }[];
+  resume?: SessionResume;
+  maxTurns?: number;
+  maxBudgetUsd?: number;
+}
+
+/**
+ * Summary of one execution; the SDK messages are its transcript
+ */
+export interface ExecutionRecord {
+  id: string;
+  target: ExecutionTarget;
+  /** Caller (unset when auth is disabled) */
+  username?: string;
+  inputs: ExecutionInputs;
+  status: ExecutionStatus;
+  startedAt: number;
+  finishedAt?: number;
+  durationMs?: number;
+  /** Cost in USD from the SDK result */
+  cost?: number;
+  turns?: number;
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+  };
+  /** SDK session ID, usable to resume the conversation */
+  sessionId?: string;
+  error?: string;
+  /** Number of SDK messages in the transcript */
+  messageCount: number;
+}
+
+/**
+ * Filters for listing executions; all are optional and combined with AND
+ */
+export interface ExecutionQuery {
+  username?: string;
+  kind?: ExecutionTarget['kind'];
+  pluginName?: string;
+  name?: string;
+  status?: ExecutionStatus;
+  /** Started at or after (epoch ms) */
+  since?: number;
+  /** Started before (epoch ms) */
+  until?: number;
+  /** @default 50 */
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Persistence for execution history.
+ * Implement this to keep history in a database or share it across instances.
+ */
+export interface ExecutionHistoryStore {
+  /** Create or replace the summary of an execution */
+  save(record: ExecutionRecord): Promise<void>;
+
+  /** Append SDK messages to an execution's transcript */
+  appendMessages(id: string, messages: SDKMessage[]): Promise<void>;
+
+  get(id: string): Promise<ExecutionRecord | undefined>;
+
+  /** The transcript, or undefined if the execution is unknown */
+  getTranscript(id: string): Promise<SDKMessage[] | undefined>;
+
+  /** Matching executions, newest first */
+  list(query: ExecutionQuery): Promise<ExecutionRecord[]>;
+
+  /**
+   * Delete executions that started before `before` (epoch ms), then the oldest
+   * beyond the newest `maxExecutions`
+   * @returns the number of executions deleted
+   */
+  prune(before: number, maxExecutions?: number): Promise<number>;
+}
+
+export interface ExecutionHistoryModuleOptions {
+  /**
+   * Record executions. Transcripts hold prompts and tool output, so history
+   * is off unless enabled.
+   * @default false
+   */
+  enabled?: boolean;
+
+  /**
+   * Custom history store (defaults to JSONL files in `directory`)
+   */
+  store?: ExecutionHistoryStore;
+
+  /**
+   * Directory of the default store
+   * @default '.claude/executions'
+   */
+  directory?: string;
+
+  /**
+   * Delete executions older than this many days
+   * @default 30
+   */
+  retentionDays?: number;
+
+  /**
+   * Keep at most this many executions, deleting the oldest
+   * @default 10000
+   */
+  maxExecutions?: number;
+}
+
+export const EXECUTION_HISTORY_OPTIONS = 'EXECUTION_HISTORY_OPTIONS';
+export const EXECUTION_HISTORY_STORE = 'EXECUTION_HISTORY_STORE';
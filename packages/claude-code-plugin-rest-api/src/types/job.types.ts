@@ -0,0 +1,57 @@
+import type { ExecutionResult, ExecutionProgress, ExecutionTarget } from '../services/plugin-execution.service.js';
+
+export type JobStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * What a job executes: a user-defined agent, or a plugin agent, command or skill
+ */
+export type JobTarget = ExecutionTarget;
+
+/**
+ * Progress reported while a job is running
+ */
+export type JobProgress = ExecutionProgress;
+
+export interface Job {
+  id: string;
+  target: JobTarget;
+  /** Caller who submitted the job; only they (or `admin:jobs`) can see or cancel it */
+  username?: string;
+  /** The submitter's `authProvider`, when set */
+  authProvider?: string;
+  /** The submitter's `tenant`, when set */
+  tenant?: string;
+  status: JobStatus;
+  progress: JobProgress;
+  /** Final result (set when the job succeeds or fails with an SDK result) */
+  result?: ExecutionResult;
+  error?: string;
+  createdAt: number;
+  finishedAt?: number;
+}
+
+/**
+ * Persistence for asynchronous jobs.
+ * Implement this to share job state across instances (e.g. Redis or a database).
+ */
+export interface JobStore {
+  /** Create or replace a job */
+  save(job: Job): Promise<void>;
+  get(id: string): Promise<Job | undefined>;
+  delete(id: string): Promise<void>;
+}
+
+export interface JobsModuleOptions {
+  /**
+   * Custom job store (defaults to an in-memory store)
+   */
+  store?: JobStore;
+
+  /**
+   * How long finished jobs are kept in the default in-memory store
+   * @default 3600000 (1 hour)
+   */
+  retentionMs?: number;
+}
+
+export const JOB_STORE = 'JOB_STORE';
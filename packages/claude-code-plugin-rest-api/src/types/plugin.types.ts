@@ -1,4 +1,17 @@
-import type { Options } from '@anthropic-ai/claude-agent-sdk';
+import type {
+  Options,
+  OutputFormat,
+  PermissionMode,
+  McpStdioServerConfig,
+  McpSSEServerConfig,
+  McpHttpServerConfig,
+  HookEvent,
+} from '@anthropic-ai/claude-agent-sdk';
+
+/**
+ * MCP server a plugin declares (stdio, SSE or HTTP)
+ */
+export type PluginMcpServerConfig = McpStdioServerConfig | McpSSEServerConfig | McpHttpServerConfig;
 
 export interface PluginManifest {
   name: string;
@@ -15,27 +28,57 @@ export interface PluginManifest {
   commands?: string | string[];
   agents?: string | string[];
   skills?: string | string[];
-  hooks?: string;
-  mcpServers?: string;
+  /**
+   * Path to a hooks config relative to the plugin root, or the config inline.
+   * Defaults to `hooks/hooks.json` when present.
+   */
+  hooks?: string | { hooks: PluginHooks };
+  /**
+   * Path(s) to MCP config files relative to the plugin root, or the servers
+   * inline. Defaults to `.mcp.json` when present.
+   */
+  mcpServers?: string | string[] | Record<string, PluginMcpServerConfig>;
 }
 
-export interface PluginCommand {
+export interface PluginCommand extends PluginExecutionSettings {
   name: string;
   description: string;
   filePath: string;
+  /** Prompt template: `$ARGUMENTS`, `$1..$n` and `@path` references are expanded per execution */
   content: string;
+  allowedTools?: string[];
+  /** Arguments the command expects, e.g. `[pr-number] [priority]` (frontmatter `argument-hint`) */
+  argumentHint?: string;
+}
+
+/**
+ * SDK settings requested by plugin agent, skill and command frontmatter.
+ * Applied within the module's `pluginPolicy` caps.
+ */
+export interface PluginExecutionSettings {
+  /** Model ID or alias (`sonnet`, `opus`, `haiku`); `inherit` leaves it unset */
+  model?: string;
+  permissionMode?: PermissionMode;
+  /** Tools removed from the model's context */
+  disallowedTools?: string[];
+  maxTurns?: number;
+  /** Thinking budget; 0 disables extended thinking */
+  maxThinkingTokens?: number;
+  /** JSON schema the final result must match (returned as structuredOutput) */
+  outputFormat?: OutputFormat;
 }
 
-export interface PluginAgent {
+export interface PluginAgent extends PluginExecutionSettings {
   name: string;
   description: string;
   filePath: string;
   content: string;
   tools?: string[];
-  model?: string;
+  /** Stream token-level deltas by default (frontmatter `includePartialMessages`) */
+  includePartialMessages?: boolean;
 }
 
-export interface PluginSkill {
+export interface PluginSkill extends PluginExecutionSettings {
   name: string;
   description: string;
   dirPath: string;
@@ -44,6 +87,59 @@ export interface PluginSkill {
   allowedTools?: string[];
 }
 
+/**
+ * Limits on what plugin frontmatter may request. Plugins are files on disk,
+ * so requests beyond these limits are reduced to them rather than rejected.
+ */
+export interface PluginPolicy {
+  /**
+   * Models frontmatter may select; others run on `defaultModel`.
+   * Unset allows any model.
+   */
+  allowedModels?: string[];
+
+  /**
+   * Model for plugin executions whose frontmatter selects none or a disallowed one
+   * (SDK default when unset)
+   */
+  defaultModel?: string;
+
+  /**
+   * Permission modes frontmatter may request; others run in `default`.
+   * Add `bypassPermissions` only for trusted plugins.
+   * @default ['default']
+   */
+  allowedPermissionModes?: PermissionMode[];
+
+  /**
+   * Tools of plugin commands, agents and skills whose frontmatter sets no `tools`
+   * or `allowed-tools`
+   * @default ['Read', 'Glob', 'Grep']
+   */
+  defaultTools?: string[];
+
+  /**
+   * Tools never available to plugins, in addition to frontmatter `disallowedTools`
+   */
+  disallowedTools?: string[];
+
+  /**
+   * Upper bound on turns, whether requested by frontmatter or the request body
+   */
+  maxTurns?: number;
+
+  /**
+   * Upper bound on frontmatter `maxThinkingTokens`
+   */
+  maxThinkingTokens?: number;
+
+  /**
+   * Honour frontmatter `outputFormat`
+   * @default true
+   */
+  allowOutputFormat?: boolean;
+}
+
 export interface DiscoveredPlugin {
   name: string;
   version: string;
@@ -53,6 +149,65 @@ export interface DiscoveredPlugin {
   commands: PluginCommand[];
   agents: PluginAgent[];
   skills: PluginSkill[];
+  /** MCP servers by name, with variables expanded */
+  mcpServers: Record<string, PluginMcpServerConfig>;
+  /** Hooks by event */
+  hooks: PluginHooks;
+}
+
+/**
+ * Shell command run for a hook event, as in Claude Code: the hook input is
+ * JSON on stdin; exit code 0 succeeds (JSON on stdout is the hook output),
+ * 2 blocks with stderr as the reason, anything else is a failure.
+ */
+export interface PluginCommandHook {
+  type: 'command';
+  /** Run by the shell with CLAUDE_PLUGIN_ROOT and CLAUDE_PROJECT_DIR set */
+  command: string;
+  /** Seconds before the command is killed (defaults to `pluginHooks.timeoutSeconds`) */
+  timeout?: number;
+}
+
+export interface PluginHookMatcher {
+  /** Tool name pattern for tool events, e.g. `Write|Edit` (all when unset) */
+  matcher?: string;
+  hooks: PluginCommandHook[];
+}
+
+export type PluginHooks = Partial<Record<HookEvent, PluginHookMatcher[]>>;
+
+/**
+ * A hook command that failed: it exited with a code other than 0 or 2,
+ * timed out, or could not be started. The execution continues.
+ */
+export interface HookFailure {
+  event: HookEvent;
+  command: string;
+  /** Tool the hook ran for (tool events) */
+  toolName?: string;
+  exitCode?: number;
+  error: string;
+}
+
+export interface PluginHooksOptions {
+  /**
+   * Run plugin hooks. They execute shell commands from the plugin directory,
+   * so they stay off unless enabled.
+   * @default false
+   */
+  enabled?: boolean;
+
+  /**
+   * Hook commands that may run, matched against the command as written in the
+   * hooks config (`*` matches any characters). Unset allows every command.
+   */
+  allowedCommands?: string[];
+
+  /**
+   * Timeout for hooks that set none
+   * @default 60
+   */
+  timeoutSeconds?: number;
 }
 
 // ============================================
@@ -82,7 +237,7 @@ export interface RequestSchema {
  *
  * Provides full access to all SDK options plus REST API-specific extensions.
  * Options that don't make sense in a REST context are omitted:
- * - `abortController`: Managed internally by request handlers
+ * - `abortController`: Created per execution; aborted on client disconnect or cancellation
  * - `canUseTool`: No interactive prompting in REST APIs, use `permissionMode` instead
  * - `stderr`: Server-side logging concern
  * - `spawnClaudeCodeProcess`: Internal transport concern
@@ -0,0 +1,158 @@
+/**
+ * SSE event schemas for /v1/stream/:sessionId.
+ *
+ * Two formats are available, chosen per stream session:
+ * - `compact` (default): `delta` events with assistant text and a final `complete` event.
+ *   Other SDK messages are reduced to `{ type, timestamp }`. Sessions with partial
+ *   messages enabled also receive `text_delta` events.
+ * - `detailed`: the typed events below, versioned by SSE_SCHEMA_VERSION. Additive
+ *   changes (new event types or fields) keep the version; breaking changes bump it.
+ */
+export type SseFormat = 'compact' | 'detailed';
+
+export const SSE_FORMATS: SseFormat[] = ['compact', 'detailed'];
+
+/** Version of the detailed event schema, reported in the `init` event */
+export const SSE_SCHEMA_VERSION = 1;
+
+interface SseEventBase {
+  timestamp: number;
+  /** Set when the event comes from a subagent invoked via the Task tool */
+  parentToolUseId?: string;
+}
+
+/** Session started (from the SDK `system/init` message) */
+export interface SseInitEvent extends SseEventBase {
+  type: 'init';
+  schemaVersion: number;
+  sessionId: string;
+  model?: string;
+  tools?: string[];
+  mcpServers?: Array<{ name: string; status: string }>;
+  permissionMode?: string;
+}
+
+/** Assistant text */
+export interface SseDeltaEvent extends SseEventBase {
+  type: 'delta';
+  content: string;
+}
+
+/**
+ * Token-level assistant text, emitted when partial messages are enabled.
+ * The whole-message `delta` still follows once the message is complete.
+ */
+export interface SseTextDeltaEvent extends SseEventBase {
+  type: 'text_delta';
+  content: string;
+  /** Content block the text belongs to */
+  index: number;
+}
+
+/** Token-level extended thinking, emitted when partial messages are enabled */
+export interface SseThinkingDeltaEvent extends SseEventBase {
+  type: 'thinking_delta';
+  content: string;
+  index: number;
+}
+
+/** Assistant extended thinking */
+export interface SseThinkingEvent extends SseEventBase {
+  type: 'thinking';
+  content: string;
+}
+
+/** The assistant called a tool */
+export interface SseToolCallEvent extends SseEventBase {
+  type: 'tool_call';
+  toolUseId: string;
+  name: string;
+  input: unknown;
+}
+
+/** Output of a tool call */
+export interface SseToolResultEvent extends SseEventBase {
+  type: 'tool_result';
+  toolUseId: string;
+  /** Text content of the result (non-text blocks are omitted) */
+  content: string;
+  isError: boolean;
+}
+
+/** Final token usage and cost, emitted before `complete` */
+export interface SseUsageEvent extends SseEventBase {
+  type: 'usage';
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadInputTokens?: number;
+  cacheCreationInputTokens?: number;
+  cost?: number;
+  turns?: number;
+  durationMs?: number;
+}
+
+/**
+ * Execution error. `subtype` carries the SDK result subtype
+ * (e.g. `error_max_turns`, `error_max_budget_usd`, `error_during_execution`).
+ */
+export interface SseErrorEvent extends SseEventBase {
+  type: 'error';
+  error: string;
+  subtype?: string;
+  errors?: string[];
+}
+
+/**
+ * A plugin hook command failed or timed out; the execution continues.
+ * Compact streams carry the message in `error`.
+ */
+export interface SseHookFailureEvent extends SseEventBase {
+  type: 'hook_failure';
+  event: string;
+  command: string;
+  toolName?: string;
+  exitCode?: number;
+  error: string;
+}
+
+/** Terminal event with the execution result */
+export interface SseCompleteEvent extends SseEventBase {
+  type: 'complete';
+  result: {
+    success: boolean;
+    result?: string;
+    structuredOutput?: unknown;
+    cost?: number;
+    turns?: number;
+    sessionId?: string;
+  };
+}
+
+export type SseEvent =
+  | SseInitEvent
+  | SseDeltaEvent
+  | SseTextDeltaEvent
+  | SseThinkingEvent
+  | SseThinkingDeltaEvent
+  | SseToolCallEvent
+  | SseToolResultEvent
+  | SseUsageEvent
+  | SseErrorEvent
+  | SseHookFailureEvent
+  | SseCompleteEvent;
+
+/** Compact-format event (`text_delta` events also carry `index`) */
+export interface SseCompactEvent {
+  type: string;
+  content?: string;
+  index?: number;
+  error?: string;
+  result?: unknown;
+  timestamp?: number;
+}
+
+/** A message written to an SSE response; `id` is set for replayable stream sessions */
+export interface SseMessage {
+  data: SseEvent | SseCompactEvent;
+  id?: string;
+}
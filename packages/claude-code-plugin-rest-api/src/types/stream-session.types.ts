@@ -0,0 +1,84 @@
+import type { ExecutionOptions, ExecutionTarget } from '../services/plugin-execution.service.js';
+import type { SseFormat } from './sse.types.js';
+import type { AuthUser } from '../auth/auth.types.js';
+
+/**
+ * Session lifecycle:
+ * - `pending`: created, waiting for the first consumer (expires after the session TTL)
+ * - `running`: execution started; consumers can disconnect and reconnect. A run
+ *   left without consumers for longer than the reconnect window is aborted.
+ * - `completed`: execution finished; reconnects replay the buffer until the grace period ends
+ * - `cancelled`: execution aborted via cancel() or abandoned; replayable like `completed`
+ */
+export type StreamSessionStatus = 'pending' | 'running' | 'completed' | 'cancelled';
+
+export interface StreamSession {
+  id: string;
+  target: ExecutionTarget;
+  /**
+   * Options passed to the execution, as for the synchronous endpoints.
+   * For user-defined agents `arguments` holds the prompt.
+   */
+  options: Omit<ExecutionOptions, 'signal'>;
+  /** SSE event schema (defaults to compact) */
+  format?: SseFormat;
+  /** User who created the session (unset when auth is disabled) */
+  owner?: AuthUser;
+  createdAt: number;
+  /** True once a consumer has started the execution */
+  consumed: boolean;
+  status: StreamSessionStatus;
+  completedAt?: number;
+}
+
+/**
+ * Persistence for stream sessions.
+ * Implement this to share sessions across instances, so the request that creates
+ * a session and the one that consumes it can reach different replicas.
+ *
+ * Only the session record is shared: the execution and its replay buffer stay on
+ * the instance that started it, so reconnects must reach that instance. A cancel
+ * reaching another instance is recorded here; the instance running the session
+ * checks for it every few seconds and aborts the execution.
+ */
+export interface StreamSessionStore {
+  /** Save a new pending session that expires after `ttlMs` unless consumed */
+  create(session: StreamSession, ttlMs: number): Promise<void>;
+
+  /** Get a session that has not expired */
+  get(id: string): Promise<StreamSession | undefined>;
+
+  /**
+   * Atomically move a pending session to `running` and stop its expiry
+   * @returns the updated session, or undefined if it does not exist or is no longer pending
+   */
+  markConsumed(id: string): Promise<StreamSession | undefined>;
+
+  /**
+   * Expire a session after `ttlMs` (0 removes it immediately), optionally
+   * recording its final status and completion time
+   */
+  expire(id: string, ttlMs: number, status?: 'completed' | 'cancelled'): Promise<void>;
+
+  /**
+   * Renew the expiry of a running session; called every few seconds by the
+   * instance running it. Stores whose running sessions do not expire can omit it.
+   */
+  keepAlive?(id: string): Promise<void>;
+}
+
+export interface StreamSessionsModuleOptions {
+  /**
+   * Custom session store (defaults to an in-memory store)
+   */
+  store?: StreamSessionStore;
+
+  /**
+   * How long a created session waits for its first consumer
+   * @default 300000 (5 minutes)
+   */
+  ttlMs?: number;
+}
+
+export const STREAM_SESSION_STORE = 'STREAM_SESSION_STORE';
+export const STREAM_SESSION_OPTIONS = 'STREAM_SESSION_OPTIONS';
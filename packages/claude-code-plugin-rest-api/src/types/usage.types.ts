@@ -0,0 +1,105 @@
+export type QuotaWindow = 'daily' | 'monthly';
+
+/** Who a quota applies to: one user, one agent, or all executions */
+export type QuotaScope = 'user' | 'agent' | 'global';
+
+/**
+ * Spend limits in USD per window (UTC calendar day and month).
+ * A window without a limit is unlimited.
+ */
+export interface SpendLimits {
+  dailyUsd?: number;
+  monthlyUsd?: number;
+}
+
+/**
+ * Spend against one quota in the current window
+ */
+export interface QuotaUsage {
+  scope: QuotaScope;
+  /** Username, agent key (`name` or `plugin/name`), or `*` for the global quota */
+  key: string;
+  window: QuotaWindow;
+  /** Omitted when the window is unlimited */
+  limitUsd?: number;
+  spentUsd: number;
+  /** Cost held for runs in progress on this instance; omitted when there are none */
+  reservedUsd?: number;
+  /** Omitted when the window is unlimited */
+  remainingUsd?: number;
+  /** ISO timestamp when the window starts over */
+  resetsAt: string;
+}
+
+/**
+ * Persistence for spend counters. Each counter covers one quota window and
+ * can be dropped once it expires. Implement this to share spend across
+ * instances (e.g. Redis INCRBYFLOAT with PEXPIREAT).
+ */
+export interface UsageStore {
+  /** Add to a counter, creating it with the given expiry (epoch ms) */
+  increment(key: string, amountUsd: number, expiresAt: number): Promise<void>;
+  /** Current counter values, 0 for counters that do not exist */
+  get(keys: string[]): Promise<number[]>;
+}
+
+export interface QuotasModuleOptions {
+  /**
+   * Custom usage store (defaults to an in-memory store)
+   */
+  store?: UsageStore;
+
+  /**
+   * Limits on the total spend of all executions
+   */
+  global?: SpendLimits;
+
+  /**
+   * Default limits for every authenticated user
+   */
+  perUser?: SpendLimits;
+
+  /**
+   * Limits for individual users by username, replacing `perUser`
+   */
+  users?: Record<string, SpendLimits>;
+
+  /**
+   * Default limits for every agent, plugin command and skill
+   */
+  perAgent?: SpendLimits;
+
+  /**
+   * Limits by agent key, replacing `perAgent`. User-defined agents use their
+   * name; plugin agents, commands and skills use `<plugin>/<name>`.
+   */
+  agents?: Record<string, SpendLimits>;
+
+  /**
+   * Status code when a quota is exhausted
+   * @default 402
+   */
+  exceededStatus?: 402 | 429;
+
+  /**
+   * Cost held against the quotas while a run is in progress, so concurrent
+   * requests cannot all start under the same remaining allowance. Replaced by
+   * the run's actual cost when it finishes. Reservations are kept in process
+   * memory, so across instances the limit remains a soft cap.
+   * @default 0.5
+   */
+  reserveUsd?: number;
+
+  /**
+   * Prices for estimating the cost of runs aborted or failed before the SDK
+   * reported it. Cached input tokens are priced as input.
+   * @default { inputPerMillionUsd: 3, outputPerMillionUsd: 15 }
+   */
+  estimatePrices?: {
+    inputPerMillionUsd: number;
+    outputPerMillionUsd: number;
+  };
+}
+
+export const QUOTA_OPTIONS = 'QUOTA_OPTIONS';
+export const USAGE_STORE = 'USAGE_STORE';
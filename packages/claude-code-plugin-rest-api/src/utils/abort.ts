@@ -0,0 +1,31 @@
+import type { Response } from 'express';
+
+/**
+ * Create the AbortController passed to query(), aborted when `signal` aborts
+ */
+export function createAbortController(signal?: AbortSignal): AbortController {
+  const abortController = new AbortController();
+
+  if (signal?.aborted) {
+    abortController.abort(signal.reason);
+  } else {
+    signal?.addEventListener('abort', () => abortController.abort(signal.reason), { once: true });
+  }
+
+  return abortController;
+}
+
+/**
+ * Signal that aborts when the client closes the connection before the response is sent
+ */
+export function abortOnClose(res: Response): AbortSignal {
+  const abortController = new AbortController();
+
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      abortController.abort(new Error('Client disconnected'));
+    }
+  });
+
+  return abortController.signal;
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { validateAttachments, toContentBlock, buildPromptInput, DEFAULT_ATTACHMENT_LIMITS } from './attachments.js';
+import type { Attachment } from '../services/plugin-execution.service.js';
+
+const PNG_BASE64 = Buffer.from('fake-png-bytes').toString('base64');
+
+describe('attachments', () => {
+  describe('validateAttachments', () => {
+    it('should accept missing attachments', () => {
+      expect(validateAttachments(undefined)).toEqual([]);
+    });
+
+    it('should accept valid base64, url and file attachments', () => {
+      const errors = validateAttachments([
+        { type: 'image', mediaType: 'image/png', source: { type: 'base64', data: PNG_BASE64 } },
+        { type: 'document', mediaType: 'application/pdf', source: { type: 'url', url: 'https://example.com/invoice.pdf' } },
+        { type: 'document', mediaType: 'application/pdf', source: { type: 'file', fileId: 'file_123' } },
+      ]);
+
+      expect(errors).toEqual([]);
+    });
+
+    it('should reject non-array values', () => {
+      expect(validateAttachments({})).toEqual(['attachments must be an array']);
+    });
+
+    it('should reject unsupported media types', () => {
+      const errors = validateAttachments([
+        { type: 'image', mediaType: 'image/tiff', source: { type: 'base64', data: PNG_BASE64 } },
+      ]);
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toContain('image/tiff');
+    });
+
+    it('should reject attachments exceeding the size limit', () => {
+      const data = Buffer.alloc(16).toString('base64');
+      const errors = validateAttachments(
+        [{ type: 'image', mediaType: 'image/png', source: { type: 'base64', data } }],
+        { ...DEFAULT_ATTACHMENT_LIMITS, maxImageBytes: 8 },
+      );
+
+      expect(errors[0]).toContain('exceeding the 8 byte limit');
+    });
+
+    it('should reject missing source fields', () => {
+      const errors = validateAttachments([
+        { type: 'image', mediaType: 'image/png', source: { type: 'url' } },
+        { type: 'document', mediaType: 'application/pdf', source: { type: 'file' } },
+        { type: 'text', mediaType: 'text/plain', source: { type: 'url', url: 'https://example.com/a.txt' } },
+      ]);
+
+      expect(errors).toHaveLength(3);
+    });
+
+    it('should reject too many attachments', () => {
+      const attachment = { type: 'image', mediaType: 'image/png', source: { type: 'base64', data: PNG_BASE64 } };
+      const errors = validateAttachments([attachment, attachment], { ...DEFAULT_ATTACHMENT_LIMITS, maxCount: 1 });
+
+      expect(errors[0]).toContain('Too many attachments');
+    });
+  });
+
+  describe('toContentBlock', () => {
+    it('should convert a base64 image', () => {
+      const block = toContentBlock({
+        type: 'image',
+        mediaType: 'image/png',
+        source: { type: 'base64', data: PNG_BASE64 },
+      });
+
+      expect(block).toEqual({
+        type: 'image',
+        source: { type: 'base64', media_type: 'image/png', data: PNG_BASE64 },
+      });
+    });
+
+    it('should convert a file id document with title', () => {
+      const block = toContentBlock({
+        type: 'document',
+        mediaType: 'application/pdf',
+        source: { type: 'file', fileId: 'file_abc' },
+        filename: 'invoice.pdf',
+      });
+
+      expect(block).toEqual({
+        type: 'document',
+        source: { type: 'file', file_id: 'file_abc' },
+        title: 'invoice.pdf',
+      });
+    });
+
+    it('should decode text attachments into plain-text documents', () => {
+      const block = toContentBlock({
+        type: 'text',
+        mediaType: 'text/plain',
+        source: { type: 'base64', data: Buffer.from('hello').toString('base64') },
+      });
+
+      expect(block).toEqual({
+        type: 'document',
+        source: { type: 'text', media_type: 'text/plain', data: 'hello' },
+      });
+    });
+  });
+
+  describe('buildPromptInput', () => {
+    it('should return the plain prompt when there are no attachments', () => {
+      expect(buildPromptInput('Hello')).toBe('Hello');
+    });
+
+    it('should yield a single multimodal user message', async () => {
+      const attachments: Attachment[] = [
+        { type: 'image', mediaType: 'image/png', source: { type: 'url', url: 'https://example.com/a.png' } },
+      ];
+      const input = buildPromptInput('Describe this', attachments);
+
+      expect(typeof input).not.toBe('string');
+
+      const messages = [];
+      for await (const message of input as AsyncIterable<unknown>) {
+        messages.push(message);
+      }
+
+      expect(messages).toHaveLength(1);
+      expect(messages[0]).toMatchObject({
+        type: 'user',
+        message: {
+          role: 'user',
+          content: [
+            { type: 'image', source: { type: 'url', url: 'https://example.com/a.png' } },
+            { type: 'text', text: 'Describe this' },
+          ],
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import type { SDKUserMessage } from '@anthropic-ai/claude-agent-sdk';
+import type {
+  Base64ImageSource,
+  Base64PDFSource,
+  ContentBlockParam,
+  DocumentBlockParam,
+  ImageBlockParam,
+  PlainTextSource,
+  URLImageSource,
+  URLPDFSource,
+} from '@anthropic-ai/sdk/resources';
+import type {
+  BetaFileDocumentSource,
+  BetaFileImageSource,
+  BetaImageBlockParam,
+  BetaRequestDocumentBlock,
+} from '@anthropic-ai/sdk/resources/beta';
+import type { Attachment } from '../services/plugin-execution.service.js';
+
+/**
+ * Limits applied when validating attachments.
+ * Defaults follow the Anthropic API limits for images and PDFs.
+ */
+export interface AttachmentLimits {
+  /** Maximum number of attachments per request */
+  maxCount: number;
+  /** Maximum decoded size of a base64 image */
+  maxImageBytes: number;
+  /** Maximum decoded size of a base64 PDF */
+  maxDocumentBytes: number;
+  /** Maximum decoded size of a base64 text file */
+  maxTextBytes: number;
+}
+
+export const DEFAULT_ATTACHMENT_LIMITS: AttachmentLimits = {
+  maxCount: 20,
+  maxImageBytes: 5 * 1024 * 1024,
+  maxDocumentBytes: 32 * 1024 * 1024,
+  maxTextBytes: 5 * 1024 * 1024,
+};
+
+/** Media types accepted for each attachment type */
+export const SUPPORTED_MEDIA_TYPES: Record<Attachment['type'], string[]> = {
+  image: ['image/jpeg', 'image/png', 'image/gif', 'image/webp'],
+  document: ['application/pdf'],
+  text: ['text/plain', 'text/markdown', 'text/csv', 'text/html', 'application/json'],
+};
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+/**
+ * Validate a list of attachments from a request body.
+ * @returns A list of human-readable errors (empty when valid)
+ */
+export function validateAttachments(
+  attachments: unknown,
+  limits: AttachmentLimits = DEFAULT_ATTACHMENT_LIMITS,
+): string[] {
+  if (attachments === undefined || attachments === null) {
+    return [];
+  }
+
+  if (!Array.isArray(attachments)) {
+    return ['attachments must be an array'];
+  }
+
+  if (attachments.length > limits.maxCount) {
+    return [`Too many attachments: ${attachments.length} (max ${limits.maxCount})`];
+  }
+
+  const errors: string[] = [];
+
+  attachments.forEach((raw, index) => {
+    const label = `attachments[${index}]`;
+    const attachment = raw as Partial<Attachment> | null;
+
+    if (!attachment || typeof attachment !== 'object') {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+
+    const allowedTypes = SUPPORTED_MEDIA_TYPES[attachment.type as Attachment['type']];
+    if (!allowedTypes) {
+      errors.push(`${label}.type must be one of: ${Object.keys(SUPPORTED_MEDIA_TYPES).join(', ')}`);
+      return;
+    }
+
+    if (!attachment.mediaType || !allowedTypes.includes(attachment.mediaType)) {
+      errors.push(`${label}.mediaType '${attachment.mediaType}' is not supported for ${attachment.type} (allowed: ${allowedTypes.join(', ')})`);
+    }
+
+    const source = attachment.source;
+    if (!source || typeof source !== 'object') {
+      errors.push(`${label}.source is required`);
+      return;
+    }
+
+    switch (source.type) {
+      case 'base64': {
+        if (!source.data || typeof source.data !== 'string' || !BASE64_PATTERN.test(source.data)) {
+          errors.push(`${label}.source.data must be a base64-encoded string`);
+          break;
+        }
+        const size = Buffer.byteLength(source.data, 'base64');
+        const maxBytes = maxBytesFor(attachment.type as Attachment['type'], limits);
+        if (size > maxBytes) {
+          errors.push(`${label} is ${size} bytes, exceeding the ${maxBytes} byte limit for ${attachment.type}`);
+        }
+        break;
+      }
+      case 'url': {
+        if (attachment.type === 'text') {
+          errors.push(`${label}: text attachments cannot be provided by url`);
+          break;
+        }
+        if (!source.url || !/^https?:\/\//.test(source.url)) {
+          errors.push(`${label}.source.url must be an http(s) URL`);
+        }
+        break;
+      }
+      case 'file': {
+        if (!source.fileId || typeof source.fileId !== 'string') {
+          errors.push(`${label}.source.fileId is required for file sources`);
+        }
+        break;
+      }
+      default:
+        errors.push(`${label}.source.type must be one of: base64, url, file`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Content block for an attachment. File sources use the Files API block
+ * shapes, which only the beta block types include.
+ */
+export type AttachmentBlock = ImageBlockParam | DocumentBlockParam | BetaImageBlockParam | BetaRequestDocumentBlock;
+
+/**
+ * Convert an attachment into an Anthropic API content block.
+ * File sources use the Files API block shape (`{ type: 'file', file_id }`).
+ */
+export function toContentBlock(attachment: Attachment): AttachmentBlock {
+  const { source } = attachment;
+  const title = attachment.filename ? { title: attachment.filename } : {};
+
+  if (source.type === 'file') {
+    if (attachment.type === 'image') {
+      const fileSource: BetaFileImageSource = { type: 'file', file_id: source.fileId! };
+      return { type: 'image', source: fileSource };
+    }
+    const fileSource: BetaFileDocumentSource = { type: 'file', file_id: source.fileId! };
+    return { type: 'document', source: fileSource, ...title };
+  }
+
+  if (attachment.type === 'image') {
+    const imageSource: Base64ImageSource | URLImageSource = source.type === 'url'
+      ? { type: 'url', url: source.url! }
+      : {
+          type: 'base64',
+          media_type: attachment.mediaType as Base64ImageSource['media_type'],
+          data: source.data!,
+        };
+    return { type: 'image', source: imageSource };
+  }
+
+  if (attachment.type === 'document') {
+    const documentSource: Base64PDFSource | URLPDFSource = source.type === 'url'
+      ? { type: 'url', url: source.url! }
+      : { type: 'base64', media_type: 'application/pdf', data: source.data! };
+    return { type: 'document', source: documentSource, ...title };
+  }
+
+  // Text attachments are decoded and sent as plain-text documents
+  const textSource: PlainTextSource = {
+    type: 'text',
+    media_type: 'text/plain',
+    data: Buffer.from(source.data ?? '', 'base64').toString('utf-8'),
+  };
+  return { type: 'document', source: textSource, ...title };
+}
+
+/**
+ * Build the `prompt` argument for `query()`.
+ * Without attachments the plain string is used; otherwise a single multimodal
+ * user message is streamed containing the attachments followed by the text.
+ */
+export function buildPromptInput(
+  text: string,
+  attachments?: Attachment[],
+): string | AsyncIterable<SDKUserMessage> {
+  if (!attachments || attachments.length === 0) {
+    return text;
+  }
+
+  const message: SDKUserMessage = {
+    type: 'user',
+    message: {
+      role: 'user',
+      // The CLI forwards Files API blocks, which the stable message type does not include
+      content: [...attachments.map((a) => toContentBlock(a) as ContentBlockParam), { type: 'text', text }],
+    },
+    parent_tool_use_id: null,
+    session_id: '',
+  };
+
+  return (async function* () {
+    yield message;
+  })();
+}
+
+function maxBytesFor(type: Attachment['type'], limits: AttachmentLimits): number {
+  switch (type) {
+    case 'image':
+      return limits.maxImageBytes;
+    case 'document':
+      return limits.maxDocumentBytes;
+    default:
+      return limits.maxTextBytes;
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { renderCommandPrompt, splitCommandArguments, substituteCommandArguments } from './command-prompt.js';
+
+describe('command prompts', () => {
+  it('should split arguments on whitespace, keeping quoted text together', () => {
+    expect(splitCommandArguments(`123 high "fix the login bug" 'a b'`)).toEqual(['123', 'high', 'fix the login bug', 'a b']);
+    expect(splitCommandArguments('  ')).toEqual([]);
+  });
+
+  it('should substitute $ARGUMENTS and positional arguments', () => {
+    expect(substituteCommandArguments('Fix issue #$ARGUMENTS following our standards', '123 urgent'))
+      .toBe('Fix issue #123 urgent following our standards');
+    expect(substituteCommandArguments('Review PR #$1 with priority $2 and assign to $3', '456 high "Ana B"'))
+      .toBe('Review PR #456 with priority high and assign to Ana B');
+    expect(substituteCommandArguments('Deploy $1 to $2', 'api')).toBe('Deploy api to ');
+  });
+
+  it('should append arguments to a body without placeholders', () => {
+    expect(substituteCommandArguments('Summarize the changes', 'since v1.2')).toBe('Summarize the changes\n\nARGUMENTS: since v1.2');
+    expect(substituteCommandArguments('Summarize the changes')).toBe('Summarize the changes');
+  });
+
+  describe('file references', () => {
+    let cwd: string;
+
+    beforeEach(async () => {
+      cwd = await fs.mkdtemp(path.join(os.tmpdir(), 'command-prompt-'));
+      await fs.mkdir(path.join(cwd, 'src'));
+      await fs.writeFile(path.join(cwd, 'src', 'app.ts'), 'export const app = 1;');
+    });
+
+    afterEach(async () => {
+      await fs.rm(cwd, { recursive: true, force: true });
+    });
+
+    it('should append the contents of files the body references once', async () => {
+      const prompt = await renderCommandPrompt('Review @src/app.ts. Compare with @src/app.ts and @src/missing.ts', undefined, cwd);
+
+      expect(prompt).toBe(
+        'Review @src/app.ts. Compare with @src/app.ts and @src/missing.ts\n\n'
+        + '<file path="src/app.ts">\nexport const app = 1;\n</file>',
+      );
+    });
+
+    it('should not resolve references in the arguments', async () => {
+      await fs.writeFile(path.join(cwd, '.env'), 'API_KEY=secret');
+
+      expect(await renderCommandPrompt('Explain $ARGUMENTS', '@.env and @src/app.ts', cwd)).toBe('Explain @.env and @src/app.ts');
+      expect(await renderCommandPrompt('Explain the config', '@.env', cwd)).toBe('Explain the config\n\nARGUMENTS: @.env');
+    });
+
+    it('should leave references outside the working directory as written', async () => {
+      const outside = path.join(path.dirname(cwd), `${path.basename(cwd)}-secret.txt`);
+      await fs.writeFile(outside, 'secret');
+
+      try {
+        const text = `Read @../${path.basename(outside)} and @${outside} and @src and me@example.com`;
+        expect(await renderCommandPrompt(text, undefined, cwd)).toBe(text);
+      } finally {
+        await fs.rm(outside, { force: true });
+      }
+    });
+  });
+});
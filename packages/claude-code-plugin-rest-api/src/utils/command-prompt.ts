@@ -0,0 +1,96 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+const ARGUMENT_PATTERN = /\$(?:ARGUMENTS\b|([1-9][0-9]*))/g;
+
+/** `@path` at the start of the text or after whitespace */
+const FILE_REFERENCE_PATTERN = /(^|\s)@([^\s@]+)/g;
+
+/** Largest file included for an `@path` reference */
+const MAX_FILE_REFERENCE_BYTES = 256 * 1024;
+
+/**
+ * Split command arguments into positional arguments like a shell does:
+ * on whitespace, keeping single- or double-quoted text together
+ */
+export function splitCommandArguments(args: string): string[] {
+  const positional: string[] = [];
+  const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(args)) !== null) {
+    positional.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return positional;
+}
+
+/**
+ * Substitute `$ARGUMENTS` (all arguments) and `$1..$n` (positional arguments)
+ * in a command body, as Claude Code does. A body without placeholders gets
+ * the arguments appended as `ARGUMENTS: ...`.
+ */
+export function substituteCommandArguments(body: string, args = ''): string {
+  const positional = splitCommandArguments(args);
+  let substituted = false;
+
+  const prompt = body.replace(ARGUMENT_PATTERN, (_match, index: string | undefined) => {
+    substituted = true;
+    return index === undefined ? args : positional[Number(index) - 1] ?? '';
+  });
+
+  if (!substituted && args.trim()) {
+    return `${prompt}\n\nARGUMENTS: ${args}`;
+  }
+  return prompt;
+}
+
+/**
+ * A command body as the prompt, as Claude Code runs slash commands: arguments
+ * substituted, and the files the body references as `@path` appended.
+ * Arguments are plain text; `@path` in them is never resolved, so callers
+ * cannot have server files read into the prompt.
+ */
+export async function renderCommandPrompt(body: string, args: string | undefined, cwd: string): Promise<string> {
+  const files = await readFileReferences(body, cwd);
+  const prompt = substituteCommandArguments(body, args);
+  return files.length > 0 ? `${prompt}\n\n${files.join('\n\n')}` : prompt;
+}
+
+/**
+ * `<file path="...">` blocks for the files referenced as `@path` in a command
+ * body. Paths are relative to `cwd`; references outside it, to directories or
+ * to missing files are skipped.
+ */
+async function readFileReferences(body: string, cwd: string): Promise<string[]> {
+  const root = await fs.realpath(cwd).catch(() => path.resolve(cwd));
+  const included = new Set<string>();
+  const files: string[] = [];
+
+  for (const [, , reference] of body.matchAll(FILE_REFERENCE_PATTERN)) {
+    // Trailing punctuation belongs to the sentence, not the path
+    const relativePath = reference.replace(/[.,;:!?)\]]+$/, '');
+    const content = await readReferencedFile(root, relativePath);
+    if (content !== undefined && !included.has(relativePath)) {
+      included.add(relativePath);
+      files.push(`<file path="${relativePath}">\n${content}\n</file>`);
+    }
+  }
+
+  return files;
+}
+
+async function readReferencedFile(root: string, relativePath: string): Promise<string | undefined> {
+  try {
+    const filePath = await fs.realpath(path.resolve(root, relativePath));
+    const relative = path.relative(root, filePath);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      return undefined;
+    }
+    const stats = await fs.stat(filePath);
+    if (!stats.isFile() || stats.size > MAX_FILE_REFERENCE_BYTES) {
+      return undefined;
+    }
+    return await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
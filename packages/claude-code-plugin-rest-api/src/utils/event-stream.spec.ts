@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Observable, Subject, of } from 'rxjs';
+import type { Response } from 'express';
+import { acceptsEventStream, createEventStream } from './event-stream.js';
+import type { SseMessage } from '../types/sse.types.js';
+
+function mockResponse() {
+  return {
+    status: vi.fn(),
+    setHeader: vi.fn(),
+  } as unknown as Response & { status: ReturnType<typeof vi.fn>; setHeader: ReturnType<typeof vi.fn> };
+}
+
+async function readAll(stream: NodeJS.ReadableStream): Promise<string> {
+  let text = '';
+  for await (const chunk of stream) {
+    text += chunk.toString();
+  }
+  return text;
+}
+
+describe('event-stream', () => {
+  describe('acceptsEventStream', () => {
+    it('should detect text/event-stream in the Accept header', () => {
+      expect(acceptsEventStream('text/event-stream')).toBe(true);
+      expect(acceptsEventStream('application/json, text/event-stream;q=0.9')).toBe(true);
+      expect(acceptsEventStream('application/json')).toBe(false);
+      expect(acceptsEventStream(undefined)).toBe(false);
+    });
+  });
+
+  describe('createEventStream', () => {
+    it('should write messages in the SSE wire format', async () => {
+      const res = mockResponse();
+      const messages: Observable<SseMessage> = of(
+        { data: { type: 'delta', content: 'Hello', timestamp: 1 } },
+        { data: { type: 'complete', result: { success: true }, timestamp: 2 } },
+      );
+
+      const file = createEventStream(res, messages);
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(file.getHeaders().type).toBe('text/event-stream');
+      expect(await readAll(file.getStream())).toBe(
+        'data: {"type":"delta","content":"Hello","timestamp":1}\n\n' +
+        'data: {"type":"complete","result":{"success":true},"timestamp":2}\n\n',
+      );
+    });
+
+    it('should unsubscribe when the response stream is destroyed', () => {
+      const source = new Subject<SseMessage>();
+
+      const file = createEventStream(mockResponse(), source);
+      expect(source.observed).toBe(true);
+
+      file.getStream().destroy();
+      expect(source.observed).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { HttpStatus, StreamableFile } from '@nestjs/common';
+import type { Response } from 'express';
+import { Observable, Subscription } from 'rxjs';
+import { Readable } from 'stream';
+import { SseMessage } from '../types/sse.types.js';
+import { serializeSseMessage } from './sse-events.js';
+
+/**
+ * Whether a request asked for a text/event-stream response
+ */
+export function acceptsEventStream(accept: string | undefined): boolean {
+  return accept?.includes('text/event-stream') ?? false;
+}
+
+/**
+ * Respond to the current request with an SSE stream (single-request streaming).
+ * The messages are subscribed immediately; when the client disconnects the
+ * subscription is dropped, which aborts the execution.
+ */
+export function createEventStream(res: Response, messages: Observable<SseMessage>): StreamableFile {
+  res.status(HttpStatus.OK);
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+
+  let subscription: Subscription | undefined;
+  const stream = new Readable({
+    read() {},
+    destroy(error, callback) {
+      subscription?.unsubscribe();
+      callback(error);
+    },
+  });
+
+  subscription = messages.subscribe({
+    next: (message) => stream.push(serializeSseMessage(message)),
+    complete: () => stream.push(null),
+  });
+
+  return new StreamableFile(stream, { type: 'text/event-stream' });
+}
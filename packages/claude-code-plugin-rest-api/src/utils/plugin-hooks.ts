@@ -0,0 +1,208 @@
+import { spawn } from 'child_process';
+import type {
+  HookCallback,
+  HookCallbackMatcher,
+  HookEvent,
+  HookInput,
+  HookJSONOutput,
+  SyncHookJSONOutput,
+} from '@anthropic-ai/claude-agent-sdk';
+import { HookFailure, PluginCommandHook, PluginHooks } from '../types/plugin.types.js';
+
+export const DEFAULT_HOOK_TIMEOUT_SECONDS = 60;
+
+/** Longest stderr kept in a failure or block reason */
+const MAX_OUTPUT_LENGTH = 4000;
+
+export interface CommandHookOutcome {
+  /** Unset when the command did not exit by itself */
+  exitCode?: number;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  /** The command could not be started, or was killed by a signal */
+  error?: string;
+}
+
+export interface CommandHookContext {
+  pluginRoot: string;
+  /** Working directory of the execution (CLAUDE_PROJECT_DIR) */
+  cwd: string;
+  timeoutSeconds: number;
+  onFailure: (failure: HookFailure) => void;
+}
+
+/**
+ * Whether an allowlist pattern matches a hook command; `*` matches any characters
+ */
+export function matchesHookCommand(pattern: string, command: string): boolean {
+  const regex = pattern.split('*').map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${regex}$`).test(command);
+}
+
+/**
+ * Run a hook command through the shell with the hook input on stdin.
+ * The command (and anything it started) is killed on timeout or abort.
+ */
+export function runCommandHook(
+  command: string,
+  input: unknown,
+  options: { pluginRoot: string; cwd: string; timeoutMs: number; signal?: AbortSignal },
+): Promise<CommandHookOutcome> {
+  return new Promise((resolve) => {
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    let settled = false;
+
+    const child = spawn(command, {
+      shell: true,
+      cwd: options.cwd,
+      env: { ...process.env, CLAUDE_PLUGIN_ROOT: options.pluginRoot, CLAUDE_PROJECT_DIR: options.cwd },
+      // Own process group, so the whole group can be killed
+      detached: process.platform !== 'win32',
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    const kill = () => {
+      try {
+        if (child.pid !== undefined && process.platform !== 'win32') {
+          process.kill(-child.pid, 'SIGKILL');
+        } else {
+          child.kill('SIGKILL');
+        }
+      } catch {
+        // Already exited
+      }
+    };
+    const timer = setTimeout(() => {
+      timedOut = true;
+      kill();
+    }, options.timeoutMs);
+    options.signal?.addEventListener('abort', kill, { once: true });
+
+    const finish = (outcome: Omit<CommandHookOutcome, 'stdout' | 'stderr' | 'timedOut'>) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', kill);
+      resolve({ ...outcome, stdout, stderr, timedOut });
+    };
+
+    child.stdout.on('data', (chunk: Buffer) => { stdout += chunk.toString(); });
+    child.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+    child.on('error', (error) => finish({ error: error.message }));
+    child.on('close', (code, signal) => finish(
+      code === null ? { error: `Killed by ${signal}` } : { exitCode: code },
+    ));
+
+    // Commands that ignore stdin may close it before the input is written
+    child.stdin.on('error', () => undefined);
+    child.stdin.end(JSON.stringify(input));
+  });
+}
+
+/**
+ * SDK hook callback running a plugin command hook
+ */
+export function toCommandHookCallback(
+  event: HookEvent,
+  hook: PluginCommandHook,
+  context: CommandHookContext,
+): HookCallback {
+  const timeoutSeconds = hook.timeout ?? context.timeoutSeconds;
+
+  return async (input: HookInput, _toolUseId, { signal }): Promise<HookJSONOutput> => {
+    const outcome = await runCommandHook(hook.command, input, {
+      pluginRoot: context.pluginRoot,
+      cwd: context.cwd,
+      timeoutMs: timeoutSeconds * 1000,
+      signal,
+    });
+    if (signal.aborted) {
+      return {};
+    }
+
+    const stderr = outcome.stderr.trim().slice(0, MAX_OUTPUT_LENGTH);
+    if (outcome.exitCode === 0) {
+      return parseHookOutput(input, outcome.stdout);
+    }
+    if (outcome.exitCode === 2) {
+      return blockingOutput(input, stderr || `Blocked by hook: ${hook.command}`);
+    }
+
+    context.onFailure({
+      event,
+      command: hook.command,
+      toolName: (input as { tool_name?: string }).tool_name,
+      exitCode: outcome.exitCode,
+      error: outcome.timedOut
+        ? `Timed out after ${timeoutSeconds}s`
+        : outcome.error ?? (stderr || `Exited with code ${outcome.exitCode}`),
+    });
+    return {};
+  };
+}
+
+/**
+ * SDK `hooks` option for a plugin's hooks
+ */
+export function toSdkHooks(
+  hooks: PluginHooks,
+  context: CommandHookContext,
+): Partial<Record<HookEvent, HookCallbackMatcher[]>> {
+  const sdkHooks: Partial<Record<HookEvent, HookCallbackMatcher[]>> = {};
+
+  for (const [event, matchers] of Object.entries(hooks) as [HookEvent, PluginHooks[HookEvent]][]) {
+    const sdkMatchers = (matchers ?? [])
+      .filter((matcher) => matcher.hooks.length > 0)
+      .map((matcher) => ({
+        matcher: matcher.matcher,
+        hooks: matcher.hooks.map((hook) => toCommandHookCallback(event, hook, context)),
+        // Outlast the commands' own timeouts so they are reported as hook failures
+        timeout: Math.max(...matcher.hooks.map((hook) => hook.timeout ?? context.timeoutSeconds)) + 5,
+      }));
+    if (sdkMatchers.length > 0) {
+      sdkHooks[event] = sdkMatchers;
+    }
+  }
+
+  return sdkHooks;
+}
+
+/**
+ * Output of a successful hook: JSON on stdout, or plain stdout as added
+ * context for the events that accept it
+ */
+function parseHookOutput(input: HookInput, stdout: string): HookJSONOutput {
+  const text = stdout.trim();
+  if (text.startsWith('{')) {
+    try {
+      return JSON.parse(text) as HookJSONOutput;
+    } catch {
+      // Not JSON after all; treated as plain output
+    }
+  }
+  if (text && (input.hook_event_name === 'UserPromptSubmit' || input.hook_event_name === 'SessionStart')) {
+    return { hookSpecificOutput: { hookEventName: input.hook_event_name, additionalContext: text } };
+  }
+  return {};
+}
+
+/**
+ * Exit code 2: deny the tool call for PreToolUse, block otherwise
+ */
+function blockingOutput(input: HookInput, reason: string): SyncHookJSONOutput {
+  if (input.hook_event_name === 'PreToolUse') {
+    return {
+      hookSpecificOutput: {
+        hookEventName: 'PreToolUse',
+        permissionDecision: 'deny',
+        permissionDecisionReason: reason,
+      },
+    };
+  }
+  return { decision: 'block', reason };
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { applyPluginPolicy } from './plugin-policy.js';
+
+describe('applyPluginPolicy', () => {
+  it('should pass frontmatter settings through without a policy', () => {
+    const { settings, reductions } = applyPluginPolicy({
+      model: 'opus',
+      permissionMode: 'default',
+      allowedTools: ['Read', 'Edit'],
+      disallowedTools: ['Bash'],
+      maxTurns: 80,
+      maxThinkingTokens: 4000,
+      outputFormat: { type: 'json_schema', schema: { type: 'object' } },
+    });
+
+    expect(settings).toEqual({
+      model: 'opus',
+      permissionMode: 'default',
+      allowedTools: ['Read', 'Edit'],
+      disallowedTools: ['Bash'],
+      maxTurns: 80,
+      maxThinkingTokens: 4000,
+      outputFormat: { type: 'json_schema', schema: { type: 'object' } },
+    });
+    expect(reductions).toEqual([]);
+  });
+
+  it('should run in default mode unless the policy allows others', () => {
+    expect(applyPluginPolicy({}).settings.permissionMode).toBe('default');
+
+    const { settings, reductions } = applyPluginPolicy({ permissionMode: 'acceptEdits' });
+    expect(settings.permissionMode).toBe('default');
+    expect(reductions).toEqual(["permissionMode 'acceptEdits' is not allowed, using 'default'"]);
+
+    expect(applyPluginPolicy(
+      { permissionMode: 'acceptEdits' },
+      { allowedPermissionModes: ['default', 'acceptEdits'] },
+    ).settings.permissionMode).toBe('acceptEdits');
+
+    expect(applyPluginPolicy(
+      { permissionMode: 'bypassPermissions' },
+      { allowedPermissionModes: ['default', 'bypassPermissions'] },
+    ).settings.permissionMode).toBe('bypassPermissions');
+  });
+
+  it('should fall back to read-only tools unless the policy widens them', () => {
+    expect(applyPluginPolicy({}).settings.allowedTools).toEqual(['Read', 'Glob', 'Grep']);
+    expect(applyPluginPolicy({ allowedTools: [] }).settings.allowedTools).toEqual(['Read', 'Glob', 'Grep']);
+    expect(applyPluginPolicy({}, { defaultTools: ['Read', 'Edit'] }).settings.allowedTools).toEqual(['Read', 'Edit']);
+    expect(applyPluginPolicy({ allowedTools: ['Bash'] }, { defaultTools: ['Read'] }).settings.allowedTools).toEqual(['Bash']);
+  });
+
+  it('should reduce requests to the policy caps', () => {
+    const { settings, reductions } = applyPluginPolicy(
+      {
+        model: 'opus',
+        disallowedTools: ['WebFetch'],
+        maxTurns: 200,
+        maxThinkingTokens: 32000,
+        outputFormat: { type: 'json_schema', schema: {} },
+      },
+      {
+        allowedModels: ['sonnet', 'haiku'],
+        defaultModel: 'sonnet',
+        disallowedTools: ['Bash', 'WebFetch'],
+        maxTurns: 20,
+        maxThinkingTokens: 8000,
+        allowOutputFormat: false,
+      },
+    );
+
+    expect(settings).toEqual({
+      model: 'sonnet',
+      permissionMode: 'default',
+      allowedTools: ['Read', 'Glob', 'Grep'],
+      disallowedTools: ['WebFetch', 'Bash'],
+      maxTurns: 20,
+      maxThinkingTokens: 8000,
+      outputFormat: undefined,
+    });
+    expect(reductions).toEqual([
+      "model 'opus' is not allowed",
+      'maxTurns 200 exceeds the limit of 20',
+      'maxThinkingTokens 32000 exceeds the limit of 8000',
+      'outputFormat is not allowed',
+    ]);
+  });
+
+  it('should treat inherit as no model and apply caps when nothing is requested', () => {
+    const { settings, reductions } = applyPluginPolicy({ model: 'inherit' }, { defaultModel: 'haiku', maxTurns: 10 });
+
+    expect(settings.model).toBe('haiku');
+    expect(settings.maxTurns).toBe(10);
+    expect(settings.maxThinkingTokens).toBeUndefined();
+    expect(reductions).toEqual([]);
+  });
+});
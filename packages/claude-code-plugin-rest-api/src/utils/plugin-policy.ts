@@ -0,0 +1,76 @@
+import type { PermissionMode } from '@anthropic-ai/claude-agent-sdk';
+import { PluginExecutionSettings, PluginPolicy } from '../types/plugin.types.js';
+
+/** Permission modes plugins may request unless `pluginPolicy.allowedPermissionModes` says otherwise */
+export const DEFAULT_PLUGIN_PERMISSION_MODES: PermissionMode[] = ['default'];
+
+/** Tools of plugin commands, agents and skills without `tools` unless `pluginPolicy.defaultTools` says otherwise */
+export const DEFAULT_PLUGIN_TOOLS = ['Read', 'Glob', 'Grep'];
+
+export interface AppliedPluginPolicy {
+  settings: PluginExecutionSettings & { permissionMode: PermissionMode; allowedTools: string[] };
+  /** What was reduced and why, for logging */
+  reductions: string[];
+}
+
+/**
+ * Reduce requested plugin settings to what the policy allows
+ */
+export function applyPluginPolicy(
+  requested: PluginExecutionSettings & { allowedTools?: string[] },
+  policy: PluginPolicy = {},
+): AppliedPluginPolicy {
+  const reductions: string[] = [];
+
+  let model = requested.model === 'inherit' ? undefined : requested.model;
+  if (model && policy.allowedModels && !policy.allowedModels.includes(model)) {
+    reductions.push(`model '${model}' is not allowed`);
+    model = undefined;
+  }
+
+  let permissionMode = requested.permissionMode ?? 'default';
+  const allowedModes = policy.allowedPermissionModes ?? DEFAULT_PLUGIN_PERMISSION_MODES;
+  if (!allowedModes.includes(permissionMode)) {
+    reductions.push(`permissionMode '${permissionMode}' is not allowed, using 'default'`);
+    permissionMode = 'default';
+  }
+
+  const allowedTools = requested.allowedTools?.length
+    ? requested.allowedTools
+    : policy.defaultTools ?? DEFAULT_PLUGIN_TOOLS;
+  const disallowedTools = [...new Set([...(requested.disallowedTools ?? []), ...(policy.disallowedTools ?? [])])];
+
+  const maxTurns = cap('maxTurns', requested.maxTurns, policy.maxTurns, reductions);
+  const maxThinkingTokens = requested.maxThinkingTokens === undefined
+    ? undefined
+    : cap('maxThinkingTokens', requested.maxThinkingTokens, policy.maxThinkingTokens, reductions);
+
+  let outputFormat = requested.outputFormat;
+  if (outputFormat && policy.allowOutputFormat === false) {
+    reductions.push('outputFormat is not allowed');
+    outputFormat = undefined;
+  }
+
+  return {
+    settings: {
+      model: model ?? policy.defaultModel,
+      permissionMode,
+      allowedTools,
+      disallowedTools: disallowedTools.length > 0 ? disallowedTools : undefined,
+      maxTurns,
+      maxThinkingTokens,
+      outputFormat,
+    },
+    reductions,
+  };
+}
+
+function cap(name: string, value: number | undefined, limit: number | undefined, reductions: string[]) {
+  if (limit === undefined || (value !== undefined && value <= limit)) {
+    return value;
+  }
+  if (value !== undefined) {
+    reductions.push(`${name} ${value} exceeds the limit of ${limit}`);
+  }
+  return limit;
+}
@@ -0,0 +1,51 @@
+const VARIABLE_PATTERN = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+/**
+ * Expand `${CLAUDE_PLUGIN_ROOT}`, `${VAR}` and `${VAR:-default}` in plugin
+ * configuration, as Claude Code does. Variables that are unset and have no
+ * default expand to an empty string and are reported through `onMissing`.
+ */
+export function expandPluginVariables(
+  text: string,
+  pluginRoot: string,
+  env: NodeJS.ProcessEnv = process.env,
+  onMissing?: (name: string) => void,
+): string {
+  return text.replace(VARIABLE_PATTERN, (_match, name: string, fallback: string | undefined) => {
+    if (name === 'CLAUDE_PLUGIN_ROOT') {
+      return pluginRoot;
+    }
+    const value = env[name];
+    if (value !== undefined && value !== '') {
+      return value;
+    }
+    if (fallback !== undefined) {
+      return fallback;
+    }
+    onMissing?.(name);
+    return '';
+  });
+}
+
+/**
+ * Expand variables in every string of a JSON value
+ */
+export function expandPluginVariablesDeep<T>(
+  value: T,
+  pluginRoot: string,
+  env: NodeJS.ProcessEnv = process.env,
+  onMissing?: (name: string) => void,
+): T {
+  if (typeof value === 'string') {
+    return expandPluginVariables(value, pluginRoot, env, onMissing) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => expandPluginVariablesDeep(item, pluginRoot, env, onMissing)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, expandPluginVariablesDeep(item, pluginRoot, env, onMissing)]),
+    ) as T;
+  }
+  return value;
+}
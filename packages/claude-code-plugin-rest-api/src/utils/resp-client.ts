@@ -0,0 +1,258 @@
+import { connect as netConnect, Socket } from 'net';
+import { connect as tlsConnect } from 'tls';
+
+/** A RESP2 reply; error replies nested in arrays are kept as RespError values */
+export type RespValue = string | number | null | RespError | RespValue[];
+
+/** Error reply from the server (e.g. `WRONGTYPE ...`) */
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RespError';
+  }
+}
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ */
+export function encodeCommand(args: Array<string | number>): Buffer {
+  let encoded = `*${args.length}\r\n`;
+  for (const arg of args) {
+    const value = String(arg);
+    encoded += `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+  }
+  return Buffer.from(encoded);
+}
+
+/**
+ * Parse one RESP2 reply starting at `offset`
+ * @returns the reply and the offset after it, or undefined if the buffer holds an incomplete reply
+ */
+export function parseReply(buffer: Buffer, offset = 0): { value: RespValue; offset: number } | undefined {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) {
+    return undefined;
+  }
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf-8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      return { value: new RespError(line), offset: next };
+    case ':':
+      return { value: Number(line), offset: next };
+    case '$': {
+      const length = Number(line);
+      if (length < 0) {
+        return { value: null, offset: next };
+      }
+      if (buffer.length < next + length + 2) {
+        return undefined;
+      }
+      return { value: buffer.toString('utf-8', next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count < 0) {
+        return { value: null, offset: next };
+      }
+      const items: RespValue[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position);
+        if (!item) {
+          return undefined;
+        }
+        items.push(item.value);
+        position = item.offset;
+      }
+      return { value: items, offset: position };
+    }
+    default:
+      throw new RespError(`Unexpected RESP reply type '${type}'`);
+  }
+}
+
+interface PendingReply {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+}
+
+export interface RespClientOptions {
+  /**
+   * How long to wait for the connection (including AUTH and SELECT)
+   * @default 5000
+   */
+  connectTimeoutMs?: number;
+
+  /**
+   * How long to wait for a command's reply. A timeout closes the connection,
+   * failing the other pending commands, since later replies could no longer
+   * be matched to their commands.
+   * @default 5000
+   */
+  commandTimeoutMs?: number;
+
+  /** Opens the socket (defaults to `net.connect`, or `tls.connect` for `rediss://`) */
+  createSocket?: (options: { host: string; port: number; secure: boolean }) => Socket;
+}
+
+/**
+ * Minimal client for the Redis protocol (RESP2), enough for the built-in stores.
+ * Connects lazily to a `redis://` or `rediss://` URL, authenticating with the URL
+ * credentials and selecting the database given in its path. Commands are
+ * pipelined over a single connection; a dropped connection is re-opened on the
+ * next command. Connecting and every command are bounded by timeouts, so an
+ * unreachable or stalled server fails requests instead of hanging them.
+ */
+export class RespClient {
+  private socket?: Socket;
+  private connecting?: Promise<Socket>;
+  private pending: PendingReply[] = [];
+  private buffer = Buffer.alloc(0);
+  private readonly connectTimeoutMs: number;
+  private readonly commandTimeoutMs: number;
+  private readonly createSocket: NonNullable<RespClientOptions['createSocket']>;
+
+  constructor(private readonly url: string, options: RespClientOptions = {}) {
+    this.connectTimeoutMs = options.connectTimeoutMs ?? 5000;
+    this.commandTimeoutMs = options.commandTimeoutMs ?? 5000;
+    this.createSocket = options.createSocket ?? (({ host, port, secure }) => (
+      secure ? tlsConnect({ host, port, servername: host }) : netConnect({ host, port })
+    ));
+  }
+
+  /**
+   * Send a command and resolve with its reply
+   * @throws RespError for error replies
+   */
+  async command(...args: Array<string | number>): Promise<RespValue> {
+    const socket = await this.connection();
+    return this.send(socket, args);
+  }
+
+  /**
+   * Close the connection; pending commands are rejected
+   */
+  close(): void {
+    this.socket?.end();
+    this.socket = undefined;
+    this.failPending(new Error('Redis connection closed'));
+  }
+
+  private connection(): Promise<Socket> {
+    if (this.socket && !this.socket.destroyed) {
+      return Promise.resolve(this.socket);
+    }
+    this.connecting ??= this.open().finally(() => {
+      this.connecting = undefined;
+    });
+    return this.connecting;
+  }
+
+  private async open(): Promise<Socket> {
+    const url = new URL(this.url);
+    const host = url.hostname || 'localhost';
+    const port = Number(url.port || 6379);
+    const secure = url.protocol === 'rediss:';
+
+    const socket = this.createSocket({ host, port, secure });
+    const deadline = Date.now() + this.connectTimeoutMs;
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new Error(`Redis connection to ${host}:${port} timed out after ${this.connectTimeoutMs}ms`));
+      }, this.connectTimeoutMs);
+      socket.once(secure ? 'secureConnect' : 'connect', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      socket.once('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+
+    // Detects peers that went away without closing the connection
+    socket.setKeepAlive(true, 10 * 1000);
+    this.buffer = Buffer.alloc(0);
+    socket.on('data', (chunk: Buffer) => this.onData(socket, chunk));
+    socket.on('error', (error) => this.failPending(error));
+    socket.on('close', () => {
+      this.failPending(new Error('Redis connection closed'));
+      if (this.socket === socket) {
+        this.socket = undefined;
+      }
+    });
+
+    try {
+      if (url.password) {
+        const password = decodeURIComponent(url.password);
+        const auth = url.username ? ['AUTH', decodeURIComponent(url.username), password] : ['AUTH', password];
+        await this.send(socket, auth, deadline - Date.now());
+      }
+      const db = url.pathname.slice(1);
+      if (db && db !== '0') {
+        await this.send(socket, ['SELECT', db], deadline - Date.now());
+      }
+    } catch (error) {
+      socket.destroy();
+      throw error;
+    }
+
+    this.socket = socket;
+    return socket;
+  }
+
+  private send(socket: Socket, args: Array<string | number>, timeoutMs = this.commandTimeoutMs): Promise<RespValue> {
+    return new Promise<RespValue>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        // Fails this and every other pending command
+        socket.destroy(new Error(`Redis command ${args[0]} timed out after ${Math.max(timeoutMs, 0)}ms`));
+      }, Math.max(timeoutMs, 0));
+      this.pending.push({
+        resolve: (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private onData(socket: Socket, chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    let parsed: ReturnType<typeof parseReply>;
+    try {
+      while ((parsed = parseReply(this.buffer)) !== undefined) {
+        this.buffer = this.buffer.subarray(parsed.offset);
+        const reply = this.pending.shift();
+        if (parsed.value instanceof RespError) {
+          reply?.reject(parsed.value);
+        } else {
+          reply?.resolve(parsed.value);
+        }
+      }
+    } catch (error) {
+      // Unparseable stream: the connection can't be trusted any more
+      socket.destroy(error as Error);
+    }
+  }
+
+  private failPending(error: Error): void {
+    const pending = this.pending;
+    this.pending = [];
+    for (const reply of pending) {
+      reply.reject(error);
+    }
+  }
+}
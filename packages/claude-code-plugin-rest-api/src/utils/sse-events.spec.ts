@@ -0,0 +1,248 @@
+import { describe, it, expect } from 'vitest';
+import { firstValueFrom, throwError, toArray, of } from 'rxjs';
+import {
+  formatSseEvents,
+  formatCompactEvent,
+  formatDetailedEvents,
+  formatPartialEvents,
+  isSseFormat,
+  serializeSseMessage,
+  toSseMessages,
+} from './sse-events.js';
+import { SSE_SCHEMA_VERSION } from '../types/sse.types.js';
+
+const assistantMessage = {
+  type: 'assistant',
+  uuid: 'msg-1',
+  parent_tool_use_id: null,
+  message: {
+    content: [
+      { type: 'thinking', thinking: 'Let me look at the files' },
+      { type: 'text', text: 'Checking ' },
+      { type: 'tool_use', id: 'tool-1', name: 'Read', input: { file_path: 'README.md' } },
+      { type: 'text', text: 'the readme' },
+    ],
+  },
+};
+
+const successResult = {
+  type: 'result',
+  subtype: 'success',
+  is_error: false,
+  result: 'Done',
+  total_cost_usd: 0.01,
+  num_turns: 2,
+  duration_ms: 1500,
+  session_id: 'session-1',
+  usage: { input_tokens: 100, output_tokens: 50, cache_read_input_tokens: 10 },
+};
+
+function streamEvent(delta: Record<string, unknown>, index = 0) {
+  return {
+    type: 'stream_event',
+    parent_tool_use_id: null,
+    event: { type: 'content_block_delta', index, delta },
+  };
+}
+
+describe('sse-events', () => {
+  describe('formatCompactEvent', () => {
+    it('should join assistant text into a delta', () => {
+      expect(formatCompactEvent(assistantMessage)).toMatchObject({
+        type: 'delta',
+        content: 'Checking the readme',
+      });
+    });
+
+    it('should format the result as complete', () => {
+      expect(formatCompactEvent(successResult)).toMatchObject({
+        type: 'complete',
+        result: { success: true, result: 'Done', cost: 0.01, turns: 2 },
+      });
+    });
+
+    it('should pass other messages through by type', () => {
+      const event = formatCompactEvent({ type: 'system', subtype: 'init' });
+      expect(event.type).toBe('system');
+      expect(event.timestamp).toEqual(expect.any(Number));
+    });
+  });
+
+  describe('formatDetailedEvents', () => {
+    it('should emit init with the schema version', () => {
+      const [event] = formatDetailedEvents({
+        type: 'system',
+        subtype: 'init',
+        session_id: 'session-1',
+        model: 'claude-sonnet-4-5',
+        tools: ['Read'],
+        mcp_servers: [],
+        permissionMode: 'default',
+      });
+
+      expect(event).toMatchObject({
+        type: 'init',
+        schemaVersion: SSE_SCHEMA_VERSION,
+        sessionId: 'session-1',
+        model: 'claude-sonnet-4-5',
+        tools: ['Read'],
+      });
+    });
+
+    it('should emit one event per assistant content block in order', () => {
+      const events = formatDetailedEvents(assistantMessage);
+
+      expect(events.map((e) => e.type)).toEqual(['thinking', 'delta', 'tool_call', 'delta']);
+      expect(events[2]).toMatchObject({
+        toolUseId: 'tool-1',
+        name: 'Read',
+        input: { file_path: 'README.md' },
+      });
+      expect(events[0]).not.toHaveProperty('parentToolUseId');
+    });
+
+    it('should tag subagent events with the parent tool use', () => {
+      const [event] = formatDetailedEvents({
+        type: 'assistant',
+        parent_tool_use_id: 'task-1',
+        message: { content: [{ type: 'text', text: 'from subagent' }] },
+      });
+
+      expect(event).toMatchObject({ type: 'delta', parentToolUseId: 'task-1' });
+    });
+
+    it('should emit tool results from user messages', () => {
+      const events = formatDetailedEvents({
+        type: 'user',
+        parent_tool_use_id: null,
+        message: {
+          role: 'user',
+          content: [
+            { type: 'tool_result', tool_use_id: 'tool-1', content: [{ type: 'text', text: '# Readme' }] },
+            { type: 'tool_result', tool_use_id: 'tool-2', content: 'not found', is_error: true },
+          ],
+        },
+      });
+
+      expect(events).toEqual([
+        expect.objectContaining({ type: 'tool_result', toolUseId: 'tool-1', content: '# Readme', isError: false }),
+        expect.objectContaining({ type: 'tool_result', toolUseId: 'tool-2', content: 'not found', isError: true }),
+      ]);
+    });
+
+    it('should skip replayed user messages', () => {
+      expect(formatDetailedEvents({ type: 'user', isReplay: true, message: { content: [] } })).toEqual([]);
+    });
+
+    it('should emit usage then complete for a successful result', () => {
+      const events = formatDetailedEvents(successResult);
+
+      expect(events.map((e) => e.type)).toEqual(['usage', 'complete']);
+      expect(events[0]).toMatchObject({
+        inputTokens: 100,
+        outputTokens: 50,
+        cacheReadInputTokens: 10,
+        cost: 0.01,
+        turns: 2,
+        durationMs: 1500,
+      });
+      expect(events[1]).toMatchObject({
+        result: { success: true, result: 'Done', sessionId: 'session-1' },
+      });
+    });
+
+    it('should emit an error with the result subtype for failed runs', () => {
+      const events = formatDetailedEvents({
+        type: 'result',
+        subtype: 'error_max_turns',
+        is_error: true,
+        errors: [],
+        num_turns: 5,
+        usage: { input_tokens: 1, output_tokens: 1 },
+      });
+
+      expect(events.map((e) => e.type)).toEqual(['usage', 'error', 'complete']);
+      expect(events[1]).toMatchObject({ subtype: 'error_max_turns', error: 'Execution failed (error_max_turns)' });
+      expect(events[2]).toMatchObject({ result: { success: false } });
+    });
+
+    it('should report plugin hook failures in both formats', () => {
+      const message = {
+        type: 'hook_failure',
+        event: 'PostToolUse',
+        command: 'npx prettier --write',
+        toolName: 'Edit',
+        exitCode: 1,
+        error: 'prettier not found',
+      };
+
+      expect(formatDetailedEvents(message)).toEqual([{ ...message, timestamp: expect.any(Number) }]);
+      expect(formatCompactEvent(message)).toMatchObject({
+        type: 'hook_failure',
+        error: 'PostToolUse hook failed: prettier not found',
+      });
+    });
+
+    it('should ignore messages without a detailed event', () => {
+      expect(formatDetailedEvents({ type: 'tool_progress' })).toEqual([]);
+      expect(formatDetailedEvents({ type: 'system', subtype: 'compact_boundary' })).toEqual([]);
+    });
+  });
+
+  describe('formatPartialEvents', () => {
+    it('should emit text and thinking deltas with their block index', () => {
+      expect(formatPartialEvents(streamEvent({ type: 'text_delta', text: 'Hel' }, 1))).toEqual([
+        expect.objectContaining({ type: 'text_delta', content: 'Hel', index: 1 }),
+      ]);
+      expect(formatPartialEvents(streamEvent({ type: 'thinking_delta', thinking: 'hmm' }))).toEqual([
+        expect.objectContaining({ type: 'thinking_delta', content: 'hmm', index: 0 }),
+      ]);
+    });
+
+    it('should ignore tool input deltas and block boundaries', () => {
+      expect(formatPartialEvents(streamEvent({ type: 'input_json_delta', partial_json: '{"a"' }))).toEqual([]);
+      expect(formatPartialEvents({ type: 'stream_event', event: { type: 'message_start' } })).toEqual([]);
+    });
+  });
+
+  describe('formatSseEvents', () => {
+    it('should default to the compact format', () => {
+      expect(formatSseEvents(assistantMessage)).toHaveLength(1);
+      expect(formatSseEvents(assistantMessage, 'detailed')).toHaveLength(4);
+    });
+
+    it('should forward only text deltas in the compact format', () => {
+      const thinking = streamEvent({ type: 'thinking_delta', thinking: 'hmm' });
+      const text = streamEvent({ type: 'text_delta', text: 'Hi' });
+
+      expect(formatSseEvents(thinking)).toEqual([]);
+      expect(formatSseEvents(thinking, 'detailed')).toHaveLength(1);
+      expect(formatSseEvents(text)).toEqual([expect.objectContaining({ type: 'text_delta', content: 'Hi' })]);
+    });
+  });
+
+  describe('toSseMessages', () => {
+    it('should expand messages and end a failed stream with an error event', async () => {
+      const messages = await firstValueFrom(toSseMessages(throwError(() => new Error('boom'))).pipe(toArray()));
+      expect(messages).toEqual([{ data: expect.objectContaining({ type: 'error', error: 'boom' }) }]);
+
+      const detailed = await firstValueFrom(toSseMessages(of(assistantMessage), 'detailed').pipe(toArray()));
+      expect(detailed).toHaveLength(4);
+    });
+  });
+
+  describe('serializeSseMessage', () => {
+    it('should include the id only when set', () => {
+      expect(serializeSseMessage({ data: { type: 'delta', content: 'a' } })).toBe('data: {"type":"delta","content":"a"}\n\n');
+      expect(serializeSseMessage({ id: '7', data: { type: 'delta' } })).toBe('id: 7\ndata: {"type":"delta"}\n\n');
+    });
+  });
+
+  describe('isSseFormat', () => {
+    it('should accept only known formats', () => {
+      expect(isSseFormat('compact')).toBe(true);
+      expect(isSseFormat('detailed')).toBe(true);
+      expect(isSseFormat('verbose')).toBe(false);
+    });
+  });
+});
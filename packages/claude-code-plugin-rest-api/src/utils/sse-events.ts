@@ -0,0 +1,308 @@
+import { Observable, catchError, mergeMap, of } from 'rxjs';
+import type { SDKMessage } from '../services/plugin-execution.service.js';
+import type { HookFailure } from '../types/plugin.types.js';
+import {
+  SseCompactEvent,
+  SseEvent,
+  SseFormat,
+  SseMessage,
+  SseTextDeltaEvent,
+  SseThinkingDeltaEvent,
+  SSE_FORMATS,
+  SSE_SCHEMA_VERSION,
+} from '../types/sse.types.js';
+
+interface ContentBlock {
+  type: string;
+  text?: string;
+  thinking?: string;
+  id?: string;
+  name?: string;
+  input?: unknown;
+  tool_use_id?: string;
+  content?: string | ContentBlock[];
+  is_error?: boolean;
+}
+
+/**
+ * Convert a stream of SDK messages to SSE messages of the given format.
+ * A failing stream ends with an `error` event instead of erroring.
+ */
+export function toSseMessages(messages: Observable<SDKMessage>, format?: SseFormat): Observable<SseMessage> {
+  return messages.pipe(
+    mergeMap((message) => formatSseEvents(message, format).map((data) => ({ data }))),
+    catchError((error: Error) => of<SseMessage>({
+      data: { type: 'error', error: error.message, timestamp: Date.now() },
+    })),
+  );
+}
+
+/**
+ * Serialize an SSE message in the text/event-stream wire format
+ */
+export function serializeSseMessage(message: SseMessage): string {
+  const id = message.id !== undefined ? `id: ${message.id}\n` : '';
+  return `${id}data: ${JSON.stringify(message.data)}\n\n`;
+}
+
+/**
+ * Convert an SDK message to the SSE events of the given format.
+ * Detailed messages can expand into several events (e.g. text plus tool calls).
+ */
+export function formatSseEvents(message: SDKMessage, format: SseFormat = 'compact'): Array<SseEvent | SseCompactEvent> {
+  if (message.type === 'stream_event') {
+    const events = formatPartialEvents(message);
+    // Thinking is not part of the compact format
+    return format === 'detailed' ? events : events.filter((e) => e.type === 'text_delta');
+  }
+  return format === 'detailed' ? formatDetailedEvents(message) : [formatCompactEvent(message)];
+}
+
+/**
+ * Token-level events from an SDK `stream_event` (partial messages enabled).
+ * Only text and thinking deltas are forwarded; tool input deltas and
+ * message/block boundaries are covered by the whole-message events.
+ */
+export function formatPartialEvents(message: SDKMessage): Array<SseTextDeltaEvent | SseThinkingDeltaEvent> {
+  const event = message.event as {
+    type: string;
+    index?: number;
+    delta?: { type: string; text?: string; thinking?: string };
+  } | undefined;
+
+  if (event?.type !== 'content_block_delta' || !event.delta) {
+    return [];
+  }
+
+  const base = {
+    index: event.index ?? 0,
+    timestamp: Date.now(),
+    ...(message.parent_tool_use_id ? { parentToolUseId: message.parent_tool_use_id as string } : {}),
+  };
+
+  if (event.delta.type === 'text_delta' && event.delta.text) {
+    return [{ type: 'text_delta', content: event.delta.text, ...base }];
+  }
+  if (event.delta.type === 'thinking_delta' && event.delta.thinking) {
+    return [{ type: 'thinking_delta', content: event.delta.thinking, ...base }];
+  }
+  return [];
+}
+
+/**
+ * Compact format: assistant text as `delta`, the result as `complete`
+ */
+export function formatCompactEvent(message: SDKMessage): SseCompactEvent {
+  if (message.type === 'assistant') {
+    const assistantMessage = message as {
+      type: 'assistant';
+      message: { content: Array<{ type: string; text?: string }> };
+    };
+    const text = assistantMessage.message.content
+      .filter((c) => c.type === 'text')
+      .map((c) => c.text || '')
+      .join('');
+
+    return {
+      type: 'delta',
+      content: text,
+      timestamp: Date.now(),
+    };
+  }
+
+  if (message.type === 'result') {
+    const resultMessage = message as {
+      type: 'result';
+      is_error?: boolean;
+      result?: string;
+      total_cost_usd?: number;
+      num_turns?: number;
+    };
+    return {
+      type: 'complete',
+      result: {
+        success: !resultMessage.is_error,
+        result: resultMessage.result,
+        cost: resultMessage.total_cost_usd,
+        turns: resultMessage.num_turns,
+      },
+      timestamp: Date.now(),
+    };
+  }
+
+  if (message.type === 'hook_failure') {
+    return {
+      type: 'hook_failure',
+      error: `${message.event} hook failed: ${message.error}`,
+      timestamp: Date.now(),
+    };
+  }
+
+  return {
+    type: message.type,
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * Detailed format: typed events per content block (see SseEvent)
+ */
+export function formatDetailedEvents(message: SDKMessage): SseEvent[] {
+  const timestamp = Date.now();
+  const parent = message.parent_tool_use_id
+    ? { parentToolUseId: message.parent_tool_use_id as string }
+    : {};
+
+  switch (message.type) {
+    case 'system': {
+      if (message.subtype !== 'init') {
+        return [];
+      }
+      const init = message as SDKMessage & {
+        session_id: string;
+        model?: string;
+        tools?: string[];
+        mcp_servers?: Array<{ name: string; status: string }>;
+        permissionMode?: string;
+      };
+      return [{
+        type: 'init',
+        schemaVersion: SSE_SCHEMA_VERSION,
+        sessionId: init.session_id,
+        model: init.model,
+        tools: init.tools,
+        mcpServers: init.mcp_servers,
+        permissionMode: init.permissionMode,
+        timestamp,
+      }];
+    }
+
+    case 'assistant': {
+      const blocks = (message as { message?: { content?: ContentBlock[] } }).message?.content ?? [];
+      const events: SseEvent[] = [];
+      for (const block of blocks) {
+        if (block.type === 'text' && block.text) {
+          events.push({ type: 'delta', content: block.text, timestamp, ...parent });
+        } else if (block.type === 'thinking' && block.thinking) {
+          events.push({ type: 'thinking', content: block.thinking, timestamp, ...parent });
+        } else if (block.type === 'tool_use' || block.type === 'server_tool_use') {
+          events.push({
+            type: 'tool_call',
+            toolUseId: block.id ?? '',
+            name: block.name ?? '',
+            input: block.input,
+            timestamp,
+            ...parent,
+          });
+        }
+      }
+      return events;
+    }
+
+    case 'user': {
+      if (message.isReplay) {
+        return [];
+      }
+      const content = (message as { message?: { content?: string | ContentBlock[] } }).message?.content;
+      if (!Array.isArray(content)) {
+        return [];
+      }
+      return content
+        .filter((block) => block.type === 'tool_result')
+        .map((block) => ({
+          type: 'tool_result' as const,
+          toolUseId: block.tool_use_id ?? '',
+          content: blockText(block.content),
+          isError: block.is_error ?? false,
+          timestamp,
+          ...parent,
+        }));
+    }
+
+    case 'result': {
+      const result = message as SDKMessage & {
+        subtype?: string;
+        is_error?: boolean;
+        result?: string;
+        structured_output?: unknown;
+        errors?: string[];
+        total_cost_usd?: number;
+        num_turns?: number;
+        duration_ms?: number;
+        session_id?: string;
+        usage?: {
+          input_tokens?: number;
+          output_tokens?: number;
+          cache_read_input_tokens?: number;
+          cache_creation_input_tokens?: number;
+        };
+      };
+      const events: SseEvent[] = [{
+        type: 'usage',
+        inputTokens: result.usage?.input_tokens || 0,
+        outputTokens: result.usage?.output_tokens || 0,
+        cacheReadInputTokens: result.usage?.cache_read_input_tokens,
+        cacheCreationInputTokens: result.usage?.cache_creation_input_tokens,
+        cost: result.total_cost_usd,
+        turns: result.num_turns,
+        durationMs: result.duration_ms,
+        timestamp,
+      }];
+
+      if (result.is_error) {
+        events.push({
+          type: 'error',
+          error: result.errors?.join('; ') || result.result || `Execution failed (${result.subtype})`,
+          subtype: result.subtype,
+          errors: result.errors,
+          timestamp,
+        });
+      }
+
+      events.push({
+        type: 'complete',
+        result: {
+          success: !result.is_error,
+          result: result.result,
+          structuredOutput: result.structured_output,
+          cost: result.total_cost_usd,
+          turns: result.num_turns,
+          sessionId: result.session_id,
+        },
+        timestamp,
+      });
+      return events;
+    }
+
+    case 'hook_failure': {
+      const failure = message as SDKMessage & HookFailure;
+      return [{
+        type: 'hook_failure',
+        event: failure.event,
+        command: failure.command,
+        toolName: failure.toolName,
+        exitCode: failure.exitCode,
+        error: failure.error,
+        timestamp,
+      }];
+    }
+
+    default:
+      return [];
+  }
+}
+
+function blockText(content: string | ContentBlock[] | undefined): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return (content ?? [])
+    .filter((block) => block.type === 'text')
+    .map((block) => block.text ?? '')
+    .join('');
+}
+
+/** Whether a value names a supported SSE format */
+export function isSseFormat(value: unknown): value is SseFormat {
+  return SSE_FORMATS.includes(value as SseFormat);
+}